@@ -39,6 +39,13 @@ export default function Page() {
         <h1 className="sr-only">ghostsend</h1>
       </Link>
 
+      <Link
+        href="/api-keys"
+        className="absolute top-6 right-6 z-30 text-xs font-mono uppercase text-muted-foreground hover:text-foreground transition-colors"
+      >
+        API keys
+      </Link>
+
       {/* Centered main content — fixed height so tab bar doesn't jump when switching tabs */}
       <main className="relative z-20 min-h-screen flex items-center justify-center px-4 py-20">
         <div className="w-full max-w-xl h-[640px] flex flex-col">
@@ -0,0 +1,97 @@
+import { FastifyInstance } from "fastify";
+import type { ApiKeysService } from "../../services/api-keys/api-keys";
+import { createApiKeySchema, listApiKeysSchema, revokeApiKeySchema } from "../../schemas/api-keys";
+import type { CreateApiKeyRequest } from "../../types/api-keys";
+import { requireWalletSession } from "../auth";
+import { apiError } from "../errors";
+
+interface KeyIdParams {
+  keyId: string;
+}
+
+export interface ApiKeysRoutesOptions {
+  apiKeys: ApiKeysService;
+}
+
+/**
+ * Register API key management routes. They take a wallet session only: a key cannot
+ * issue or revoke keys.
+ */
+export async function apiKeysRoutes(app: FastifyInstance, { apiKeys }: ApiKeysRoutesOptions) {
+  // List the signed-in wallet's keys, revoked ones included (keys are only shown on creation)
+  app.get(
+    "/api-keys",
+    { preHandler: requireWalletSession, schema: listApiKeysSchema },
+    async (request, reply) => {
+      try {
+        return reply.send({
+          success: true,
+          apiKeys: await apiKeys.listApiKeys(request.walletAddress!),
+        });
+      } catch (error) {
+        request.log.error({
+          msg: "Error listing API keys",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to list API keys"));
+      }
+    }
+  );
+
+  // Issue a key with the given scopes; the response is the only time the key is shown
+  app.post<{ Body: CreateApiKeyRequest }>(
+    "/api-keys",
+    {
+      preHandler: requireWalletSession,
+      schema: createApiKeySchema,
+      config: { rateLimit: "create" },
+    },
+    async (request, reply) => {
+      try {
+        const result = await apiKeys.issueApiKey(request.walletAddress!, request.body);
+        if (!result.success) {
+          return reply.status(400).send(apiError("VALIDATION_FAILED", result.error));
+        }
+
+        return reply.status(201).send({
+          success: true,
+          apiKey: result.apiKey,
+          key: result.key,
+        });
+      } catch (error) {
+        request.log.error({
+          msg: "Error issuing API key",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to issue API key"));
+      }
+    }
+  );
+
+  // Revoke a key; it stops working at once but stays listed
+  app.delete<{ Params: KeyIdParams }>(
+    "/api-keys/:keyId",
+    { preHandler: requireWalletSession, schema: revokeApiKeySchema },
+    async (request, reply) => {
+      try {
+        const apiKey = await apiKeys.getApiKey(request.params.keyId);
+        if (!apiKey) {
+          return reply.status(404).send(apiError("API_KEY_NOT_FOUND", "API key not found"));
+        }
+        if (apiKey.ownerAddress !== request.walletAddress) {
+          return reply.status(403).send(apiError("FORBIDDEN", "Unauthorized"));
+        }
+
+        await apiKeys.revokeApiKey(apiKey.id);
+
+        return reply.send({ success: true });
+      } catch (error) {
+        request.log.error({
+          msg: "Error revoking API key",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to revoke API key"));
+      }
+    }
+  );
+}
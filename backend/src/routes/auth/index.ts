@@ -0,0 +1,115 @@
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
+import { createSignInChallenge, verifySignIn } from "../../services/auth/siws";
+import { issueSessionToken, verifySessionToken } from "../../services/auth/session-tokens";
+import { API_KEY_PREFIX, type ApiKeysService } from "../../services/api-keys/api-keys";
+import type { ApiKeyScope } from "../../types/api-keys";
+import { createChallengeSchema, verifySignInSchema } from "../../schemas/auth";
+import { apiError } from "../errors";
+import { enforceRateLimit } from "../rate-limits";
+
+interface ChallengeRequest {
+  address: string;
+}
+
+interface VerifyRequest {
+  address: string;
+  nonce: string;
+  signature: string; // base64
+}
+
+function bearerToken(request: FastifyRequest): string | null {
+  const header = request.headers.authorization;
+  return header?.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : null;
+}
+
+/**
+ * preHandler for owner-scoped routes. Requires `Authorization: Bearer <token>` and
+ * sets request.walletAddress.
+ */
+export async function requireWalletSession(request: FastifyRequest, reply: FastifyReply) {
+  const token = bearerToken(request);
+  const address = token ? verifySessionToken(token) : null;
+
+  if (!address) {
+    return reply.status(401).send(apiError("UNAUTHENTICATED", "Wallet session required"));
+  }
+
+  request.walletAddress = address;
+}
+
+/**
+ * preHandler for routes a merchant server may call: accepts a wallet session or an API
+ * key with `scope` (any key when null), and sets request.walletAddress to the wallet
+ * either acts for. Key requests are counted against the key's rate limit, set
+ * request.apiKey and are logged with the key ID. With `optional`, requests without an
+ * Authorization header pass through anonymously.
+ */
+export function requireWalletOrApiKey(
+  apiKeys: ApiKeysService,
+  scope: ApiKeyScope | null,
+  { optional = false }: { optional?: boolean } = {}
+) {
+  return async (request: FastifyRequest, reply: FastifyReply) => {
+    const token = bearerToken(request);
+    if (!token?.startsWith(API_KEY_PREFIX)) {
+      if (optional && request.headers.authorization === undefined) return;
+      return requireWalletSession(request, reply);
+    }
+
+    const apiKey = await apiKeys.authenticate(token);
+    if (!apiKey) {
+      return reply.status(401).send(apiError("API_KEY_INVALID", "Invalid or revoked API key"));
+    }
+    if (scope && !apiKey.scopes.includes(scope)) {
+      return reply
+        .status(403)
+        .send(apiError("API_KEY_SCOPE_MISSING", `API key lacks the ${scope} scope`));
+    }
+
+    const limited = enforceRateLimit(
+      reply,
+      await apiKeys.consumeRateLimit(apiKey.id),
+      "API key rate limit exceeded"
+    );
+    if (limited) return limited;
+
+    request.walletAddress = apiKey.ownerAddress;
+    request.apiKeyId = apiKey.id;
+    request.log = request.log.child({ apiKeyId: apiKey.id });
+  };
+}
+
+/**
+ * Register wallet sign-in routes
+ */
+export async function authRoutes(app: FastifyInstance) {
+  // Issue a sign-in challenge for a wallet
+  app.post<{ Body: ChallengeRequest }>(
+    "/auth/challenge",
+    { schema: createChallengeSchema },
+    async (request, reply) => {
+      try {
+        const challenge = createSignInChallenge(request.body.address);
+        return reply.send({ success: true, ...challenge });
+      } catch {
+        return reply.status(400).send(apiError("VALIDATION_FAILED", "Invalid wallet address"));
+      }
+    }
+  );
+
+  // Exchange a signed challenge for a session token
+  app.post<{ Body: VerifyRequest }>(
+    "/auth/verify",
+    { schema: verifySignInSchema },
+    async (request, reply) => {
+      const { address, nonce, signature } = request.body;
+      const error = verifySignIn(address, nonce, signature);
+      if (error) {
+        return reply.status(401).send(apiError("SIGN_IN_FAILED", error));
+      }
+
+      const session = issueSessionToken(address);
+      return reply.send({ success: true, ...session });
+    }
+  );
+}
@@ -0,0 +1,185 @@
+import { FastifyInstance } from "fastify";
+import type { ApiKeysService } from "../../services/api-keys/api-keys";
+import type { PayUrlBuilder } from "../../services/payment-links/pay-url";
+import type { PaymentLinksRepository } from "../../services/payment-links/repository";
+import {
+  buildSuccessRedirect,
+  isCheckoutSession,
+  planCheckoutSession,
+  toCheckoutSession,
+  type CheckoutSessionLink,
+} from "../../services/checkout/sessions";
+import {
+  CHECKOUT_TOKEN_ISSUER,
+  getCheckoutKeyId,
+  issueCheckoutResultToken,
+} from "../../services/checkout/result-token";
+import { getCheckoutPublicKey } from "../../services/checkout/signing-key";
+import {
+  checkoutResultSchema,
+  checkoutSigningKeySchema,
+  createCheckoutSessionSchema,
+  getCheckoutSessionSchema,
+} from "../../schemas/checkout";
+import type { CreateCheckoutSessionRequest, PaymentRecord } from "../../types/payment-links";
+import { requireWalletOrApiKey } from "../auth";
+import { apiError } from "../errors";
+
+interface SessionIdParams {
+  sessionId: string;
+}
+
+export interface CheckoutRoutesOptions {
+  repository: PaymentLinksRepository;
+  apiKeys: ApiKeysService;
+  /** URL of the page that pays a session (shared with payment links) */
+  payUrl: PayUrlBuilder;
+}
+
+/**
+ * Register checkout session routes. Merchants create and read sessions with their
+ * wallet session or an API key with links:create; the result and signing key routes
+ * are public so the pay page and the merchant's success page can use them.
+ */
+export async function checkoutRoutes(
+  app: FastifyInstance,
+  { repository, apiKeys, payUrl }: CheckoutRoutesOptions
+) {
+  const createLinks = requireWalletOrApiKey(apiKeys, "links:create");
+
+  /** The session's payment record, once it has been paid */
+  const findPayment = async (session: CheckoutSessionLink): Promise<PaymentRecord | undefined> => {
+    if (session.usageCount === 0) return undefined;
+    const page = await repository.listPaymentRecordsByRecipient(session.recipientAddress, {
+      paymentId: session.paymentId,
+      limit: 1,
+    });
+    return page.success ? page.items[0] : undefined;
+  };
+
+  // Open a checkout session for an order; the payer is sent to the returned url
+  app.post<{ Body: CreateCheckoutSessionRequest }>(
+    "/checkout/sessions",
+    {
+      preHandler: createLinks,
+      schema: createCheckoutSessionSchema,
+      config: { rateLimit: "create" },
+    },
+    async (request, reply) => {
+      try {
+        const plan = planCheckoutSession(request.walletAddress!, request.body);
+        if ("error" in plan) {
+          return reply.status(400).send(apiError("VALIDATION_FAILED", plan.error));
+        }
+
+        const link = await repository.createPaymentLink(plan.link, {
+          checkout: plan.checkout,
+          apiKeyId: request.apiKeyId ?? undefined,
+        });
+        if (!isCheckoutSession(link)) throw new Error("Checkout details were not stored");
+
+        return reply.status(201).send({
+          success: true,
+          session: toCheckoutSession(link, payUrl(request, link.paymentId)),
+        });
+      } catch (error) {
+        request.log.error({
+          msg: "Error creating checkout session",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply
+          .status(500)
+          .send(apiError("INTERNAL_ERROR", "Failed to create checkout session"));
+      }
+    }
+  );
+
+  // Session status for the merchant that created it, with its metadata and payment
+  app.get<{ Params: SessionIdParams }>(
+    "/checkout/sessions/:sessionId",
+    { preHandler: createLinks, schema: getCheckoutSessionSchema },
+    async (request, reply) => {
+      try {
+        const link = await repository.getPaymentLink(request.params.sessionId);
+        if (!link || !isCheckoutSession(link)) {
+          return reply
+            .status(404)
+            .send(apiError("SESSION_NOT_FOUND", "Checkout session not found"));
+        }
+        if (link.recipientAddress !== request.walletAddress) {
+          return reply.status(403).send(apiError("FORBIDDEN", "Unauthorized"));
+        }
+
+        return reply.send({
+          success: true,
+          session: toCheckoutSession(
+            link,
+            payUrl(request, link.paymentId),
+            await findPayment(link)
+          ),
+        });
+      } catch (error) {
+        request.log.error({
+          msg: "Error fetching checkout session",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply
+          .status(500)
+          .send(apiError("INTERNAL_ERROR", "Failed to fetch checkout session"));
+      }
+    }
+  );
+
+  // Signed result of a paid session and where to send the payer with it
+  app.get<{ Params: SessionIdParams }>(
+    "/checkout/sessions/:sessionId/result",
+    { schema: checkoutResultSchema },
+    async (request, reply) => {
+      try {
+        const link = await repository.getPaymentLink(request.params.sessionId);
+        if (!link || !isCheckoutSession(link)) {
+          return reply
+            .status(404)
+            .send(apiError("SESSION_NOT_FOUND", "Checkout session not found"));
+        }
+
+        const payment = await findPayment(link);
+        if (!payment) {
+          return reply
+            .status(409)
+            .send(apiError("SESSION_NOT_PAID", "Checkout session has not been paid"));
+        }
+
+        const token = issueCheckoutResultToken(link.paymentId, link.checkout, payment);
+        return reply.send({
+          success: true,
+          token,
+          redirectUrl: buildSuccessRedirect(link.checkout.successUrl, token),
+        });
+      } catch (error) {
+        request.log.error({
+          msg: "Error issuing checkout result",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply
+          .status(500)
+          .send(apiError("INTERNAL_ERROR", "Failed to issue checkout result"));
+      }
+    }
+  );
+
+  // Public key that verifies result tokens, as a JWK and as PEM
+  app.get(
+    "/checkout/signing-key",
+    { schema: checkoutSigningKeySchema },
+    async (_request, reply) => {
+      const publicKey = getCheckoutPublicKey();
+      return reply.send({
+        success: true,
+        issuer: CHECKOUT_TOKEN_ISSUER,
+        jwk: { ...publicKey.export({ format: "jwk" }), kid: getCheckoutKeyId(), alg: "EdDSA" },
+        pem: publicKey.export({ format: "pem", type: "spki" }),
+      });
+    }
+  );
+}
@@ -0,0 +1,42 @@
+import swagger from "@fastify/swagger";
+import swaggerUi from "@fastify/swagger-ui";
+import type { FastifyInstance } from "fastify";
+import { sharedSchemas } from "../../schemas";
+
+const API_VERSION = "0.1.0";
+
+/**
+ * Build an OpenAPI 3.1 document from the route schemas and serve it at /openapi.json,
+ * with a docs UI at /docs. Call before any route is added so every route is documented.
+ */
+export function registerApiDocs(app: FastifyInstance) {
+  for (const schema of sharedSchemas) app.addSchema(schema);
+
+  app.register(swagger, {
+    openapi: {
+      openapi: "3.1.0",
+      info: {
+        title: "Ghostsend API",
+        description: "Private payment links, withdrawals and merchant integrations",
+        version: API_VERSION,
+      },
+      components: {
+        securitySchemes: {
+          bearerAuth: {
+            type: "http",
+            scheme: "bearer",
+            description: "Wallet session token from /auth/verify, or an API key (gsk_…)",
+          },
+        },
+      },
+    },
+    // Name components after the shared schemas' $id instead of def-0, def-1, …
+    refResolver: {
+      buildLocalReference: (json, _baseUri, _fragment, i) =>
+        typeof json.$id === "string" ? json.$id : `def-${i}`,
+    },
+  });
+  app.register(swaggerUi, { routePrefix: "/docs" });
+
+  app.get("/openapi.json", { schema: { hide: true } }, async () => app.swagger());
+}
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import Fastify, { type FastifyInstance } from "fastify";
+import { apiError, registerErrorHandlers } from "./index";
+
+let app: FastifyInstance;
+
+before(async () => {
+  app = Fastify({ bodyLimit: 64 });
+  registerErrorHandlers(app);
+  app.post(
+    "/echo",
+    {
+      schema: {
+        body: { type: "object", required: ["name"], properties: { name: { type: "string" } } },
+      },
+    },
+    async (request) => ({ success: true, body: request.body })
+  );
+  app.get("/forbidden", async () => {
+    throw Object.assign(new Error("Not yours"), { statusCode: 403 });
+  });
+  app.get("/teapot", async () => {
+    throw Object.assign(new Error("I'm a teapot"), { statusCode: 418 });
+  });
+  app.get("/broken", async () => {
+    throw new Error("database is down");
+  });
+  await app.ready();
+});
+
+after(() => app.close());
+
+const post = (payload: string, contentType = "application/json") =>
+  app.inject({ method: "POST", url: "/echo", payload, headers: { "content-type": contentType } });
+
+test("reports schema failures and unparseable JSON as VALIDATION_FAILED", async () => {
+  const missing = await post("{}");
+  assert.equal(missing.statusCode, 400);
+  assert.equal(missing.json().code, "VALIDATION_FAILED");
+
+  const malformed = await post("{");
+  assert.equal(malformed.statusCode, 400);
+  assert.equal(malformed.json().code, "VALIDATION_FAILED");
+});
+
+test("gives oversized and unsupported bodies their own codes", async () => {
+  const large = await post(JSON.stringify({ name: "x".repeat(100) }));
+  assert.equal(large.statusCode, 413);
+  assert.equal(large.json().code, "PAYLOAD_TOO_LARGE");
+
+  const xml = await post("<name>x</name>", "application/xml");
+  assert.equal(xml.statusCode, 415);
+  assert.equal(xml.json().code, "UNSUPPORTED_MEDIA_TYPE");
+});
+
+test("maps other client errors by status", async () => {
+  const forbidden = await app.inject({ method: "GET", url: "/forbidden" });
+  assert.equal(forbidden.statusCode, 403);
+  assert.deepEqual(forbidden.json(), apiError("FORBIDDEN", "Not yours"));
+
+  const teapot = await app.inject({ method: "GET", url: "/teapot" });
+  assert.equal(teapot.statusCode, 418);
+  assert.equal(teapot.json().code, "BAD_REQUEST");
+
+  const unknown = await app.inject({ method: "GET", url: "/nowhere" });
+  assert.equal(unknown.statusCode, 404);
+  assert.equal(unknown.json().code, "NOT_FOUND");
+});
+
+test("hides the message of an uncaught error", async () => {
+  const res = await app.inject({ method: "GET", url: "/broken" });
+  assert.equal(res.statusCode, 500);
+  assert.deepEqual(res.json(), apiError("INTERNAL_ERROR", "Internal server error"));
+});
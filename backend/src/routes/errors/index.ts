@@ -0,0 +1,44 @@
+import type { FastifyError, FastifyInstance } from "fastify";
+import type { ErrorCode, ErrorResponse } from "../../types/errors";
+
+/** Body of an error response */
+export function apiError(code: ErrorCode, error: string): ErrorResponse {
+  return { success: false, code, error };
+}
+
+// Codes for client errors raised by Fastify and its plugins rather than sent by a route
+const CLIENT_ERROR_CODES: Partial<Record<number, ErrorCode>> = {
+  400: "VALIDATION_FAILED", // e.g. a body that is not valid JSON
+  401: "UNAUTHENTICATED",
+  403: "FORBIDDEN",
+  404: "NOT_FOUND",
+  413: "PAYLOAD_TOO_LARGE",
+  415: "UNSUPPORTED_MEDIA_TYPE",
+  429: "RATE_LIMITED",
+};
+
+/**
+ * Answer schema validation failures, malformed or rejected bodies, unknown routes and
+ * uncaught errors in the same shape as the routes' own errors
+ */
+export function registerErrorHandlers(app: FastifyInstance) {
+  app.setErrorHandler((error: FastifyError, request, reply) => {
+    if (error.validation) {
+      return reply.status(400).send(apiError("VALIDATION_FAILED", error.message));
+    }
+    const status = error.statusCode ?? 500;
+    if (status < 500) {
+      const code = CLIENT_ERROR_CODES[status] ?? "BAD_REQUEST";
+      return reply.status(status).send(apiError(code, error.message));
+    }
+
+    request.log.error({ msg: "Unhandled error", error: error.message });
+    return reply.status(500).send(apiError("INTERNAL_ERROR", "Internal server error"));
+  });
+
+  app.setNotFoundHandler((request, reply) => {
+    return reply
+      .status(404)
+      .send(apiError("NOT_FOUND", `Route ${request.method} ${request.url} not found`));
+  });
+}
@@ -0,0 +1,41 @@
+import { FastifyInstance } from "fastify";
+import { MAX_BASE_UNITS, getTokenByMint, type RelayerConfigCache } from "@ghostsend/shared";
+import { computeFeeBreakdown } from "../../services/withdraw/quotes";
+import { feeBreakdownSchema } from "../../schemas/fees";
+import type { FeeBreakdownQuery } from "../../types/withdraw";
+import { apiError } from "../errors";
+
+export interface FeesRoutesOptions {
+  relayerConfig: RelayerConfigCache;
+}
+
+/**
+ * Register the fee breakdown route. Public, like the relayer config it is computed
+ * from; screens show these numbers so they match what withdrawals are checked against.
+ */
+export async function feesRoutes(app: FastifyInstance, { relayerConfig }: FeesRoutesOptions) {
+  app.get<{ Querystring: FeeBreakdownQuery }>(
+    "/fees/quote",
+    { schema: feeBreakdownSchema },
+    async (request, reply) => {
+      const { mint, recipientAmount, recipients = 1 } = request.query;
+
+      const token = getTokenByMint(mint);
+      if (!token) {
+        return reply.status(400).send(apiError("INVALID_TOKEN", "Unsupported token"));
+      }
+
+      const breakdown = computeFeeBreakdown(
+        token,
+        BigInt(recipientAmount),
+        recipients,
+        await relayerConfig.get()
+      );
+      if (BigInt(breakdown.totalBaseUnits) > MAX_BASE_UNITS) {
+        return reply.status(400).send(apiError("VALIDATION_FAILED", "Amount is too large"));
+      }
+
+      return reply.send({ success: true, breakdown });
+    }
+  );
+}
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { after, before, test } from "node:test";
+import Fastify, { type FastifyInstance } from "fastify";
+import { Keypair } from "@solana/web3.js";
+import { sharedSchemas } from "../../schemas";
+import { createApiKeysService } from "../../services/api-keys/api-keys";
+import { createMemoryApiKeyStorage } from "../../services/api-keys/storage/memory";
+import {
+  PROGRAM_ID,
+  fakeRpc,
+  fakeWithdrawal,
+} from "../../services/payment-links/fake-rpc.test-helper";
+import { createPayUrlBuilder } from "../../services/payment-links/pay-url";
+import {
+  createPaymentLinksRepository,
+  type PaymentLinksRepository,
+} from "../../services/payment-links/repository";
+import { createMemoryPaymentLinksStorage } from "../../services/payment-links/storage/memory";
+import { createWithdrawalVerifier } from "../../services/payment-links/verify-withdrawal";
+import { createMemoryRateLimitStore } from "../../services/rate-limit/memory";
+import { createWebhooksService } from "../../services/webhooks/webhooks";
+import { createMemoryWebhookStorage } from "../../services/webhooks/storage/memory";
+import { registerErrorHandlers } from "../errors";
+import { paymentLinksRoutes } from "./index";
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+const recipientAddress = Keypair.generate().publicKey.toBase58();
+
+let app: FastifyInstance;
+let repository: PaymentLinksRepository;
+
+before(async () => {
+  repository = createPaymentLinksRepository(createMemoryPaymentLinksStorage());
+  app = Fastify();
+  app.decorateRequest("walletAddress", null);
+  app.decorateRequest("apiKeyId", null);
+  registerErrorHandlers(app);
+  for (const schema of sharedSchemas) app.addSchema(schema);
+
+  app.register(paymentLinksRoutes, {
+    repository,
+    verifier: createWithdrawalVerifier({
+      connection: fakeRpc({
+        paid: fakeWithdrawal({ recipient: recipientAddress, lamports: 2_000_000 }),
+        "paid-twice": fakeWithdrawal({ recipient: recipientAddress, lamports: 2_000_000 }),
+        underpaid: fakeWithdrawal({ recipient: recipientAddress, lamports: 1_000_000 }),
+      }),
+      solMint: SOL_MINT,
+      programId: PROGRAM_ID,
+    }),
+    webhooks: createWebhooksService({
+      storage: createMemoryWebhookStorage(),
+      paymentLinks: repository,
+      log: app.log,
+    }),
+    apiKeys: createApiKeysService({
+      storage: createMemoryApiKeyStorage(),
+      rateLimitStore: createMemoryRateLimitStore(),
+      rateLimitPerMinute: 60,
+    }),
+    payUrl: createPayUrlBuilder(undefined),
+  });
+  await app.ready();
+});
+
+after(() => app.close());
+
+const createLink = (reusable = false) =>
+  repository.createPaymentLink({
+    recipientAddress,
+    tokenMint: SOL_MINT,
+    amountType: "fixed",
+    fixedAmount: "2000000",
+    reusable,
+  });
+
+const complete = (paymentId: string, txSignature: string, amount = "2000000") =>
+  app.inject({
+    method: "POST",
+    url: `/payment-links/${paymentId}/complete`,
+    payload: { txSignature, amount },
+  });
+
+test("records a verified payment and completes a one-time link", async () => {
+  const link = await createLink();
+
+  const res = await complete(link.paymentId, "paid");
+  assert.equal(res.statusCode, 200);
+  assert.deepEqual(res.json(), { success: true });
+
+  const stored = await repository.getPaymentLink(link.paymentId);
+  assert.equal(stored?.usageCount, 1);
+  assert.equal(stored?.status, "completed");
+});
+
+test("refuses a transaction the RPC does not return", async () => {
+  const link = await createLink();
+
+  const res = await complete(link.paymentId, "unknown");
+  assert.equal(res.statusCode, 400);
+  assert.deepEqual(res.json(), {
+    success: false,
+    code: "TX_VERIFICATION_FAILED",
+    error: "Transaction not found",
+  });
+  assert.equal((await repository.getPaymentLink(link.paymentId))?.usageCount, 0);
+});
+
+test("refuses a transaction that paid less than the link's amount", async () => {
+  const link = await createLink();
+
+  const res = await complete(link.paymentId, "underpaid");
+  assert.equal(res.statusCode, 400);
+  assert.equal(res.json().error, "Transaction amount does not match payment");
+  assert.equal((await repository.getPaymentLink(link.paymentId))?.usageCount, 0);
+});
+
+test("refuses a transaction already recorded on another link", async () => {
+  const [first, second] = [await createLink(true), await createLink(true)];
+  assert.equal((await complete(first.paymentId, "paid-twice")).statusCode, 200);
+
+  const res = await complete(second.paymentId, "paid-twice");
+  assert.equal(res.statusCode, 409);
+  assert.equal(res.json().code, "TX_ALREADY_RECORDED");
+  assert.equal((await repository.getPaymentLink(second.paymentId))?.usageCount, 0);
+});
@@ -1,281 +1,523 @@
+import { Readable } from "stream";
 import { FastifyInstance } from "fastify";
 import { PublicKey } from "@solana/web3.js";
-import { tokens as sdkTokens } from "privacycash/utils";
-import { PaymentLinksStore } from "../../services/payment-links/store";
-import type { SDKToken } from "../../types/sdk";
+import { getTokenByMint } from "@ghostsend/shared";
 import {
+  checkCreateRequest,
+  toPublicInfo,
+  type PaymentLinksRepository,
+} from "../../services/payment-links/repository";
+import type { PayUrlBuilder } from "../../services/payment-links/pay-url";
+import type { WithdrawalVerifier } from "../../services/payment-links/verify-withdrawal";
+import type { ApiKeysService } from "../../services/api-keys/api-keys";
+import type { WebhooksService } from "../../services/webhooks/webhooks";
+import {
+  HISTORY_EXPORT_CONTENT_TYPES,
+  exportPaymentHistory,
+} from "../../services/payment-links/history-export";
+import {
+  BaseUnits,
   CreatePaymentLinkRequest,
   CreatePaymentLinkResponse,
-  PaymentLinkPublicInfo,
+  HistoryExportFormat,
+  UpdatePaymentLinkRequest,
 } from "../../types/payment-links";
-
-interface PaymentLinkQuery {
-  recipientAddress: string;
-}
+import {
+  archivePaymentLinkSchema,
+  completePaymentSchema,
+  createPaymentLinkSchema,
+  exportPaymentHistorySchema,
+  getPaymentLinkSchema,
+  listPaymentHistorySchema,
+  listPaymentLinksSchema,
+  paymentLinkAuditSchema,
+  purgePaymentLinkSchema,
+  restorePaymentLinkSchema,
+  updatePaymentLinkSchema,
+} from "../../schemas/payment-links";
+import { requireWalletOrApiKey, requireWalletSession } from "../auth";
+import { apiError } from "../errors";
+import { parseLinkListQuery, parseRecordListQuery, type ListQueryString } from "./list-query";
 
 interface CompletePaymentRequest {
   txSignature: string;
-  amount: number;
+  amount: BaseUnits;
 }
 
 interface PaymentIdParams {
   paymentId: string;
 }
 
+export interface PaymentLinksRoutesOptions {
+  repository: PaymentLinksRepository;
+  /** Checks /complete transactions on chain before they are recorded */
+  verifier: WithdrawalVerifier;
+  /** Notified of payments recorded through /complete */
+  webhooks: WebhooksService;
+  apiKeys: ApiKeysService;
+  /** URL of the page that pays a link */
+  payUrl: PayUrlBuilder;
+}
+
 /**
  * Register payment links routes
  */
-export async function paymentLinksRoutes(app: FastifyInstance) {
-  // List payment links for a recipient
-  app.get<{ Querystring: PaymentLinkQuery }>("/payment-links", async (request, reply) => {
-    try {
-      const { recipientAddress } = request.query;
-
-      if (!recipientAddress) {
-        return reply.status(400).send({
-          success: false,
-          error: "Recipient address is required",
-        });
-      }
+export async function paymentLinksRoutes(
+  app: FastifyInstance,
+  { repository, verifier, webhooks, apiKeys, payUrl }: PaymentLinksRoutesOptions
+) {
+  // Link creation stays open to the app; merchant servers authenticate with a key
+  const createLinks = requireWalletOrApiKey(apiKeys, "links:create", { optional: true });
+  const readHistory = requireWalletOrApiKey(apiKeys, "history:read");
+
+  // List payment links owned by the signed-in wallet, one page at a time, with filters
+  // and sort from the query string; ?archived=true lists archived ones
+  app.get<{ Querystring: ListQueryString }>(
+    "/payment-links",
+    { preHandler: requireWalletSession, schema: listPaymentLinksSchema },
+    async (request, reply) => {
+      try {
+        const parsed = parseLinkListQuery(request.query);
+        if ("error" in parsed) {
+          return reply.status(400).send(apiError("VALIDATION_FAILED", parsed.error));
+        }
 
-      const paymentLinks = PaymentLinksStore.listPaymentLinksByRecipient(recipientAddress)
-        .map((link) => PaymentLinksStore.getPaymentLinkPublicInfo(link.paymentId))
-        .filter((link): link is PaymentLinkPublicInfo => Boolean(link));
+        const page = await repository.listPaymentLinksByRecipient(
+          request.walletAddress!,
+          parsed.query
+        );
+        if (!page.success) {
+          return reply.status(400).send(apiError("VALIDATION_FAILED", page.error));
+        }
 
-      return reply.send({
-        success: true,
-        paymentLinks,
-      });
-    } catch (error) {
-      request.log.error({
-        msg: "Error listing payment links",
-        error: error instanceof Error ? error.message : String(error),
-      });
-      return reply.status(500).send({
-        success: false,
-        error: "Failed to list payment links",
-      });
+        return reply.send({
+          success: true,
+          paymentLinks: page.items.map(toPublicInfo),
+          nextCursor: page.nextCursor,
+        });
+      } catch (error) {
+        request.log.error({
+          msg: "Error listing payment links",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to list payment links"));
+      }
     }
-  });
+  );
+
+  // List payment history for the signed-in wallet, paged and filtered like the link list
+  app.get<{ Querystring: ListQueryString }>(
+    "/payment-links/history",
+    { preHandler: readHistory, schema: listPaymentHistorySchema },
+    async (request, reply) => {
+      try {
+        const parsed = parseRecordListQuery(request.query);
+        if ("error" in parsed) {
+          return reply.status(400).send(apiError("VALIDATION_FAILED", parsed.error));
+        }
 
-  // List payment history for a recipient
-  app.get<{ Querystring: PaymentLinkQuery }>("/payment-links/history", async (request, reply) => {
-    try {
-      const { recipientAddress } = request.query;
+        const page = await repository.listPaymentRecordsByRecipient(
+          request.walletAddress!,
+          parsed.query
+        );
+        if (!page.success) {
+          return reply.status(400).send(apiError("VALIDATION_FAILED", page.error));
+        }
 
-      if (!recipientAddress) {
-        return reply.status(400).send({
-          success: false,
-          error: "Recipient address is required",
+        return reply.send({
+          success: true,
+          payments: page.items,
+          nextCursor: page.nextCursor,
         });
+      } catch (error) {
+        request.log.error({
+          msg: "Error listing payment history",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to list payment history"));
       }
+    }
+  );
 
-      const payments = PaymentLinksStore.listPaymentRecordsByRecipient(recipientAddress);
+  // Download the signed-in wallet's payment history as CSV or JSON (?format=csv|json).
+  // Takes the history filters; the whole matching history is streamed, not one page.
+  app.get<{ Querystring: ListQueryString & { format?: HistoryExportFormat } }>(
+    "/payment-links/history/export",
+    { preHandler: readHistory, schema: exportPaymentHistorySchema },
+    async (request, reply) => {
+      const format = request.query.format ?? "csv";
 
-      return reply.send({
-        success: true,
-        payments,
-      });
-    } catch (error) {
-      request.log.error({
-        msg: "Error listing payment history",
-        error: error instanceof Error ? error.message : String(error),
-      });
-      return reply.status(500).send({
-        success: false,
-        error: "Failed to list payment history",
+      const parsed = parseRecordListQuery(request.query);
+      if ("error" in parsed) {
+        return reply.status(400).send(apiError("VALIDATION_FAILED", parsed.error));
+      }
+
+      const stream = Readable.from(
+        exportPaymentHistory(repository, request.walletAddress!, format, parsed.query)
+      );
+      stream.on("error", (error) => {
+        request.log.error({
+          msg: "Error exporting payment history",
+          error: error instanceof Error ? error.message : String(error),
+        });
       });
+
+      const date = new Date().toISOString().slice(0, 10);
+      return reply
+        .header("Content-Type", HISTORY_EXPORT_CONTENT_TYPES[format])
+        .header(
+          "Content-Disposition",
+          `attachment; filename="ghostsend-payments-${date}.${format}"`
+        )
+        .send(stream);
     }
-  });
-  // Create payment link
-  app.post<{ Body: CreatePaymentLinkRequest }>("/payment-links", async (request, reply) => {
-    try {
-      const body = request.body;
+  );
 
-      // Validate recipient address
+  // Create payment link
+  app.post<{ Body: CreatePaymentLinkRequest }>(
+    "/payment-links",
+    { preHandler: createLinks, schema: createPaymentLinkSchema, config: { rateLimit: "create" } },
+    async (request, reply) => {
       try {
-        new PublicKey(body.recipientAddress);
-      } catch {
-        return reply.status(400).send({
-          success: false,
-          error: "Invalid recipient address",
-        });
-      }
+        const body = { ...request.body };
+
+        // A key creates links paying the wallet it belongs to
+        if (request.apiKeyId) {
+          if (!body.recipientAddress) body.recipientAddress = request.walletAddress!;
+          if (body.recipientAddress !== request.walletAddress) {
+            return reply
+              .status(400)
+              .send(
+                apiError("INVALID_RECIPIENT", "API keys can only create links for their own wallet")
+              );
+          }
+        }
 
-      // Validate token type
-      const validMints = new Set(
-        sdkTokens.map((token: SDKToken) =>
-          typeof token.pubkey === "string" ? token.pubkey : token.pubkey.toBase58()
-        )
-      );
-      if (!validMints.has(body.tokenMint)) {
-        return reply.status(400).send({
-          success: false,
-          error: "Invalid token mint",
-        });
-      }
+        // Validate recipient address
+        try {
+          new PublicKey(body.recipientAddress);
+        } catch {
+          return reply.status(400).send(apiError("INVALID_RECIPIENT", "Invalid recipient address"));
+        }
 
-      // Validate amount type
-      if (!["fixed", "flexible"].includes(body.amountType)) {
-        return reply.status(400).send({
-          success: false,
-          error: "Invalid amount type",
-        });
-      }
+        // Validate token type
+        if (!getTokenByMint(body.tokenMint)) {
+          return reply.status(400).send(apiError("INVALID_TOKEN", "Invalid token mint"));
+        }
 
-      // Create payment link
-      const paymentLink = PaymentLinksStore.createPaymentLink(body);
-      const paymentLinkPublic = PaymentLinksStore.getPaymentLinkPublicInfo(paymentLink.paymentId);
+        const problem = checkCreateRequest(body);
+        if (problem) {
+          return reply.status(400).send(apiError("VALIDATION_FAILED", problem));
+        }
 
-      if (!paymentLinkPublic) {
-        return reply.status(500).send({
-          success: false,
-          error: "Failed to prepare payment link",
+        // Create payment link
+        const paymentLink = await repository.createPaymentLink(body, {
+          apiKeyId: request.apiKeyId ?? undefined,
         });
-      }
-
-      // TODO: Base URL should be configurable
-      const url = `${request.protocol}://${request.hostname}/pay/${paymentLink.paymentId}`;
+        const paymentLinkPublic = toPublicInfo(paymentLink);
 
-      const response: CreatePaymentLinkResponse = {
-        success: true,
-        paymentLink: paymentLinkPublic,
-        url,
-      };
+        const response: CreatePaymentLinkResponse = {
+          success: true,
+          paymentLink: paymentLinkPublic,
+          url: payUrl(request, paymentLink.paymentId),
+        };
 
-      return reply.status(201).send(response);
-    } catch (error) {
-      request.log.error({
-        msg: "Error creating payment link",
-        error: error instanceof Error ? error.message : String(error),
-      });
-      return reply.status(500).send({
-        success: false,
-        error: error instanceof Error ? error.message : "Failed to create payment link",
-      });
+        return reply.status(201).send(response);
+      } catch (error) {
+        request.log.error({
+          msg: "Error creating payment link",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to create payment link"));
+      }
     }
-  });
+  );
 
   // Get payment link public info
-  app.get<{ Params: PaymentIdParams }>("/payment-links/:paymentId", async (request, reply) => {
-    try {
-      const { paymentId } = request.params;
+  app.get<{ Params: PaymentIdParams }>(
+    "/payment-links/:paymentId",
+    { schema: getPaymentLinkSchema },
+    async (request, reply) => {
+      try {
+        const { paymentId } = request.params;
 
-      // Get public info (does not include recipient address)
-      const paymentLink = PaymentLinksStore.getPaymentLinkPublicInfo(paymentId);
+        // Get public info (does not include recipient address)
+        const paymentLink = await repository.getPaymentLinkPublicInfo(paymentId);
+
+        if (!paymentLink) {
+          return reply.status(404).send(apiError("LINK_NOT_FOUND", "Payment link not found"));
+        }
 
-      if (!paymentLink) {
-        return reply.status(404).send({
-          success: false,
-          error: "Payment link not found",
+        return reply.send({
+          success: true,
+          paymentLink,
+        });
+      } catch (error) {
+        request.log.error({
+          msg: "Error fetching payment link",
+          error: error instanceof Error ? error.message : String(error),
         });
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to fetch payment link"));
       }
-
-      return reply.send({
-        success: true,
-        paymentLink,
-      });
-    } catch (error) {
-      request.log.error({
-        msg: "Error fetching payment link",
-        error: error instanceof Error ? error.message : String(error),
-      });
-      return reply.status(500).send({
-        success: false,
-        error: "Failed to fetch payment link",
-      });
     }
-  });
+  );
 
-  // Complete payment
+  // Complete payment; the transaction must be a confirmed Privacy Cash withdrawal to the
+  // link's recipient for the stated amount
   app.post<{ Params: PaymentIdParams; Body: CompletePaymentRequest }>(
     "/payment-links/:paymentId/complete",
+    { schema: completePaymentSchema },
     async (request, reply) => {
       try {
         const { paymentId } = request.params;
         const { txSignature, amount } = request.body;
 
-        const paymentLink = PaymentLinksStore.getPaymentLink(paymentId);
+        const paymentLink = await repository.getPaymentLink(paymentId);
 
         if (!paymentLink) {
-          return reply.status(404).send({
-            success: false,
-            error: "Payment link not found",
-          });
+          return reply.status(404).send(apiError("LINK_NOT_FOUND", "Payment link not found"));
         }
 
-        if (!txSignature) {
-          return reply.status(400).send({
-            success: false,
-            error: "Transaction signature is required",
-          });
+        if (!(await repository.canAcceptPayment(paymentId))) {
+          return reply
+            .status(410)
+            .send(apiError("LINK_INACTIVE", "Payment link is no longer active"));
         }
 
-        const validation = PaymentLinksStore.validateAmount(paymentId, amount);
+        const validation = await repository.validateAmount(paymentId, BigInt(amount));
         if (!validation.valid) {
-          return reply.status(400).send({
-            success: false,
-            error: validation.error,
-          });
+          return reply
+            .status(400)
+            .send(
+              apiError(
+                "AMOUNT_MISMATCH",
+                validation.error ?? "Amount does not match the payment link"
+              )
+            );
         }
 
-        if (!PaymentLinksStore.hasPaymentRecord(paymentId, txSignature)) {
-          PaymentLinksStore.addPaymentRecord(paymentId, amount, paymentLink.tokenMint, txSignature);
+        const verificationError = await verifier.verify({
+          txSignature,
+          recipientAddress: paymentLink.recipientAddress,
+          tokenMint: paymentLink.tokenMint,
+          amount,
+        });
+        if (verificationError) {
+          return reply.status(400).send(apiError("TX_VERIFICATION_FAILED", verificationError));
+        }
 
-          // Increment usage count (marks one-time links as completed)
-          PaymentLinksStore.incrementUsageCount(paymentId);
+        const record = await repository.addPaymentRecord(
+          paymentId,
+          amount,
+          paymentLink.tokenMint,
+          txSignature
+        );
+        if (!record) {
+          return reply
+            .status(409)
+            .send(apiError("TX_ALREADY_RECORDED", "Transaction already recorded"));
         }
 
+        // Increment usage count (marks one-time links as completed)
+        await repository.incrementUsageCount(paymentId);
+        await webhooks.notifyPaymentCompleted(paymentLink, record);
+
         return reply.send({ success: true });
       } catch (error) {
         request.log.error({
           msg: "Error completing payment",
           error: error instanceof Error ? error.message : String(error),
         });
-        return reply.status(500).send({
-          success: false,
-          error: "Failed to complete payment",
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to complete payment"));
+      }
+    }
+  );
+
+  // Edit, pause or resume a payment link; only the signed-in owner may edit
+  app.patch<{ Params: PaymentIdParams; Body: UpdatePaymentLinkRequest }>(
+    "/payment-links/:paymentId",
+    { preHandler: requireWalletSession, schema: updatePaymentLinkSchema },
+    async (request, reply) => {
+      try {
+        const { paymentId } = request.params;
+
+        const paymentLink = await repository.getPaymentLink(paymentId);
+
+        if (!paymentLink) {
+          return reply.status(404).send(apiError("LINK_NOT_FOUND", "Payment link not found"));
+        }
+
+        if (paymentLink.recipientAddress !== request.walletAddress) {
+          return reply.status(403).send(apiError("FORBIDDEN", "Unauthorized"));
+        }
+
+        const result = await repository.updatePaymentLink(
+          paymentId,
+          request.walletAddress,
+          request.body
+        );
+        if (!result.success) {
+          return reply.status(400).send(apiError("VALIDATION_FAILED", result.error));
+        }
+
+        return reply.send({
+          success: true,
+          paymentLink: toPublicInfo(result.link),
+        });
+      } catch (error) {
+        request.log.error({
+          msg: "Error updating payment link",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to update payment link"));
+      }
+    }
+  );
+
+  // Audit trail of owner edits to a payment link
+  app.get<{ Params: PaymentIdParams }>(
+    "/payment-links/:paymentId/audit",
+    { preHandler: requireWalletSession, schema: paymentLinkAuditSchema },
+    async (request, reply) => {
+      try {
+        const { paymentId } = request.params;
+
+        const paymentLink = await repository.getPaymentLink(paymentId);
+
+        if (!paymentLink) {
+          return reply.status(404).send(apiError("LINK_NOT_FOUND", "Payment link not found"));
+        }
+
+        if (paymentLink.recipientAddress !== request.walletAddress) {
+          return reply.status(403).send(apiError("FORBIDDEN", "Unauthorized"));
+        }
+
+        const entries = await repository.listAuditEntries(paymentId);
+
+        return reply.send({
+          success: true,
+          entries,
+        });
+      } catch (error) {
+        request.log.error({
+          msg: "Error listing payment link audit",
+          error: error instanceof Error ? error.message : String(error),
         });
+        return reply
+          .status(500)
+          .send(apiError("INTERNAL_ERROR", "Failed to list payment link audit"));
       }
     }
   );
 
-  // Delete a payment link (and its history)
-  app.delete<{ Params: PaymentIdParams; Body: { recipientAddress: string } }>(
+  // Archive a payment link; it stops accepting payments but its history is kept
+  app.delete<{ Params: PaymentIdParams }>(
     "/payment-links/:paymentId",
+    { preHandler: requireWalletSession, schema: archivePaymentLinkSchema },
+    async (request, reply) => {
+      try {
+        const { paymentId } = request.params;
+
+        const paymentLink = await repository.getPaymentLink(paymentId);
+
+        if (!paymentLink) {
+          return reply.status(404).send(apiError("LINK_NOT_FOUND", "Payment link not found"));
+        }
+
+        if (paymentLink.recipientAddress !== request.walletAddress) {
+          return reply.status(403).send(apiError("FORBIDDEN", "Unauthorized"));
+        }
+
+        const result = await repository.archivePaymentLink(paymentId, request.walletAddress);
+        if (!result.success) {
+          return reply.status(404).send(apiError("LINK_NOT_FOUND", result.error));
+        }
+
+        return reply.send({
+          success: true,
+          paymentLink: toPublicInfo(result.link),
+        });
+      } catch (error) {
+        request.log.error({
+          msg: "Error archiving payment link",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to archive payment link"));
+      }
+    }
+  );
+
+  // Restore an archived payment link
+  app.post<{ Params: PaymentIdParams }>(
+    "/payment-links/:paymentId/restore",
+    { preHandler: requireWalletSession, schema: restorePaymentLinkSchema },
     async (request, reply) => {
       try {
         const { paymentId } = request.params;
-        const { recipientAddress } = request.body;
 
-        const paymentLink = PaymentLinksStore.getPaymentLink(paymentId);
+        const paymentLink = await repository.getPaymentLink(paymentId);
 
         if (!paymentLink) {
-          return reply.status(404).send({
-            success: false,
-            error: "Payment link not found",
-          });
+          return reply.status(404).send(apiError("LINK_NOT_FOUND", "Payment link not found"));
         }
 
-        if (paymentLink.recipientAddress !== recipientAddress) {
-          return reply.status(403).send({
-            success: false,
-            error: "Unauthorized",
-          });
+        if (paymentLink.recipientAddress !== request.walletAddress) {
+          return reply.status(403).send(apiError("FORBIDDEN", "Unauthorized"));
         }
 
-        PaymentLinksStore.deletePaymentLink(paymentId);
+        const result = await repository.restorePaymentLink(paymentId, request.walletAddress);
+        if (!result.success) {
+          return reply.status(404).send(apiError("LINK_NOT_FOUND", result.error));
+        }
 
-        return reply.send({ success: true });
+        return reply.send({
+          success: true,
+          paymentLink: toPublicInfo(result.link),
+        });
       } catch (error) {
         request.log.error({
-          msg: "Error deleting payment link",
+          msg: "Error restoring payment link",
           error: error instanceof Error ? error.message : String(error),
         });
-        return reply.status(500).send({
-          success: false,
-          error: "Failed to delete payment link",
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to restore payment link"));
+      }
+    }
+  );
+
+  // Permanently delete an archived payment link with its payment history and audit trail
+  app.delete<{ Params: PaymentIdParams }>(
+    "/payment-links/:paymentId/purge",
+    { preHandler: requireWalletSession, schema: purgePaymentLinkSchema },
+    async (request, reply) => {
+      try {
+        const { paymentId } = request.params;
+
+        const paymentLink = await repository.getPaymentLink(paymentId);
+
+        if (!paymentLink) {
+          return reply.status(404).send(apiError("LINK_NOT_FOUND", "Payment link not found"));
+        }
+
+        if (paymentLink.recipientAddress !== request.walletAddress) {
+          return reply.status(403).send(apiError("FORBIDDEN", "Unauthorized"));
+        }
+
+        if (!paymentLink.archivedAt) {
+          return reply
+            .status(409)
+            .send(apiError("LINK_NOT_ARCHIVED", "Archive the payment link before purging it"));
+        }
+
+        await repository.purgePaymentLink(paymentId);
+        await webhooks.deleteLinkWebhooks(paymentId);
+
+        return reply.send({ success: true });
+      } catch (error) {
+        request.log.error({
+          msg: "Error purging payment link",
+          error: error instanceof Error ? error.message : String(error),
         });
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to purge payment link"));
       }
     }
   );
@@ -0,0 +1,144 @@
+/**
+ * Query string parsing for the owner list routes (GET /payment-links and
+ * GET /payment-links/history). Page size and cursor are checked by the repository.
+ */
+
+import { isBaseUnits } from "@ghostsend/shared";
+import type {
+  BaseUnits,
+  PaymentLinkListQuery,
+  PaymentLinkStatus,
+  PaymentRecordListQuery,
+  PaymentRecordStatus,
+} from "../../types/payment-links";
+
+export type ListQueryString = Record<string, string | string[] | undefined>;
+
+const LINK_STATUSES: PaymentLinkStatus[] = ["active", "completed", "disabled", "expired"];
+const RECORD_STATUSES: PaymentRecordStatus[] = ["completed"];
+const LINK_SORTS = ["createdAt", "amount", "usageCount"] as const;
+const RECORD_SORTS = ["completedAt", "amount"] as const;
+const ORDERS = ["asc", "desc"] as const;
+const MAX_SEARCH_LENGTH = 100;
+
+/**
+ * Typed accessors over the raw query string; the first problem found is kept in `error`.
+ */
+function createReader(raw: ListQueryString) {
+  let error: string | undefined;
+  const fail = (message: string) => {
+    error ??= message;
+    return undefined;
+  };
+
+  const text = (name: string): string | undefined => {
+    const value = raw[name];
+    if (Array.isArray(value)) return fail(`${name} may only be given once`);
+    return value?.trim() || undefined;
+  };
+
+  return {
+    get error() {
+      return error;
+    },
+    text,
+    integer(name: string): number | undefined {
+      const value = text(name);
+      if (value === undefined) return undefined;
+      const parsed = Number(value);
+      if (!Number.isSafeInteger(parsed) || parsed < 0) {
+        return fail(`${name} must be a non-negative integer`);
+      }
+      return parsed;
+    },
+    /** Amount in base units; kept as a string so large amounts stay exact */
+    amount(name: string): BaseUnits | undefined {
+      const value = text(name);
+      if (value === undefined) return undefined;
+      if (!isBaseUnits(value)) return fail(`${name} must be a whole number of base units`);
+      return value;
+    },
+    oneOf<T extends string>(name: string, allowed: readonly T[]): T | undefined {
+      const value = text(name);
+      if (value === undefined) return undefined;
+      if (!allowed.includes(value as T)) {
+        return fail(`${name} must be one of ${allowed.join(", ")}`);
+      }
+      return value as T;
+    },
+    /** Comma-separated values, e.g. status=active,disabled */
+    listOf<T extends string>(name: string, allowed: readonly T[]): T[] | undefined {
+      const value = text(name);
+      if (value === undefined) return undefined;
+      const values = value.split(",").map((item) => item.trim());
+      const invalid = values.find((item) => !allowed.includes(item as T));
+      if (invalid !== undefined) return fail(`${name} must be among ${allowed.join(", ")}`);
+      return values as T[];
+    },
+    search(): string | undefined {
+      const value = text("search");
+      if (value && value.length > MAX_SEARCH_LENGTH) {
+        return fail(`search must be at most ${MAX_SEARCH_LENGTH} characters`);
+      }
+      return value;
+    },
+  };
+}
+
+type Reader = ReturnType<typeof createReader>;
+
+function checkRanges(reader: Reader, from?: number, to?: number, min?: BaseUnits, max?: BaseUnits) {
+  if (reader.error) return reader.error;
+  if (from !== undefined && to !== undefined && to <= from) return "to must be after from";
+  if (min !== undefined && max !== undefined && BigInt(max) < BigInt(min)) {
+    return "amountMax must not be below amountMin";
+  }
+  return undefined;
+}
+
+export function parseLinkListQuery(
+  raw: ListQueryString
+): { query: PaymentLinkListQuery } | { error: string } {
+  const reader = createReader(raw);
+  const archived = reader.oneOf("archived", ["true", "false"] as const);
+  const query: PaymentLinkListQuery = {
+    archived: archived === "true",
+    status: reader.listOf("status", LINK_STATUSES),
+    tokenMint: reader.text("tokenMint"),
+    from: reader.integer("from"),
+    to: reader.integer("to"),
+    amountMin: reader.amount("amountMin"),
+    amountMax: reader.amount("amountMax"),
+    search: reader.search(),
+    sort: reader.oneOf("sort", LINK_SORTS),
+    order: reader.oneOf("order", ORDERS),
+    cursor: reader.text("cursor"),
+    limit: reader.integer("limit"),
+  };
+
+  const error = checkRanges(reader, query.from, query.to, query.amountMin, query.amountMax);
+  return error ? { error } : { query };
+}
+
+export function parseRecordListQuery(
+  raw: ListQueryString
+): { query: PaymentRecordListQuery } | { error: string } {
+  const reader = createReader(raw);
+  const query: PaymentRecordListQuery = {
+    paymentId: reader.text("paymentId"),
+    status: reader.listOf("status", RECORD_STATUSES),
+    tokenMint: reader.text("tokenMint"),
+    from: reader.integer("from"),
+    to: reader.integer("to"),
+    amountMin: reader.amount("amountMin"),
+    amountMax: reader.amount("amountMax"),
+    search: reader.search(),
+    sort: reader.oneOf("sort", RECORD_SORTS),
+    order: reader.oneOf("order", ORDERS),
+    cursor: reader.text("cursor"),
+    limit: reader.integer("limit"),
+  };
+
+  const error = checkRanges(reader, query.from, query.to, query.amountMin, query.amountMax);
+  return error ? { error } : { query };
+}
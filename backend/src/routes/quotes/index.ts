@@ -0,0 +1,79 @@
+import { FastifyInstance } from "fastify";
+import { getTokenByMint, type RelayerConfigCache } from "@ghostsend/shared";
+import type { PaymentLinksRepository } from "../../services/payment-links/repository";
+import { MAX_WITHDRAW_BASE_UNITS, issueFeeQuote } from "../../services/withdraw/quotes";
+import { createQuoteSchema } from "../../schemas/quotes";
+import type { CreateFeeQuoteRequest } from "../../types/withdraw";
+import { apiError } from "../errors";
+
+export interface QuotesRoutesOptions {
+  repository: PaymentLinksRepository;
+  relayerConfig: RelayerConfigCache;
+}
+
+/**
+ * Register the fee quote route. Quotes are public: the payer asks for one right before
+ * withdrawing and sends its ID along, so the total they sign for is the total checked.
+ */
+export async function quotesRoutes(
+  app: FastifyInstance,
+  { repository, relayerConfig }: QuotesRoutesOptions
+) {
+  app.post<{ Body: CreateFeeQuoteRequest }>(
+    "/quotes",
+    { schema: createQuoteSchema },
+    async (request, reply) => {
+      const { paymentId } = request.body;
+
+      const link = await repository.getPaymentLink(paymentId);
+      if (!link) {
+        return reply.status(404).send(apiError("LINK_NOT_FOUND", "Payment link not found"));
+      }
+      if (!(await repository.canAcceptPayment(paymentId))) {
+        return reply
+          .status(410)
+          .send(apiError("LINK_INACTIVE", "Payment link is no longer active"));
+      }
+
+      const token = getTokenByMint(link.tokenMint);
+      if (!token) {
+        return reply.status(400).send(apiError("INVALID_TOKEN", "Unsupported token"));
+      }
+
+      const recipientAmount =
+        request.body.recipientBaseUnits ??
+        (link.amountType === "fixed" ? link.fixedAmount : undefined);
+      if (!recipientAmount) {
+        return reply
+          .status(400)
+          .send(apiError("VALIDATION_FAILED", "recipientBaseUnits is required for this link"));
+      }
+
+      const validation = await repository.validateAmount(paymentId, BigInt(recipientAmount));
+      if (!validation.valid) {
+        return reply
+          .status(400)
+          .send(
+            apiError(
+              "AMOUNT_MISMATCH",
+              validation.error ?? "Amount does not match the payment link"
+            )
+          );
+      }
+
+      const quote = issueFeeQuote(
+        paymentId,
+        token,
+        BigInt(recipientAmount),
+        await relayerConfig.get()
+      );
+      if (BigInt(quote.totalBaseUnits) > MAX_WITHDRAW_BASE_UNITS) {
+        return reply
+          .status(400)
+          .send(apiError("VALIDATION_FAILED", "Amount is too large to withdraw in one go"));
+      }
+
+      return reply.send({ success: true, quote });
+    }
+  );
+}
@@ -0,0 +1,73 @@
+import type { FastifyInstance, FastifyReply, FastifyRequest, preHandlerHookHandler } from "fastify";
+import type {
+  RateLimitBudget,
+  RateLimitDecision,
+  RateLimits,
+  RateLimitStore,
+} from "../../services/rate-limit";
+import { apiError } from "../errors";
+
+export interface RateLimitOptions {
+  store: RateLimitStore;
+  limits: RateLimits;
+}
+
+/**
+ * Set the RateLimit-* headers for the tightest limit the request was counted against,
+ * and answer 429 with Retry-After when `decision` denies it. Returns the reply when it
+ * was sent.
+ */
+export function enforceRateLimit(
+  reply: FastifyReply,
+  decision: RateLimitDecision,
+  error = "Rate limit exceeded"
+): FastifyReply | undefined {
+  const current = reply.getHeader("RateLimit-Remaining");
+  if (current === undefined || decision.remaining <= Number(current)) {
+    reply.header("RateLimit-Limit", decision.limit);
+    reply.header("RateLimit-Remaining", decision.remaining);
+    reply.header("RateLimit-Reset", decision.resetSeconds);
+  }
+  if (decision.allowed) return undefined;
+
+  return reply
+    .status(429)
+    .header("Retry-After", decision.retryAfterSeconds)
+    .send(apiError("RATE_LIMITED", error));
+}
+
+function budgetOf(request: FastifyRequest): RateLimitBudget {
+  return request.routeOptions.config.rateLimit ?? "read";
+}
+
+/**
+ * Count every request against its route's budget (`config.rateLimit`, "read" when
+ * unset): per client IP when it arrives, and per wallet once the route's own
+ * preHandlers have authenticated it. Anonymous requests are only counted per IP. Call
+ * before registering routes.
+ */
+export function registerRateLimits(app: FastifyInstance, { store, limits }: RateLimitOptions) {
+  app.addHook("onRequest", async (request, reply) => {
+    if (request.method === "OPTIONS") return;
+    const budget = budgetOf(request);
+    const decision = await store.take(`ip:${budget}:${request.ip}`, limits[budget].ip);
+    return enforceRateLimit(reply, decision);
+  });
+
+  const limitWallet: preHandlerHookHandler = async (request, reply) => {
+    const wallet = request.walletAddress;
+    if (!wallet) return;
+    const budget = budgetOf(request);
+    const decision = await store.take(`wallet:${budget}:${wallet}`, limits[budget].wallet);
+    return enforceRateLimit(reply, decision, "Rate limit exceeded for this wallet");
+  };
+
+  // Runs after each route's own preHandlers, which set request.walletAddress
+  app.addHook("onRoute", (routeOptions) => {
+    const existing = routeOptions.preHandler;
+    routeOptions.preHandler = [
+      ...(Array.isArray(existing) ? existing : existing ? [existing] : []),
+      limitWallet,
+    ];
+  });
+}
@@ -0,0 +1,22 @@
+import { FastifyInstance } from "fastify";
+import type { RelayerPool } from "@ghostsend/shared";
+import { listRelayersSchema } from "../../schemas/relayers";
+
+export interface RelayersRoutesOptions {
+  relayers: RelayerPool;
+}
+
+/**
+ * Register the relayer status route. Public: it shows the relayer URLs, already public,
+ * and how they have been answering.
+ */
+export async function relayersRoutes(app: FastifyInstance, { relayers }: RelayersRoutesOptions) {
+  app.get("/relayers", { schema: listRelayersSchema }, async () => {
+    const ranked = relayers.ranked();
+    const status = relayers.status();
+    return {
+      success: true,
+      relayers: ranked.map((url) => status.find((relayer) => relayer.url === url)!),
+    };
+  });
+}
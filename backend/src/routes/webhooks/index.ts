@@ -0,0 +1,250 @@
+import { FastifyInstance, FastifyReply } from "fastify";
+import type { ApiKeysService } from "../../services/api-keys/api-keys";
+import type { WebhooksService } from "../../services/webhooks/webhooks";
+import {
+  createWebhookSchema,
+  deleteWebhookSchema,
+  listWebhookDeliveriesSchema,
+  listWebhooksSchema,
+  pingWebhookSchema,
+  redeliverWebhookSchema,
+} from "../../schemas/webhooks";
+import type {
+  CreateWebhookRequest,
+  WebhookAttemptInfo,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEndpointInfo,
+} from "../../types/webhooks";
+import { requireWalletOrApiKey } from "../auth";
+import { apiError } from "../errors";
+
+interface WebhookIdParams {
+  webhookId: string;
+}
+
+interface DeliveryIdParams extends WebhookIdParams {
+  deliveryId: string;
+}
+
+export interface WebhooksRoutesOptions {
+  webhooks: WebhooksService;
+  apiKeys: ApiKeysService;
+}
+
+const MAX_DELIVERY_LOG_SIZE = 100;
+
+function toWebhookInfo(webhook: WebhookEndpoint): WebhookEndpointInfo {
+  const info = { ...webhook } as WebhookEndpointInfo & { secret?: string };
+  delete info.secret;
+  return info;
+}
+
+// Answering with the endpoint's status or error would let callers probe hosts on demand
+function toAttemptInfo(delivery: WebhookDelivery): WebhookAttemptInfo {
+  const info = { ...delivery } as WebhookAttemptInfo & Partial<WebhookDelivery>;
+  delete info.responseStatus;
+  delete info.lastError;
+  return info;
+}
+
+/**
+ * Register webhook routes. All of them are owner-scoped: a wallet sees and manages only
+ * the webhooks it registered, with its session or an API key with webhooks:manage.
+ */
+export async function webhooksRoutes(
+  app: FastifyInstance,
+  { webhooks, apiKeys }: WebhooksRoutesOptions
+) {
+  const manageWebhooks = requireWalletOrApiKey(apiKeys, "webhooks:manage");
+
+  /**
+   * Look up a webhook for the signed-in wallet, answering 404/403 itself when it cannot
+   * be used.
+   */
+  const findOwnedWebhook = async (
+    webhookId: string,
+    walletAddress: string | null,
+    reply: FastifyReply
+  ): Promise<WebhookEndpoint | null> => {
+    const webhook = await webhooks.getWebhook(webhookId);
+    if (!webhook) {
+      await reply.status(404).send(apiError("WEBHOOK_NOT_FOUND", "Webhook not found"));
+      return null;
+    }
+    if (webhook.ownerAddress !== walletAddress) {
+      await reply.status(403).send(apiError("FORBIDDEN", "Unauthorized"));
+      return null;
+    }
+    return webhook;
+  };
+
+  // List the signed-in wallet's webhooks (secrets are only shown on creation)
+  app.get(
+    "/webhooks",
+    { preHandler: manageWebhooks, schema: listWebhooksSchema },
+    async (request, reply) => {
+      try {
+        const list = await webhooks.listWebhooks(request.walletAddress!);
+        return reply.send({
+          success: true,
+          webhooks: list.map(toWebhookInfo),
+        });
+      } catch (error) {
+        request.log.error({
+          msg: "Error listing webhooks",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to list webhooks"));
+      }
+    }
+  );
+
+  // Register a webhook for all of the wallet's links, or one link with paymentId
+  app.post<{ Body: CreateWebhookRequest }>(
+    "/webhooks",
+    { preHandler: manageWebhooks, schema: createWebhookSchema, config: { rateLimit: "create" } },
+    async (request, reply) => {
+      try {
+        const result = await webhooks.registerWebhook(request.walletAddress!, request.body);
+        if (!result.success) {
+          return reply.status(400).send(apiError("VALIDATION_FAILED", result.error));
+        }
+
+        return reply.status(201).send({
+          success: true,
+          webhook: result.webhook,
+        });
+      } catch (error) {
+        request.log.error({
+          msg: "Error registering webhook",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to register webhook"));
+      }
+    }
+  );
+
+  // Remove a webhook and its delivery log
+  app.delete<{ Params: WebhookIdParams }>(
+    "/webhooks/:webhookId",
+    { preHandler: manageWebhooks, schema: deleteWebhookSchema },
+    async (request, reply) => {
+      try {
+        const webhook = await findOwnedWebhook(
+          request.params.webhookId,
+          request.walletAddress,
+          reply
+        );
+        if (!webhook) return reply;
+
+        await webhooks.deleteWebhook(webhook.id);
+
+        return reply.send({ success: true });
+      } catch (error) {
+        request.log.error({
+          msg: "Error deleting webhook",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to delete webhook"));
+      }
+    }
+  );
+
+  // Delivery log of a webhook, newest first (?limit, default 50, at most 100)
+  app.get<{ Params: WebhookIdParams; Querystring: { limit: number } }>(
+    "/webhooks/:webhookId/deliveries",
+    { preHandler: manageWebhooks, schema: listWebhookDeliveriesSchema },
+    async (request, reply) => {
+      try {
+        const webhook = await findOwnedWebhook(
+          request.params.webhookId,
+          request.walletAddress,
+          reply
+        );
+        if (!webhook) return reply;
+
+        const deliveries = await webhooks.listDeliveries(
+          webhook.id,
+          Math.min(request.query.limit, MAX_DELIVERY_LOG_SIZE)
+        );
+
+        return reply.send({
+          success: true,
+          deliveries,
+        });
+      } catch (error) {
+        request.log.error({
+          msg: "Error listing webhook deliveries",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply
+          .status(500)
+          .send(apiError("INTERNAL_ERROR", "Failed to list webhook deliveries"));
+      }
+    }
+  );
+
+  // Send a test ping now; the delivery's status shows whether the endpoint accepted it
+  app.post<{ Params: WebhookIdParams }>(
+    "/webhooks/:webhookId/ping",
+    { preHandler: manageWebhooks, schema: pingWebhookSchema },
+    async (request, reply) => {
+      try {
+        const webhook = await findOwnedWebhook(
+          request.params.webhookId,
+          request.walletAddress,
+          reply
+        );
+        if (!webhook) return reply;
+
+        const delivery = await webhooks.sendPing(webhook);
+
+        return reply.send({
+          success: true,
+          delivery: toAttemptInfo(delivery),
+        });
+      } catch (error) {
+        request.log.error({
+          msg: "Error pinging webhook",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to ping webhook"));
+      }
+    }
+  );
+
+  // Send a delivery's event again now, as a new delivery with the same event ID
+  app.post<{ Params: DeliveryIdParams }>(
+    "/webhooks/:webhookId/deliveries/:deliveryId/redeliver",
+    { preHandler: manageWebhooks, schema: redeliverWebhookSchema },
+    async (request, reply) => {
+      try {
+        const webhook = await findOwnedWebhook(
+          request.params.webhookId,
+          request.walletAddress,
+          reply
+        );
+        if (!webhook) return reply;
+
+        const delivery = await webhooks.getDelivery(request.params.deliveryId);
+        if (!delivery || delivery.webhookId !== webhook.id) {
+          return reply.status(404).send(apiError("DELIVERY_NOT_FOUND", "Delivery not found"));
+        }
+
+        const redelivery = await webhooks.redeliver(delivery);
+
+        return reply.send({
+          success: true,
+          delivery: toAttemptInfo(redelivery),
+        });
+      } catch (error) {
+        request.log.error({
+          msg: "Error redelivering webhook",
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return reply.status(500).send(apiError("INTERNAL_ERROR", "Failed to redeliver webhook"));
+      }
+    }
+  );
+}
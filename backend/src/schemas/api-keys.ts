@@ -0,0 +1,87 @@
+/**
+ * Request and response schemas of the /api-keys routes
+ */
+
+import { API_KEY_SCOPES } from "../types/api-keys";
+import { bearerAuth, errorResponses, successResponse, timestamp } from "./common";
+
+// Names are trimmed and checked again by the service
+const MAX_NAME_LENGTH = 60;
+
+export const apiKeyInfo = {
+  $id: "ApiKey",
+  type: "object",
+  required: ["id", "ownerAddress", "name", "prefix", "scopes", "createdAt"],
+  properties: {
+    id: { type: "string" },
+    ownerAddress: { type: "string" },
+    name: { type: "string" },
+    prefix: { type: "string", description: "First characters of the key" },
+    scopes: { type: "array", items: { type: "string", enum: [...API_KEY_SCOPES] } },
+    createdAt: timestamp,
+    lastUsedAt: timestamp,
+    revokedAt: timestamp,
+  },
+} as const;
+
+const apiKeyRef = { $ref: "ApiKey#" } as const;
+
+export const listApiKeysSchema = {
+  tags: ["api-keys"],
+  summary: "List the wallet's API keys, revoked ones included",
+  security: bearerAuth,
+  response: {
+    200: {
+      type: "object",
+      required: ["success", "apiKeys"],
+      properties: {
+        success: { type: "boolean" },
+        apiKeys: { type: "array", items: apiKeyRef },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+export const createApiKeySchema = {
+  tags: ["api-keys"],
+  summary: "Issue an API key",
+  security: bearerAuth,
+  body: {
+    type: "object",
+    required: ["name", "scopes"],
+    properties: {
+      name: { type: "string", minLength: 1, maxLength: MAX_NAME_LENGTH },
+      scopes: {
+        type: "array",
+        minItems: 1,
+        uniqueItems: true,
+        items: { type: "string", enum: [...API_KEY_SCOPES] },
+      },
+    },
+  },
+  response: {
+    201: {
+      type: "object",
+      required: ["success", "apiKey", "key"],
+      properties: {
+        success: { type: "boolean" },
+        apiKey: apiKeyRef,
+        key: { type: "string", description: "The full key; shown only in this response" },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+export const revokeApiKeySchema = {
+  tags: ["api-keys"],
+  summary: "Revoke an API key",
+  security: bearerAuth,
+  params: {
+    type: "object",
+    required: ["keyId"],
+    properties: { keyId: { type: "string", minLength: 1, maxLength: 64 } },
+  },
+  response: { 200: successResponse, ...errorResponses },
+} as const;
@@ -0,0 +1,57 @@
+/**
+ * Request and response schemas of the /auth routes
+ */
+
+import { errorResponses, timestamp } from "./common";
+
+const walletAddress = { type: "string", minLength: 32, maxLength: 44 } as const;
+
+export const createChallengeSchema = {
+  tags: ["auth"],
+  summary: "Get a message for a wallet to sign in with",
+  body: {
+    type: "object",
+    required: ["address"],
+    properties: { address: walletAddress },
+  },
+  response: {
+    200: {
+      type: "object",
+      required: ["success", "address", "nonce", "message", "expiresAt"],
+      properties: {
+        success: { type: "boolean" },
+        address: { type: "string" },
+        nonce: { type: "string" },
+        message: { type: "string", description: "Text for the wallet to sign" },
+        expiresAt: timestamp,
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+export const verifySignInSchema = {
+  tags: ["auth"],
+  summary: "Exchange a signed challenge for a session token",
+  body: {
+    type: "object",
+    required: ["address", "nonce", "signature"],
+    properties: {
+      address: walletAddress,
+      nonce: { type: "string", minLength: 1, maxLength: 128 },
+      signature: { type: "string", minLength: 1, maxLength: 256, description: "Base64" },
+    },
+  },
+  response: {
+    200: {
+      type: "object",
+      required: ["success", "token", "expiresAt"],
+      properties: {
+        success: { type: "boolean" },
+        token: { type: "string", description: "Send as `Authorization: Bearer <token>`" },
+        expiresAt: timestamp,
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
@@ -0,0 +1,118 @@
+/**
+ * Request and response schemas of the /checkout routes
+ */
+
+import { baseUnits, bearerAuth, errorResponses, positiveBaseUnits, timestamp } from "./common";
+
+const MAX_ORDER_ID_LENGTH = 200;
+const MAX_URL_LENGTH = 2048;
+
+const redirectUrl = { type: "string", minLength: 1, maxLength: MAX_URL_LENGTH } as const;
+const stringMap = { type: "object", additionalProperties: { type: "string" } } as const;
+
+export const checkoutSession = {
+  $id: "CheckoutSession",
+  type: "object",
+  required: ["id", "url", "status", "tokenMint", "amount", "createdAt", "orderId", "successUrl"],
+  properties: {
+    id: { type: "string", description: "The session's payment link ID" },
+    url: { type: "string", description: "Page to send the payer to" },
+    status: { type: "string", enum: ["active", "completed", "disabled", "expired"] },
+    tokenMint: { type: "string" },
+    amount: baseUnits,
+    createdAt: timestamp,
+    expiresAt: timestamp,
+    orderId: { type: "string" },
+    metadata: stringMap,
+    successUrl: { type: "string" },
+    cancelUrl: { type: "string" },
+    payment: { $ref: "PaymentRecord#" },
+  },
+} as const;
+
+const sessionIdParams = {
+  type: "object",
+  required: ["sessionId"],
+  properties: { sessionId: { type: "string", minLength: 1, maxLength: 64 } },
+} as const;
+
+const sessionBody = {
+  type: "object",
+  required: ["success", "session"],
+  properties: { success: { type: "boolean" }, session: { $ref: "CheckoutSession#" } },
+} as const;
+
+export const createCheckoutSessionSchema = {
+  tags: ["checkout"],
+  summary: "Open a checkout session for an order",
+  security: bearerAuth,
+  body: {
+    type: "object",
+    required: ["tokenMint", "amount", "orderId", "successUrl"],
+    properties: {
+      tokenMint: { type: "string", minLength: 32, maxLength: 44 },
+      amount: positiveBaseUnits,
+      orderId: { type: "string", minLength: 1, maxLength: MAX_ORDER_ID_LENGTH },
+      metadata: { ...stringMap, description: "Never shown to the payer" },
+      successUrl: redirectUrl,
+      cancelUrl: { type: "string", maxLength: MAX_URL_LENGTH },
+      label: { type: "string", maxLength: 80 },
+      message: { type: "string", maxLength: 200 },
+      expiresAt: timestamp,
+    },
+  },
+  response: { 201: sessionBody, ...errorResponses },
+} as const;
+
+export const getCheckoutSessionSchema = {
+  tags: ["checkout"],
+  summary: "Get a checkout session's status and payment",
+  security: bearerAuth,
+  params: sessionIdParams,
+  response: { 200: sessionBody, ...errorResponses },
+} as const;
+
+export const checkoutResultSchema = {
+  tags: ["checkout"],
+  summary: "Get the signed result of a paid session",
+  params: sessionIdParams,
+  response: {
+    200: {
+      type: "object",
+      required: ["success", "token", "redirectUrl"],
+      properties: {
+        success: { type: "boolean" },
+        token: { type: "string", description: "JWT signed with the checkout signing key" },
+        redirectUrl: { type: "string", description: "Success URL with the token appended" },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+export const checkoutSigningKeySchema = {
+  tags: ["checkout"],
+  summary: "Get the public key that verifies result tokens",
+  response: {
+    200: {
+      type: "object",
+      required: ["success", "issuer", "jwk", "pem"],
+      properties: {
+        success: { type: "boolean" },
+        issuer: { type: "string" },
+        jwk: {
+          type: "object",
+          required: ["kty", "crv", "x", "kid", "alg"],
+          properties: {
+            kty: { type: "string" },
+            crv: { type: "string" },
+            x: { type: "string" },
+            kid: { type: "string" },
+            alg: { type: "string" },
+          },
+        },
+        pem: { type: "string" },
+      },
+    },
+  },
+} as const;
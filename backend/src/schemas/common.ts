@@ -0,0 +1,59 @@
+/**
+ * JSON schemas shared by the routes. Fastify validates requests against them and
+ * serializes responses with them, so a field missing here is left out of responses.
+ */
+
+import { BASE_UNITS_PATTERN } from "@ghostsend/shared";
+import { ERROR_CODES } from "../types/errors";
+
+export const errorResponse = {
+  $id: "ErrorResponse",
+  type: "object",
+  required: ["success", "code", "error"],
+  properties: {
+    success: { type: "boolean", const: false },
+    code: { type: "string", enum: [...ERROR_CODES] },
+    error: { type: "string" },
+  },
+} as const;
+
+/** Response schemas for every 4xx and 5xx status */
+export const errorResponses = {
+  "4xx": { $ref: "ErrorResponse#" },
+  "5xx": { $ref: "ErrorResponse#" },
+} as const;
+
+/** `{ success: true }` alone */
+export const successResponse = {
+  type: "object",
+  required: ["success"],
+  properties: { success: { type: "boolean" } },
+} as const;
+
+/** Wallet session token or API key, sent as `Authorization: Bearer <token>` */
+export const bearerAuth: Record<string, string[]>[] = [{ bearerAuth: [] }];
+
+/** Anonymous, or a wallet session or API key */
+export const optionalAuth: Record<string, string[]>[] = [{}, { bearerAuth: [] }];
+
+/**
+ * Amount in base units (lamports for SOL) as a decimal integer string, so SPL amounts
+ * past 2^53 stay exact. Numbers sent by older clients are coerced to strings.
+ */
+export const baseUnits = {
+  type: "string",
+  pattern: BASE_UNITS_PATTERN,
+  examples: ["1500000000"],
+} as const;
+
+/** baseUnits above zero */
+export const positiveBaseUnits = { ...baseUnits, pattern: "^[1-9][0-9]{0,18}$" } as const;
+
+/** Unix timestamp in ms */
+export const timestamp = { type: "integer", minimum: 0 } as const;
+
+export const paymentIdParams = {
+  type: "object",
+  required: ["paymentId"],
+  properties: { paymentId: { type: "string", minLength: 1, maxLength: 64 } },
+} as const;
@@ -0,0 +1,65 @@
+/**
+ * Request and response schemas of the fee breakdown route
+ */
+
+import { baseUnits, errorResponses, positiveBaseUnits } from "./common";
+
+/** Most withdrawals one breakdown covers */
+export const MAX_FEE_RECIPIENTS = 20;
+
+export const feeBreakdown = {
+  $id: "FeeBreakdown",
+  type: "object",
+  required: [
+    "tokenMint",
+    "configVersion",
+    "recipients",
+    "feeRate",
+    "recipientBaseUnits",
+    "totalPerRecipientBaseUnits",
+    "rentPerRecipientBaseUnits",
+    "minimumWithdrawalBaseUnits",
+    "toRecipientsBaseUnits",
+    "rateFeeBaseUnits",
+    "rentBaseUnits",
+    "feeBaseUnits",
+    "totalBaseUnits",
+  ],
+  properties: {
+    tokenMint: { type: "string" },
+    configVersion: { type: "string" },
+    recipients: { type: "integer", minimum: 1 },
+    feeRate: { type: "number", description: "Rate fee as a fraction, e.g. 0.0035" },
+    recipientBaseUnits: baseUnits,
+    totalPerRecipientBaseUnits: baseUnits,
+    rentPerRecipientBaseUnits: baseUnits,
+    minimumWithdrawalBaseUnits: baseUnits,
+    toRecipientsBaseUnits: baseUnits,
+    rateFeeBaseUnits: baseUnits,
+    rentBaseUnits: baseUnits,
+    feeBaseUnits: baseUnits,
+    totalBaseUnits: baseUnits,
+  },
+} as const;
+
+export const feeBreakdownSchema = {
+  tags: ["withdraw"],
+  summary: "Fees of withdrawals of one recipient amount under the current relayer config",
+  querystring: {
+    type: "object",
+    required: ["mint", "recipientAmount"],
+    properties: {
+      mint: { type: "string", minLength: 1, maxLength: 64 },
+      recipientAmount: positiveBaseUnits,
+      recipients: { type: "integer", minimum: 1, maximum: MAX_FEE_RECIPIENTS, default: 1 },
+    },
+  },
+  response: {
+    200: {
+      type: "object",
+      required: ["success", "breakdown"],
+      properties: { success: { type: "boolean" }, breakdown: { $ref: "FeeBreakdown#" } },
+    },
+    ...errorResponses,
+  },
+} as const;
@@ -0,0 +1,33 @@
+/**
+ * Schemas the route schemas reference with `$ref`. They are added to the app before any
+ * route and become the named components of the OpenAPI document.
+ */
+
+import { apiKeyInfo } from "./api-keys";
+import { checkoutSession } from "./checkout";
+import { errorResponse } from "./common";
+import { feeBreakdown } from "./fees";
+import { auditEntry, paymentLinkPublicInfo, paymentRecord } from "./payment-links";
+import { feeQuote } from "./quotes";
+import { relayerStatus } from "./relayers";
+import { webhookAttempt, webhookDelivery, webhookInfo } from "./webhooks";
+import { jobAccepted, withdrawBody, withdrawJobInfo, withdrawSplBody } from "./withdraw";
+
+export const sharedSchemas = [
+  errorResponse,
+  paymentLinkPublicInfo,
+  paymentRecord,
+  auditEntry,
+  withdrawBody,
+  withdrawSplBody,
+  jobAccepted,
+  withdrawJobInfo,
+  feeQuote,
+  feeBreakdown,
+  relayerStatus,
+  checkoutSession,
+  webhookInfo,
+  webhookDelivery,
+  webhookAttempt,
+  apiKeyInfo,
+];
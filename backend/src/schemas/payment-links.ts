@@ -0,0 +1,307 @@
+/**
+ * Request and response schemas of the /payment-links routes
+ */
+
+import {
+  baseUnits,
+  bearerAuth,
+  errorResponses,
+  optionalAuth,
+  paymentIdParams,
+  positiveBaseUnits,
+  successResponse,
+  timestamp,
+} from "./common";
+
+const LINK_STATUSES = ["active", "completed", "disabled", "expired"];
+const MAX_LABEL_LENGTH = 80;
+const MAX_MESSAGE_LENGTH = 200;
+
+const nonNegative = { type: "integer", minimum: 0 } as const;
+const stringMap = { type: "object", additionalProperties: { type: "string" } } as const;
+
+export const paymentLinkPublicInfo = {
+  $id: "PaymentLink",
+  type: "object",
+  required: [
+    "paymentId",
+    "tokenMint",
+    "amountType",
+    "reusable",
+    "createdAt",
+    "status",
+    "usageCount",
+  ],
+  properties: {
+    paymentId: { type: "string" },
+    tokenMint: { type: "string" },
+    amountType: { type: "string", enum: ["fixed", "flexible"] },
+    fixedAmount: baseUnits,
+    minAmount: baseUnits,
+    maxAmount: baseUnits,
+    label: { type: "string" },
+    message: { type: "string" },
+    reusable: { type: "boolean" },
+    maxUsageCount: nonNegative,
+    createdAt: timestamp,
+    activeFrom: timestamp,
+    expiresAt: timestamp,
+    archivedAt: timestamp,
+    status: { type: "string", enum: LINK_STATUSES },
+    usageCount: nonNegative,
+    checkout: {
+      type: "object",
+      required: ["orderId", "successUrl"],
+      properties: {
+        orderId: { type: "string" },
+        successUrl: { type: "string" },
+        cancelUrl: { type: "string" },
+      },
+    },
+  },
+} as const;
+
+export const paymentRecord = {
+  $id: "PaymentRecord",
+  type: "object",
+  required: ["id", "paymentId", "tokenMint", "amount", "txSignature", "completedAt", "status"],
+  properties: {
+    id: { type: "string" },
+    paymentId: { type: "string" },
+    tokenMint: { type: "string" },
+    amount: baseUnits,
+    txSignature: { type: "string" },
+    completedAt: timestamp,
+    status: { type: "string", enum: ["completed"] },
+    orderId: { type: "string" },
+    metadata: stringMap,
+  },
+} as const;
+
+const paymentLinkRef = { $ref: "PaymentLink#" } as const;
+const paymentRecordRef = { $ref: "PaymentRecord#" } as const;
+
+const auditValue = { type: ["string", "number", "null"] } as const;
+
+export const auditEntry = {
+  $id: "PaymentLinkAuditEntry",
+  type: "object",
+  required: ["id", "paymentId", "actor", "changes", "createdAt"],
+  properties: {
+    id: { type: "string" },
+    paymentId: { type: "string" },
+    actor: { type: "string" },
+    changes: {
+      type: "array",
+      items: {
+        type: "object",
+        required: ["field", "from", "to"],
+        properties: { field: { type: "string" }, from: auditValue, to: auditValue },
+      },
+    },
+    createdAt: timestamp,
+  },
+} as const;
+
+const linkResponse = {
+  200: {
+    type: "object",
+    required: ["success", "paymentLink"],
+    properties: { success: { type: "boolean" }, paymentLink: paymentLinkRef },
+  },
+  ...errorResponses,
+} as const;
+
+const queryValue = { type: "string" } as const;
+
+// Values stay strings; ./list-query parses and checks them with its own messages
+const listQuerystring = {
+  type: "object",
+  properties: {
+    archived: queryValue,
+    status: queryValue,
+    tokenMint: queryValue,
+    paymentId: queryValue,
+    from: queryValue,
+    to: queryValue,
+    amountMin: queryValue,
+    amountMax: queryValue,
+    search: queryValue,
+    sort: queryValue,
+    order: queryValue,
+    cursor: queryValue,
+    limit: queryValue,
+  },
+} as const;
+
+export const listPaymentLinksSchema = {
+  tags: ["payment-links"],
+  summary: "List the wallet's payment links",
+  security: bearerAuth,
+  querystring: listQuerystring,
+  response: {
+    200: {
+      type: "object",
+      required: ["success", "paymentLinks", "nextCursor"],
+      properties: {
+        success: { type: "boolean" },
+        paymentLinks: { type: "array", items: paymentLinkRef },
+        nextCursor: { type: ["string", "null"] },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+export const listPaymentHistorySchema = {
+  tags: ["payment-links"],
+  summary: "List payments received by the wallet",
+  security: bearerAuth,
+  querystring: listQuerystring,
+  response: {
+    200: {
+      type: "object",
+      required: ["success", "payments", "nextCursor"],
+      properties: {
+        success: { type: "boolean" },
+        payments: { type: "array", items: paymentRecordRef },
+        nextCursor: { type: ["string", "null"] },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+// The 200 body is the CSV or JSON file itself
+export const exportPaymentHistorySchema = {
+  tags: ["payment-links"],
+  summary: "Download payment history as CSV or JSON",
+  security: bearerAuth,
+  querystring: {
+    ...listQuerystring,
+    properties: {
+      ...listQuerystring.properties,
+      format: { type: "string", enum: ["csv", "json"] },
+    },
+  },
+  response: errorResponses,
+} as const;
+
+export const createPaymentLinkSchema = {
+  tags: ["payment-links"],
+  summary: "Create a payment link",
+  security: optionalAuth,
+  body: {
+    type: "object",
+    required: ["tokenMint", "amountType", "reusable"],
+    properties: {
+      // Optional with an API key, which creates links for its own wallet
+      recipientAddress: { type: "string", minLength: 32, maxLength: 44 },
+      tokenMint: { type: "string", minLength: 32, maxLength: 44 },
+      amountType: { type: "string", enum: ["fixed", "flexible"] },
+      fixedAmount: positiveBaseUnits,
+      minAmount: baseUnits,
+      maxAmount: positiveBaseUnits,
+      reusable: { type: "boolean" },
+      maxUsageCount: { type: "integer", minimum: 1 },
+      label: { type: "string", maxLength: MAX_LABEL_LENGTH },
+      message: { type: "string", maxLength: MAX_MESSAGE_LENGTH },
+      activeFrom: timestamp,
+      expiresAt: timestamp,
+    },
+  },
+  response: {
+    201: {
+      type: "object",
+      required: ["success", "paymentLink", "url"],
+      properties: {
+        success: { type: "boolean" },
+        paymentLink: paymentLinkRef,
+        url: { type: "string" },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+export const getPaymentLinkSchema = {
+  tags: ["payment-links"],
+  summary: "Get a payment link's public info",
+  params: paymentIdParams,
+  response: linkResponse,
+} as const;
+
+export const completePaymentSchema = {
+  tags: ["payment-links"],
+  summary: "Record a confirmed payment",
+  params: paymentIdParams,
+  body: {
+    type: "object",
+    required: ["txSignature", "amount"],
+    properties: {
+      txSignature: { type: "string", minLength: 1, maxLength: 128 },
+      amount: positiveBaseUnits,
+    },
+  },
+  response: { 200: successResponse, ...errorResponses },
+} as const;
+
+// null clears a field; unknown fields are refused by the repository with a clear message
+export const updatePaymentLinkSchema = {
+  tags: ["payment-links"],
+  summary: "Edit, pause or resume a payment link",
+  security: bearerAuth,
+  params: paymentIdParams,
+  body: {
+    type: "object",
+    properties: {
+      label: { type: ["string", "null"], maxLength: MAX_LABEL_LENGTH },
+      message: { type: ["string", "null"], maxLength: MAX_MESSAGE_LENGTH },
+      minAmount: { ...baseUnits, type: ["string", "null"] },
+      maxAmount: { ...positiveBaseUnits, type: ["string", "null"] },
+      maxUsageCount: { type: ["integer", "null"], minimum: 1 },
+      status: { type: "string", enum: ["active", "disabled"] },
+    },
+  },
+  response: linkResponse,
+} as const;
+
+export const paymentLinkAuditSchema = {
+  tags: ["payment-links"],
+  summary: "List the edits made to a payment link",
+  security: bearerAuth,
+  params: paymentIdParams,
+  response: {
+    200: {
+      type: "object",
+      required: ["success", "entries"],
+      properties: {
+        success: { type: "boolean" },
+        entries: { type: "array", items: { $ref: "PaymentLinkAuditEntry#" } },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+/** Archive and restore answer with the updated link */
+export const archivePaymentLinkSchema = {
+  tags: ["payment-links"],
+  summary: "Archive a payment link",
+  security: bearerAuth,
+  params: paymentIdParams,
+  response: linkResponse,
+} as const;
+
+export const purgePaymentLinkSchema = {
+  tags: ["payment-links"],
+  summary: "Permanently delete an archived payment link",
+  security: bearerAuth,
+  params: paymentIdParams,
+  response: { 200: successResponse, ...errorResponses },
+} as const;
+
+export const restorePaymentLinkSchema = {
+  ...archivePaymentLinkSchema,
+  summary: "Restore an archived payment link",
+} as const;
@@ -0,0 +1,56 @@
+/**
+ * Request and response schemas of the fee quote route
+ */
+
+import { baseUnits, errorResponses, positiveBaseUnits, timestamp } from "./common";
+
+export const feeQuote = {
+  $id: "FeeQuote",
+  type: "object",
+  required: [
+    "id",
+    "paymentId",
+    "tokenMint",
+    "configVersion",
+    "recipientBaseUnits",
+    "totalBaseUnits",
+    "feeBaseUnits",
+    "rateFeeBaseUnits",
+    "rentBaseUnits",
+    "expiresAt",
+  ],
+  properties: {
+    id: { type: "string", description: "Pass as quoteId to /withdraw or /withdraw-spl" },
+    paymentId: { type: "string" },
+    tokenMint: { type: "string" },
+    configVersion: { type: "string" },
+    recipientBaseUnits: baseUnits,
+    totalBaseUnits: baseUnits,
+    feeBaseUnits: baseUnits,
+    rateFeeBaseUnits: baseUnits,
+    rentBaseUnits: baseUnits,
+    expiresAt: timestamp,
+  },
+} as const;
+
+export const createQuoteSchema = {
+  tags: ["withdraw"],
+  summary: "Quote the fees of a withdrawal paying a link",
+  body: {
+    type: "object",
+    required: ["paymentId"],
+    properties: {
+      paymentId: { type: "string", minLength: 1, maxLength: 64 },
+      // Defaults to the amount of a fixed-amount link
+      recipientBaseUnits: positiveBaseUnits,
+    },
+  },
+  response: {
+    200: {
+      type: "object",
+      required: ["success", "quote"],
+      properties: { success: { type: "boolean" }, quote: { $ref: "FeeQuote#" } },
+    },
+    ...errorResponses,
+  },
+} as const;
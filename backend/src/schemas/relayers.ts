@@ -0,0 +1,45 @@
+/**
+ * Response schema of the relayer status route
+ */
+
+import { timestamp } from "./common";
+
+export const relayerStatus = {
+  $id: "RelayerStatus",
+  type: "object",
+  required: [
+    "url",
+    "healthy",
+    "latencyMs",
+    "errorRate",
+    "consecutiveFailures",
+    "lastCheckedAt",
+    "lastError",
+    "score",
+  ],
+  properties: {
+    url: { type: "string" },
+    healthy: { type: "boolean" },
+    latencyMs: { type: ["number", "null"] },
+    errorRate: { type: "number", minimum: 0, maximum: 1 },
+    consecutiveFailures: { type: "integer", minimum: 0 },
+    lastCheckedAt: { anyOf: [timestamp, { type: "null" }] },
+    lastError: { type: ["string", "null"] },
+    score: { type: "number", description: "Lower is better" },
+  },
+} as const;
+
+export const listRelayersSchema = {
+  tags: ["withdraw"],
+  summary: "Health of the relayers withdrawals fail over between, best first",
+  response: {
+    200: {
+      type: "object",
+      required: ["success", "relayers"],
+      properties: {
+        success: { type: "boolean" },
+        relayers: { type: "array", items: { $ref: "RelayerStatus#" } },
+      },
+    },
+  },
+} as const;
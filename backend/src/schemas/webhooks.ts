@@ -0,0 +1,184 @@
+/**
+ * Request and response schemas of the /webhooks routes
+ */
+
+import { bearerAuth, errorResponses, successResponse, timestamp } from "./common";
+
+const MAX_URL_LENGTH = 2048;
+
+const id = { type: "string", minLength: 1, maxLength: 64 } as const;
+
+const webhookProperties = {
+  id: { type: "string" },
+  ownerAddress: { type: "string" },
+  paymentId: { type: "string", description: "Only this link's events when set" },
+  url: { type: "string" },
+  createdAt: timestamp,
+} as const;
+
+export const webhookInfo = {
+  $id: "Webhook",
+  type: "object",
+  required: ["id", "ownerAddress", "url", "createdAt"],
+  properties: webhookProperties,
+} as const;
+
+const attemptProperties = {
+  id: { type: "string" },
+  webhookId: { type: "string" },
+  eventId: { type: "string", description: "Same across redeliveries" },
+  eventType: { type: "string", enum: ["payment.completed", "ping"] },
+  payload: { type: "string", description: "Exact JSON body sent" },
+  status: { type: "string", enum: ["pending", "succeeded", "failed"] },
+  attempts: { type: "integer", minimum: 0 },
+  nextAttemptAt: timestamp,
+  lastAttemptAt: timestamp,
+  createdAt: timestamp,
+} as const;
+
+const attemptRequired = [
+  "id",
+  "webhookId",
+  "eventId",
+  "eventType",
+  "payload",
+  "status",
+  "attempts",
+  "createdAt",
+];
+
+/** Delivery as answered by a ping or redelivery: the endpoint's answer is left out */
+export const webhookAttempt = {
+  $id: "WebhookAttempt",
+  type: "object",
+  required: attemptRequired,
+  properties: attemptProperties,
+} as const;
+
+export const webhookDelivery = {
+  $id: "WebhookDelivery",
+  type: "object",
+  required: attemptRequired,
+  properties: {
+    ...attemptProperties,
+    responseStatus: { type: "integer", description: "HTTP status of the last attempt" },
+    lastError: { type: "string" },
+  },
+} as const;
+
+const webhookIdParams = {
+  type: "object",
+  required: ["webhookId"],
+  properties: { webhookId: id },
+} as const;
+
+const attemptResponse = {
+  200: {
+    type: "object",
+    required: ["success", "delivery"],
+    properties: { success: { type: "boolean" }, delivery: { $ref: "WebhookAttempt#" } },
+  },
+  ...errorResponses,
+} as const;
+
+export const listWebhooksSchema = {
+  tags: ["webhooks"],
+  summary: "List the wallet's webhooks",
+  security: bearerAuth,
+  response: {
+    200: {
+      type: "object",
+      required: ["success", "webhooks"],
+      properties: {
+        success: { type: "boolean" },
+        webhooks: { type: "array", items: { $ref: "Webhook#" } },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+export const createWebhookSchema = {
+  tags: ["webhooks"],
+  summary: "Register a webhook for the wallet's links, or for one link",
+  security: bearerAuth,
+  body: {
+    type: "object",
+    required: ["url"],
+    properties: {
+      url: { type: "string", minLength: 1, maxLength: MAX_URL_LENGTH },
+      paymentId: { type: "string", maxLength: 64 },
+    },
+  },
+  response: {
+    201: {
+      type: "object",
+      required: ["success", "webhook"],
+      properties: {
+        success: { type: "boolean" },
+        webhook: {
+          type: "object",
+          required: [...webhookInfo.required, "secret"],
+          properties: {
+            ...webhookProperties,
+            secret: { type: "string", description: "Signing secret; shown only in this response" },
+          },
+        },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+export const deleteWebhookSchema = {
+  tags: ["webhooks"],
+  summary: "Remove a webhook and its delivery log",
+  security: bearerAuth,
+  params: webhookIdParams,
+  response: { 200: successResponse, ...errorResponses },
+} as const;
+
+export const listWebhookDeliveriesSchema = {
+  tags: ["webhooks"],
+  summary: "List a webhook's deliveries, newest first",
+  security: bearerAuth,
+  params: webhookIdParams,
+  querystring: {
+    type: "object",
+    properties: {
+      // Larger limits are capped at 100
+      limit: { type: "integer", minimum: 1, default: 50 },
+    },
+  },
+  response: {
+    200: {
+      type: "object",
+      required: ["success", "deliveries"],
+      properties: {
+        success: { type: "boolean" },
+        deliveries: { type: "array", items: { $ref: "WebhookDelivery#" } },
+      },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+export const pingWebhookSchema = {
+  tags: ["webhooks"],
+  summary: "Send a test ping to a webhook now",
+  security: bearerAuth,
+  params: webhookIdParams,
+  response: attemptResponse,
+} as const;
+
+export const redeliverWebhookSchema = {
+  tags: ["webhooks"],
+  summary: "Send a delivery's event again now",
+  security: bearerAuth,
+  params: {
+    type: "object",
+    required: ["webhookId", "deliveryId"],
+    properties: { webhookId: id, deliveryId: id },
+  },
+  response: attemptResponse,
+} as const;
@@ -0,0 +1,146 @@
+/**
+ * Request and response schemas of the withdraw endpoints and their jobs
+ */
+
+import { ERROR_CODES } from "../types/errors";
+import { baseUnits, errorResponses, optionalAuth, positiveBaseUnits, timestamp } from "./common";
+
+const JOB_STAGES = [
+  "queued",
+  "syncing_utxos",
+  "proving",
+  "submitting",
+  "confirmed",
+  "failed",
+  "unconfirmed",
+];
+
+const idempotencyHeaders = {
+  type: "object",
+  properties: { "idempotency-key": { type: "string", minLength: 1, maxLength: 255 } },
+} as const;
+
+const quoteId = { type: "string", minLength: 1, maxLength: 2048 } as const;
+
+const signedBy = {
+  publicKey: { type: "string", minLength: 32, maxLength: 44 },
+  signature: { type: "string", minLength: 1 }, // base64
+} as const;
+
+/** 202 when the job is queued; 200 when an Idempotency-Key replays an earlier job */
+export const jobAccepted = {
+  $id: "WithdrawJobAccepted",
+  type: "object",
+  required: ["success", "jobId", "stage"],
+  properties: {
+    success: { type: "boolean" },
+    jobId: { type: "string" },
+    stage: { type: "string", enum: JOB_STAGES },
+    replayed: { type: "boolean" },
+  },
+} as const;
+
+const jobAcceptedRef = { $ref: "WithdrawJobAccepted#" } as const;
+const withdrawResponses = { 200: jobAcceptedRef, 202: jobAcceptedRef, ...errorResponses } as const;
+
+export const withdrawBody = {
+  $id: "WithdrawRequest",
+  type: "object",
+  required: ["paymentId", "amountLamports", "publicKey", "signature"],
+  properties: {
+    paymentId: { type: "string", minLength: 1, maxLength: 64 },
+    amountLamports: positiveBaseUnits,
+    recipientAmountLamports: positiveBaseUnits,
+    quoteId,
+    ...signedBy,
+  },
+} as const;
+
+export const withdrawSplBody = {
+  $id: "WithdrawSplRequest",
+  type: "object",
+  required: ["paymentId", "amountBaseUnits", "publicKey", "signature"],
+  properties: {
+    paymentId: { type: "string", minLength: 1, maxLength: 64 },
+    amountBaseUnits: positiveBaseUnits,
+    recipientAmountBaseUnits: positiveBaseUnits,
+    quoteId,
+    ...signedBy,
+  },
+} as const;
+
+export const withdrawSchema = {
+  tags: ["withdraw"],
+  summary: "Queue a private SOL withdrawal to pay a link",
+  security: optionalAuth,
+  headers: idempotencyHeaders,
+  body: { $ref: "WithdrawRequest#" },
+  response: withdrawResponses,
+} as const;
+
+export const withdrawSplSchema = {
+  tags: ["withdraw"],
+  summary: "Queue a private SPL withdrawal to pay a link",
+  security: optionalAuth,
+  headers: idempotencyHeaders,
+  body: { $ref: "WithdrawSplRequest#" },
+  response: withdrawResponses,
+} as const;
+
+const jobIdParams = {
+  type: "object",
+  required: ["jobId"],
+  properties: { jobId: { type: "string", minLength: 1, maxLength: 64 } },
+} as const;
+
+export const withdrawJobInfo = {
+  $id: "WithdrawJob",
+  type: "object",
+  required: ["id", "kind", "paymentId", "stage", "createdAt", "updatedAt"],
+  properties: {
+    id: { type: "string" },
+    kind: { type: "string", enum: ["sol", "spl"] },
+    paymentId: { type: "string" },
+    stage: { type: "string", enum: JOB_STAGES },
+    createdAt: timestamp,
+    updatedAt: timestamp,
+    tx: { type: "string" },
+    // SOL jobs report lamports, SPL jobs base units
+    result: {
+      type: "object",
+      required: ["isPartial"],
+      properties: {
+        isPartial: { type: "boolean" },
+        amount_in_lamports: baseUnits,
+        fee_in_lamports: baseUnits,
+        base_units: baseUnits,
+        fee_base_units: baseUnits,
+      },
+    },
+    error: { type: "string" },
+    errorCode: { type: "string", enum: [...ERROR_CODES] },
+    relayer: { type: "string", description: "Relayer that served the withdrawal" },
+  },
+} as const;
+
+export const withdrawJobSchema = {
+  tags: ["withdraw"],
+  summary: "Get the stage of a withdraw job",
+  params: jobIdParams,
+  response: {
+    200: {
+      type: "object",
+      required: ["success", "job"],
+      properties: { success: { type: "boolean" }, job: { $ref: "WithdrawJob#" } },
+    },
+    ...errorResponses,
+  },
+} as const;
+
+// The 200 body is an event stream
+export const withdrawJobEventsSchema = {
+  tags: ["withdraw"],
+  summary: "Stream a withdraw job's logs and stage changes (Server-Sent Events)",
+  params: jobIdParams,
+  response: errorResponses,
+} as const;
@@ -1,160 +1,108 @@
 import "dotenv/config";
-import Fastify from "fastify";
+import Fastify, { type FastifyReply, type FastifyRequest, type RouteHandler } from "fastify";
 import cors from "@fastify/cors";
 import fs from "fs";
 import path from "path";
-import { Connection, LAMPORTS_PER_SOL, PublicKey } from "@solana/web3.js";
-import { getConfig, tokens as sdkTokens } from "privacycash/utils";
+import { Connection } from "@solana/web3.js";
+import {
+  SOL_MINT,
+  computeRecipientFromTotal,
+  computeTotalForRecipient,
+  createFailoverFetch,
+  createRelayerConfigCache,
+  createRelayerPool,
+  getTokenByMint,
+  getTokenByName,
+  parseRelayerConfig,
+  parseRelayerUrls,
+  toBaseUnits,
+  type RelayerConfig,
+  type TokenInfo,
+} from "@ghostsend/shared";
+import { apiKeysRoutes } from "./routes/api-keys";
+import { authRoutes, requireWalletOrApiKey } from "./routes/auth";
+import { checkoutRoutes } from "./routes/checkout";
+import { feesRoutes } from "./routes/fees";
 import { paymentLinksRoutes } from "./routes/payment-links";
-import { PaymentLinksStore } from "./services/payment-links/store";
-import type { SDKToken } from "./types/sdk";
+import { quotesRoutes } from "./routes/quotes";
+import { relayersRoutes } from "./routes/relayers";
+import { webhooksRoutes } from "./routes/webhooks";
+import { createPayUrlBuilder } from "./services/payment-links/pay-url";
+import { createPaymentLinksRepository } from "./services/payment-links/repository";
+import { startExpirySweeper } from "./services/payment-links/expiry-sweeper";
+import { createStorageFromEnv } from "./services/storage";
+import { createWithdrawalVerifier } from "./services/payment-links/verify-withdrawal";
+import { createIdempotencyKeys, type IdempotencyClaim } from "./services/withdraw/idempotency";
+import { createWithdrawJobQueue, isTerminalStage } from "./services/withdraw/jobs";
+import { createProverPool } from "./services/withdraw/prover-pool";
+import { MAX_WITHDRAW_BASE_UNITS, checkQuotedWithdrawal } from "./services/withdraw/quotes";
+import { createPaymentReservations } from "./services/withdraw/reservations";
+import { startWebhookRetrySweeper } from "./services/webhooks/retry-sweeper";
+import { createWebhooksService } from "./services/webhooks/webhooks";
+import { createApiKeysService } from "./services/api-keys/api-keys";
+import { createRateLimitStoreFromEnv, rateLimitsFromEnv } from "./services/rate-limit";
+import { registerRateLimits } from "./routes/rate-limits";
+import { apiError, registerErrorHandlers } from "./routes/errors";
+import { registerApiDocs } from "./routes/docs";
+import {
+  withdrawJobEventsSchema,
+  withdrawJobSchema,
+  withdrawSchema,
+  withdrawSplSchema,
+} from "./schemas/withdraw";
+import { codedError, type ErrorCode } from "./types/errors";
+import type { PaymentLinkMetadata } from "./types/payment-links";
+import type {
+  WithdrawJobEvent,
+  WithdrawRequest,
+  WithdrawResult,
+  WithdrawSdkResult,
+  WithdrawSplRequest,
+  WithdrawSplResult,
+  WithdrawSplSdkResult,
+} from "./types/withdraw";
 
 // SDK reads RELAYER_API_URL from NEXT_PUBLIC_RELAYER_API_URL only
-if (!process.env.NEXT_PUBLIC_RELAYER_API_URL) {
-  process.env.NEXT_PUBLIC_RELAYER_API_URL =
-    process.env.RELAYER_API_URL || "https://api3.privacycash.org";
-}
-
-type WithdrawRequest = {
-  paymentId: string;
-  amountLamports: number;
-  recipientAmountLamports?: number;
-  publicKey: string;
-  signature: string;
-};
-
-type WithdrawResult = {
-  isPartial: boolean;
-  amount_in_lamports: number;
-  fee_in_lamports: number;
-};
-
-type WithdrawSdkResult = WithdrawResult & {
-  tx: string;
-  recipient?: string;
-};
-
-type WithdrawSplRequest = {
-  paymentId: string;
-  amountBaseUnits: number;
-  recipientAmountBaseUnits?: number;
-  publicKey: string;
-  signature: string;
-};
-
-type WithdrawSplResult = {
-  isPartial: boolean;
-  base_units: number;
-  fee_base_units: number;
-};
-
-type WithdrawSplSdkResult = WithdrawSplResult & {
-  tx: string;
-  recipient?: string;
-};
+const RELAYER_API_URL =
+  process.env.NEXT_PUBLIC_RELAYER_API_URL ||
+  process.env.RELAYER_API_URL ||
+  "https://api3.privacycash.org";
+process.env.NEXT_PUBLIC_RELAYER_API_URL = RELAYER_API_URL;
 
 const RPC_URL = process.env.SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com";
-const SOL_MINT = (() => {
-  const token = sdkTokens.find((sdkToken: SDKToken) => sdkToken.name === "sol");
-  if (!token) return null;
-  return typeof token.pubkey === "string" ? token.pubkey : token.pubkey.toBase58();
-})();
-type RelayerConfig = {
-  withdraw_fee_rate: number;
-  withdraw_rent_fee: number;
-  rent_fees: Record<string, number>;
-};
+const solToken = getTokenByName("sol")!;
 
-/** Fallback when relayer config API is unavailable; matches SDK default expectations. */
-const FALLBACK_RELAYER_CONFIG: RelayerConfig = {
-  withdraw_fee_rate: 0.0025,
-  withdraw_rent_fee: 0.001,
-  rent_fees: {},
-};
+const RELAYER_CONFIG_TTL_MS = Number(process.env.RELAYER_CONFIG_TTL_MS || 60000);
+const RELAYER_PROBE_INTERVAL_MS = Number(process.env.RELAYER_PROBE_INTERVAL_MS || 30000);
 
-let relayerConfigCache: RelayerConfig | null = null;
+// Relayers to fail over between; the SDK's own URL is always first in the list
+const relayers = createRelayerPool(
+  parseRelayerUrls(process.env.RELAYER_API_URLS, RELAYER_API_URL),
+  { probeIntervalMs: RELAYER_PROBE_INTERVAL_MS }
+);
+relayers.start();
+
+const relayerFetch = createFailoverFetch({
+  primaryUrl: RELAYER_API_URL,
+  candidates: relayers.ranked,
+  onAttempt: relayers.record,
+});
 
 /**
- * Load relayer fee config from the same API the Privacy Cash SDK uses (getConfig).
- * Ensures fee calculations match the SDK. Falls back to FALLBACK_RELAYER_CONFIG on error.
+ * Load relayer fee config from the same endpoint the Privacy Cash SDK reads (getConfig).
+ * Fetched directly, as the SDK's getConfig keeps its first answer for the process.
  */
-async function getRelayerConfig(): Promise<RelayerConfig> {
-  if (relayerConfigCache) return relayerConfigCache;
-  try {
-    const [withdraw_fee_rate, withdraw_rent_fee, rent_fees] = await Promise.all([
-      getConfig("withdraw_fee_rate"),
-      getConfig("withdraw_rent_fee"),
-      getConfig("rent_fees"),
-    ]);
-    const config: RelayerConfig = {
-      withdraw_fee_rate: Number(withdraw_fee_rate),
-      withdraw_rent_fee: Number(withdraw_rent_fee),
-      rent_fees:
-        typeof rent_fees === "object" && rent_fees !== null
-          ? (rent_fees as Record<string, number>)
-          : {},
-    };
-    relayerConfigCache = config;
-    return config;
-  } catch {
-    relayerConfigCache = FALLBACK_RELAYER_CONFIG;
-    return relayerConfigCache;
-  }
+async function loadRelayerConfig(): Promise<RelayerConfig> {
+  const res = await relayerFetch(`${RELAYER_API_URL}/config`);
+  if (!res.ok) throw new Error(`Relayer config request failed: HTTP ${res.status}`);
+  return parseRelayerConfig((await res.json()) as Record<string, unknown>);
 }
 
-function computeRecipientLamportsFromTotal(totalLamports: number, config: RelayerConfig): number {
-  const feeLamports = Math.floor(
-    totalLamports * config.withdraw_fee_rate + LAMPORTS_PER_SOL * config.withdraw_rent_fee
-  );
-  return totalLamports - feeLamports;
-}
-
-function computeTotalLamportsForRecipient(
-  recipientLamports: number,
-  config: RelayerConfig
-): number {
-  const rentLamports = Math.floor(LAMPORTS_PER_SOL * config.withdraw_rent_fee);
-  const rate = config.withdraw_fee_rate;
-  if (rate >= 1) {
-    return recipientLamports + rentLamports;
-  }
-  return Math.floor((recipientLamports + rentLamports) / (1 - rate));
-}
-
-function computeRecipientBaseUnitsFromTotal(
-  totalBaseUnits: number,
-  unitsPerToken: number,
-  tokenName: string,
-  config: RelayerConfig
-): number {
-  const tokenRentFee = config.rent_fees[tokenName] ?? 0.001;
-  const feeBaseUnits = Math.floor(
-    totalBaseUnits * config.withdraw_fee_rate + unitsPerToken * tokenRentFee
-  );
-  return totalBaseUnits - feeBaseUnits;
-}
-
-function computeTotalBaseUnitsForRecipient(
-  recipientBaseUnits: number,
-  unitsPerToken: number,
-  tokenName: string,
-  config: RelayerConfig
-): number {
-  const tokenRentFee = config.rent_fees[tokenName] ?? 0.001;
-  const rentBaseUnits = Math.floor(unitsPerToken * tokenRentFee);
-  const rate = config.withdraw_fee_rate;
-  if (rate >= 1) {
-    return recipientBaseUnits + rentBaseUnits;
-  }
-  return Math.floor((recipientBaseUnits + rentBaseUnits) / (1 - rate));
-}
-
-const tokenByMint = new Map<string, SDKToken>(
-  sdkTokens.map((sdkToken: SDKToken) => [
-    typeof sdkToken.pubkey === "string" ? sdkToken.pubkey : sdkToken.pubkey.toBase58(),
-    sdkToken,
-  ])
-);
+// Falls back to FALLBACK_RELAYER_CONFIG until the relayer has answered once
+const relayerConfig = createRelayerConfigCache(loadRelayerConfig, {
+  ttlMs: RELAYER_CONFIG_TTL_MS,
+  onError: (error) => console.warn("[prover-backend] relayer config fetch failed", error),
+});
 
 // Find monorepo root public/circuit2 (shared with frontend) by walking up from cwd or __dirname
 function findSharedCircuitBase(): string | null {
@@ -187,440 +135,678 @@ const KEY_BASE_PATH = (() => {
   );
 })();
 const PORT = Number(process.env.PORT || 4000);
+const WITHDRAW_TIMEOUT_MS = 300000; // 5 minutes
+// How much longer a withdraw that was submitting at its timeout may run before it is stopped
+const WITHDRAW_OVERDUE_LIMIT_MS = 10 * 60 * 1000;
+// How long an unconfirmed withdraw keeps its link held while its payment is reconciled
+const UNCONFIRMED_HOLD_MS = 60 * 60 * 1000;
+const PROVER_POOL_SIZE = Number(process.env.PROVER_POOL_SIZE || 1);
+const PROVER_MAX_QUEUE = Number(process.env.PROVER_MAX_QUEUE || 10);
+const PROVER_RETRY_AFTER_SECONDS = 30;
+const WITHDRAW_JOB_RETENTION_MS = 60 * 60 * 1000;
+const PAYMENT_LINKS_SWEEP_INTERVAL_MS = Number(
+  process.env.PAYMENT_LINKS_SWEEP_INTERVAL_MS || 60000
+);
+const WEBHOOK_RETRY_INTERVAL_MS = Number(process.env.WEBHOOK_RETRY_INTERVAL_MS || 15000);
+const API_KEY_RATE_LIMIT_PER_MINUTE = Number(process.env.API_KEY_RATE_LIMIT_PER_MINUTE || 120);
+
+const storage = createStorageFromEnv();
+const paymentLinks = createPaymentLinksRepository(storage.paymentLinks);
+const withdrawalVerifier = createWithdrawalVerifier({
+  connection: new Connection(RPC_URL, "confirmed"),
+  solMint: SOL_MINT,
+});
+// Links and checkout sessions are paid on the app, which may be served from another host
+const payUrl = createPayUrlBuilder(process.env.PUBLIC_APP_URL);
 
-// ==========================================================
-// GLOBAL CACHES - persist across requests for speed
-// ==========================================================
+// Behind a reverse proxy, client IPs for rate limits come from X-Forwarded-For
+const app = Fastify({ logger: true, trustProxy: process.env.TRUST_PROXY === "true" });
 
-let _sdk: typeof import("privacycash/utils") | null = null;
-async function getSDK() {
-  if (!_sdk) {
-    console.log("[prover-backend] loading SDK module...");
-    _sdk = await import("privacycash/utils");
-    console.log("[prover-backend] SDK module loaded");
-  }
-  return _sdk;
-}
+const rateLimitStore = createRateLimitStoreFromEnv();
 
-let _lightWasm: Awaited<
-  ReturnType<(typeof import("@lightprotocol/hasher.rs"))["WasmFactory"]["getInstance"]>
-> | null = null;
-async function getLightWasm() {
-  if (!_lightWasm) {
-    console.log("[prover-backend] loading LightWasm...");
-    const wasmModule = await import("@lightprotocol/hasher.rs");
-    _lightWasm = await wasmModule.WasmFactory.getInstance();
-    console.log("[prover-backend] LightWasm loaded");
-  }
-  return _lightWasm;
-}
+const webhooks = createWebhooksService({
+  storage: storage.webhooks,
+  paymentLinks,
+  log: app.log,
+  allowInsecureUrls: process.env.WEBHOOKS_ALLOW_HTTP === "true",
+  allowPrivateAddresses: process.env.WEBHOOKS_ALLOW_PRIVATE === "true",
+});
 
-let _connection: Connection | null = null;
-function getConnection() {
-  if (!_connection) {
-    _connection = new Connection(RPC_URL, "confirmed");
-    console.log("[prover-backend] connection created:", RPC_URL);
-  }
-  return _connection;
+const paymentReservations = createPaymentReservations({
+  storage: storage.withdrawals,
+  log: app.log,
+});
+const idempotencyKeys = createIdempotencyKeys({ storage: storage.withdrawals, log: app.log });
+
+const withdrawJobs = createWithdrawJobQueue({
+  concurrency: PROVER_POOL_SIZE,
+  maxQueued: PROVER_MAX_QUEUE,
+  retentionMs: WITHDRAW_JOB_RETENTION_MS,
+  storage: storage.withdrawals,
+  log: app.log,
+});
+
+// Proofs run on worker threads, each with its own warmed SDK and LightWasm instance
+const prover = createProverPool({
+  size: PROVER_POOL_SIZE,
+  workerData: { keyBasePath: KEY_BASE_PATH, rpcUrl: RPC_URL },
+  onLog: (jobId, level, message) => {
+    withdrawJobs.handleSdkLog(jobId, level, message);
+    if (level === "error" || level === "warn") {
+      console.log(`[prover-backend][sdk][${level}]`, message);
+    }
+  },
+  relayers,
+  onRelayer: (jobId, url) => withdrawJobs.setRelayer(jobId, url),
+  // A submitting job may already be on chain; cancelling it would lose its payment record
+  canCancel: (jobId) => withdrawJobs.canCancel(jobId),
+  // Overdue jobs end unconfirmed if they then fail, including when the hard limit stops them
+  onOverdue: (jobId) => withdrawJobs.markOverdue(jobId),
+  overdueLimitMs: WITHDRAW_OVERDUE_LIMIT_MS,
+});
+
+/**
+ * Read the optional Idempotency-Key header. Returns null when absent and false when
+ * malformed.
+ */
+function getIdempotencyKey(headers: FastifyRequest["headers"]): string | null | false {
+  const value = headers["idempotency-key"];
+  if (value === undefined) return null;
+  if (typeof value !== "string") return false;
+  const key = value.trim();
+  return key.length > 0 && key.length <= 255 ? key : false;
 }
 
-const storageCache = new Map<string, Map<string, string>>();
-function getStorageForPubkey(pubkey: string): Storage {
-  if (!storageCache.has(pubkey)) {
-    storageCache.set(pubkey, new Map());
+/**
+ * Answer a withdraw retry whose Idempotency-Key was already used. A key that queued a
+ * job returns that job again instead of starting a second withdrawal; if the job can no
+ * longer be found, it may have paid, so the retry is refused as unconfirmed.
+ */
+async function replyToIdempotencyClaim(reply: FastifyReply, claim: IdempotencyClaim) {
+  if (claim.status === "mismatch") {
+    return reply
+      .status(422)
+      .send(
+        apiError(
+          "IDEMPOTENCY_KEY_REUSED",
+          "Idempotency-Key was already used for a different request"
+        )
+      );
   }
-  const map = storageCache.get(pubkey)!;
-  return {
-    get length() {
-      return map.size;
-    },
-    clear() {
-      map.clear();
-    },
-    getItem(key: string) {
-      return map.get(key) ?? null;
-    },
-    key(index: number) {
-      return Array.from(map.keys())[index] ?? null;
-    },
-    removeItem(key: string) {
-      map.delete(key);
-    },
-    setItem(key: string, value: string) {
-      map.set(key, value);
-    },
-  };
+  if (claim.status === "accepted") {
+    const job = await withdrawJobs.find(claim.jobId);
+    if (!job) {
+      return reply
+        .status(409)
+        .send(
+          apiError(
+            "WITHDRAW_UNCONFIRMED",
+            "The withdrawal queued with this Idempotency-Key can no longer be found; it may be on chain"
+          )
+        );
+    }
+    return reply.send({ success: true, jobId: job.id, stage: job.stage, replayed: true });
+  }
+  return reply
+    .status(409)
+    .send(
+      apiError(
+        "IDEMPOTENCY_KEY_IN_PROGRESS",
+        "A request with this Idempotency-Key is already in progress"
+      )
+    );
 }
 
-const warmupPromise = (async () => {
-  console.log("[prover-backend] warming up...");
-  const start = Date.now();
-  await Promise.all([getSDK(), getLightWasm()]);
-  console.log(`[prover-backend] warmup complete in ${Date.now() - start}ms`);
-})();
+const warmupStart = Date.now();
+prover
+  .ready()
+  .then(() => console.log(`[prover-backend] warmup complete in ${Date.now() - warmupStart}ms`))
+  .catch((error) => console.error("[prover-backend] warmup failed:", error));
 
-async function buildSessionFromSignature(publicKeyStr: string, signatureBase64: string) {
-  const sdk = await getSDK();
-  const lightWasm = await getLightWasm();
-
-  const publicKey = new PublicKey(publicKeyStr);
-  const signature = Uint8Array.from(Buffer.from(signatureBase64, "base64"));
+const apiKeys = createApiKeysService({
+  storage: storage.apiKeys,
+  rateLimitStore,
+  rateLimitPerMinute: API_KEY_RATE_LIMIT_PER_MINUTE,
+});
 
-  const encryptionService = new sdk.EncryptionService();
-  encryptionService.deriveEncryptionKeyFromSignature(signature);
+const expirySweeper = startExpirySweeper({
+  repository: paymentLinks,
+  intervalMs: PAYMENT_LINKS_SWEEP_INTERVAL_MS,
+  log: app.log,
+});
 
-  return { publicKey, encryptionService, lightWasm };
-}
+const webhookRetrySweeper = startWebhookRetrySweeper({
+  webhooks,
+  intervalMs: WEBHOOK_RETRY_INTERVAL_MS,
+  log: app.log,
+});
 
-const app = Fastify({ logger: true });
+app.addHook("onClose", async () => {
+  expirySweeper.stop();
+  webhookRetrySweeper.stop();
+  relayers.stop();
+  paymentReservations.stop();
+  withdrawJobs.stop();
+  await Promise.all([storage.close(), prover.close(), rateLimitStore.close()]);
+});
 
 app.register(cors, {
   origin: ["https://ghostsend.xyz"],
-  methods: ["GET", "POST", "DELETE", "OPTIONS"],
+  methods: ["GET", "POST", "PATCH", "DELETE", "OPTIONS"],
+  allowedHeaders: ["Content-Type", "Authorization", "Idempotency-Key"],
+  exposedHeaders: [
+    "Content-Disposition",
+    "RateLimit-Limit",
+    "RateLimit-Remaining",
+    "RateLimit-Reset",
+    "Retry-After",
+  ],
 });
 
+app.decorateRequest("walletAddress", null);
+app.decorateRequest("apiKeyId", null);
+
+registerErrorHandlers(app);
+
+// OpenAPI document and docs UI for every route registered below
+registerApiDocs(app);
+
+// Per-IP and per-wallet limits for every route registered below
+registerRateLimits(app, { store: rateLimitStore, limits: rateLimitsFromEnv() });
+
+// Register wallet sign-in routes
+app.register(authRoutes);
+
 // Register payment links routes
-app.register(paymentLinksRoutes);
+app.register(paymentLinksRoutes, {
+  repository: paymentLinks,
+  verifier: withdrawalVerifier,
+  webhooks,
+  apiKeys,
+  payUrl,
+});
 
-app.post<{ Body: WithdrawRequest }>("/withdraw", async (request, reply) => {
-  await warmupPromise;
+// Register merchant webhook routes
+app.register(webhooksRoutes, { webhooks, apiKeys });
 
-  const body = request.body;
-  if (!body || !body.paymentId || !body.publicKey || !body.signature) {
-    return reply.status(400).send({
-      success: false,
-      error: "Missing required fields",
-    });
-  }
+// Register merchant API key management routes
+app.register(apiKeysRoutes, { apiKeys });
 
-  const paymentLink = PaymentLinksStore.getPaymentLink(body.paymentId);
-  if (!paymentLink) {
-    return reply.status(404).send({
-      success: false,
-      error: "Payment link not found",
-    });
-  }
+// Register checkout session routes
+app.register(checkoutRoutes, { repository: paymentLinks, apiKeys, payUrl });
 
-  if (!PaymentLinksStore.canAcceptPayment(body.paymentId)) {
-    return reply.status(410).send({
-      success: false,
-      error: "Payment link is no longer active",
-    });
-  }
+// Register fee quote routes
+app.register(quotesRoutes, { repository: paymentLinks, relayerConfig });
 
-  if (SOL_MINT && paymentLink.tokenMint !== SOL_MINT) {
-    return reply.status(400).send({
-      success: false,
-      error: "Payment link is not SOL",
-    });
-  }
+// Register fee breakdown and relayer status routes
+app.register(feesRoutes, { relayerConfig });
+app.register(relayersRoutes, { relayers });
 
-  const amountLamports = body.amountLamports;
-  if (!amountLamports || amountLamports <= 0) {
-    return reply.status(400).send({
-      success: false,
-      error: "Amount is required",
-    });
-  }
+// Payers need not sign in; a session or API key, when sent, is counted per wallet on top
+// of the client IP. The body's publicKey is not used: anyone can send any key.
+const proofConfig = { rateLimit: "proof" } as const;
+const identifyPayer = requireWalletOrApiKey(apiKeys, null, { optional: true });
 
-  const relayerConfig = await getRelayerConfig();
-  const recipientLamports =
-    body.recipientAmountLamports ??
-    (paymentLink.amountType === "fixed" ? paymentLink.fixedAmount : undefined) ??
-    computeRecipientLamportsFromTotal(amountLamports, relayerConfig);
+function optionalBigInt(value: string | undefined): bigint | undefined {
+  return value === undefined ? undefined : BigInt(value);
+}
 
-  if (!recipientLamports || recipientLamports <= 0) {
-    return reply.status(400).send({
-      success: false,
-      error: "Recipient amount is required",
-    });
+type WithdrawPlan =
+  | { totalBaseUnits: bigint; recipientBaseUnits: bigint }
+  | { code: ErrorCode; error: string };
+
+/**
+ * Check a withdrawal paying a link and settle its amounts. With a quote, its locked total
+ * is used; without one, the total must be exactly what the current fees give for the
+ * recipient amount (the link's fixed amount when not sent).
+ */
+async function planWithdrawal(
+  paymentLink: PaymentLinkMetadata,
+  token: TokenInfo,
+  request: { totalBaseUnits: bigint; recipientBaseUnits?: bigint; quoteId?: string }
+): Promise<WithdrawPlan> {
+  const config = await relayerConfig.get();
+  let plan: { totalBaseUnits: bigint; recipientBaseUnits: bigint };
+  if (request.quoteId) {
+    const quoted = checkQuotedWithdrawal(
+      request.quoteId,
+      { paymentId: paymentLink.paymentId, ...request },
+      token,
+      config
+    );
+    if ("error" in quoted) return quoted;
+    plan = quoted;
+  } else {
+    const fixedAmount = paymentLink.amountType === "fixed" ? paymentLink.fixedAmount : undefined;
+    const recipientBaseUnits =
+      request.recipientBaseUnits ??
+      (fixedAmount !== undefined
+        ? BigInt(fixedAmount)
+        : computeRecipientFromTotal(request.totalBaseUnits, token, config.config));
+    const { totalBaseUnits } = computeTotalForRecipient(recipientBaseUnits, token, config.config);
+    plan = { totalBaseUnits, recipientBaseUnits };
   }
 
-  const validation = PaymentLinksStore.validateAmount(body.paymentId, recipientLamports);
+  if (plan.recipientBaseUnits <= 0n) {
+    return { code: "VALIDATION_FAILED", error: "Recipient amount is required" };
+  }
+  const validation = await paymentLinks.validateAmount(
+    paymentLink.paymentId,
+    plan.recipientBaseUnits
+  );
   if (!validation.valid) {
-    return reply.status(400).send({
-      success: false,
-      error: validation.error,
-    });
+    return {
+      code: "AMOUNT_MISMATCH",
+      error: validation.error ?? "Amount does not match the payment link",
+    };
   }
-
-  const totalLamports = computeTotalLamportsForRecipient(recipientLamports, relayerConfig);
-  if (Math.abs(totalLamports - amountLamports) > 2) {
-    return reply.status(400).send({
-      success: false,
-      error: "Fee config changed; refresh and retry",
-    });
+  if (!request.quoteId && plan.totalBaseUnits !== request.totalBaseUnits) {
+    // Either side may hold the old fees; start a refresh in case it is this one
+    void relayerConfig.refresh();
+    return { code: "FEE_CONFIG_CHANGED", error: "Fee config changed; refresh and retry" };
   }
+  if (plan.totalBaseUnits > MAX_WITHDRAW_BASE_UNITS) {
+    return { code: "VALIDATION_FAILED", error: "Amount is too large to withdraw in one go" };
+  }
+  return plan;
+}
 
-  const connection = getConnection();
-  const { publicKey, encryptionService, lightWasm } = await buildSessionFromSignature(
-    body.publicKey,
-    body.signature
-  );
-  const sdk = await getSDK();
-  const recipientPubkey = new PublicKey(paymentLink.recipientAddress);
-  const storage = getStorageForPubkey(publicKey.toBase58());
+const handleWithdraw: RouteHandler<{ Body: WithdrawRequest }> = async (request, reply) => {
+  const body = request.body;
 
-  const startedAt = Date.now();
-  const heartbeat = setInterval(() => {
-    const elapsedSec = Math.floor((Date.now() - startedAt) / 1000);
-    request.log.info(`[prover-backend][withdraw] still running... ${elapsedSec}s elapsed`);
-  }, 15000);
+  const idempotencyKey = getIdempotencyKey(request.headers);
+  if (idempotencyKey === false) {
+    return reply
+      .status(400)
+      .send(apiError("VALIDATION_FAILED", "Idempotency-Key must be 1-255 characters"));
+  }
+  if (idempotencyKey) {
+    const fingerprint = [
+      "sol",
+      body.paymentId,
+      body.publicKey,
+      body.amountLamports,
+      body.recipientAmountLamports ?? "",
+    ].join(":");
+    const claim = await idempotencyKeys.claim(idempotencyKey, fingerprint);
+    if (claim.status !== "claimed") return replyToIdempotencyClaim(reply, claim);
+  }
 
+  // Hold the link across the proof so concurrent payers cannot both take its last use
+  const reservation = await paymentReservations.hold(body.paymentId).catch(async (error) => {
+    if (idempotencyKey) await idempotencyKeys.release(idempotencyKey);
+    throw error;
+  });
+  let accepted = false;
   try {
-    const timeoutMs = 300000; // 5 minutes
-    const resultRaw = (await Promise.race([
-      sdk.withdraw({
-        lightWasm,
-        connection,
-        amount_in_lamports: totalLamports,
-        keyBasePath: KEY_BASE_PATH,
-        publicKey,
-        recipient: recipientPubkey,
-        storage,
-        encryptionService,
-      }),
-      new Promise((_, reject) =>
-        setTimeout(() => reject(new Error(`Withdraw timed out after ${timeoutMs}ms`)), timeoutMs)
-      ),
-    ])) as WithdrawSdkResult;
-
-    const actualRecipientLamports = resultRaw.amount_in_lamports;
-    const finalValidation = PaymentLinksStore.validateAmount(
-      body.paymentId,
-      actualRecipientLamports
-    );
-    if (!finalValidation.valid) {
-      request.log.error({
-        msg: "[prover-backend][withdraw] amount mismatch",
-        error: finalValidation.error,
-        paymentId: body.paymentId,
-        amount_in_lamports: actualRecipientLamports,
-      });
-      return reply.status(400).send({
-        success: false,
-        error: finalValidation.error || "Withdrawal amount does not match payment link",
-      });
+    const paymentLink = await paymentLinks.getPaymentLink(body.paymentId);
+    if (!paymentLink) {
+      return reply.status(404).send(apiError("LINK_NOT_FOUND", "Payment link not found"));
     }
 
-    if (!PaymentLinksStore.hasPaymentRecord(body.paymentId, resultRaw.tx)) {
-      PaymentLinksStore.addPaymentRecord(
-        body.paymentId,
-        actualRecipientLamports,
-        paymentLink.tokenMint,
-        resultRaw.tx
-      );
-      PaymentLinksStore.incrementUsageCount(body.paymentId);
+    if (!(await paymentLinks.canAcceptPayment(body.paymentId, reservation.ahead))) {
+      if (reservation.ahead > 0 && (await paymentLinks.canAcceptPayment(body.paymentId))) {
+        return reply
+          .status(409)
+          .send(apiError("LINK_BUSY", "Another payment for this link is in progress"));
+      }
+      return reply.status(410).send(apiError("LINK_INACTIVE", "Payment link is no longer active"));
     }
 
-    const result: WithdrawResult = {
-      isPartial: resultRaw.isPartial,
-      amount_in_lamports: resultRaw.amount_in_lamports,
-      fee_in_lamports: resultRaw.fee_in_lamports,
-    };
+    if (paymentLink.tokenMint !== SOL_MINT) {
+      return reply.status(400).send(apiError("TOKEN_MISMATCH", "Payment link is not SOL"));
+    }
 
-    const elapsed = Date.now() - startedAt;
-    request.log.info({
-      msg: "[prover-backend][withdraw] success",
-      tx: resultRaw.tx,
-      amount_in_lamports: resultRaw.amount_in_lamports,
-      fee_in_lamports: resultRaw.fee_in_lamports,
-      isPartial: resultRaw.isPartial,
-      elapsed_ms: elapsed,
+    const plan = await planWithdrawal(paymentLink, solToken, {
+      totalBaseUnits: BigInt(body.amountLamports),
+      recipientBaseUnits: optionalBigInt(body.recipientAmountLamports),
+      quoteId: body.quoteId,
     });
-
-    return reply.send({ success: true, result });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    request.log.error({ msg: "[prover-backend][withdraw] error", message });
-    return reply.status(500).send({
-      success: false,
-      error: message || "Withdraw failed",
+    if ("error" in plan) return reply.status(400).send(apiError(plan.code, plan.error));
+    const totalLamports = plan.totalBaseUnits;
+
+    const log = request.log;
+
+    const job = withdrawJobs.enqueue("sol", body.paymentId, async (jobId) => {
+      const startedAt = Date.now();
+      const heartbeat = setInterval(() => {
+        const elapsedSec = Math.floor((Date.now() - startedAt) / 1000);
+        log.info(`[prover-backend][withdraw] job ${jobId} still running... ${elapsedSec}s elapsed`);
+        withdrawJobs.log(jobId, "info", `Still running... ${elapsedSec}s elapsed`);
+      }, 15000);
+
+      try {
+        const resultRaw = (await prover.run(
+          {
+            kind: "sol",
+            jobId,
+            publicKey: body.publicKey,
+            signature: body.signature,
+            recipient: paymentLink.recipientAddress,
+            amount_in_lamports: Number(totalLamports),
+          },
+          WITHDRAW_TIMEOUT_MS
+        )) as WithdrawSdkResult;
+        withdrawJobs.markSubmitted(jobId, resultRaw.tx);
+
+        const actualRecipientLamports = toBaseUnits(resultRaw.amount_in_lamports);
+        const finalValidation = await paymentLinks.validateAmount(
+          body.paymentId,
+          BigInt(actualRecipientLamports)
+        );
+        if (!finalValidation.valid) {
+          // The money has moved: the job ends unconfirmed and keeps its hold
+          log.error({
+            msg: "[prover-backend][withdraw] amount mismatch after submission; reconcile the payment",
+            error: finalValidation.error,
+            paymentId: body.paymentId,
+            jobId,
+            tx: resultRaw.tx,
+            amount_in_lamports: actualRecipientLamports,
+          });
+          throw codedError(
+            "AMOUNT_MISMATCH",
+            finalValidation.error || "Withdrawal amount does not match payment link"
+          );
+        }
+
+        const record = await paymentLinks.addPaymentRecord(
+          body.paymentId,
+          actualRecipientLamports,
+          paymentLink.tokenMint,
+          resultRaw.tx
+        );
+        if (record) {
+          await paymentLinks.incrementUsageCount(body.paymentId);
+          await webhooks.notifyPaymentCompleted(paymentLink, record);
+        }
+
+        const result: WithdrawResult = {
+          isPartial: resultRaw.isPartial,
+          amount_in_lamports: actualRecipientLamports,
+          fee_in_lamports: toBaseUnits(resultRaw.fee_in_lamports),
+        };
+
+        const elapsed = Date.now() - startedAt;
+        log.info({
+          msg: "[prover-backend][withdraw] success",
+          jobId,
+          tx: resultRaw.tx,
+          amount_in_lamports: resultRaw.amount_in_lamports,
+          fee_in_lamports: resultRaw.fee_in_lamports,
+          isPartial: resultRaw.isPartial,
+          elapsed_ms: elapsed,
+        });
+
+        return { tx: resultRaw.tx, result };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log.error({ msg: "[prover-backend][withdraw] error", jobId, message });
+        if (withdrawJobs.isUnconfirmed(jobId, error)) {
+          await reservation.keep(UNCONFIRMED_HOLD_MS);
+        }
+        throw error;
+      } finally {
+        clearInterval(heartbeat);
+        await reservation.release();
+      }
     });
+
+    if (!job) {
+      return reply
+        .status(503)
+        .header("Retry-After", String(PROVER_RETRY_AFTER_SECONDS))
+        .send(apiError("PROVER_BUSY", "Prover is busy; retry shortly"));
+    }
+
+    accepted = true;
+    if (idempotencyKey) await idempotencyKeys.bind(idempotencyKey, job.id);
+    return reply.status(202).send({ success: true, jobId: job.id, stage: job.stage });
   } finally {
-    clearInterval(heartbeat);
+    if (!accepted) {
+      await reservation.release();
+      if (idempotencyKey) await idempotencyKeys.release(idempotencyKey);
+    }
   }
-});
-
-app.post<{ Body: WithdrawSplRequest }>("/withdraw-spl", async (request, reply) => {
-  await warmupPromise;
+};
 
+const handleWithdrawSpl: RouteHandler<{ Body: WithdrawSplRequest }> = async (request, reply) => {
   const body = request.body;
-  if (!body || !body.paymentId || !body.publicKey || !body.signature) {
-    return reply.status(400).send({
-      success: false,
-      error: "Missing required fields",
-    });
-  }
 
-  const paymentLink = PaymentLinksStore.getPaymentLink(body.paymentId);
-  if (!paymentLink) {
-    return reply.status(404).send({
-      success: false,
-      error: "Payment link not found",
-    });
+  const idempotencyKey = getIdempotencyKey(request.headers);
+  if (idempotencyKey === false) {
+    return reply
+      .status(400)
+      .send(apiError("VALIDATION_FAILED", "Idempotency-Key must be 1-255 characters"));
   }
-
-  if (!PaymentLinksStore.canAcceptPayment(body.paymentId)) {
-    return reply.status(410).send({
-      success: false,
-      error: "Payment link is no longer active",
-    });
+  if (idempotencyKey) {
+    const fingerprint = [
+      "spl",
+      body.paymentId,
+      body.publicKey,
+      body.amountBaseUnits,
+      body.recipientAmountBaseUnits ?? "",
+    ].join(":");
+    const claim = await idempotencyKeys.claim(idempotencyKey, fingerprint);
+    if (claim.status !== "claimed") return replyToIdempotencyClaim(reply, claim);
   }
 
-  if (SOL_MINT && paymentLink.tokenMint === SOL_MINT) {
-    return reply.status(400).send({
-      success: false,
-      error: "Payment link is SOL",
-    });
-  }
+  // Hold the link across the proof so concurrent payers cannot both take its last use
+  const reservation = await paymentReservations.hold(body.paymentId).catch(async (error) => {
+    if (idempotencyKey) await idempotencyKeys.release(idempotencyKey);
+    throw error;
+  });
+  let accepted = false;
+  try {
+    const paymentLink = await paymentLinks.getPaymentLink(body.paymentId);
+    if (!paymentLink) {
+      return reply.status(404).send(apiError("LINK_NOT_FOUND", "Payment link not found"));
+    }
 
-  const amountBaseUnits = body.amountBaseUnits;
-  if (!amountBaseUnits || amountBaseUnits <= 0) {
-    return reply.status(400).send({
-      success: false,
-      error: "Amount is required",
-    });
-  }
+    if (!(await paymentLinks.canAcceptPayment(body.paymentId, reservation.ahead))) {
+      if (reservation.ahead > 0 && (await paymentLinks.canAcceptPayment(body.paymentId))) {
+        return reply
+          .status(409)
+          .send(apiError("LINK_BUSY", "Another payment for this link is in progress"));
+      }
+      return reply.status(410).send(apiError("LINK_INACTIVE", "Payment link is no longer active"));
+    }
 
-  const tokenInfo = tokenByMint.get(paymentLink.tokenMint);
-  if (!tokenInfo) {
-    return reply.status(400).send({
-      success: false,
-      error: "Unsupported token",
-    });
-  }
+    if (paymentLink.tokenMint === SOL_MINT) {
+      return reply.status(400).send(apiError("TOKEN_MISMATCH", "Payment link is SOL"));
+    }
 
-  const relayerConfig = await getRelayerConfig();
-  const recipientBaseUnits =
-    body.recipientAmountBaseUnits ??
-    (paymentLink.amountType === "fixed" ? paymentLink.fixedAmount : undefined) ??
-    computeRecipientBaseUnitsFromTotal(
-      amountBaseUnits,
-      tokenInfo.units_per_token,
-      tokenInfo.name,
-      relayerConfig
-    );
+    const tokenInfo = getTokenByMint(paymentLink.tokenMint);
+    if (!tokenInfo) {
+      return reply.status(400).send(apiError("INVALID_TOKEN", "Unsupported token"));
+    }
 
-  if (!recipientBaseUnits || recipientBaseUnits <= 0) {
-    return reply.status(400).send({
-      success: false,
-      error: "Recipient amount is required",
+    const plan = await planWithdrawal(paymentLink, tokenInfo, {
+      totalBaseUnits: BigInt(body.amountBaseUnits),
+      recipientBaseUnits: optionalBigInt(body.recipientAmountBaseUnits),
+      quoteId: body.quoteId,
     });
-  }
-  const validation = PaymentLinksStore.validateAmount(body.paymentId, recipientBaseUnits);
-  if (!validation.valid) {
-    return reply.status(400).send({
-      success: false,
-      error: validation.error,
+    if ("error" in plan) return reply.status(400).send(apiError(plan.code, plan.error));
+    const { totalBaseUnits } = plan;
+
+    const log = request.log;
+
+    const job = withdrawJobs.enqueue("spl", body.paymentId, async (jobId) => {
+      const startedAt = Date.now();
+      const heartbeat = setInterval(() => {
+        const elapsedSec = Math.floor((Date.now() - startedAt) / 1000);
+        log.info(
+          `[prover-backend][withdraw-spl] job ${jobId} still running... ${elapsedSec}s elapsed`
+        );
+        withdrawJobs.log(jobId, "info", `Still running... ${elapsedSec}s elapsed`);
+      }, 15000);
+
+      try {
+        const resultRaw = (await prover.run(
+          {
+            kind: "spl",
+            jobId,
+            publicKey: body.publicKey,
+            signature: body.signature,
+            recipient: paymentLink.recipientAddress,
+            mintAddress: paymentLink.tokenMint,
+            base_units: Number(totalBaseUnits),
+          },
+          WITHDRAW_TIMEOUT_MS
+        )) as WithdrawSplSdkResult;
+        withdrawJobs.markSubmitted(jobId, resultRaw.tx);
+
+        const actualRecipientBaseUnits = toBaseUnits(resultRaw.base_units);
+        const finalValidation = await paymentLinks.validateAmount(
+          body.paymentId,
+          BigInt(actualRecipientBaseUnits)
+        );
+        if (!finalValidation.valid) {
+          // The money has moved: the job ends unconfirmed and keeps its hold
+          log.error({
+            msg: "[prover-backend][withdraw-spl] amount mismatch after submission; reconcile the payment",
+            error: finalValidation.error,
+            paymentId: body.paymentId,
+            jobId,
+            tx: resultRaw.tx,
+            base_units: actualRecipientBaseUnits,
+          });
+          throw codedError(
+            "AMOUNT_MISMATCH",
+            finalValidation.error || "Withdrawal amount does not match payment link"
+          );
+        }
+
+        const record = await paymentLinks.addPaymentRecord(
+          body.paymentId,
+          actualRecipientBaseUnits,
+          paymentLink.tokenMint,
+          resultRaw.tx
+        );
+        if (record) {
+          await paymentLinks.incrementUsageCount(body.paymentId);
+          await webhooks.notifyPaymentCompleted(paymentLink, record);
+        }
+
+        const result: WithdrawSplResult = {
+          isPartial: resultRaw.isPartial,
+          base_units: actualRecipientBaseUnits,
+          fee_base_units: toBaseUnits(resultRaw.fee_base_units),
+        };
+
+        const elapsed = Date.now() - startedAt;
+        log.info({
+          msg: "[prover-backend][withdraw-spl] success",
+          jobId,
+          tx: resultRaw.tx,
+          base_units: resultRaw.base_units,
+          fee_base_units: resultRaw.fee_base_units,
+          isPartial: resultRaw.isPartial,
+          elapsed_ms: elapsed,
+        });
+
+        return { tx: resultRaw.tx, result };
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        log.error({ msg: "[prover-backend][withdraw-spl] error", jobId, message });
+        if (withdrawJobs.isUnconfirmed(jobId, error)) {
+          await reservation.keep(UNCONFIRMED_HOLD_MS);
+        }
+        throw error;
+      } finally {
+        clearInterval(heartbeat);
+        await reservation.release();
+      }
     });
-  }
 
-  const totalBaseUnits = computeTotalBaseUnitsForRecipient(
-    recipientBaseUnits,
-    tokenInfo.units_per_token,
-    tokenInfo.name,
-    relayerConfig
-  );
-  if (Math.abs(totalBaseUnits - amountBaseUnits) > 2) {
-    return reply.status(400).send({
-      success: false,
-      error: "Fee config changed; refresh and retry",
-    });
-  }
+    if (!job) {
+      return reply
+        .status(503)
+        .header("Retry-After", String(PROVER_RETRY_AFTER_SECONDS))
+        .send(apiError("PROVER_BUSY", "Prover is busy; retry shortly"));
+    }
 
-  const connection = getConnection();
-  const { publicKey, encryptionService, lightWasm } = await buildSessionFromSignature(
-    body.publicKey,
-    body.signature
-  );
-  const sdk = await getSDK();
-  const recipientPubkey = new PublicKey(paymentLink.recipientAddress);
-  const storage = getStorageForPubkey(publicKey.toBase58());
+    accepted = true;
+    if (idempotencyKey) await idempotencyKeys.bind(idempotencyKey, job.id);
+    return reply.status(202).send({ success: true, jobId: job.id, stage: job.stage });
+  } finally {
+    if (!accepted) {
+      await reservation.release();
+      if (idempotencyKey) await idempotencyKeys.release(idempotencyKey);
+    }
+  }
+};
 
-  const startedAt = Date.now();
-  const heartbeat = setInterval(() => {
-    const elapsedSec = Math.floor((Date.now() - startedAt) / 1000);
-    request.log.info(`[prover-backend][withdraw-spl] still running... ${elapsedSec}s elapsed`);
-  }, 15000);
+type JobParams = { Params: { jobId: string } };
 
-  try {
-    const timeoutMs = 300000; // 5 minutes
-    const resultRaw = (await Promise.race([
-      sdk.withdrawSPL({
-        lightWasm,
-        connection,
-        base_units: totalBaseUnits,
-        mintAddress: paymentLink.tokenMint,
-        keyBasePath: KEY_BASE_PATH,
-        publicKey,
-        recipient: recipientPubkey,
-        storage,
-        encryptionService,
-      }),
-      new Promise((_, reject) =>
-        setTimeout(() => reject(new Error(`Withdraw timed out after ${timeoutMs}ms`)), timeoutMs)
-      ),
-    ])) as WithdrawSplSdkResult;
-
-    const actualRecipientBaseUnits = resultRaw.base_units;
-    const finalValidation = PaymentLinksStore.validateAmount(
-      body.paymentId,
-      actualRecipientBaseUnits
-    );
-    if (!finalValidation.valid) {
-      request.log.error({
-        msg: "[prover-backend][withdraw-spl] amount mismatch",
-        error: finalValidation.error,
-        paymentId: body.paymentId,
-        base_units: actualRecipientBaseUnits,
-      });
-      return reply.status(400).send({
-        success: false,
-        error: finalValidation.error || "Withdrawal amount does not match payment link",
-      });
-    }
+const getWithdrawJob: RouteHandler<JobParams> = async (request, reply) => {
+  const job = await withdrawJobs.find(request.params.jobId);
+  if (!job) {
+    return reply.status(404).send(apiError("JOB_NOT_FOUND", "Withdraw job not found"));
+  }
+  return reply.send({ success: true, job });
+};
 
-    if (!PaymentLinksStore.hasPaymentRecord(body.paymentId, resultRaw.tx)) {
-      PaymentLinksStore.addPaymentRecord(
-        body.paymentId,
-        actualRecipientBaseUnits,
-        paymentLink.tokenMint,
-        resultRaw.tx
-      );
-      PaymentLinksStore.incrementUsageCount(body.paymentId);
-    }
+// Server-Sent Events stream of a job's SDK logs and stage changes; closes once the job ends.
+// A job running elsewhere or already dropped from memory gets its stored stage, then the
+// stream closes and clients poll instead.
+const streamWithdrawJob: RouteHandler<JobParams> = async (request, reply) => {
+  const { jobId } = request.params;
+  const job = withdrawJobs.get(jobId) ?? (await withdrawJobs.find(jobId));
+  if (!job) {
+    return reply.status(404).send(apiError("JOB_NOT_FOUND", "Withdraw job not found"));
+  }
 
-    const result: WithdrawSplResult = {
-      isPartial: resultRaw.isPartial,
-      base_units: resultRaw.base_units,
-      fee_base_units: resultRaw.fee_base_units,
-    };
+  reply.hijack();
+  const stream = reply.raw;
+  stream.writeHead(200, {
+    ...(reply.getHeaders() as Record<string, string>),
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no",
+  });
 
-    const elapsed = Date.now() - startedAt;
-    request.log.info({
-      msg: "[prover-backend][withdraw-spl] success",
-      tx: resultRaw.tx,
-      base_units: resultRaw.base_units,
-      fee_base_units: resultRaw.fee_base_units,
-      isPartial: resultRaw.isPartial,
-      elapsed_ms: elapsed,
-    });
+  let closed = false;
+  let unsubscribe: (() => void) | null = null;
+  const keepAlive = setInterval(() => stream.write(": keep-alive\n\n"), 15000);
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(keepAlive);
+    unsubscribe?.();
+    stream.end();
+  };
 
-    return reply.send({ success: true, result });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : String(error);
-    request.log.error({
-      msg: "[prover-backend][withdraw-spl] error",
-      message,
-    });
-    return reply.status(500).send({
-      success: false,
-      error: message || "Withdraw failed",
-    });
-  } finally {
-    clearInterval(heartbeat);
+  const onEvent = (event: WithdrawJobEvent) => {
+    if (closed) return;
+    stream.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    if (event.type === "stage" && isTerminalStage(event.stage)) {
+      // Replay happens inside subscribe, so defer until the unsubscribe handle exists
+      setImmediate(close);
+    }
+  };
+  unsubscribe = withdrawJobs.subscribe(jobId, onEvent);
+  if (!unsubscribe) {
+    onEvent({ type: "stage", stage: job.stage, job, at: job.updatedAt });
+    setImmediate(close);
   }
+  request.raw.on("close", close);
+};
+
+// Registered from a plugin so they are added after the docs plugin has loaded; it only
+// documents routes added after it
+app.register(async (app) => {
+  const solRoute = { preHandler: identifyPayer, schema: withdrawSchema, config: proofConfig };
+  const splRoute = { preHandler: identifyPayer, schema: withdrawSplSchema, config: proofConfig };
+  app.post<{ Body: WithdrawRequest }>("/withdraw", solRoute, handleWithdraw);
+  app.post<{ Body: WithdrawSplRequest }>("/withdraw-spl", splRoute, handleWithdrawSpl);
+  app.get<JobParams>("/withdraw-jobs/:jobId", { schema: withdrawJobSchema }, getWithdrawJob);
+  app.get<JobParams>(
+    "/withdraw-jobs/:jobId/events",
+    { schema: withdrawJobEventsSchema },
+    streamWithdrawJob
+  );
 });
 
 app
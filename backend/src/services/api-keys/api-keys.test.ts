@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import type { ApiKeyScope } from "../../types/api-keys";
+import { createMemoryRateLimitStore } from "../rate-limit/memory";
+import { API_KEY_PREFIX, createApiKeysService, hashApiKey } from "./api-keys";
+import { createMemoryApiKeyStorage } from "./storage/memory";
+
+const owner = "wallet-1";
+
+function createService() {
+  const storage = createMemoryApiKeyStorage();
+  const service = createApiKeysService({
+    storage,
+    rateLimitStore: createMemoryRateLimitStore(),
+    rateLimitPerMinute: 2,
+  });
+  return { storage, service };
+}
+
+async function issue(
+  service: ReturnType<typeof createService>["service"],
+  scopes: ApiKeyScope[] = ["links:create"]
+) {
+  const issued = await service.issueApiKey(owner, { name: "Shop server", scopes });
+  assert.ok(issued.success);
+  return issued;
+}
+
+test("issues a key that is stored only as its hash", async () => {
+  const { storage, service } = createService();
+  const { apiKey, key } = await issue(service, ["webhooks:manage", "links:create"]);
+
+  assert.ok(key.startsWith(API_KEY_PREFIX));
+  assert.ok(key.startsWith(apiKey.prefix));
+  assert.equal("keyHash" in apiKey, false);
+  // Scopes come back in their canonical order
+  assert.deepEqual(apiKey.scopes, ["links:create", "webhooks:manage"]);
+  assert.equal((await storage.getApiKey(apiKey.id))?.keyHash, hashApiKey(key));
+  assert.deepEqual(await service.listApiKeys(owner), [apiKey]);
+});
+
+test("refuses a key without a name or with unknown scopes", async () => {
+  const { service } = createService();
+
+  assert.deepEqual(await service.issueApiKey(owner, { name: " ", scopes: ["links:create"] }), {
+    success: false,
+    error: "Key name is required",
+  });
+  assert.deepEqual(await service.issueApiKey(owner, { name: "Shop", scopes: [] }), {
+    success: false,
+    error: "At least one scope is required",
+  });
+  assert.deepEqual(
+    await service.issueApiKey(owner, {
+      name: "Shop",
+      scopes: ["links:delete" as ApiKeyScope],
+    }),
+    { success: false, error: "Unknown scope: links:delete" }
+  );
+});
+
+test("authenticates a live key and records its use, but not a revoked or unknown one", async () => {
+  const { service } = createService();
+  const { apiKey, key } = await issue(service);
+
+  const authenticated = await service.authenticate(key);
+  assert.equal(authenticated?.id, apiKey.id);
+  assert.equal(typeof (await service.getApiKey(apiKey.id))?.lastUsedAt, "number");
+
+  assert.equal(await service.authenticate(`${key}x`), null);
+  assert.equal(await service.authenticate(key.slice(API_KEY_PREFIX.length)), null);
+
+  await service.revokeApiKey(apiKey.id);
+  assert.equal(await service.authenticate(key), null);
+  assert.equal(typeof (await service.listApiKeys(owner))[0].revokedAt, "number");
+});
+
+test("limits each key's requests per minute separately", async () => {
+  const { service } = createService();
+  const [first, second] = [await issue(service), await issue(service)];
+
+  assert.equal((await service.consumeRateLimit(first.apiKey.id)).allowed, true);
+  assert.equal((await service.consumeRateLimit(first.apiKey.id)).allowed, true);
+  assert.equal((await service.consumeRateLimit(first.apiKey.id)).allowed, false);
+  assert.equal((await service.consumeRateLimit(second.apiKey.id)).allowed, true);
+});
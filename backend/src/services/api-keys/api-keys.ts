@@ -0,0 +1,143 @@
+/**
+ * Merchant API keys
+ *
+ * A wallet issues keys for its own servers. Each key acts for that wallet within its
+ * scopes; only a SHA-256 hash of the key is stored, so a lost key cannot be shown again
+ * and is revoked and replaced instead.
+ */
+
+import crypto from "crypto";
+import { nanoid } from "nanoid";
+import {
+  API_KEY_SCOPES,
+  type ApiKey,
+  type ApiKeyInfo,
+  type ApiKeyScope,
+  type CreateApiKeyRequest,
+} from "../../types/api-keys";
+import type { RateLimitDecision, RateLimitStore } from "../rate-limit";
+import type { ApiKeyStorage } from "./storage/types";
+
+/** Every key starts with this, so a bearer token can be told apart from a wallet session */
+export const API_KEY_PREFIX = "gsk_";
+
+const MAX_ACTIVE_KEYS_PER_WALLET = 20;
+const MAX_NAME_LENGTH = 60;
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+// lastUsedAt is a hint for the owner; writing it on every request is not worth it
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash("sha256").update(key).digest("hex");
+}
+
+export function toApiKeyInfo(apiKey: ApiKey): ApiKeyInfo {
+  const info = { ...apiKey } as ApiKeyInfo & { keyHash?: string };
+  delete info.keyHash;
+  return info;
+}
+
+function checkScopes(raw: unknown): { scopes: ApiKeyScope[] } | { error: string } {
+  if (!Array.isArray(raw) || raw.length === 0) return { error: "At least one scope is required" };
+  for (const scope of raw) {
+    if (!API_KEY_SCOPES.includes(scope)) return { error: `Unknown scope: ${String(scope)}` };
+  }
+  return { scopes: API_KEY_SCOPES.filter((scope) => raw.includes(scope)) };
+}
+
+export type ApiKeyIssue =
+  | { success: true; apiKey: ApiKeyInfo; key: string }
+  | { success: false; error: string };
+
+export interface ApiKeysServiceOptions {
+  storage: ApiKeyStorage;
+  rateLimitStore: RateLimitStore;
+  /** Requests each key may make per minute */
+  rateLimitPerMinute: number;
+}
+
+export interface ApiKeysService {
+  /** Issue a key for the wallet. The full key is in the result and is not stored. */
+  issueApiKey(ownerAddress: string, request: CreateApiKeyRequest): Promise<ApiKeyIssue>;
+  getApiKey(keyId: string): Promise<ApiKey | null>;
+  /** The wallet's keys, revoked ones included, newest first */
+  listApiKeys(ownerAddress: string): Promise<ApiKeyInfo[]>;
+  revokeApiKey(keyId: string): Promise<void>;
+  /** The live key for a bearer token, or null; records the use */
+  authenticate(key: string): Promise<ApiKey | null>;
+  /** Count one request against the key's per-minute limit */
+  consumeRateLimit(keyId: string): Promise<RateLimitDecision>;
+}
+
+export function createApiKeysService({
+  storage,
+  rateLimitStore,
+  rateLimitPerMinute,
+}: ApiKeysServiceOptions): ApiKeysService {
+  const rateLimit = { capacity: rateLimitPerMinute, windowMs: 60_000 };
+
+  return {
+    async issueApiKey(ownerAddress, request) {
+      const name = typeof request?.name === "string" ? request.name.trim() : "";
+      if (!name) return { success: false, error: "Key name is required" };
+      if (name.length > MAX_NAME_LENGTH) {
+        return { success: false, error: `Key name must be at most ${MAX_NAME_LENGTH} characters` };
+      }
+
+      const checked = checkScopes(request.scopes);
+      if ("error" in checked) return { success: false, error: checked.error };
+
+      const active = (await storage.listApiKeysByOwner(ownerAddress)).filter(
+        (apiKey) => apiKey.revokedAt === undefined
+      );
+      if (active.length >= MAX_ACTIVE_KEYS_PER_WALLET) {
+        return {
+          success: false,
+          error: `A wallet can have at most ${MAX_ACTIVE_KEYS_PER_WALLET} active API keys`,
+        };
+      }
+
+      const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+      const apiKey: ApiKey = {
+        id: nanoid(12),
+        ownerAddress,
+        name,
+        prefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+        keyHash: hashApiKey(key),
+        scopes: checked.scopes,
+        createdAt: Date.now(),
+      };
+      await storage.insertApiKey(apiKey);
+      return { success: true, apiKey: toApiKeyInfo(apiKey), key };
+    },
+
+    getApiKey(keyId) {
+      return storage.getApiKey(keyId);
+    },
+
+    async listApiKeys(ownerAddress) {
+      return (await storage.listApiKeysByOwner(ownerAddress)).map(toApiKeyInfo);
+    },
+
+    revokeApiKey(keyId) {
+      return storage.revokeApiKey(keyId, Date.now());
+    },
+
+    async authenticate(key) {
+      if (!key.startsWith(API_KEY_PREFIX)) return null;
+      const apiKey = await storage.getApiKeyByHash(hashApiKey(key));
+      if (!apiKey || apiKey.revokedAt !== undefined) return null;
+
+      const now = Date.now();
+      if (apiKey.lastUsedAt === undefined || now - apiKey.lastUsedAt >= LAST_USED_RESOLUTION_MS) {
+        await storage.setApiKeyLastUsed(apiKey.id, now);
+        apiKey.lastUsedAt = now;
+      }
+      return apiKey;
+    },
+
+    consumeRateLimit(keyId) {
+      return rateLimitStore.take(`api-key:${keyId}`, rateLimit);
+    },
+  };
+}
@@ -0,0 +1,50 @@
+/**
+ * In-memory storage for API keys.
+ *
+ * Data is lost on restart and not shared between instances; intended for tests.
+ */
+
+import type { ApiKey } from "../../../types/api-keys";
+import type { ApiKeyStorage } from "./types";
+
+export function createMemoryApiKeyStorage(): ApiKeyStorage {
+  const apiKeys = new Map<string, ApiKey>();
+
+  const newestFirst = (a: ApiKey, b: ApiKey) =>
+    b.createdAt - a.createdAt || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+  return {
+    async insertApiKey(apiKey) {
+      apiKeys.set(apiKey.id, { ...apiKey, scopes: [...apiKey.scopes] });
+    },
+
+    async getApiKey(keyId) {
+      const apiKey = apiKeys.get(keyId);
+      return apiKey ? { ...apiKey } : null;
+    },
+
+    async getApiKeyByHash(keyHash) {
+      const apiKey = Array.from(apiKeys.values()).find((key) => key.keyHash === keyHash);
+      return apiKey ? { ...apiKey } : null;
+    },
+
+    async listApiKeysByOwner(ownerAddress) {
+      return Array.from(apiKeys.values())
+        .filter((apiKey) => apiKey.ownerAddress === ownerAddress)
+        .sort(newestFirst)
+        .map((apiKey) => ({ ...apiKey }));
+    },
+
+    async revokeApiKey(keyId, revokedAt) {
+      const apiKey = apiKeys.get(keyId);
+      if (!apiKey || apiKey.revokedAt !== undefined) return;
+      apiKeys.set(keyId, { ...apiKey, revokedAt });
+    },
+
+    async setApiKeyLastUsed(keyId, lastUsedAt) {
+      const apiKey = apiKeys.get(keyId);
+      if (!apiKey) return;
+      apiKeys.set(keyId, { ...apiKey, lastUsedAt });
+    },
+  };
+}
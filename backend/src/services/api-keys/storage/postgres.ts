@@ -0,0 +1,51 @@
+/**
+ * Postgres storage for API keys, on the shared pool (see ../../storage/postgres).
+ */
+
+import { postgresPlaceholders, type PostgresDatabase } from "../../storage/postgres";
+import type { ApiKeyStorage } from "./types";
+import { API_KEY_COLUMNS, apiKeyValues, toApiKey, type ApiKeyRow } from "./rows";
+
+export function createPostgresApiKeyStorage(db: PostgresDatabase): ApiKeyStorage {
+  return {
+    async insertApiKey(apiKey) {
+      await db.query(
+        `INSERT INTO api_keys (${API_KEY_COLUMNS.join(", ")})
+         VALUES (${postgresPlaceholders(API_KEY_COLUMNS.length)})`,
+        apiKeyValues(apiKey)
+      );
+    },
+
+    async getApiKey(keyId) {
+      const { rows } = await db.query<ApiKeyRow>("SELECT * FROM api_keys WHERE id = $1", [keyId]);
+      return rows[0] ? toApiKey(rows[0]) : null;
+    },
+
+    async getApiKeyByHash(keyHash) {
+      const { rows } = await db.query<ApiKeyRow>("SELECT * FROM api_keys WHERE key_hash = $1", [
+        keyHash,
+      ]);
+      return rows[0] ? toApiKey(rows[0]) : null;
+    },
+
+    async listApiKeysByOwner(ownerAddress) {
+      const { rows } = await db.query<ApiKeyRow>(
+        `SELECT * FROM api_keys WHERE owner_address = $1
+         ORDER BY created_at DESC, id DESC`,
+        [ownerAddress]
+      );
+      return rows.map(toApiKey);
+    },
+
+    async revokeApiKey(keyId, revokedAt) {
+      await db.query("UPDATE api_keys SET revoked_at = $1 WHERE id = $2 AND revoked_at IS NULL", [
+        revokedAt,
+        keyId,
+      ]);
+    },
+
+    async setApiKeyLastUsed(keyId, lastUsedAt) {
+      await db.query("UPDATE api_keys SET last_used_at = $1 WHERE id = $2", [lastUsedAt, keyId]);
+    },
+  };
+}
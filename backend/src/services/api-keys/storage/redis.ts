@@ -0,0 +1,69 @@
+/**
+ * Redis storage for API keys, on the shared client (see ../../storage/redis).
+ *
+ * Each key is a hash: the fixed fields in `data`, with lastUsedAt and revokedAt as
+ * separate fields so recording a use never undoes a revocation.
+ */
+
+import type { ApiKey } from "../../../types/api-keys";
+import { REDIS_KEY_PREFIX, type RedisClient } from "../../storage/redis";
+import type { ApiKeyStorage } from "./types";
+
+const keys = {
+  apiKey: (keyId: string) => `${REDIS_KEY_PREFIX}api-key:${keyId}`,
+  apiKeyHashes: () => `${REDIS_KEY_PREFIX}api-key-hashes`,
+  ownerApiKeys: (ownerAddress: string) => `${REDIS_KEY_PREFIX}owner:${ownerAddress}:api-keys`,
+};
+
+function fromApiKeyHash(hash: Record<string, string>): ApiKey | null {
+  if (!hash.data) return null;
+  const data = JSON.parse(hash.data) as Omit<ApiKey, "lastUsedAt" | "revokedAt">;
+  return {
+    ...data,
+    lastUsedAt: hash.lastUsedAt ? Number(hash.lastUsedAt) : undefined,
+    revokedAt: hash.revokedAt ? Number(hash.revokedAt) : undefined,
+  };
+}
+
+export function createRedisApiKeyStorage(redis: RedisClient): ApiKeyStorage {
+  const getApiKey = async (keyId: string) =>
+    fromApiKeyHash(await redis.hgetall(keys.apiKey(keyId)));
+
+  return {
+    async insertApiKey(apiKey) {
+      const { lastUsedAt, revokedAt, ...data } = apiKey;
+      const hash: Record<string, string> = { data: JSON.stringify(data) };
+      if (lastUsedAt !== undefined) hash.lastUsedAt = String(lastUsedAt);
+      if (revokedAt !== undefined) hash.revokedAt = String(revokedAt);
+      await redis
+        .multi()
+        .hset(keys.apiKey(apiKey.id), hash)
+        .hset(keys.apiKeyHashes(), apiKey.keyHash, apiKey.id)
+        .zadd(keys.ownerApiKeys(apiKey.ownerAddress), apiKey.createdAt, apiKey.id)
+        .exec();
+    },
+
+    getApiKey,
+
+    async getApiKeyByHash(keyHash) {
+      const keyId = await redis.hget(keys.apiKeyHashes(), keyHash);
+      return keyId ? getApiKey(keyId) : null;
+    },
+
+    async listApiKeysByOwner(ownerAddress) {
+      const keyIds = await redis.zrevrange(keys.ownerApiKeys(ownerAddress), 0, -1);
+      const apiKeys = await Promise.all(keyIds.map(getApiKey));
+      return apiKeys.filter((apiKey): apiKey is ApiKey => Boolean(apiKey));
+    },
+
+    async revokeApiKey(keyId, revokedAt) {
+      if (!(await redis.exists(keys.apiKey(keyId)))) return;
+      await redis.hsetnx(keys.apiKey(keyId), "revokedAt", String(revokedAt));
+    },
+
+    async setApiKeyLastUsed(keyId, lastUsedAt) {
+      if (!(await redis.exists(keys.apiKey(keyId)))) return;
+      await redis.hset(keys.apiKey(keyId), "lastUsedAt", String(lastUsedAt));
+    },
+  };
+}
@@ -0,0 +1,59 @@
+/**
+ * Row mapping for API keys in the SQL adapters.
+ */
+
+import type { ApiKey } from "../../../types/api-keys";
+import { optionalNumber, type Numeric } from "../../storage/rows";
+
+export type ApiKeyRow = {
+  id: string;
+  owner_address: string;
+  name: string;
+  prefix: string;
+  key_hash: string;
+  scopes: string;
+  created_at: Numeric;
+  last_used_at: Numeric | null;
+  revoked_at: Numeric | null;
+};
+
+export function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    ownerAddress: row.owner_address,
+    name: row.name,
+    prefix: row.prefix,
+    keyHash: row.key_hash,
+    scopes: JSON.parse(row.scopes) as ApiKey["scopes"],
+    createdAt: Number(row.created_at),
+    lastUsedAt: optionalNumber(row.last_used_at),
+    revokedAt: optionalNumber(row.revoked_at),
+  };
+}
+
+/** Column order used by INSERT statements in both SQL adapters */
+export const API_KEY_COLUMNS = [
+  "id",
+  "owner_address",
+  "name",
+  "prefix",
+  "key_hash",
+  "scopes",
+  "created_at",
+  "last_used_at",
+  "revoked_at",
+] as const;
+
+export function apiKeyValues(apiKey: ApiKey): unknown[] {
+  return [
+    apiKey.id,
+    apiKey.ownerAddress,
+    apiKey.name,
+    apiKey.prefix,
+    apiKey.keyHash,
+    JSON.stringify(apiKey.scopes),
+    apiKey.createdAt,
+    apiKey.lastUsedAt ?? null,
+    apiKey.revokedAt ?? null,
+  ];
+}
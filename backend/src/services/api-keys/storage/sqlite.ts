@@ -0,0 +1,54 @@
+/**
+ * SQLite storage for API keys, on the shared database (see ../../storage/sqlite).
+ */
+
+import { sqlitePlaceholders, type SqliteDatabase } from "../../storage/sqlite";
+import type { ApiKeyStorage } from "./types";
+import { API_KEY_COLUMNS, apiKeyValues, toApiKey, type ApiKeyRow } from "./rows";
+
+export function createSqliteApiKeyStorage(db: SqliteDatabase): ApiKeyStorage {
+  const statements = {
+    insertApiKey: db.prepare(
+      `INSERT INTO api_keys (${API_KEY_COLUMNS.join(", ")})
+       VALUES (${sqlitePlaceholders(API_KEY_COLUMNS.length)})`
+    ),
+    getApiKey: db.prepare("SELECT * FROM api_keys WHERE id = ?"),
+    getApiKeyByHash: db.prepare("SELECT * FROM api_keys WHERE key_hash = ?"),
+    listApiKeysByOwner: db.prepare(
+      "SELECT * FROM api_keys WHERE owner_address = ? ORDER BY created_at DESC, id DESC"
+    ),
+    revokeApiKey: db.prepare(
+      "UPDATE api_keys SET revoked_at = ? WHERE id = ? AND revoked_at IS NULL"
+    ),
+    setApiKeyLastUsed: db.prepare("UPDATE api_keys SET last_used_at = ? WHERE id = ?"),
+  };
+
+  return {
+    async insertApiKey(apiKey) {
+      statements.insertApiKey.run(...apiKeyValues(apiKey));
+    },
+
+    async getApiKey(keyId) {
+      const row = statements.getApiKey.get(keyId) as ApiKeyRow | undefined;
+      return row ? toApiKey(row) : null;
+    },
+
+    async getApiKeyByHash(keyHash) {
+      const row = statements.getApiKeyByHash.get(keyHash) as ApiKeyRow | undefined;
+      return row ? toApiKey(row) : null;
+    },
+
+    async listApiKeysByOwner(ownerAddress) {
+      const rows = statements.listApiKeysByOwner.all(ownerAddress) as ApiKeyRow[];
+      return rows.map(toApiKey);
+    },
+
+    async revokeApiKey(keyId, revokedAt) {
+      statements.revokeApiKey.run(revokedAt, keyId);
+    },
+
+    async setApiKeyLastUsed(keyId, lastUsedAt) {
+      statements.setApiKeyLastUsed.run(lastUsedAt, keyId);
+    },
+  };
+}
@@ -0,0 +1,16 @@
+import type { ApiKey } from "../../../types/api-keys";
+
+/**
+ * Persistence adapter behind the API keys service.
+ */
+export interface ApiKeyStorage {
+  insertApiKey(apiKey: ApiKey): Promise<void>;
+  getApiKey(keyId: string): Promise<ApiKey | null>;
+  /** Look a key up by the hash of its secret, revoked or not */
+  getApiKeyByHash(keyHash: string): Promise<ApiKey | null>;
+  /** A wallet's keys, revoked ones included, newest first */
+  listApiKeysByOwner(ownerAddress: string): Promise<ApiKey[]>;
+  /** Set revokedAt unless the key is already revoked */
+  revokeApiKey(keyId: string, revokedAt: number): Promise<void>;
+  setApiKeyLastUsed(keyId: string, lastUsedAt: number): Promise<void>;
+}
@@ -0,0 +1,20 @@
+import crypto from "crypto";
+
+let secret: Buffer | null = null;
+
+/**
+ * HMAC secret for challenges and session tokens (AUTH_SESSION_SECRET).
+ * Without it a random per-process secret is used, so sessions do not survive a
+ * restart and are not accepted by other instances.
+ */
+export function getAuthSecret(): Buffer {
+  if (!secret) {
+    if (process.env.AUTH_SESSION_SECRET) {
+      secret = Buffer.from(process.env.AUTH_SESSION_SECRET);
+    } else {
+      console.warn("[auth] AUTH_SESSION_SECRET not set; using a random per-process secret");
+      secret = crypto.randomBytes(32);
+    }
+  }
+  return secret;
+}
@@ -0,0 +1,51 @@
+/**
+ * Wallet session tokens
+ *
+ * Stateless, short-lived bearer tokens: base64url(JSON payload) + "." + HMAC.
+ */
+
+import crypto from "crypto";
+import { getAuthSecret } from "./secret";
+
+const SESSION_TTL_SECONDS = Number(process.env.AUTH_SESSION_TTL_SECONDS || 900);
+
+interface SessionPayload {
+  /** Wallet address the session belongs to */
+  sub: string;
+  /** Expiry (unix ms) */
+  exp: number;
+}
+
+function sign(encodedPayload: string): string {
+  return crypto.createHmac("sha256", getAuthSecret()).update(encodedPayload).digest("base64url");
+}
+
+export function issueSessionToken(address: string): { token: string; expiresAt: number } {
+  const expiresAt = Date.now() + SESSION_TTL_SECONDS * 1000;
+  const payload: SessionPayload = { sub: address, exp: expiresAt };
+  const encoded = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return { token: `${encoded}.${sign(encoded)}`, expiresAt };
+}
+
+/**
+ * Returns the wallet address for a valid, unexpired token, or null.
+ */
+export function verifySessionToken(token: string): string | null {
+  const [encoded, mac] = token.split(".");
+  if (!encoded || !mac) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(mac);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const payload = JSON.parse(Buffer.from(encoded, "base64url").toString()) as SessionPayload;
+    if (typeof payload.sub !== "string" || typeof payload.exp !== "number") return null;
+    if (payload.exp <= Date.now()) return null;
+    return payload.sub;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Sign-In-With-Solana challenges
+ *
+ * Nonces are self-describing (random part, issue time, HMAC) so any backend instance
+ * sharing AUTH_SESSION_SECRET can verify a challenge issued by another one.
+ */
+
+import crypto from "crypto";
+import { PublicKey } from "@solana/web3.js";
+import { getAuthSecret } from "./secret";
+
+const AUTH_DOMAIN = process.env.AUTH_DOMAIN || "ghostsend.xyz";
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+export interface SignInChallenge {
+  address: string;
+  nonce: string;
+  message: string;
+  expiresAt: number;
+}
+
+// Best-effort replay protection within this process
+const usedNonces = new Map<string, number>();
+
+function pruneUsedNonces(now: number) {
+  for (const [nonce, expiresAt] of usedNonces) {
+    if (expiresAt <= now) usedNonces.delete(nonce);
+  }
+}
+
+function signNonce(address: string, random: string, issuedAt: number): string {
+  return crypto
+    .createHmac("sha256", getAuthSecret())
+    .update(`${address}:${random}:${issuedAt}`)
+    .digest("base64url");
+}
+
+/**
+ * Build the message the wallet signs. The format follows the SIWS / EIP-4361 layout.
+ */
+export function buildSignInMessage(address: string, nonce: string, issuedAt: number): string {
+  return [
+    `${AUTH_DOMAIN} wants you to sign in with your Solana account:`,
+    address,
+    "",
+    "Sign in to manage your ghostsend payment links.",
+    "",
+    `URI: https://${AUTH_DOMAIN}`,
+    "Version: 1",
+    `Nonce: ${nonce}`,
+    `Issued At: ${new Date(issuedAt).toISOString()}`,
+    `Expiration Time: ${new Date(issuedAt + CHALLENGE_TTL_MS).toISOString()}`,
+  ].join("\n");
+}
+
+/**
+ * Create a challenge for a wallet address. Throws if the address is not a valid public key.
+ */
+export function createSignInChallenge(address: string): SignInChallenge {
+  new PublicKey(address);
+  const issuedAt = Date.now();
+  const random = crypto.randomBytes(16).toString("base64url");
+  const nonce = `${random}.${issuedAt}.${signNonce(address, random, issuedAt)}`;
+  return {
+    address,
+    nonce,
+    message: buildSignInMessage(address, nonce, issuedAt),
+    expiresAt: issuedAt + CHALLENGE_TTL_MS,
+  };
+}
+
+function verifyEd25519(message: Uint8Array, signature: Uint8Array, address: string): boolean {
+  const publicKey = crypto.createPublicKey({
+    key: {
+      kty: "OKP",
+      crv: "Ed25519",
+      x: Buffer.from(new PublicKey(address).toBytes()).toString("base64url"),
+    },
+    format: "jwk",
+  });
+  return crypto.verify(null, message, publicKey, signature);
+}
+
+/**
+ * Verify a signed challenge. Returns an error string, or null if the signature is valid.
+ */
+export function verifySignIn(address: string, nonce: string, signatureBase64: string) {
+  const [random, issuedAtRaw, mac] = nonce.split(".");
+  const issuedAt = Number(issuedAtRaw);
+  if (!random || !mac || !Number.isFinite(issuedAt)) {
+    return "Malformed nonce";
+  }
+
+  try {
+    new PublicKey(address);
+  } catch {
+    return "Invalid wallet address";
+  }
+
+  const expected = Buffer.from(signNonce(address, random, issuedAt));
+  const actual = Buffer.from(mac);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return "Unknown challenge";
+  }
+
+  const now = Date.now();
+  const expiresAt = issuedAt + CHALLENGE_TTL_MS;
+  if (now > expiresAt) {
+    return "Challenge expired";
+  }
+
+  pruneUsedNonces(now);
+  if (usedNonces.has(nonce)) {
+    return "Challenge already used";
+  }
+
+  const message = new TextEncoder().encode(buildSignInMessage(address, nonce, issuedAt));
+  const signature = Uint8Array.from(Buffer.from(signatureBase64, "base64"));
+  if (signature.length !== 64 || !verifyEd25519(message, signature, address)) {
+    return "Invalid signature";
+  }
+
+  usedNonces.set(nonce, expiresAt);
+  return null;
+}
@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { test } from "node:test";
+import type { PaymentRecord } from "../../types/payment-links";
+import { getCheckoutPublicKey } from "./signing-key";
+import { getCheckoutKeyId, issueCheckoutResultToken } from "./result-token";
+
+// Read on first use, so the tokens below are signed with this seed
+process.env.CHECKOUT_SIGNING_KEY = crypto.randomBytes(32).toString("base64");
+
+const record: PaymentRecord = {
+  id: "record-1",
+  paymentId: "link-1",
+  tokenMint: "So11111111111111111111111111111111111111112",
+  amount: "2000000",
+  txSignature: "tx-1",
+  completedAt: 1767225600000,
+  status: "completed",
+};
+
+const decode = (segment: string) => JSON.parse(Buffer.from(segment, "base64url").toString());
+
+/** Check a token the way a merchant's JOSE library would, against the served public key */
+function verify(token: string, publicKey = getCheckoutPublicKey()): boolean {
+  const [header, claims, signature] = token.split(".");
+  if (decode(header).alg !== "EdDSA") return false;
+  return crypto.verify(
+    null,
+    Buffer.from(`${header}.${claims}`),
+    publicKey,
+    Buffer.from(signature, "base64url")
+  );
+}
+
+const checkout = { orderId: "order-42", successUrl: "https://shop.example/done" };
+const issue = () => issueCheckoutResultToken("cs_1", checkout, record);
+
+test("issues an EdDSA JWT with the paid order's claims that verifies", () => {
+  const token = issue();
+  const [header, claims] = token.split(".");
+
+  assert.deepEqual(decode(header), { alg: "EdDSA", typ: "JWT", kid: getCheckoutKeyId() });
+  assert.deepEqual(
+    { ...decode(claims), iat: 0 },
+    {
+      iss: "ghostsend",
+      sub: "cs_1",
+      iat: 0,
+      orderId: "order-42",
+      status: "paid",
+      tokenMint: record.tokenMint,
+      amount: "2000000",
+      txSignature: "tx-1",
+      paidAt: record.completedAt,
+    }
+  );
+  assert.equal(verify(token), true);
+});
+
+test("fails verification once any part of the token is changed", () => {
+  const [header, claims, signature] = issue().split(".");
+  const changedClaims = Buffer.from(
+    JSON.stringify({ ...decode(claims), amount: "2000000000" })
+  ).toString("base64url");
+  const changedHeader = Buffer.from(JSON.stringify({ ...decode(header), kid: "other" })).toString(
+    "base64url"
+  );
+  const changedSignature = Buffer.from(signature, "base64url");
+  changedSignature[0] ^= 1;
+
+  assert.equal(verify(`${header}.${changedClaims}.${signature}`), false);
+  assert.equal(verify(`${changedHeader}.${claims}.${signature}`), false);
+  assert.equal(verify(`${header}.${claims}.${changedSignature.toString("base64url")}`), false);
+});
+
+test("does not verify against another key", () => {
+  const { publicKey } = crypto.generateKeyPairSync("ed25519");
+  assert.equal(verify(issue(), publicKey), false);
+});
@@ -0,0 +1,57 @@
+/**
+ * Checkout result tokens
+ *
+ * Compact JWTs signed with Ed25519 (alg "EdDSA") that tell the merchant's success page
+ * which order was paid. Any JOSE library verifies them against the public key served at
+ * /checkout/signing-key; merchants should also check `orderId` and `amount` against
+ * their own order before fulfilling it.
+ */
+
+import crypto from "crypto";
+import type { BaseUnits, CheckoutDetails, PaymentRecord } from "../../types/payment-links";
+import { getCheckoutPublicKey, getCheckoutSigningKey } from "./signing-key";
+
+export const CHECKOUT_TOKEN_ISSUER = "ghostsend";
+
+export interface CheckoutResultClaims {
+  iss: typeof CHECKOUT_TOKEN_ISSUER;
+  sub: string; // Checkout session ID
+  iat: number; // Unix seconds
+  orderId: string;
+  status: "paid";
+  tokenMint: string;
+  amount: BaseUnits; // Base units received, as a decimal string
+  txSignature: string;
+  paidAt: number; // Unix timestamp (ms)
+}
+
+/** Key ID sent in the token header: a fingerprint of the public key */
+export function getCheckoutKeyId(): string {
+  const raw = getCheckoutPublicKey().export({ format: "der", type: "spki" });
+  return crypto.createHash("sha256").update(raw).digest("base64url").slice(0, 16);
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+export function issueCheckoutResultToken(
+  sessionId: string,
+  checkout: CheckoutDetails,
+  record: PaymentRecord
+): string {
+  const claims: CheckoutResultClaims = {
+    iss: CHECKOUT_TOKEN_ISSUER,
+    sub: sessionId,
+    iat: Math.floor(Date.now() / 1000),
+    orderId: checkout.orderId,
+    status: "paid",
+    tokenMint: record.tokenMint,
+    amount: record.amount,
+    txSignature: record.txSignature,
+    paidAt: record.completedAt,
+  };
+  const signingInput = `${encodeSegment({ alg: "EdDSA", typ: "JWT", kid: getCheckoutKeyId() })}.${encodeSegment(claims)}`;
+  const signature = crypto.sign(null, Buffer.from(signingInput), getCheckoutSigningKey());
+  return `${signingInput}.${signature.toString("base64url")}`;
+}
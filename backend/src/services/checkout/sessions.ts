@@ -0,0 +1,160 @@
+/**
+ * Checkout sessions
+ *
+ * A checkout session is a one-time, fixed-amount payment link that carries the
+ * merchant's order reference and metadata and sends the payer back to the merchant
+ * afterwards. The session ID is the link's payment ID, so the payer uses the usual
+ * /pay/<id> page.
+ */
+
+import type {
+  CheckoutDetails,
+  CheckoutSession,
+  CreateCheckoutSessionRequest,
+  CreatePaymentLinkRequest,
+  PaymentLinkMetadata,
+  PaymentRecord,
+} from "../../types/payment-links";
+import { getEffectiveStatus } from "../payment-links/storage/types";
+import { getTokenByMint, isBaseUnits } from "@ghostsend/shared";
+
+const DEFAULT_SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_ORDER_ID_LENGTH = 200;
+const MAX_METADATA_KEYS = 20;
+const MAX_METADATA_KEY_LENGTH = 40;
+const MAX_METADATA_VALUE_LENGTH = 500;
+const MAX_URL_LENGTH = 2048;
+const LOCAL_HOSTNAMES = new Set(["localhost", "127.0.0.1", "[::1]"]);
+
+/** Query parameter added to the success URL */
+export const CHECKOUT_RESULT_PARAM = "checkout_result";
+
+function checkRedirectUrl(raw: unknown, name: string): { url: string } | { error: string } {
+  if (typeof raw !== "string" || !raw.trim()) return { error: `${name} is required` };
+  if (raw.length > MAX_URL_LENGTH) return { error: `${name} is too long` };
+
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return { error: `Invalid ${name}` };
+  }
+  // Plain http only for a merchant testing against their own machine
+  if (
+    url.protocol !== "https:" &&
+    !(url.protocol === "http:" && LOCAL_HOSTNAMES.has(url.hostname))
+  ) {
+    return { error: `${name} must use https` };
+  }
+  return { url: url.toString() };
+}
+
+function checkMetadata(raw: unknown): { metadata?: Record<string, string> } | { error: string } {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    return { error: "Metadata must be an object of strings" };
+  }
+
+  const entries = Object.entries(raw);
+  if (entries.length > MAX_METADATA_KEYS) {
+    return { error: `Metadata can have at most ${MAX_METADATA_KEYS} keys` };
+  }
+  for (const [key, value] of entries) {
+    if (!key || key.length > MAX_METADATA_KEY_LENGTH) {
+      return { error: `Metadata keys must be 1-${MAX_METADATA_KEY_LENGTH} characters` };
+    }
+    if (typeof value !== "string") return { error: "Metadata values must be strings" };
+    if (value.length > MAX_METADATA_VALUE_LENGTH) {
+      return {
+        error: `Metadata values must be at most ${MAX_METADATA_VALUE_LENGTH} characters`,
+      };
+    }
+  }
+  return entries.length > 0 ? { metadata: Object.fromEntries(entries) } : {};
+}
+
+/**
+ * Validate a session request from a merchant and turn it into the link to create for
+ * the signed-in wallet
+ */
+export function planCheckoutSession(
+  recipientAddress: string,
+  request: CreateCheckoutSessionRequest
+): { link: CreatePaymentLinkRequest; checkout: CheckoutDetails } | { error: string } {
+  if (!request || typeof request !== "object") return { error: "Request body is required" };
+
+  if (!getTokenByMint(request.tokenMint)) return { error: "Invalid token mint" };
+  if (!isBaseUnits(request.amount) || BigInt(request.amount) <= 0n) {
+    return { error: "Amount must be a positive whole number of base units" };
+  }
+
+  const orderId = typeof request.orderId === "string" ? request.orderId.trim() : "";
+  if (!orderId) return { error: "Order ID is required" };
+  if (orderId.length > MAX_ORDER_ID_LENGTH) {
+    return { error: `Order ID must be at most ${MAX_ORDER_ID_LENGTH} characters` };
+  }
+
+  const metadata = checkMetadata(request.metadata);
+  if ("error" in metadata) return metadata;
+
+  const successUrl = checkRedirectUrl(request.successUrl, "Success URL");
+  if ("error" in successUrl) return successUrl;
+
+  let cancelUrl: string | undefined;
+  if (request.cancelUrl !== undefined && request.cancelUrl !== "") {
+    const checked = checkRedirectUrl(request.cancelUrl, "Cancel URL");
+    if ("error" in checked) return checked;
+    cancelUrl = checked.url;
+  }
+
+  return {
+    link: {
+      recipientAddress,
+      tokenMint: request.tokenMint,
+      amountType: "fixed",
+      fixedAmount: request.amount,
+      reusable: false,
+      label: request.label,
+      message: request.message,
+      expiresAt: request.expiresAt ?? Date.now() + DEFAULT_SESSION_TTL_MS,
+    },
+    checkout: {
+      orderId,
+      metadata: metadata.metadata,
+      successUrl: successUrl.url,
+      cancelUrl,
+    },
+  };
+}
+
+export type CheckoutSessionLink = PaymentLinkMetadata & { checkout: CheckoutDetails };
+
+export function isCheckoutSession(link: PaymentLinkMetadata): link is CheckoutSessionLink {
+  return link.checkout !== undefined;
+}
+
+/** The merchant's view of a checkout session; `payment` is the record once paid */
+export function toCheckoutSession(
+  link: CheckoutSessionLink,
+  url: string,
+  payment?: PaymentRecord
+): CheckoutSession {
+  return {
+    ...link.checkout,
+    id: link.paymentId,
+    url,
+    status: getEffectiveStatus(link),
+    tokenMint: link.tokenMint,
+    amount: link.fixedAmount ?? "0",
+    createdAt: link.createdAt,
+    expiresAt: link.expiresAt,
+    payment,
+  };
+}
+
+/** Success URL with the signed result token appended */
+export function buildSuccessRedirect(successUrl: string, resultToken: string): string {
+  const url = new URL(successUrl);
+  url.searchParams.set(CHECKOUT_RESULT_PARAM, resultToken);
+  return url.toString();
+}
@@ -0,0 +1,37 @@
+import crypto from "crypto";
+
+// DER prefix that wraps a raw 32-byte Ed25519 seed as a PKCS#8 private key
+const ED25519_PKCS8_PREFIX = Buffer.from("302e020100300506032b657004220420", "hex");
+
+let privateKey: crypto.KeyObject | null = null;
+
+/**
+ * Ed25519 key that signs checkout result tokens (CHECKOUT_SIGNING_KEY, a base64 32-byte
+ * seed). Without it a random per-process key is used, so merchants must fetch the
+ * public key again after a restart and tokens from other instances do not verify.
+ */
+export function getCheckoutSigningKey(): crypto.KeyObject {
+  if (!privateKey) {
+    const seed = process.env.CHECKOUT_SIGNING_KEY;
+    if (seed) {
+      const raw = Buffer.from(seed, "base64");
+      if (raw.length !== 32) {
+        throw new Error("CHECKOUT_SIGNING_KEY must be a base64-encoded 32-byte seed");
+      }
+      privateKey = crypto.createPrivateKey({
+        key: Buffer.concat([ED25519_PKCS8_PREFIX, raw]),
+        format: "der",
+        type: "pkcs8",
+      });
+    } else {
+      console.warn("[checkout] CHECKOUT_SIGNING_KEY not set; using a random per-process key");
+      privateKey = crypto.generateKeyPairSync("ed25519").privateKey;
+    }
+  }
+  return privateKey;
+}
+
+/** Public half of the signing key, for merchants verifying result tokens */
+export function getCheckoutPublicKey(): crypto.KeyObject {
+  return crypto.createPublicKey(getCheckoutSigningKey());
+}
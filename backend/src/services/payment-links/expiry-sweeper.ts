@@ -0,0 +1,51 @@
+/**
+ * Expiry Sweeper
+ *
+ * Periodically flips active links past their expiresAt to `expired` in storage.
+ * Reads already treat such links as expired (see getEffectiveStatus); the sweep keeps
+ * stored statuses, and anything filtering on them, in step. Running it on several
+ * instances is harmless since the update only touches links that are still active.
+ */
+
+import type { FastifyBaseLogger } from "fastify";
+import type { PaymentLinksRepository } from "./repository";
+
+interface ExpirySweeperOptions {
+  repository: PaymentLinksRepository;
+  intervalMs: number;
+  log: FastifyBaseLogger;
+}
+
+export function startExpirySweeper({ repository, intervalMs, log }: ExpirySweeperOptions) {
+  let sweeping = false;
+
+  const sweep = async () => {
+    if (sweeping) return;
+    sweeping = true;
+    try {
+      const expired = await repository.expireStaleLinks();
+      if (expired > 0) {
+        log.info({ msg: "Expired payment links", count: expired });
+      }
+    } catch (error) {
+      log.error({
+        msg: "Error expiring payment links",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      sweeping = false;
+    }
+  };
+
+  const timer = setInterval(sweep, intervalMs);
+  timer.unref();
+  void sweep();
+
+  return {
+    stop() {
+      clearInterval(timer);
+    },
+  };
+}
+
+export type ExpirySweeper = ReturnType<typeof startExpirySweeper>;
@@ -0,0 +1,97 @@
+/**
+ * Mocked RPC for the withdrawal verification tests: answers getTransaction with
+ * transactions built in memory, or null for unknown signatures.
+ */
+
+import {
+  Keypair,
+  PublicKey,
+  TransactionInstruction,
+  TransactionMessage,
+  type Connection,
+  type TokenBalance,
+} from "@solana/web3.js";
+
+export const PROGRAM_ID = Keypair.generate().publicKey;
+
+const FEE_PAYER = Keypair.generate().publicKey;
+const STARTING_LAMPORTS = 1_000_000_000;
+
+export interface FakeWithdrawal {
+  recipient: string;
+  /** Program the transaction calls; PROGRAM_ID by default */
+  programId?: PublicKey;
+  /** Lamports the recipient gains */
+  lamports?: number;
+  /** Token units the recipient gains, per mint */
+  tokens?: Record<string, bigint>;
+  failed?: boolean;
+}
+
+function tokenBalance(accountIndex: number, owner: string, mint: string, amount: bigint) {
+  return {
+    accountIndex,
+    mint,
+    owner,
+    uiTokenAmount: { amount: amount.toString(), decimals: 6, uiAmount: null },
+  } satisfies TokenBalance;
+}
+
+/** getTransaction response of a withdrawal to `recipient` */
+export function fakeWithdrawal({
+  recipient,
+  programId = PROGRAM_ID,
+  lamports = 0,
+  tokens = {},
+  failed = false,
+}: FakeWithdrawal) {
+  const recipientKey = new PublicKey(recipient);
+  const message = new TransactionMessage({
+    payerKey: FEE_PAYER,
+    recentBlockhash: PublicKey.default.toBase58(),
+    instructions: [
+      new TransactionInstruction({
+        programId,
+        keys: [{ pubkey: recipientKey, isSigner: false, isWritable: true }],
+        data: Buffer.alloc(0),
+      }),
+    ],
+  }).compileToV0Message();
+
+  const accountKeys = message.staticAccountKeys;
+  const recipientIndex = accountKeys.findIndex((key) => key.equals(recipientKey));
+  const preBalances = accountKeys.map(() => STARTING_LAMPORTS);
+  const postBalances = preBalances.map((balance, i) =>
+    i === recipientIndex ? balance + lamports : balance
+  );
+  const mints = Object.keys(tokens);
+
+  return {
+    slot: 1,
+    blockTime: null,
+    transaction: { message, signatures: [] },
+    meta: {
+      err: failed ? { InstructionError: [0, "Custom"] } : null,
+      fee: 5000,
+      preBalances,
+      postBalances,
+      preTokenBalances: mints.map((mint) => tokenBalance(recipientIndex, recipient, mint, 0n)),
+      postTokenBalances: mints.map((mint) =>
+        tokenBalance(recipientIndex, recipient, mint, tokens[mint])
+      ),
+      loadedAddresses: { writable: [], readonly: [] },
+    },
+  };
+}
+
+/** RPC that knows the given transactions by signature; "rpc-error" makes it throw */
+export function fakeRpc(
+  transactions: Record<string, ReturnType<typeof fakeWithdrawal>>
+): Pick<Connection, "getTransaction"> {
+  return {
+    getTransaction: (async (signature: string) => {
+      if (signature === "rpc-error") throw new Error("429 Too Many Requests");
+      return transactions[signature] ?? null;
+    }) as unknown as Connection["getTransaction"],
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Payment History Export
+ *
+ * Streams a recipient's payment records as CSV or JSON for accounting. Records are read
+ * from the repository a page at a time, so memory use stays flat however long the
+ * history is.
+ */
+
+import { formatTokenAmount, getTokenByMint } from "@ghostsend/shared";
+import type {
+  HistoryExportFormat,
+  PaymentRecord,
+  PaymentRecordListQuery,
+} from "../../types/payment-links";
+import type { PaymentLinksRepository } from "./repository";
+
+export const HISTORY_EXPORT_CONTENT_TYPES: Record<HistoryExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+};
+
+const EXPORT_PAGE_SIZE = 100;
+
+const EXPORT_COLUMNS = [
+  "paymentId",
+  "linkLabel",
+  "orderId",
+  "token",
+  "amount",
+  "amountBaseUnits",
+  "txSignature",
+  "explorerUrl",
+  "completedAt",
+] as const;
+
+type ExportRow = Record<(typeof EXPORT_COLUMNS)[number], string | number>;
+
+function toExportRow(record: PaymentRecord, linkLabel: string | undefined): ExportRow {
+  const token = getTokenByMint(record.tokenMint);
+  return {
+    paymentId: record.paymentId,
+    linkLabel: linkLabel ?? "",
+    orderId: record.orderId ?? "",
+    token: token ? token.label : record.tokenMint,
+    amount: token ? formatTokenAmount(BigInt(record.amount), token) : record.amount,
+    amountBaseUnits: record.amount,
+    txSignature: record.txSignature,
+    explorerUrl: `https://explorer.solana.com/tx/${record.txSignature}`,
+    completedAt: new Date(record.completedAt).toISOString(),
+  };
+}
+
+/**
+ * Quote a CSV field when needed. Text starting with a formula character is prefixed
+ * with an apostrophe so spreadsheets do not evaluate link labels.
+ */
+function csvField(value: string | number): string {
+  let text = String(value);
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export rows in completion order (oldest first) unless the query sorts otherwise.
+ * Page size and cursor are managed here; any given in `query` are ignored.
+ */
+async function* exportRows(
+  repository: PaymentLinksRepository,
+  recipientAddress: string,
+  query: PaymentRecordListQuery
+): AsyncGenerator<ExportRow> {
+  const labels = new Map<string, string | undefined>();
+  let cursor: string | undefined;
+
+  do {
+    const page = await repository.listPaymentRecordsByRecipient(recipientAddress, {
+      order: "asc",
+      ...query,
+      cursor,
+      limit: EXPORT_PAGE_SIZE,
+    });
+    if (!page.success) throw new Error(page.error);
+
+    for (const record of page.items) {
+      if (!labels.has(record.paymentId)) {
+        labels.set(record.paymentId, (await repository.getPaymentLink(record.paymentId))?.label);
+      }
+      yield toExportRow(record, labels.get(record.paymentId));
+    }
+    cursor = page.nextCursor ?? undefined;
+  } while (cursor);
+}
+
+/**
+ * Serialized export, one chunk per row, for use with Readable.from
+ */
+export async function* exportPaymentHistory(
+  repository: PaymentLinksRepository,
+  recipientAddress: string,
+  format: HistoryExportFormat,
+  query: PaymentRecordListQuery = {}
+): AsyncGenerator<string> {
+  const rows = exportRows(repository, recipientAddress, query);
+
+  if (format === "csv") {
+    yield `${EXPORT_COLUMNS.join(",")}\r\n`;
+    for await (const row of rows) {
+      yield `${EXPORT_COLUMNS.map((column) => csvField(row[column])).join(",")}\r\n`;
+    }
+    return;
+  }
+
+  let separator = "\n";
+  yield "[";
+  for await (const row of rows) {
+    yield `${separator}  ${JSON.stringify(row)}`;
+    separator = ",\n";
+  }
+  yield "\n]\n";
+}
@@ -0,0 +1,32 @@
+/**
+ * Pay Page URLs
+ *
+ * Payment links and checkout sessions are paid on the app's /pay/<id> page. The app is
+ * served from PUBLIC_APP_URL; when that is unset, URLs point at the host the request
+ * was sent to, which is only right when the app and the backend share one.
+ */
+
+import type { FastifyRequest } from "fastify";
+
+export type PayUrlBuilder = (
+  request: Pick<FastifyRequest, "protocol" | "hostname">,
+  paymentId: string
+) => string;
+
+/**
+ * Build pay page URLs from the app's public origin. Throws on startup if it is not an
+ * http(s) URL.
+ */
+export function createPayUrlBuilder(publicAppUrl: string | undefined): PayUrlBuilder {
+  let base: string | undefined;
+  if (publicAppUrl) {
+    const url = new URL(publicAppUrl);
+    if (url.protocol !== "https:" && url.protocol !== "http:") {
+      throw new Error("PUBLIC_APP_URL must be an http(s) URL");
+    }
+    base = url.toString().replace(/\/+$/, "");
+  }
+
+  return (request, paymentId) =>
+    `${base ?? `${request.protocol}://${request.hostname}`}/pay/${encodeURIComponent(paymentId)}`;
+}
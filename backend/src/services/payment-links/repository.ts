@@ -0,0 +1,596 @@
+/**
+ * Payment Links Repository
+ *
+ * Business rules for payment links. Persistence is delegated to a storage adapter
+ * (see ./storage), chosen at startup via PAYMENT_LINKS_STORAGE (see ../storage).
+ */
+
+import { formatTokenAmount, getTokenByMint, isBaseUnits } from "@ghostsend/shared";
+import { nanoid } from "nanoid";
+import type {
+  BaseUnits,
+  CheckoutDetails,
+  PaymentLinkAuditEntry,
+  PaymentLinkMetadata,
+  PaymentLinkListQuery,
+  PaymentLinkPublicInfo,
+  CreatePaymentLinkRequest,
+  PaymentRecord,
+  PaymentRecordListQuery,
+  TokenMint,
+  UpdatePaymentLinkRequest,
+} from "../../types/payment-links";
+import { linkSortValue, recordSortValue } from "./storage/list-queries";
+import {
+  getEffectiveStatus,
+  type ListCursor,
+  type PaymentLinkChanges,
+  type PaymentLinksStorage,
+} from "./storage/types";
+
+function formatAmountForToken(amount: BaseUnits, tokenMint: string): string {
+  const token = getTokenByMint(tokenMint);
+  if (!token) return `${amount} base units`;
+  return `${formatTokenAmount(BigInt(amount), token)} ${token.label}`;
+}
+
+/**
+ * Generate a unique payment ID
+ */
+function generatePaymentId(): string {
+  return nanoid(12); // 12 character alphanumeric ID
+}
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Cursors are opaque to clients: the last item's sort value and ID, base64url JSON.
+ */
+function encodeCursor(cursor: ListCursor): string {
+  return Buffer.from(JSON.stringify([cursor.value.toString(), cursor.id])).toString("base64url");
+}
+
+function decodeCursor(raw: string): ListCursor | null {
+  try {
+    const [value, id] = JSON.parse(Buffer.from(raw, "base64url").toString("utf8"));
+    if (typeof value !== "string" || !/^-?\d+$/.test(value) || typeof id !== "string") {
+      return null;
+    }
+    return { value: BigInt(value), id };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Page size and decoded cursor for a list query, or why they are invalid
+ */
+function planPage(query: {
+  cursor?: string;
+  limit?: number;
+}): { limit: number; cursor?: ListCursor } | { error: string } {
+  const limit = query.limit ?? DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(limit) || limit < 1) return { error: "Limit must be a positive integer" };
+
+  if (query.cursor === undefined) return { limit: Math.min(limit, MAX_PAGE_SIZE) };
+  const cursor = decodeCursor(query.cursor);
+  if (!cursor) return { error: "Invalid cursor" };
+  return { limit: Math.min(limit, MAX_PAGE_SIZE), cursor };
+}
+
+/**
+ * Cut a page fetched with one extra item; the extra item means there is a next page.
+ */
+function toPage<T>(items: T[], limit: number, cursorOf: (item: T) => ListCursor): ListPage<T> {
+  const page = items.slice(0, limit);
+  const last = page[page.length - 1];
+  return {
+    success: true,
+    items: page,
+    nextCursor: items.length > limit && last ? encodeCursor(cursorOf(last)) : null,
+  };
+}
+
+/**
+ * Convert full metadata to public info (strips recipient address)
+ */
+export function toPublicInfo(metadata: PaymentLinkMetadata): PaymentLinkPublicInfo {
+  const publicInfo = {
+    ...metadata,
+    status: getEffectiveStatus(metadata),
+  } as PaymentLinkPublicInfo & { recipientAddress?: string; apiKeyId?: string };
+  delete publicInfo.recipientAddress;
+  delete publicInfo.apiKeyId;
+  if (metadata.checkout) {
+    // Merchant metadata is for the merchant only
+    const { orderId, successUrl, cancelUrl } = metadata.checkout;
+    publicInfo.checkout = { orderId, successUrl, cancelUrl };
+  }
+  return publicInfo;
+}
+
+const AMOUNT_FIELDS = [
+  ["fixedAmount", "Fixed"],
+  ["minAmount", "Min"],
+  ["maxAmount", "Max"],
+] as const;
+
+/**
+ * First problem with a link request, or null when it can be created
+ */
+export function checkCreateRequest(
+  request: CreatePaymentLinkRequest,
+  now = Date.now()
+): string | null {
+  if (!request.recipientAddress) {
+    return "Recipient address is required";
+  }
+
+  if (request.amountType === "fixed" && !request.fixedAmount) {
+    return "Fixed amount is required for fixed amount type";
+  }
+
+  for (const [field, name] of AMOUNT_FIELDS) {
+    const value = request[field];
+    if (value !== undefined && !isBaseUnits(value)) {
+      return `${name} amount must be a whole number of base units`;
+    }
+  }
+
+  if (request.amountType === "fixed" && BigInt(request.fixedAmount!) <= 0n) {
+    return "Fixed amount must be positive";
+  }
+
+  if (
+    request.maxAmount &&
+    request.minAmount &&
+    BigInt(request.maxAmount) < BigInt(request.minAmount)
+  ) {
+    return "Max amount must be greater than min amount";
+  }
+
+  if (
+    request.maxUsageCount !== undefined &&
+    (!Number.isInteger(request.maxUsageCount) || request.maxUsageCount < 1)
+  ) {
+    return "Max usage count must be a positive integer";
+  }
+
+  if (request.expiresAt !== undefined) {
+    if (!Number.isFinite(request.expiresAt) || request.expiresAt <= now) {
+      return "Expiry must be in the future";
+    }
+  }
+
+  if (request.activeFrom !== undefined && !Number.isFinite(request.activeFrom)) {
+    return "Invalid activation time";
+  }
+
+  if (
+    request.activeFrom !== undefined &&
+    request.expiresAt !== undefined &&
+    request.activeFrom >= request.expiresAt
+  ) {
+    return "Activation time must be before the expiry";
+  }
+
+  return null;
+}
+
+export type AmountValidation = { valid: boolean; error?: string };
+
+export type ListPage<T> =
+  | { success: true; items: T[]; nextCursor: string | null }
+  | { success: false; error: string };
+
+export type PaymentLinkUpdateResult =
+  | { success: true; link: PaymentLinkMetadata }
+  | { success: false; error: string };
+
+/**
+ * Payment link operations used by the routes and the withdraw handlers.
+ */
+export interface PaymentLinksRepository {
+  /**
+   * Create a new payment link. `checkout` makes it a checkout session; `apiKeyId`
+   * attributes it to the API key that created it.
+   */
+  createPaymentLink(
+    request: CreatePaymentLinkRequest,
+    options?: { checkout?: CheckoutDetails; apiKeyId?: string }
+  ): Promise<PaymentLinkMetadata>;
+  /** Get payment link metadata (full, including recipient - backend only) */
+  getPaymentLink(paymentId: string): Promise<PaymentLinkMetadata | null>;
+  /** Get public payment link info (no recipient address - safe for frontend) */
+  getPaymentLinkPublicInfo(paymentId: string): Promise<PaymentLinkPublicInfo | null>;
+  /**
+   * One page of a recipient's payment links, newest first unless sorted otherwise.
+   * Archived links are listed only when asked for.
+   */
+  listPaymentLinksByRecipient(
+    recipientAddress: string,
+    query?: PaymentLinkListQuery
+  ): Promise<ListPage<PaymentLinkMetadata>>;
+  /**
+   * Check if payment link can accept payments. `pendingPayments` counts withdrawals
+   * already in flight for the link, which use it up just like recorded payments.
+   */
+  canAcceptPayment(paymentId: string, pendingPayments?: number): Promise<boolean>;
+  /** Validate payment amount against link requirements */
+  validateAmount(paymentId: string, amount: bigint): Promise<AmountValidation>;
+  /** Increment usage count and update status */
+  incrementUsageCount(paymentId: string): Promise<void>;
+  /**
+   * Apply owner edits and record them in the link's audit trail. Edits that change
+   * nothing are not recorded.
+   */
+  updatePaymentLink(
+    paymentId: string,
+    actor: string,
+    update: UpdatePaymentLinkRequest
+  ): Promise<PaymentLinkUpdateResult>;
+  /** Audit trail of owner edits, oldest first */
+  listAuditEntries(paymentId: string): Promise<PaymentLinkAuditEntry[]>;
+  /** Update payment link status */
+  updatePaymentLinkStatus(paymentId: string, status: PaymentLinkMetadata["status"]): Promise<void>;
+  /**
+   * Add a payment record for creator history, carrying the order details of a checkout
+   * session. Returns null if the transaction was already recorded (against any link).
+   */
+  addPaymentRecord(
+    paymentId: string,
+    amount: BaseUnits,
+    tokenMint: TokenMint,
+    txSignature: string
+  ): Promise<PaymentRecord | null>;
+  /** One page of payment records for a recipient, newest first unless sorted otherwise */
+  listPaymentRecordsByRecipient(
+    recipientAddress: string,
+    query?: PaymentRecordListQuery
+  ): Promise<ListPage<PaymentRecord>>;
+  /** Check if a payment record already exists */
+  hasPaymentRecord(paymentId: string, txSignature: string): Promise<boolean>;
+  /** Mark active links past their expiresAt as expired; returns how many changed */
+  expireStaleLinks(): Promise<number>;
+  /**
+   * Archive a link: it stops accepting payments and leaves the default list, but its
+   * payment records stay. Recorded in the audit trail.
+   */
+  archivePaymentLink(paymentId: string, actor: string): Promise<PaymentLinkUpdateResult>;
+  /** Bring an archived link back; recorded in the audit trail */
+  restorePaymentLink(paymentId: string, actor: string): Promise<PaymentLinkUpdateResult>;
+  /** Permanently delete a payment link with its records and audit trail */
+  purgePaymentLink(paymentId: string): Promise<void>;
+}
+
+function validateLinkAmount(link: PaymentLinkMetadata, amount: bigint): AmountValidation {
+  if (amount <= 0n) {
+    return { valid: false, error: "Amount must be positive" };
+  }
+
+  if (link.amountType === "fixed") {
+    if (amount !== BigInt(link.fixedAmount ?? 0)) {
+      return {
+        valid: false,
+        error: `Amount must be exactly ${formatAmountForToken(
+          link.fixedAmount ?? "0",
+          link.tokenMint
+        )}`,
+      };
+    }
+  } else {
+    // Flexible amount
+    if (link.minAmount && amount < BigInt(link.minAmount)) {
+      return {
+        valid: false,
+        error: `Amount must be at least ${formatAmountForToken(link.minAmount, link.tokenMint)}`,
+      };
+    }
+    if (link.maxAmount && amount > BigInt(link.maxAmount)) {
+      return {
+        valid: false,
+        error: `Amount cannot exceed ${formatAmountForToken(link.maxAmount, link.tokenMint)}`,
+      };
+    }
+  }
+
+  return { valid: true };
+}
+
+const EDITABLE_FIELDS = new Set<string>([
+  "label",
+  "message",
+  "minAmount",
+  "maxAmount",
+  "maxUsageCount",
+  "status",
+]);
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isSafeInteger(value) && value > 0;
+}
+
+function isPositiveAmount(value: unknown): value is BaseUnits {
+  return isBaseUnits(value) && BigInt(value) > 0n;
+}
+
+/**
+ * Work out the storage changes for an owner edit, or why it is not allowed. Status is
+ * re-derived when the usage cap moves, so raising the cap on a used-up link reopens it.
+ */
+function planLinkUpdate(
+  link: PaymentLinkMetadata,
+  update: UpdatePaymentLinkRequest
+): { changes: PaymentLinkChanges } | { error: string } {
+  const unknown = Object.keys(update).find((field) => !EDITABLE_FIELDS.has(field));
+  if (unknown) return { error: `Field cannot be edited: ${unknown}` };
+  if (link.archivedAt) return { error: "Restore the payment link before editing it" };
+
+  const changes: PaymentLinkChanges = {};
+
+  for (const field of ["label", "message"] as const) {
+    if (!(field in update)) continue;
+    const value = update[field];
+    if (value !== null && typeof value !== "string") return { error: `Invalid ${field}` };
+    changes[field] = value?.trim() || undefined;
+  }
+
+  for (const field of ["minAmount", "maxAmount"] as const) {
+    if (!(field in update)) continue;
+    if (link.amountType !== "flexible") {
+      return { error: "Amount bounds only apply to flexible amount links" };
+    }
+    const value = update[field];
+    if (value !== null && !isPositiveAmount(value)) {
+      return { error: `${field === "minAmount" ? "Min" : "Max"} amount must be positive` };
+    }
+    changes[field] = value ?? undefined;
+  }
+
+  const minAmount = "minAmount" in changes ? changes.minAmount : link.minAmount;
+  const maxAmount = "maxAmount" in changes ? changes.maxAmount : link.maxAmount;
+  if (minAmount && maxAmount && BigInt(maxAmount) < BigInt(minAmount)) {
+    return { error: "Max amount must be greater than min amount" };
+  }
+
+  if ("maxUsageCount" in update) {
+    if (!link.reusable) return { error: "Usage cap only applies to reusable links" };
+    const value = update.maxUsageCount;
+    if (value !== null && !isPositiveInteger(value)) {
+      return { error: "Max usage count must be a positive integer" };
+    }
+    changes.maxUsageCount = value ?? undefined;
+  }
+
+  let status = link.status;
+  if (update.status !== undefined) {
+    const current = getEffectiveStatus(link);
+    if (update.status === "disabled") {
+      if (current !== "active" && current !== "disabled") {
+        return { error: `Cannot pause a ${current} payment link` };
+      }
+    } else if (update.status === "active") {
+      if (current !== "disabled" && current !== "active") {
+        return { error: `Cannot resume a ${current} payment link` };
+      }
+    } else {
+      return { error: "Status must be active or disabled" };
+    }
+    status = update.status;
+  }
+
+  if (status === "active" || status === "completed") {
+    const maxUsageCount = "maxUsageCount" in changes ? changes.maxUsageCount : link.maxUsageCount;
+    const usedUp = link.reusable
+      ? Boolean(maxUsageCount && link.usageCount >= maxUsageCount)
+      : link.usageCount > 0;
+    status = usedUp ? "completed" : "active";
+  }
+  changes.status = status;
+
+  return { changes };
+}
+
+/**
+ * Build the repository on top of a storage adapter
+ */
+export function createPaymentLinksRepository(storage: PaymentLinksStorage): PaymentLinksRepository {
+  /**
+   * Write changes together with their audit entry. Fields that would not change are
+   * dropped; if none are left nothing is written.
+   */
+  const applyChanges = async (
+    link: PaymentLinkMetadata,
+    actor: string,
+    changes: PaymentLinkChanges
+  ): Promise<PaymentLinkUpdateResult> => {
+    const fields = (Object.keys(changes) as Array<keyof PaymentLinkChanges>).filter(
+      (field) => changes[field] !== link[field]
+    );
+    if (fields.length === 0) return { success: true, link };
+
+    const audit: PaymentLinkAuditEntry = {
+      id: nanoid(12),
+      paymentId: link.paymentId,
+      actor,
+      changes: fields.map((field) => ({
+        field,
+        from: link[field] ?? null,
+        to: changes[field] ?? null,
+      })),
+      createdAt: Date.now(),
+    };
+
+    const changed = Object.fromEntries(fields.map((field) => [field, changes[field]]));
+    const updated = await storage.updateLink(link.paymentId, changed, audit);
+    if (!updated) return { success: false, error: "Payment link not found" };
+    return { success: true, link: updated };
+  };
+
+  return {
+    async createPaymentLink(request, { checkout, apiKeyId } = {}) {
+      const paymentId = generatePaymentId();
+
+      const now = Date.now();
+      const problem = checkCreateRequest(request, now);
+      if (problem) throw new Error(problem);
+
+      const metadata: PaymentLinkMetadata = {
+        paymentId,
+        recipientAddress: request.recipientAddress,
+        tokenMint: request.tokenMint,
+        amountType: request.amountType,
+        fixedAmount: request.fixedAmount,
+        minAmount: request.minAmount,
+        maxAmount: request.maxAmount,
+        reusable: request.reusable,
+        maxUsageCount: request.maxUsageCount,
+        label: request.label,
+        message: request.message,
+        createdAt: now,
+        activeFrom: request.activeFrom,
+        expiresAt: request.expiresAt,
+        status: "active",
+        usageCount: 0,
+        checkout,
+        apiKeyId,
+      };
+
+      await storage.insertLink(metadata);
+
+      return metadata;
+    },
+
+    getPaymentLink(paymentId) {
+      return storage.getLink(paymentId);
+    },
+
+    async getPaymentLinkPublicInfo(paymentId) {
+      const metadata = await storage.getLink(paymentId);
+      if (!metadata) return null;
+      return toPublicInfo(metadata);
+    },
+
+    async listPaymentLinksByRecipient(recipientAddress, query = {}) {
+      const page = planPage(query);
+      if ("error" in page) return { success: false, error: page.error };
+
+      const sort = query.sort ?? "createdAt";
+      const links = await storage.listLinksByRecipient(recipientAddress, {
+        ...query,
+        sort,
+        order: query.order ?? "desc",
+        limit: page.limit + 1,
+        cursor: page.cursor,
+        now: Date.now(),
+      });
+      return toPage(links, page.limit, (link) => ({
+        value: linkSortValue(link, sort),
+        id: link.paymentId,
+      }));
+    },
+
+    async canAcceptPayment(paymentId, pendingPayments = 0) {
+      const link = await storage.getLink(paymentId);
+      if (!link) return false;
+      if (link.archivedAt) return false;
+      const now = Date.now();
+      if (getEffectiveStatus(link, now) !== "active") return false;
+      if (link.activeFrom !== undefined && now < link.activeFrom) return false;
+      const used = link.usageCount + pendingPayments;
+      if (!link.reusable && used > 0) return false;
+      if (link.maxUsageCount && used >= link.maxUsageCount) return false;
+      return true;
+    },
+
+    async validateAmount(paymentId, amount) {
+      const link = await storage.getLink(paymentId);
+      if (!link) return { valid: false, error: "Payment link not found" };
+      return validateLinkAmount(link, amount);
+    },
+
+    async incrementUsageCount(paymentId) {
+      await storage.incrementUsage(paymentId);
+    },
+
+    async updatePaymentLink(paymentId, actor, update) {
+      const link = await storage.getLink(paymentId);
+      if (!link) return { success: false, error: "Payment link not found" };
+
+      const plan = planLinkUpdate(link, update);
+      if ("error" in plan) return { success: false, error: plan.error };
+
+      return applyChanges(link, actor, plan.changes);
+    },
+
+    listAuditEntries(paymentId) {
+      return storage.listAuditEntries(paymentId);
+    },
+
+    updatePaymentLinkStatus(paymentId, status) {
+      return storage.updateLinkStatus(paymentId, status);
+    },
+
+    async addPaymentRecord(paymentId, amount, tokenMint, txSignature) {
+      const checkout = (await storage.getLink(paymentId))?.checkout;
+      const record: PaymentRecord = {
+        id: nanoid(12),
+        paymentId,
+        tokenMint,
+        amount,
+        txSignature,
+        completedAt: Date.now(),
+        status: "completed",
+        orderId: checkout?.orderId,
+        metadata: checkout?.metadata,
+      };
+
+      const inserted = await storage.addRecord(record);
+      return inserted ? record : null;
+    },
+
+    async listPaymentRecordsByRecipient(recipientAddress, query = {}) {
+      const page = planPage(query);
+      if ("error" in page) return { success: false, error: page.error };
+
+      const sort = query.sort ?? "completedAt";
+      const records = await storage.listRecordsByRecipient(recipientAddress, {
+        ...query,
+        sort,
+        order: query.order ?? "desc",
+        limit: page.limit + 1,
+        cursor: page.cursor,
+      });
+      return toPage(records, page.limit, (record) => ({
+        value: recordSortValue(record, sort),
+        id: record.id,
+      }));
+    },
+
+    hasPaymentRecord(paymentId, txSignature) {
+      return storage.hasRecord(paymentId, txSignature);
+    },
+
+    expireStaleLinks() {
+      return storage.expireLinks(Date.now());
+    },
+
+    async archivePaymentLink(paymentId, actor) {
+      const link = await storage.getLink(paymentId);
+      if (!link) return { success: false, error: "Payment link not found" };
+      if (link.archivedAt) return { success: true, link };
+      return applyChanges(link, actor, { archivedAt: Date.now() });
+    },
+
+    async restorePaymentLink(paymentId, actor) {
+      const link = await storage.getLink(paymentId);
+      if (!link) return { success: false, error: "Payment link not found" };
+      return applyChanges(link, actor, { archivedAt: undefined });
+    },
+
+    purgePaymentLink(paymentId) {
+      return storage.deleteLink(paymentId);
+    },
+  };
+}
@@ -0,0 +1,303 @@
+/**
+ * List queries for the owner's links and payment history.
+ *
+ * The SQL adapters build a WHERE / ORDER BY / LIMIT query with keyset paging; the memory
+ * adapter runs the same filters over the recipient's items in process, and the Redis
+ * adapter over the batches it reads from a sort index. All order by the sort value and
+ * then by ID, which is what the cursor points into.
+ */
+
+import type { BaseUnits, PaymentLinkMetadata, PaymentRecord } from "../../../types/payment-links";
+import {
+  getEffectiveStatus,
+  type LinkListOptions,
+  type ListCursor,
+  type RecordListOptions,
+} from "./types";
+
+export interface SqlDialect {
+  /** Placeholder for the nth (1-based) parameter; a parameter may appear several times */
+  param: (index: number) => string;
+  /** Driver arguments for the parameter values, in index order */
+  bind: (values: unknown[]) => unknown[];
+  /** Case-insensitive LIKE operator */
+  ilike: string;
+}
+
+// better-sqlite3 binds repeated parameters by name only
+export const sqliteDialect: SqlDialect = {
+  param: (index) => `@p${index}`,
+  bind: (values) => [Object.fromEntries(values.map((value, i) => [`p${i + 1}`, value]))],
+  ilike: "LIKE",
+};
+
+export const postgresDialect: SqlDialect = {
+  param: (index) => `$${index}`,
+  bind: (values) => values,
+  ilike: "ILIKE",
+};
+
+const LINK_SORT_EXPRESSIONS: Record<LinkListOptions["sort"], string> = {
+  createdAt: "created_at",
+  amount: "COALESCE(fixed_amount, min_amount, 0)",
+  usageCount: "usage_count",
+};
+
+const RECORD_SORT_EXPRESSIONS: Record<RecordListOptions["sort"], string> = {
+  completedAt: "r.completed_at",
+  amount: "r.amount",
+};
+
+/** Sort value of a link; matches LINK_SORT_EXPRESSIONS */
+export function linkSortValue(link: PaymentLinkMetadata, sort: LinkListOptions["sort"]): bigint {
+  if (sort === "amount") return BigInt(link.fixedAmount ?? link.minAmount ?? 0);
+  if (sort === "usageCount") return BigInt(link.usageCount);
+  return BigInt(link.createdAt);
+}
+
+/** Sort value of a payment record; matches RECORD_SORT_EXPRESSIONS */
+export function recordSortValue(record: PaymentRecord, sort: RecordListOptions["sort"]): bigint {
+  return BigInt(sort === "amount" ? record.amount : record.completedAt);
+}
+
+function createParams(dialect: SqlDialect) {
+  const values: unknown[] = [];
+  return {
+    values,
+    add(value: unknown) {
+      values.push(value);
+      return dialect.param(values.length);
+    },
+  };
+}
+
+type Params = ReturnType<typeof createParams>;
+
+function likePattern(search: string) {
+  return `%${search.replace(/[\\%_]/g, (char) => `\\${char}`)}%`;
+}
+
+function afterCursor(
+  sortExpression: string,
+  idColumn: string,
+  cursor: ListCursor,
+  order: LinkListOptions["order"],
+  params: Params
+) {
+  const op = order === "asc" ? ">" : "<";
+  const value = params.add(cursor.value);
+  return `(${sortExpression} ${op} ${value} OR (${sortExpression} = ${value} AND ${idColumn} ${op} ${params.add(cursor.id)}))`;
+}
+
+export function buildLinkListQuery(
+  recipientAddress: string,
+  options: LinkListOptions,
+  dialect: SqlDialect
+) {
+  const params = createParams(dialect);
+  const where = [
+    `recipient_address = ${params.add(recipientAddress)}`,
+    options.archived ? "archived_at IS NOT NULL" : "archived_at IS NULL",
+  ];
+
+  if (options.status?.length) {
+    const now = params.add(options.now);
+    const conditions = options.status.map((status) => {
+      // Active links past their expiry count as expired, as in getEffectiveStatus
+      if (status === "active") {
+        return `(status = 'active' AND (expires_at IS NULL OR expires_at > ${now}))`;
+      }
+      if (status === "expired") {
+        return `(status = 'expired' OR (status = 'active' AND expires_at <= ${now}))`;
+      }
+      return `status = ${params.add(status)}`;
+    });
+    where.push(`(${conditions.join(" OR ")})`);
+  }
+  if (options.tokenMint) where.push(`token_mint = ${params.add(options.tokenMint)}`);
+  if (options.from !== undefined) where.push(`created_at >= ${params.add(options.from)}`);
+  if (options.to !== undefined) where.push(`created_at < ${params.add(options.to)}`);
+
+  if (options.amountMin !== undefined || options.amountMax !== undefined) {
+    const fixed = ["amount_type = 'fixed'"];
+    const flexible = ["amount_type = 'flexible'"];
+    if (options.amountMin !== undefined) {
+      const min = params.add(BigInt(options.amountMin));
+      fixed.push(`fixed_amount >= ${min}`);
+      flexible.push(`(max_amount IS NULL OR max_amount >= ${min})`);
+    }
+    if (options.amountMax !== undefined) {
+      const max = params.add(BigInt(options.amountMax));
+      fixed.push(`fixed_amount <= ${max}`);
+      flexible.push(`(min_amount IS NULL OR min_amount <= ${max})`);
+    }
+    where.push(`((${fixed.join(" AND ")}) OR (${flexible.join(" AND ")}))`);
+  }
+
+  if (options.search) {
+    where.push(`label ${dialect.ilike} ${params.add(likePattern(options.search))} ESCAPE '\\'`);
+  }
+
+  const sortExpression = LINK_SORT_EXPRESSIONS[options.sort];
+  if (options.cursor) {
+    where.push(afterCursor(sortExpression, "payment_id", options.cursor, options.order, params));
+  }
+
+  const direction = options.order === "asc" ? "ASC" : "DESC";
+  return {
+    text: `SELECT * FROM payment_links WHERE ${where.join(" AND ")}
+      ORDER BY ${sortExpression} ${direction}, payment_id ${direction}
+      LIMIT ${params.add(options.limit)}`,
+    values: dialect.bind(params.values),
+  };
+}
+
+export function buildRecordListQuery(
+  recipientAddress: string,
+  options: RecordListOptions,
+  dialect: SqlDialect
+) {
+  const params = createParams(dialect);
+  const where = [`l.recipient_address = ${params.add(recipientAddress)}`];
+
+  if (options.paymentId) where.push(`r.payment_id = ${params.add(options.paymentId)}`);
+  if (options.status?.length) {
+    where.push(`r.status IN (${options.status.map((status) => params.add(status)).join(", ")})`);
+  }
+  if (options.tokenMint) where.push(`r.token_mint = ${params.add(options.tokenMint)}`);
+  if (options.from !== undefined) where.push(`r.completed_at >= ${params.add(options.from)}`);
+  if (options.to !== undefined) where.push(`r.completed_at < ${params.add(options.to)}`);
+  if (options.amountMin !== undefined) {
+    where.push(`r.amount >= ${params.add(BigInt(options.amountMin))}`);
+  }
+  if (options.amountMax !== undefined) {
+    where.push(`r.amount <= ${params.add(BigInt(options.amountMax))}`);
+  }
+  if (options.search) {
+    where.push(`l.label ${dialect.ilike} ${params.add(likePattern(options.search))} ESCAPE '\\'`);
+  }
+
+  const sortExpression = RECORD_SORT_EXPRESSIONS[options.sort];
+  if (options.cursor) {
+    where.push(afterCursor(sortExpression, "r.id", options.cursor, options.order, params));
+  }
+
+  const direction = options.order === "asc" ? "ASC" : "DESC";
+  return {
+    text: `SELECT r.* FROM payment_records r
+      JOIN payment_links l ON l.payment_id = r.payment_id
+      WHERE ${where.join(" AND ")}
+      ORDER BY ${sortExpression} ${direction}, r.id ${direction}
+      LIMIT ${params.add(options.limit)}`,
+    values: dialect.bind(params.values),
+  };
+}
+
+function containsText(value: string | undefined, search: string) {
+  return Boolean(value?.toLowerCase().includes(search.toLowerCase()));
+}
+
+function inRange(value: BaseUnits, min?: BaseUnits, max?: BaseUnits) {
+  const amount = BigInt(value);
+  return (
+    (min === undefined || amount >= BigInt(min)) && (max === undefined || amount <= BigInt(max))
+  );
+}
+
+function inDateRange(value: number, from?: number, to?: number) {
+  return (from === undefined || value >= from) && (to === undefined || value < to);
+}
+
+function matchesLink(link: PaymentLinkMetadata, options: LinkListOptions) {
+  if (Boolean(link.archivedAt) !== Boolean(options.archived)) return false;
+  if (options.status?.length && !options.status.includes(getEffectiveStatus(link, options.now))) {
+    return false;
+  }
+  if (options.tokenMint && link.tokenMint !== options.tokenMint) return false;
+  if (!inDateRange(link.createdAt, options.from, options.to)) return false;
+  const { amountMin, amountMax } = options;
+  if (amountMin !== undefined || amountMax !== undefined) {
+    if (link.amountType === "fixed") {
+      if (!inRange(link.fixedAmount ?? "0", amountMin, amountMax)) return false;
+    } else {
+      if (
+        amountMin !== undefined &&
+        link.maxAmount !== undefined &&
+        BigInt(link.maxAmount) < BigInt(amountMin)
+      ) {
+        return false;
+      }
+      if (
+        amountMax !== undefined &&
+        link.minAmount !== undefined &&
+        BigInt(link.minAmount) > BigInt(amountMax)
+      ) {
+        return false;
+      }
+    }
+  }
+  if (options.search && !containsText(link.label, options.search)) return false;
+  return true;
+}
+
+function matchesRecord(
+  record: PaymentRecord,
+  label: string | undefined,
+  options: RecordListOptions
+) {
+  if (options.paymentId && record.paymentId !== options.paymentId) return false;
+  if (options.status?.length && !options.status.includes(record.status)) return false;
+  if (options.tokenMint && record.tokenMint !== options.tokenMint) return false;
+  if (!inDateRange(record.completedAt, options.from, options.to)) return false;
+  if (!inRange(record.amount, options.amountMin, options.amountMax)) return false;
+  if (options.search && !containsText(label, options.search)) return false;
+  return true;
+}
+
+/** Sort by value then ID, skip up to the cursor and cut the page */
+function takePage<T>(
+  items: T[],
+  sortValue: (item: T) => bigint,
+  idOf: (item: T) => string,
+  options: { order: LinkListOptions["order"]; cursor?: ListCursor; limit: number }
+): T[] {
+  const direction = options.order === "asc" ? 1 : -1;
+  const compare = (aValue: bigint, aId: string, bValue: bigint, bId: string) =>
+    (aValue < bValue ? -1 : aValue > bValue ? 1 : aId < bId ? -1 : aId > bId ? 1 : 0) * direction;
+  const { cursor } = options;
+
+  return items
+    .filter((item) => !cursor || compare(sortValue(item), idOf(item), cursor.value, cursor.id) > 0)
+    .sort((a, b) => compare(sortValue(a), idOf(a), sortValue(b), idOf(b)))
+    .slice(0, options.limit);
+}
+
+/** In-process equivalent of buildLinkListQuery over a recipient's links */
+export function selectLinks(
+  links: PaymentLinkMetadata[],
+  options: LinkListOptions
+): PaymentLinkMetadata[] {
+  return takePage(
+    links.filter((link) => matchesLink(link, options)),
+    (link) => linkSortValue(link, options.sort),
+    (link) => link.paymentId,
+    options
+  );
+}
+
+/**
+ * In-process equivalent of buildRecordListQuery; `labels` maps the recipient's payment
+ * IDs to their link labels for the search filter.
+ */
+export function selectRecords(
+  records: PaymentRecord[],
+  labels: Map<string, string | undefined>,
+  options: RecordListOptions
+): PaymentRecord[] {
+  return takePage(
+    records.filter((record) => matchesRecord(record, labels.get(record.paymentId), options)),
+    (record) => recordSortValue(record, options.sort),
+    (record) => record.id,
+    options
+  );
+}
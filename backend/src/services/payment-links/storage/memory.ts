@@ -0,0 +1,120 @@
+/**
+ * In-memory storage for payment links.
+ *
+ * Data is lost on restart and not shared between instances; intended for tests.
+ */
+
+import type {
+  PaymentLinkAuditEntry,
+  PaymentLinkMetadata,
+  PaymentRecord,
+} from "../../../types/payment-links";
+import { applyUsageIncrement, type PaymentLinksStorage } from "./types";
+import { selectLinks, selectRecords } from "./list-queries";
+
+export function createMemoryPaymentLinksStorage(): PaymentLinksStorage {
+  const paymentLinks = new Map<string, PaymentLinkMetadata>();
+  const paymentRecords: PaymentRecord[] = [];
+  const auditEntries: PaymentLinkAuditEntry[] = [];
+
+  const linksForRecipient = (recipientAddress: string) =>
+    Array.from(paymentLinks.values()).filter((link) => link.recipientAddress === recipientAddress);
+
+  return {
+    async getLink(paymentId) {
+      const link = paymentLinks.get(paymentId);
+      return link ? { ...link } : null;
+    },
+
+    async insertLink(link) {
+      if (paymentLinks.has(link.paymentId)) {
+        throw new Error(`Payment link ${link.paymentId} already exists`);
+      }
+      paymentLinks.set(link.paymentId, { ...link });
+    },
+
+    async updateLinkStatus(paymentId, status) {
+      const link = paymentLinks.get(paymentId);
+      if (!link) return;
+      paymentLinks.set(paymentId, { ...link, status });
+    },
+
+    async incrementUsage(paymentId) {
+      const link = paymentLinks.get(paymentId);
+      if (!link) return null;
+      const updated = applyUsageIncrement(link);
+      paymentLinks.set(paymentId, updated);
+      return { ...updated };
+    },
+
+    async updateLink(paymentId, changes, audit) {
+      const link = paymentLinks.get(paymentId);
+      if (!link) return null;
+      const updated = { ...link, ...changes };
+      paymentLinks.set(paymentId, updated);
+      auditEntries.push({ ...audit });
+      return { ...updated };
+    },
+
+    async listAuditEntries(paymentId) {
+      return auditEntries
+        .filter((entry) => entry.paymentId === paymentId)
+        .map((entry) => ({ ...entry }));
+    },
+
+    async deleteLink(paymentId) {
+      paymentLinks.delete(paymentId);
+
+      for (let i = auditEntries.length - 1; i >= 0; i -= 1) {
+        if (auditEntries[i].paymentId === paymentId) {
+          auditEntries.splice(i, 1);
+        }
+      }
+
+      for (let i = paymentRecords.length - 1; i >= 0; i -= 1) {
+        if (paymentRecords[i].paymentId === paymentId) {
+          paymentRecords.splice(i, 1);
+        }
+      }
+    },
+
+    async listLinksByRecipient(recipientAddress, options) {
+      return selectLinks(linksForRecipient(recipientAddress), options).map((link) => ({
+        ...link,
+      }));
+    },
+
+    async expireLinks(now) {
+      let expired = 0;
+      for (const link of paymentLinks.values()) {
+        if (link.status === "active" && link.expiresAt !== undefined && link.expiresAt <= now) {
+          paymentLinks.set(link.paymentId, { ...link, status: "expired" });
+          expired += 1;
+        }
+      }
+      return expired;
+    },
+
+    async addRecord(record) {
+      if (paymentRecords.some((existing) => existing.txSignature === record.txSignature)) {
+        return false;
+      }
+      paymentRecords.push({ ...record });
+      return true;
+    },
+
+    async hasRecord(paymentId, txSignature) {
+      return paymentRecords.some(
+        (record) => record.paymentId === paymentId && record.txSignature === txSignature
+      );
+    },
+
+    async listRecordsByRecipient(recipientAddress, options) {
+      const labels = new Map(
+        linksForRecipient(recipientAddress).map((link) => [link.paymentId, link.label])
+      );
+      const records = paymentRecords.filter((record) => labels.has(record.paymentId));
+      return selectRecords(records, labels, options).map((record) => ({ ...record }));
+    },
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * Postgres storage for payment links, on the shared pool (see ../../storage/postgres).
+ *
+ * Safe to share between several backend instances: increments and record inserts are
+ * single statements.
+ */
+
+import { postgresPlaceholders, type PostgresDatabase } from "../../storage/postgres";
+import type { PaymentLinksStorage } from "./types";
+import { buildLinkListQuery, buildRecordListQuery, postgresDialect } from "./list-queries";
+import {
+  AUDIT_COLUMNS,
+  INCREMENT_USAGE_SET,
+  LINK_COLUMNS,
+  RECORD_COLUMNS,
+  auditValues,
+  linkChangeAssignments,
+  linkValues,
+  recordValues,
+  toAuditEntry,
+  toLink,
+  toRecord,
+  type PaymentLinkAuditRow,
+  type PaymentLinkRow,
+  type PaymentRecordRow,
+} from "./rows";
+
+export function createPostgresPaymentLinksStorage(db: PostgresDatabase): PaymentLinksStorage {
+  return {
+    async getLink(paymentId) {
+      const { rows } = await db.query<PaymentLinkRow>(
+        "SELECT * FROM payment_links WHERE payment_id = $1",
+        [paymentId]
+      );
+      return rows[0] ? toLink(rows[0]) : null;
+    },
+
+    async insertLink(link) {
+      await db.query(
+        `INSERT INTO payment_links (${LINK_COLUMNS.join(", ")})
+         VALUES (${postgresPlaceholders(LINK_COLUMNS.length)})`,
+        linkValues(link)
+      );
+    },
+
+    async updateLinkStatus(paymentId, status) {
+      await db.query("UPDATE payment_links SET status = $1 WHERE payment_id = $2", [
+        status,
+        paymentId,
+      ]);
+    },
+
+    async incrementUsage(paymentId) {
+      const { rows } = await db.query<PaymentLinkRow>(
+        `UPDATE payment_links SET ${INCREMENT_USAGE_SET} WHERE payment_id = $1 RETURNING *`,
+        [paymentId]
+      );
+      return rows[0] ? toLink(rows[0]) : null;
+    },
+
+    async updateLink(paymentId, changes, audit) {
+      const assignments = linkChangeAssignments(changes);
+      return db.transaction(async (client) => {
+        const { rows } = await client.query<PaymentLinkRow>(
+          `UPDATE payment_links
+           SET ${assignments.map(([column], i) => `${column} = $${i + 1}`).join(", ")}
+           WHERE payment_id = $${assignments.length + 1} RETURNING *`,
+          [...assignments.map(([, value]) => value), paymentId]
+        );
+        if (!rows[0]) return null;
+        await client.query(
+          `INSERT INTO payment_link_audit (${AUDIT_COLUMNS.join(", ")})
+           VALUES (${postgresPlaceholders(AUDIT_COLUMNS.length)})`,
+          auditValues(audit)
+        );
+        return toLink(rows[0]);
+      });
+    },
+
+    async listAuditEntries(paymentId) {
+      const { rows } = await db.query<PaymentLinkAuditRow>(
+        "SELECT * FROM payment_link_audit WHERE payment_id = $1 ORDER BY created_at",
+        [paymentId]
+      );
+      return rows.map(toAuditEntry);
+    },
+
+    async deleteLink(paymentId) {
+      await db.transaction(async (client) => {
+        await client.query("DELETE FROM payment_records WHERE payment_id = $1", [paymentId]);
+        await client.query("DELETE FROM payment_link_audit WHERE payment_id = $1", [paymentId]);
+        await client.query("DELETE FROM payment_links WHERE payment_id = $1", [paymentId]);
+      });
+    },
+
+    async listLinksByRecipient(recipientAddress, options) {
+      const { text, values } = buildLinkListQuery(recipientAddress, options, postgresDialect);
+      const { rows } = await db.query<PaymentLinkRow>(text, values);
+      return rows.map(toLink);
+    },
+
+    async expireLinks(now) {
+      const { rowCount } = await db.query(
+        `UPDATE payment_links SET status = 'expired'
+         WHERE status = 'active' AND expires_at IS NOT NULL AND expires_at <= $1`,
+        [now]
+      );
+      return rowCount ?? 0;
+    },
+
+    async addRecord(record) {
+      const { rowCount } = await db.query(
+        `INSERT INTO payment_records (${RECORD_COLUMNS.join(", ")})
+         VALUES (${postgresPlaceholders(RECORD_COLUMNS.length)})
+         ON CONFLICT DO NOTHING`,
+        recordValues(record)
+      );
+      return (rowCount ?? 0) > 0;
+    },
+
+    async hasRecord(paymentId, txSignature) {
+      const { rowCount } = await db.query(
+        "SELECT 1 FROM payment_records WHERE payment_id = $1 AND tx_signature = $2 LIMIT 1",
+        [paymentId, txSignature]
+      );
+      return (rowCount ?? 0) > 0;
+    },
+
+    async listRecordsByRecipient(recipientAddress, options) {
+      const { text, values } = buildRecordListQuery(recipientAddress, options, postgresDialect);
+      const { rows } = await db.query<PaymentRecordRow>(text, values);
+      return rows.map(toRecord);
+    },
+  };
+}
@@ -0,0 +1,355 @@
+/**
+ * Redis storage for payment links, on the shared client (see ../../storage/redis).
+ *
+ * Each link is a hash: fields only the owner edits are kept as a JSON blob in `data`,
+ * while the fields payments change (status, usageCount) are separate hash fields so
+ * they can be updated atomically by several backend instances. Owner edits and their
+ * audit entries are applied in one MULTI.
+ *
+ * Each list sort key has a sorted-set index per recipient (and per link for payment
+ * history), scored by the sort value. A list page walks its index from the cursor's
+ * score in batches and runs the other filters in process (see ./list-queries) until
+ * the page is full. Scores are doubles, so amounts above 2^53 base units may share a
+ * score; the exact order is restored in process.
+ */
+
+import type {
+  ListSortOrder,
+  PaymentLinkAuditEntry,
+  PaymentLinkMetadata,
+  PaymentRecord,
+} from "../../../types/payment-links";
+import { REDIS_KEY_PREFIX, type RedisClient } from "../../storage/redis";
+import type { LinkListOptions, ListCursor, PaymentLinksStorage, RecordListOptions } from "./types";
+import { linkSortValue, recordSortValue, selectLinks, selectRecords } from "./list-queries";
+
+type LinkSort = LinkListOptions["sort"];
+type RecordSort = RecordListOptions["sort"];
+
+const LINK_SORTS: LinkSort[] = ["createdAt", "amount", "usageCount"];
+const RECORD_SORTS: RecordSort[] = ["completedAt", "amount"];
+
+// The createdAt and completedAt indexes keep the key names they had before the others
+const keys = {
+  link: (paymentId: string) => `${REDIS_KEY_PREFIX}link:${paymentId}`,
+  linkRecords: (paymentId: string, sort: RecordSort = "completedAt") =>
+    `${REDIS_KEY_PREFIX}link:${paymentId}:records${sort === "completedAt" ? "" : `:${sort}`}`,
+  linkTxs: (paymentId: string) => `${REDIS_KEY_PREFIX}link:${paymentId}:txs`,
+  linkAudit: (paymentId: string) => `${REDIS_KEY_PREFIX}link:${paymentId}:audit`,
+  recipientLinks: (recipientAddress: string, sort: LinkSort = "createdAt") =>
+    `${REDIS_KEY_PREFIX}recipient:${recipientAddress}:links${sort === "createdAt" ? "" : `:${sort}`}`,
+  recipientRecords: (recipientAddress: string, sort: RecordSort) =>
+    `${REDIS_KEY_PREFIX}recipient:${recipientAddress}:records:${sort}`,
+  // Set once a recipient's links and records are in every index
+  recipientIndexed: (recipientAddress: string) =>
+    `${REDIS_KEY_PREFIX}recipient:${recipientAddress}:indexed`,
+  record: (recordId: string) => `${REDIS_KEY_PREFIX}record:${recordId}`,
+  recordedTxs: () => `${REDIS_KEY_PREFIX}recorded-txs`,
+  expiringLinks: () => `${REDIS_KEY_PREFIX}expiring`,
+};
+
+/** IDs read from an index per round trip while filling a list page */
+const INDEX_BATCH_SIZE = 100;
+
+const INCREMENT_USAGE_SCRIPT = `
+  if redis.call('EXISTS', KEYS[1]) == 0 then return 0 end
+  local count = redis.call('HINCRBY', KEYS[1], 'usageCount', 1)
+  redis.call('ZADD', KEYS[2], count, ARGV[1])
+  local reusable = redis.call('HGET', KEYS[1], 'reusable')
+  local max = tonumber(redis.call('HGET', KEYS[1], 'maxUsageCount') or '0') or 0
+  local status = redis.call('HGET', KEYS[1], 'status')
+  if status == 'active' and (reusable ~= '1' or (max > 0 and count >= max)) then
+    redis.call('HSET', KEYS[1], 'status', 'completed')
+  end
+  return 1
+`;
+
+// Flips one link to expired if it is still active and drops it from the expiry index
+const EXPIRE_LINK_SCRIPT = `
+  redis.call('ZREM', KEYS[2], ARGV[1])
+  if redis.call('HGET', KEYS[1], 'status') ~= 'active' then return 0 end
+  redis.call('HSET', KEYS[1], 'status', 'expired')
+  return 1
+`;
+
+type LinkHash = Record<string, string>;
+
+const linkScore = (link: PaymentLinkMetadata, sort: LinkSort) => Number(linkSortValue(link, sort));
+const recordScore = (record: PaymentRecord, sort: RecordSort) =>
+  Number(recordSortValue(record, sort));
+
+/**
+ * Read the items of a sorted-set index in list order from the cursor's score, keeping
+ * what `select` returns (filtered, past the cursor, sorted and cut to the limit), until
+ * a page is full or the index runs out.
+ */
+async function readIndexPage<T>(
+  redis: RedisClient,
+  key: string,
+  options: { order: ListSortOrder; cursor?: ListCursor; limit: number },
+  load: (ids: string[]) => Promise<T[]>,
+  select: (items: T[]) => T[]
+): Promise<T[]> {
+  // Items that tie with the cursor are read again; select drops them by ID
+  const from = options.cursor ? Number(options.cursor.value) : undefined;
+  const matched: T[] = [];
+  for (let offset = 0; ; offset += INDEX_BATCH_SIZE) {
+    const ids =
+      options.order === "asc"
+        ? await redis.zrangebyscore(key, from ?? "-inf", "+inf", "LIMIT", offset, INDEX_BATCH_SIZE)
+        : await redis.zrevrangebyscore(
+            key,
+            from ?? "+inf",
+            "-inf",
+            "LIMIT",
+            offset,
+            INDEX_BATCH_SIZE
+          );
+    if (ids.length > 0) matched.push(...select(await load(ids)));
+    if (matched.length >= options.limit || ids.length < INDEX_BATCH_SIZE) break;
+  }
+  return select(matched);
+}
+
+function toHash(link: PaymentLinkMetadata): LinkHash {
+  const { status, usageCount, ...data } = link;
+  return {
+    data: JSON.stringify(data),
+    reusable: link.reusable ? "1" : "0",
+    maxUsageCount: String(link.maxUsageCount ?? 0),
+    status,
+    usageCount: String(usageCount),
+  };
+}
+
+function fromHash(hash: LinkHash): PaymentLinkMetadata | null {
+  if (!hash.data) return null;
+  const data = JSON.parse(hash.data) as Omit<PaymentLinkMetadata, "status" | "usageCount">;
+  return {
+    ...data,
+    status: hash.status as PaymentLinkMetadata["status"],
+    usageCount: Number(hash.usageCount),
+  };
+}
+
+export function createRedisPaymentLinksStorage(redis: RedisClient): PaymentLinksStorage {
+  const getLink = async (paymentId: string) => fromHash(await redis.hgetall(keys.link(paymentId)));
+
+  const getLinks = async (paymentIds: string[]) => {
+    const links = await Promise.all(paymentIds.map(getLink));
+    return links.filter((link): link is PaymentLinkMetadata => Boolean(link));
+  };
+
+  const getRecords = async (recordIds: string[]) => {
+    if (recordIds.length === 0) return [];
+    const raw = await redis.mget(recordIds.map((id) => keys.record(id)));
+    return raw
+      .filter((value): value is string => Boolean(value))
+      .map((value) => JSON.parse(value) as PaymentRecord);
+  };
+
+  // Links and records written before the amount, usage and recipient record indexes
+  // existed are added to them the first time their recipient's lists are read
+  const ensureIndexed = async (recipientAddress: string) => {
+    if (await redis.exists(keys.recipientIndexed(recipientAddress))) return;
+    const links = await getLinks(await redis.zrange(keys.recipientLinks(recipientAddress), 0, -1));
+    const tx = redis.multi();
+    for (const link of links) {
+      for (const sort of LINK_SORTS) {
+        tx.zadd(keys.recipientLinks(recipientAddress, sort), linkScore(link, sort), link.paymentId);
+      }
+      const records = await getRecords(await redis.zrange(keys.linkRecords(link.paymentId), 0, -1));
+      for (const record of records) {
+        for (const sort of RECORD_SORTS) {
+          tx.zadd(keys.linkRecords(link.paymentId, sort), recordScore(record, sort), record.id);
+          tx.zadd(
+            keys.recipientRecords(recipientAddress, sort),
+            recordScore(record, sort),
+            record.id
+          );
+        }
+      }
+    }
+    tx.set(keys.recipientIndexed(recipientAddress), "1");
+    await tx.exec();
+  };
+
+  return {
+    getLink,
+
+    async insertLink(link) {
+      const created = await redis.hsetnx(keys.link(link.paymentId), "data", "");
+      if (!created) {
+        throw new Error(`Payment link ${link.paymentId} already exists`);
+      }
+      const tx = redis.multi().hset(keys.link(link.paymentId), toHash(link));
+      for (const sort of LINK_SORTS) {
+        tx.zadd(
+          keys.recipientLinks(link.recipientAddress, sort),
+          linkScore(link, sort),
+          link.paymentId
+        );
+      }
+      if (link.expiresAt !== undefined) {
+        tx.zadd(keys.expiringLinks(), link.expiresAt, link.paymentId);
+      }
+      await tx.exec();
+    },
+
+    async updateLinkStatus(paymentId, status) {
+      if (!(await redis.exists(keys.link(paymentId)))) return;
+      await redis.hset(keys.link(paymentId), "status", status);
+    },
+
+    async incrementUsage(paymentId) {
+      const link = await getLink(paymentId);
+      if (!link) return null;
+      const updated = await redis.eval(
+        INCREMENT_USAGE_SCRIPT,
+        2,
+        keys.link(paymentId),
+        keys.recipientLinks(link.recipientAddress, "usageCount"),
+        paymentId
+      );
+      if (!updated) return null;
+      return getLink(paymentId);
+    },
+
+    async updateLink(paymentId, changes, audit) {
+      const link = await getLink(paymentId);
+      if (!link) return null;
+      const { data, maxUsageCount, status } = toHash({ ...link, ...changes });
+      // Leave status alone unless edited so a concurrent usage increment is not undone
+      const fields: LinkHash =
+        "status" in changes ? { data, maxUsageCount, status } : { data, maxUsageCount };
+      // minAmount is the amount sort value of a flexible link
+      const amount = linkScore({ ...link, ...changes }, "amount");
+      await redis
+        .multi()
+        .hset(keys.link(paymentId), fields)
+        .rpush(keys.linkAudit(paymentId), JSON.stringify(audit))
+        .zadd(keys.recipientLinks(link.recipientAddress, "amount"), amount, paymentId)
+        .exec();
+      return getLink(paymentId);
+    },
+
+    async listAuditEntries(paymentId) {
+      const raw = await redis.lrange(keys.linkAudit(paymentId), 0, -1);
+      return raw.map((value) => JSON.parse(value) as PaymentLinkAuditEntry);
+    },
+
+    async deleteLink(paymentId) {
+      const link = await getLink(paymentId);
+      const recordIds = await redis.zrange(keys.linkRecords(paymentId), 0, -1);
+      const txSignatures = await redis.smembers(keys.linkTxs(paymentId));
+      const tx = redis
+        .multi()
+        .del(
+          keys.link(paymentId),
+          ...RECORD_SORTS.map((sort) => keys.linkRecords(paymentId, sort)),
+          keys.linkTxs(paymentId),
+          keys.linkAudit(paymentId)
+        );
+      if (txSignatures.length > 0) {
+        tx.srem(keys.recordedTxs(), ...txSignatures);
+      }
+      for (const recordId of recordIds) {
+        tx.del(keys.record(recordId));
+      }
+      if (link) {
+        for (const sort of LINK_SORTS) {
+          tx.zrem(keys.recipientLinks(link.recipientAddress, sort), paymentId);
+        }
+        if (recordIds.length > 0) {
+          for (const sort of RECORD_SORTS) {
+            tx.zrem(keys.recipientRecords(link.recipientAddress, sort), ...recordIds);
+          }
+        }
+      }
+      tx.zrem(keys.expiringLinks(), paymentId);
+      await tx.exec();
+    },
+
+    async listLinksByRecipient(recipientAddress, options) {
+      await ensureIndexed(recipientAddress);
+      return readIndexPage(
+        redis,
+        keys.recipientLinks(recipientAddress, options.sort),
+        options,
+        getLinks,
+        (links) => selectLinks(links, options)
+      );
+    },
+
+    async expireLinks(now) {
+      const paymentIds = await redis.zrangebyscore(keys.expiringLinks(), 0, now);
+      let expired = 0;
+      for (const paymentId of paymentIds) {
+        expired += Number(
+          await redis.eval(
+            EXPIRE_LINK_SCRIPT,
+            2,
+            keys.link(paymentId),
+            keys.expiringLinks(),
+            paymentId
+          )
+        );
+      }
+      return expired;
+    },
+
+    async addRecord(record) {
+      // The global set makes a transaction recordable against one link only
+      const added = await redis.sadd(keys.recordedTxs(), record.txSignature);
+      if (!added) return false;
+      const link = await getLink(record.paymentId);
+      const tx = redis
+        .multi()
+        .sadd(keys.linkTxs(record.paymentId), record.txSignature)
+        .set(keys.record(record.id), JSON.stringify(record));
+      for (const sort of RECORD_SORTS) {
+        tx.zadd(keys.linkRecords(record.paymentId, sort), recordScore(record, sort), record.id);
+        if (link) {
+          tx.zadd(
+            keys.recipientRecords(link.recipientAddress, sort),
+            recordScore(record, sort),
+            record.id
+          );
+        }
+      }
+      await tx.exec();
+      return true;
+    },
+
+    async hasRecord(paymentId, txSignature) {
+      return (await redis.sismember(keys.linkTxs(paymentId), txSignature)) === 1;
+    },
+
+    async listRecordsByRecipient(recipientAddress, options) {
+      await ensureIndexed(recipientAddress);
+      let index = keys.recipientRecords(recipientAddress, options.sort);
+      if (options.paymentId) {
+        const link = await getLink(options.paymentId);
+        if (link?.recipientAddress !== recipientAddress) return [];
+        index = keys.linkRecords(options.paymentId, options.sort);
+      }
+
+      // Link labels, for the search filter
+      const labels = new Map<string, string | undefined>();
+      const loadRecords = async (recordIds: string[]) => {
+        const records = await getRecords(recordIds);
+        if (options.search) {
+          const missing = [...new Set(records.map((record) => record.paymentId))].filter(
+            (paymentId) => !labels.has(paymentId)
+          );
+          for (const link of await getLinks(missing)) labels.set(link.paymentId, link.label);
+        }
+        return records;
+      };
+
+      return readIndexPage(redis, index, options, loadRecords, (records) =>
+        selectRecords(records, labels, options)
+      );
+    },
+  };
+}
@@ -0,0 +1,247 @@
+/**
+ * Row mapping shared by the SQL adapters (SQLite and Postgres).
+ *
+ * Postgres returns BIGINT columns as strings and SQLite reads integers as bigint, so
+ * numeric columns go through Number(), and amounts through String() to stay exact.
+ */
+
+import type {
+  PaymentLinkAuditEntry,
+  PaymentLinkMetadata,
+  PaymentRecord,
+} from "../../../types/payment-links";
+import { optionalNumber, type Numeric } from "../../storage/rows";
+import type { PaymentLinkChanges } from "./types";
+
+export type PaymentLinkRow = {
+  payment_id: string;
+  recipient_address: string;
+  token_mint: string;
+  amount_type: PaymentLinkMetadata["amountType"];
+  fixed_amount: Numeric | null;
+  min_amount: Numeric | null;
+  max_amount: Numeric | null;
+  reusable: Numeric | boolean;
+  max_usage_count: Numeric | null;
+  label: string | null;
+  message: string | null;
+  created_at: Numeric;
+  active_from: Numeric | null;
+  expires_at: Numeric | null;
+  archived_at: Numeric | null;
+  status: PaymentLinkMetadata["status"];
+  usage_count: Numeric;
+  order_id: string | null;
+  metadata: string | null;
+  success_url: string | null;
+  cancel_url: string | null;
+  api_key_id: string | null;
+};
+
+export type PaymentRecordRow = {
+  id: string;
+  payment_id: string;
+  token_mint: string;
+  amount: Numeric;
+  tx_signature: string;
+  completed_at: Numeric;
+  status: PaymentRecord["status"];
+  order_id: string | null;
+  metadata: string | null;
+};
+
+export type PaymentLinkAuditRow = {
+  id: string;
+  payment_id: string;
+  actor: string;
+  changes: string;
+  created_at: Numeric;
+};
+
+function optionalAmount(value: Numeric | null): string | undefined {
+  return value === null ? undefined : String(value);
+}
+
+function optionalMetadata(value: string | null): Record<string, string> | undefined {
+  return value === null ? undefined : (JSON.parse(value) as Record<string, string>);
+}
+
+function metadataValue(metadata: Record<string, string> | undefined): string | null {
+  return metadata ? JSON.stringify(metadata) : null;
+}
+
+export function toLink(row: PaymentLinkRow): PaymentLinkMetadata {
+  return {
+    paymentId: row.payment_id,
+    recipientAddress: row.recipient_address,
+    tokenMint: row.token_mint,
+    amountType: row.amount_type,
+    fixedAmount: optionalAmount(row.fixed_amount),
+    minAmount: optionalAmount(row.min_amount),
+    maxAmount: optionalAmount(row.max_amount),
+    reusable: Number(row.reusable) === 1,
+    maxUsageCount: optionalNumber(row.max_usage_count),
+    label: row.label ?? undefined,
+    message: row.message ?? undefined,
+    createdAt: Number(row.created_at),
+    activeFrom: optionalNumber(row.active_from),
+    expiresAt: optionalNumber(row.expires_at),
+    archivedAt: optionalNumber(row.archived_at),
+    status: row.status,
+    usageCount: Number(row.usage_count),
+    checkout:
+      row.order_id === null
+        ? undefined
+        : {
+            orderId: row.order_id,
+            metadata: optionalMetadata(row.metadata),
+            successUrl: row.success_url ?? "",
+            cancelUrl: row.cancel_url ?? undefined,
+          },
+    apiKeyId: row.api_key_id ?? undefined,
+  };
+}
+
+export function toRecord(row: PaymentRecordRow): PaymentRecord {
+  return {
+    id: row.id,
+    paymentId: row.payment_id,
+    tokenMint: row.token_mint,
+    amount: String(row.amount),
+    txSignature: row.tx_signature,
+    completedAt: Number(row.completed_at),
+    status: row.status,
+    orderId: row.order_id ?? undefined,
+    metadata: optionalMetadata(row.metadata),
+  };
+}
+
+export function toAuditEntry(row: PaymentLinkAuditRow): PaymentLinkAuditEntry {
+  return {
+    id: row.id,
+    paymentId: row.payment_id,
+    actor: row.actor,
+    changes: JSON.parse(row.changes) as PaymentLinkAuditEntry["changes"],
+    createdAt: Number(row.created_at),
+  };
+}
+
+/** Column order used by INSERT statements in both SQL adapters */
+export const LINK_COLUMNS = [
+  "payment_id",
+  "recipient_address",
+  "token_mint",
+  "amount_type",
+  "fixed_amount",
+  "min_amount",
+  "max_amount",
+  "reusable",
+  "max_usage_count",
+  "label",
+  "message",
+  "created_at",
+  "active_from",
+  "expires_at",
+  "archived_at",
+  "status",
+  "usage_count",
+  "order_id",
+  "metadata",
+  "success_url",
+  "cancel_url",
+  "api_key_id",
+] as const;
+
+export function linkValues(link: PaymentLinkMetadata): unknown[] {
+  return [
+    link.paymentId,
+    link.recipientAddress,
+    link.tokenMint,
+    link.amountType,
+    link.fixedAmount ?? null,
+    link.minAmount ?? null,
+    link.maxAmount ?? null,
+    link.reusable ? 1 : 0,
+    link.maxUsageCount ?? null,
+    link.label ?? null,
+    link.message ?? null,
+    link.createdAt,
+    link.activeFrom ?? null,
+    link.expiresAt ?? null,
+    link.archivedAt ?? null,
+    link.status,
+    link.usageCount,
+    link.checkout?.orderId ?? null,
+    metadataValue(link.checkout?.metadata),
+    link.checkout?.successUrl ?? null,
+    link.checkout?.cancelUrl ?? null,
+    link.apiKeyId ?? null,
+  ];
+}
+
+export const RECORD_COLUMNS = [
+  "id",
+  "payment_id",
+  "token_mint",
+  "amount",
+  "tx_signature",
+  "completed_at",
+  "status",
+  "order_id",
+  "metadata",
+] as const;
+
+export function recordValues(record: PaymentRecord): unknown[] {
+  return [
+    record.id,
+    record.paymentId,
+    record.tokenMint,
+    record.amount,
+    record.txSignature,
+    record.completedAt,
+    record.status,
+    record.orderId ?? null,
+    metadataValue(record.metadata),
+  ];
+}
+
+export const AUDIT_COLUMNS = ["id", "payment_id", "actor", "changes", "created_at"] as const;
+
+export function auditValues(entry: PaymentLinkAuditEntry): unknown[] {
+  return [entry.id, entry.paymentId, entry.actor, JSON.stringify(entry.changes), entry.createdAt];
+}
+
+const CHANGE_COLUMNS: Record<keyof PaymentLinkChanges, string> = {
+  label: "label",
+  message: "message",
+  minAmount: "min_amount",
+  maxAmount: "max_amount",
+  maxUsageCount: "max_usage_count",
+  status: "status",
+  archivedAt: "archived_at",
+};
+
+/**
+ * Column/value pairs for an owner edit; cleared fields become NULL.
+ */
+export function linkChangeAssignments(changes: PaymentLinkChanges): Array<[string, unknown]> {
+  return (Object.keys(changes) as Array<keyof PaymentLinkChanges>).map((field) => [
+    CHANGE_COLUMNS[field],
+    changes[field] ?? null,
+  ]);
+}
+
+/**
+ * Usage increment in SQL. Both dialects evaluate SET expressions against the old row,
+ * so `usage_count + 1` is the new count.
+ */
+export const INCREMENT_USAGE_SET = `
+  usage_count = usage_count + 1,
+  status = CASE
+    WHEN status <> 'active' THEN status
+    WHEN reusable = 0 THEN 'completed'
+    WHEN max_usage_count IS NOT NULL AND max_usage_count > 0
+      AND usage_count + 1 >= max_usage_count THEN 'completed'
+    ELSE status
+  END
+`;
@@ -0,0 +1,140 @@
+/**
+ * SQLite storage for payment links, on the shared database (see ../../storage/sqlite).
+ */
+
+import { sqlitePlaceholders, type SqliteDatabase } from "../../storage/sqlite";
+import type { PaymentLinksStorage } from "./types";
+import { buildLinkListQuery, buildRecordListQuery, sqliteDialect } from "./list-queries";
+import {
+  AUDIT_COLUMNS,
+  INCREMENT_USAGE_SET,
+  LINK_COLUMNS,
+  RECORD_COLUMNS,
+  auditValues,
+  linkChangeAssignments,
+  linkValues,
+  recordValues,
+  toAuditEntry,
+  toLink,
+  toRecord,
+  type PaymentLinkAuditRow,
+  type PaymentLinkRow,
+  type PaymentRecordRow,
+} from "./rows";
+
+export function createSqlitePaymentLinksStorage(db: SqliteDatabase): PaymentLinksStorage {
+  const statements = {
+    getLink: db.prepare("SELECT * FROM payment_links WHERE payment_id = ?"),
+    insertLink: db.prepare(
+      `INSERT INTO payment_links (${LINK_COLUMNS.join(", ")})
+       VALUES (${sqlitePlaceholders(LINK_COLUMNS.length)})`
+    ),
+    updateLinkStatus: db.prepare("UPDATE payment_links SET status = ? WHERE payment_id = ?"),
+    incrementUsage: db.prepare(
+      `UPDATE payment_links SET ${INCREMENT_USAGE_SET} WHERE payment_id = ? RETURNING *`
+    ),
+    expireLinks: db.prepare(
+      `UPDATE payment_links SET status = 'expired'
+       WHERE status = 'active' AND expires_at IS NOT NULL AND expires_at <= ?`
+    ),
+    deleteLink: db.prepare("DELETE FROM payment_links WHERE payment_id = ?"),
+    deleteRecordsForLink: db.prepare("DELETE FROM payment_records WHERE payment_id = ?"),
+    deleteAuditForLink: db.prepare("DELETE FROM payment_link_audit WHERE payment_id = ?"),
+    addAuditEntry: db.prepare(
+      `INSERT INTO payment_link_audit (${AUDIT_COLUMNS.join(", ")})
+       VALUES (${sqlitePlaceholders(AUDIT_COLUMNS.length)})`
+    ),
+    listAuditEntries: db.prepare(
+      "SELECT * FROM payment_link_audit WHERE payment_id = ? ORDER BY created_at"
+    ),
+    addRecord: db.prepare(
+      `INSERT OR IGNORE INTO payment_records (${RECORD_COLUMNS.join(", ")})
+       VALUES (${sqlitePlaceholders(RECORD_COLUMNS.length)})`
+    ),
+    hasRecord: db.prepare(
+      "SELECT 1 FROM payment_records WHERE payment_id = ? AND tx_signature = ? LIMIT 1"
+    ),
+  };
+
+  const deleteLinkWithRecords = db.transaction((paymentId: string) => {
+    statements.deleteRecordsForLink.run(paymentId);
+    statements.deleteAuditForLink.run(paymentId);
+    statements.deleteLink.run(paymentId);
+  });
+
+  const updateLinkWithAudit = db.transaction(
+    (
+      paymentId: string,
+      assignments: Array<[string, unknown]>,
+      audit: Parameters<PaymentLinksStorage["updateLink"]>[2]
+    ) => {
+      const row = db
+        .prepare(
+          `UPDATE payment_links SET ${assignments.map(([column]) => `${column} = ?`).join(", ")}
+           WHERE payment_id = ? RETURNING *`
+        )
+        .get(...assignments.map(([, value]) => value), paymentId) as PaymentLinkRow | undefined;
+      if (!row) return null;
+      statements.addAuditEntry.run(...auditValues(audit));
+      return toLink(row);
+    }
+  );
+
+  return {
+    async getLink(paymentId) {
+      const row = statements.getLink.get(paymentId) as PaymentLinkRow | undefined;
+      return row ? toLink(row) : null;
+    },
+
+    async insertLink(link) {
+      statements.insertLink.run(...linkValues(link));
+    },
+
+    async updateLinkStatus(paymentId, status) {
+      statements.updateLinkStatus.run(status, paymentId);
+    },
+
+    async incrementUsage(paymentId) {
+      const row = statements.incrementUsage.get(paymentId) as PaymentLinkRow | undefined;
+      return row ? toLink(row) : null;
+    },
+
+    async updateLink(paymentId, changes, audit) {
+      const assignments = linkChangeAssignments(changes);
+      return updateLinkWithAudit(paymentId, assignments, audit);
+    },
+
+    async listAuditEntries(paymentId) {
+      const rows = statements.listAuditEntries.all(paymentId) as PaymentLinkAuditRow[];
+      return rows.map(toAuditEntry);
+    },
+
+    async deleteLink(paymentId) {
+      deleteLinkWithRecords(paymentId);
+    },
+
+    async listLinksByRecipient(recipientAddress, options) {
+      const { text, values } = buildLinkListQuery(recipientAddress, options, sqliteDialect);
+      const rows = db.prepare(text).all(...values) as PaymentLinkRow[];
+      return rows.map(toLink);
+    },
+
+    async expireLinks(now) {
+      return statements.expireLinks.run(now).changes;
+    },
+
+    async addRecord(record) {
+      return statements.addRecord.run(...recordValues(record)).changes > 0;
+    },
+
+    async hasRecord(paymentId, txSignature) {
+      return Boolean(statements.hasRecord.get(paymentId, txSignature));
+    },
+
+    async listRecordsByRecipient(recipientAddress, options) {
+      const { text, values } = buildRecordListQuery(recipientAddress, options, sqliteDialect);
+      const rows = db.prepare(text).all(...values) as PaymentRecordRow[];
+      return rows.map(toRecord);
+    },
+  };
+}
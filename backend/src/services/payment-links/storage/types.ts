@@ -0,0 +1,124 @@
+import type {
+  ListSortOrder,
+  PaymentLinkAuditEntry,
+  PaymentLinkListQuery,
+  PaymentLinkMetadata,
+  PaymentLinkStatus,
+  PaymentRecord,
+  PaymentRecordListQuery,
+} from "../../../types/payment-links";
+
+/**
+ * Owner-editable link fields. A key that is present is written; an undefined value
+ * clears the field.
+ */
+export type PaymentLinkChanges = Partial<
+  Pick<
+    PaymentLinkMetadata,
+    "label" | "message" | "minAmount" | "maxAmount" | "maxUsageCount" | "status" | "archivedAt"
+  >
+>;
+
+/** Sort value and ID of the last item on the previous page */
+export interface ListCursor {
+  value: bigint;
+  id: string;
+}
+
+/** A link list query with defaults applied and the cursor decoded */
+export interface LinkListOptions extends Omit<PaymentLinkListQuery, "cursor"> {
+  sort: NonNullable<PaymentLinkListQuery["sort"]>;
+  order: ListSortOrder;
+  limit: number;
+  cursor?: ListCursor;
+  now: number; // Reference time for the expired/active status filters
+}
+
+/** A payment history query with defaults applied and the cursor decoded */
+export interface RecordListOptions extends Omit<PaymentRecordListQuery, "cursor"> {
+  sort: NonNullable<PaymentRecordListQuery["sort"]>;
+  order: ListSortOrder;
+  limit: number;
+  cursor?: ListCursor;
+}
+
+/**
+ * Persistence adapter behind PaymentLinksRepository.
+ *
+ * Implementations only read and write data; validation lives in the repository.
+ * Operations that several backend instances may race on (usage increments, record
+ * inserts) must be atomic in the adapter itself.
+ */
+export interface PaymentLinksStorage {
+  getLink(paymentId: string): Promise<PaymentLinkMetadata | null>;
+  insertLink(link: PaymentLinkMetadata): Promise<void>;
+  updateLinkStatus(paymentId: string, status: PaymentLinkStatus): Promise<void>;
+  /**
+   * Atomically bump usageCount and mark an active link completed once it is used up.
+   * Returns the updated link, or null if it does not exist.
+   */
+  incrementUsage(paymentId: string): Promise<PaymentLinkMetadata | null>;
+  /**
+   * Apply owner edits (never empty) and append their audit entry together. Returns the
+   * updated link, or null if it does not exist.
+   */
+  updateLink(
+    paymentId: string,
+    changes: PaymentLinkChanges,
+    audit: PaymentLinkAuditEntry
+  ): Promise<PaymentLinkMetadata | null>;
+  /** Audit entries for a link, oldest first */
+  listAuditEntries(paymentId: string): Promise<PaymentLinkAuditEntry[]>;
+  /** Permanently delete a link with its payment records and audit trail */
+  deleteLink(paymentId: string): Promise<void>;
+  /** Up to `limit` matching links after the cursor, in sort order (ties by ID) */
+  listLinksByRecipient(
+    recipientAddress: string,
+    options: LinkListOptions
+  ): Promise<PaymentLinkMetadata[]>;
+  /**
+   * Mark every active link whose expiresAt is at or before `now` as expired.
+   * Returns the number of links changed.
+   */
+  expireLinks(now: number): Promise<number>;
+  /**
+   * Insert a record unless its txSignature is already recorded, for this or any other
+   * link. Returns true if the record was inserted.
+   */
+  addRecord(record: PaymentRecord): Promise<boolean>;
+  hasRecord(paymentId: string, txSignature: string): Promise<boolean>;
+  /** Up to `limit` matching records after the cursor, in sort order (ties by ID) */
+  listRecordsByRecipient(
+    recipientAddress: string,
+    options: RecordListOptions
+  ): Promise<PaymentRecord[]>;
+}
+
+/**
+ * Status as of `now`: an active link past its expiresAt reads as expired even before
+ * the sweeper has updated storage.
+ */
+export function getEffectiveStatus(
+  link: Pick<PaymentLinkMetadata, "status" | "expiresAt">,
+  now = Date.now()
+): PaymentLinkStatus {
+  if (link.status === "active" && link.expiresAt !== undefined && link.expiresAt <= now) {
+    return "expired";
+  }
+  return link.status;
+}
+
+/**
+ * Usage rule shared by adapters that cannot express it in their query language. Only an
+ * active link becomes completed; a status the owner set (disabled) or the sweeper set
+ * (expired) is kept.
+ */
+export function applyUsageIncrement(link: PaymentLinkMetadata): PaymentLinkMetadata {
+  const usageCount = link.usageCount + 1;
+  const usedUp = !link.reusable || Boolean(link.maxUsageCount && usageCount >= link.maxUsageCount);
+  return {
+    ...link,
+    usageCount,
+    status: usedUp && link.status === "active" ? "completed" : link.status,
+  };
+}
@@ -0,0 +1,103 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { Keypair, SystemProgram } from "@solana/web3.js";
+import { PROGRAM_ID, fakeRpc, fakeWithdrawal } from "./fake-rpc.test-helper";
+import { createWithdrawalVerifier } from "./verify-withdrawal";
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+const USDC_MINT = "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v";
+const recipientAddress = Keypair.generate().publicKey.toBase58();
+
+const verifier = createWithdrawalVerifier({
+  connection: fakeRpc({
+    "sol-paid": fakeWithdrawal({ recipient: recipientAddress, lamports: 1_500_000 }),
+    "usdc-paid": fakeWithdrawal({
+      recipient: recipientAddress,
+      tokens: { [USDC_MINT]: 2_500_000n },
+    }),
+    "other-program": fakeWithdrawal({
+      recipient: recipientAddress,
+      programId: SystemProgram.programId,
+      lamports: 1_500_000,
+    }),
+    failed: fakeWithdrawal({ recipient: recipientAddress, lamports: 1_500_000, failed: true }),
+    "other-recipient": fakeWithdrawal({
+      recipient: Keypair.generate().publicKey.toBase58(),
+      lamports: 1_500_000,
+    }),
+  }),
+  solMint: SOL_MINT,
+  programId: PROGRAM_ID,
+});
+
+const solClaim = {
+  txSignature: "sol-paid",
+  recipientAddress,
+  tokenMint: SOL_MINT,
+  amount: "1500000",
+};
+const usdcClaim = {
+  txSignature: "usdc-paid",
+  recipientAddress,
+  tokenMint: USDC_MINT,
+  amount: "2500000",
+};
+
+test("accepts a withdrawal that paid the recipient exactly the claimed amount", async () => {
+  assert.equal(await verifier.verify(solClaim), null);
+  assert.equal(await verifier.verify(usdcClaim), null);
+});
+
+test("rejects a transaction the RPC does not know or cannot return", async () => {
+  assert.equal(
+    await verifier.verify({ ...solClaim, txSignature: "unknown" }),
+    "Transaction not found"
+  );
+  assert.equal(
+    await verifier.verify({ ...solClaim, txSignature: "rpc-error" }),
+    "Transaction not found"
+  );
+});
+
+test("rejects a failed transaction", async () => {
+  assert.equal(await verifier.verify({ ...solClaim, txSignature: "failed" }), "Transaction failed");
+});
+
+test("rejects a transaction that does not invoke the Privacy Cash program", async () => {
+  assert.equal(
+    await verifier.verify({ ...solClaim, txSignature: "other-program" }),
+    "Transaction is not a Privacy Cash withdrawal"
+  );
+});
+
+test("rejects a SOL withdrawal for another amount or recipient", async () => {
+  assert.equal(
+    await verifier.verify({ ...solClaim, amount: "1500001" }),
+    "Transaction amount does not match payment"
+  );
+  assert.equal(
+    await verifier.verify({ ...solClaim, txSignature: "other-recipient" }),
+    "Transaction did not pay the payment link recipient"
+  );
+});
+
+test("rejects an SPL withdrawal of another mint or amount", async () => {
+  assert.equal(
+    await verifier.verify({ ...usdcClaim, amount: "2400000" }),
+    "Transaction amount does not match payment"
+  );
+  assert.equal(
+    await verifier.verify({ ...usdcClaim, tokenMint: Keypair.generate().publicKey.toBase58() }),
+    "Transaction did not pay the payment link recipient"
+  );
+  // SOL moved in an SPL transaction does not count
+  assert.equal(
+    await verifier.verify({ ...usdcClaim, txSignature: "sol-paid" }),
+    "Transaction did not pay the payment link recipient"
+  );
+});
+
+test("rejects an amount that is not positive base units before calling the RPC", async () => {
+  assert.equal(await verifier.verify({ ...solClaim, amount: "0" }), "Invalid amount");
+  assert.equal(await verifier.verify({ ...solClaim, amount: "1.5" }), "Invalid amount");
+});
@@ -0,0 +1,100 @@
+/**
+ * Withdrawal Verification
+ *
+ * Checks a transaction on chain before it is recorded against a payment link: it must
+ * have succeeded, invoked the Privacy Cash program, and paid the link's recipient
+ * exactly the stated amount of the link's token.
+ */
+
+import { PublicKey, type Connection, type TokenBalance } from "@solana/web3.js";
+import { isBaseUnits } from "@ghostsend/shared";
+import type { BaseUnits, TokenMint } from "../../types/payment-links";
+
+const DEFAULT_PROGRAM_ID = "9fhQBbumKEFuXtMBDw8AaQyAjCorLGJQiS3skWZdQyQD";
+
+export interface WithdrawalClaim {
+  txSignature: string;
+  recipientAddress: string;
+  tokenMint: TokenMint;
+  amount: BaseUnits;
+}
+
+export interface WithdrawalVerifierOptions {
+  /** Only `getTransaction` is used, so tests can pass a mocked RPC */
+  connection: Pick<Connection, "getTransaction">;
+  /** Mint that stands for native SOL in the token list */
+  solMint: string | null;
+  /** Privacy Cash program; defaults to PRIVACY_CASH_PROGRAM_ID or the mainnet program */
+  programId?: PublicKey;
+}
+
+export interface WithdrawalVerifier {
+  /** Returns an error message, or null when the transaction proves the payment */
+  verify(claim: WithdrawalClaim): Promise<string | null>;
+}
+
+function sumTokenBalances(
+  balances: TokenBalance[] | null | undefined,
+  owner: string,
+  mint: string
+): bigint {
+  return (balances ?? [])
+    .filter((balance) => balance.owner === owner && balance.mint === mint)
+    .reduce((sum, balance) => sum + BigInt(balance.uiTokenAmount.amount), 0n);
+}
+
+export function createWithdrawalVerifier({
+  connection,
+  solMint,
+  programId = new PublicKey(process.env.PRIVACY_CASH_PROGRAM_ID || DEFAULT_PROGRAM_ID),
+}: WithdrawalVerifierOptions): WithdrawalVerifier {
+  return {
+    async verify({ txSignature, recipientAddress, tokenMint, amount }) {
+      if (!isBaseUnits(amount) || BigInt(amount) <= 0n) return "Invalid amount";
+
+      let tx: Awaited<ReturnType<Connection["getTransaction"]>>;
+      try {
+        tx = await connection.getTransaction(txSignature, {
+          commitment: "confirmed",
+          maxSupportedTransactionVersion: 0,
+        });
+      } catch {
+        return "Transaction not found";
+      }
+
+      if (!tx || !tx.meta) return "Transaction not found";
+      if (tx.meta.err) return "Transaction failed";
+
+      const message = tx.transaction.message;
+      const accountKeys = message.getAccountKeys({
+        accountKeysFromLookups: tx.meta.loadedAddresses,
+      });
+      const invokesProgram = message.compiledInstructions.some((instruction) =>
+        accountKeys.get(instruction.programIdIndex)?.equals(programId)
+      );
+      if (!invokesProgram) return "Transaction is not a Privacy Cash withdrawal";
+
+      let received: bigint;
+      if (tokenMint === solMint) {
+        const recipient = new PublicKey(recipientAddress);
+        let index = -1;
+        for (let i = 0; i < accountKeys.length; i += 1) {
+          if (accountKeys.get(i)?.equals(recipient)) {
+            index = i;
+            break;
+          }
+        }
+        if (index < 0) return "Transaction did not pay the payment link recipient";
+        received = BigInt(tx.meta.postBalances[index] - tx.meta.preBalances[index]);
+      } else {
+        received =
+          sumTokenBalances(tx.meta.postTokenBalances, recipientAddress, tokenMint) -
+          sumTokenBalances(tx.meta.preTokenBalances, recipientAddress, tokenMint);
+      }
+
+      if (received <= 0n) return "Transaction did not pay the payment link recipient";
+      if (received !== BigInt(amount)) return "Transaction amount does not match payment";
+      return null;
+    },
+  };
+}
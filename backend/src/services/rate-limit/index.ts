@@ -0,0 +1,84 @@
+import { createMemoryRateLimitStore } from "./memory";
+import { createRedisRateLimitStore } from "./redis";
+import {
+  RATE_LIMIT_BUDGETS,
+  type RateLimit,
+  type RateLimitBudget,
+  type RateLimitStore,
+  type RateLimitStoreDriver,
+} from "./types";
+
+export {
+  RATE_LIMIT_BUDGETS,
+  type RateLimit,
+  type RateLimitBudget,
+  type RateLimitDecision,
+  type RateLimitStore,
+} from "./types";
+
+/** Limits of one budget, counted per client IP and per wallet */
+export interface BudgetLimits {
+  ip: RateLimit;
+  wallet: RateLimit;
+}
+
+export type RateLimits = Record<RateLimitBudget, BudgetLimits>;
+
+const DEFAULT_LIMITS: Record<RateLimitBudget, Record<keyof BudgetLimits, string>> = {
+  read: { ip: "300/min", wallet: "300/min" },
+  create: { ip: "30/min", wallet: "60/min" },
+  proof: { ip: "20/hour", wallet: "10/hour" },
+};
+
+const WINDOW_MS: Record<string, number> = {
+  sec: 1000,
+  min: 60_000,
+  hour: 60 * 60_000,
+  day: 24 * 60 * 60_000,
+};
+
+/** Parse a limit such as "30/min": up to 30 requests at once, refilled over a minute */
+export function parseRateLimit(value: string): RateLimit | null {
+  const match = /^\s*(\d+)\s*\/\s*(sec|min|hour|day)\s*$/.exec(value);
+  if (!match || Number(match[1]) <= 0) return null;
+  return { capacity: Number(match[1]), windowMs: WINDOW_MS[match[2]] };
+}
+
+/**
+ * Read the budgets' limits from RATE_LIMIT_<BUDGET>_<IP|WALLET> (e.g.
+ * RATE_LIMIT_PROOF_IP=20/hour), falling back to the defaults
+ */
+export function rateLimitsFromEnv(env: NodeJS.ProcessEnv = process.env): RateLimits {
+  const limits = {} as RateLimits;
+  for (const budget of RATE_LIMIT_BUDGETS) {
+    const read = (scope: keyof BudgetLimits) => {
+      const name = `RATE_LIMIT_${budget.toUpperCase()}_${scope.toUpperCase()}`;
+      const value = env[name] || DEFAULT_LIMITS[budget][scope];
+      const limit = parseRateLimit(value);
+      if (!limit) throw new Error(`${name} must look like "30/min" (sec, min, hour or day)`);
+      return limit;
+    };
+    limits[budget] = { ip: read("ip"), wallet: read("wallet") };
+  }
+  return limits;
+}
+
+/**
+ * Create the counter store selected by RATE_LIMIT_STORE:
+ * - "memory" (default): per process, so each instance allows the full limits
+ * - "redis": REDIS_URL, shared by several instances
+ */
+export function createRateLimitStoreFromEnv(env: NodeJS.ProcessEnv = process.env): RateLimitStore {
+  const driver = (env.RATE_LIMIT_STORE || "memory") as RateLimitStoreDriver;
+
+  switch (driver) {
+    case "memory":
+      return createMemoryRateLimitStore();
+    case "redis":
+      if (!env.REDIS_URL) throw new Error("REDIS_URL is required when RATE_LIMIT_STORE=redis");
+      console.log("[rate-limit] using redis counters");
+      return createRedisRateLimitStore(env.REDIS_URL);
+    default:
+      throw new Error(`Unknown RATE_LIMIT_STORE driver: ${driver}`);
+  }
+}
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { createMemoryRateLimitStore } from "./memory";
+
+// 5 requests per 10 seconds: one token every 2 seconds
+const limit = { capacity: 5, windowMs: 10_000 };
+const start = 1_767_225_600_000;
+
+test("allows a burst of the whole capacity, then denies until a token refills", async () => {
+  const store = createMemoryRateLimitStore();
+  for (let remaining = 4; remaining >= 0; remaining -= 1) {
+    const decision = await store.take("ip:1", limit, start);
+    assert.equal(decision.allowed, true);
+    assert.equal(decision.remaining, remaining);
+    assert.equal(decision.retryAfterSeconds, 0);
+  }
+
+  assert.deepEqual(await store.take("ip:1", limit, start), {
+    allowed: false,
+    limit: 5,
+    remaining: 0,
+    resetSeconds: 10,
+    retryAfterSeconds: 2,
+  });
+  // Half a token later it is still empty
+  const early = await store.take("ip:1", limit, start + 1_000);
+  assert.equal(early.allowed, false);
+  assert.equal(early.retryAfterSeconds, 1);
+
+  const refilled = await store.take("ip:1", limit, start + 2_000);
+  assert.equal(refilled.allowed, true);
+  assert.equal(refilled.remaining, 0);
+  await store.close();
+});
+
+test("refills an idle bucket up to its capacity only", async () => {
+  const store = createMemoryRateLimitStore();
+  for (let i = 0; i < 5; i += 1) await store.take("ip:1", limit, start);
+
+  const later = await store.take("ip:1", limit, start + 60_000);
+  assert.equal(later.allowed, true);
+  assert.equal(later.remaining, 4);
+  assert.equal(later.resetSeconds, 2);
+  await store.close();
+});
+
+test("keeps a separate bucket per key", async () => {
+  const store = createMemoryRateLimitStore();
+  for (let i = 0; i < 5; i += 1) await store.take("ip:1", limit, start);
+
+  assert.equal((await store.take("ip:1", limit, start)).allowed, false);
+  assert.equal((await store.take("ip:2", limit, start)).remaining, 4);
+  assert.equal(
+    (await store.take("wallet:1", { capacity: 1, windowMs: 1_000 }, start)).allowed,
+    true
+  );
+  assert.equal(
+    (await store.take("wallet:1", { capacity: 1, windowMs: 1_000 }, start)).allowed,
+    false
+  );
+  await store.close();
+});
@@ -0,0 +1,41 @@
+import { toDecision, type RateLimitStore } from "./types";
+
+// Buckets that have refilled completely are dropped once this many are tracked
+const MAX_TRACKED_BUCKETS = 50_000;
+
+/**
+ * In-process token buckets. Each backend instance allows the full limits on its own.
+ */
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number; windowMs: number }>();
+
+  const prune = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      if (now - bucket.updatedAt >= bucket.windowMs) buckets.delete(key);
+    }
+  };
+
+  return {
+    async take(key, limit, now = Date.now()) {
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        if (buckets.size >= MAX_TRACKED_BUCKETS) prune(now);
+        bucket = { tokens: limit.capacity, updatedAt: now, windowMs: limit.windowMs };
+        buckets.set(key, bucket);
+      }
+
+      const refilled = ((now - bucket.updatedAt) * limit.capacity) / limit.windowMs;
+      bucket.tokens = Math.min(limit.capacity, bucket.tokens + Math.max(0, refilled));
+      bucket.updatedAt = now;
+      bucket.windowMs = limit.windowMs;
+
+      const allowed = bucket.tokens >= 1;
+      if (allowed) bucket.tokens -= 1;
+      return toDecision(limit, allowed, bucket.tokens);
+    },
+
+    async close() {
+      buckets.clear();
+    },
+  };
+}
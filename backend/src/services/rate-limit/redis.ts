@@ -0,0 +1,53 @@
+/**
+ * Redis token buckets, shared by every backend instance. Each bucket is a hash with its
+ * token count and last refill time, updated in one script and left to expire once it
+ * would have refilled.
+ */
+
+import Redis from "ioredis";
+import { toDecision, type RateLimitStore } from "./types";
+
+const KEY_PREFIX = "ghostsend:rate:";
+
+// KEYS[1] bucket; ARGV: capacity, windowMs, now. Returns { allowed, tokens left }.
+const TAKE_SCRIPT = `
+  local capacity = tonumber(ARGV[1])
+  local window = tonumber(ARGV[2])
+  local now = tonumber(ARGV[3])
+  local state = redis.call('HMGET', KEYS[1], 'tokens', 'updatedAt')
+  local tokens = tonumber(state[1]) or capacity
+  local updatedAt = tonumber(state[2]) or now
+  if now > updatedAt then
+    tokens = math.min(capacity, tokens + (now - updatedAt) * capacity / window)
+  end
+  local allowed = 0
+  if tokens >= 1 then
+    tokens = tokens - 1
+    allowed = 1
+  end
+  redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updatedAt', tostring(now))
+  redis.call('PEXPIRE', KEYS[1], window)
+  return { allowed, tostring(tokens) }
+`;
+
+export function createRedisRateLimitStore(url: string): RateLimitStore {
+  const redis = new Redis(url);
+
+  return {
+    async take(key, limit, now = Date.now()) {
+      const [allowed, tokens] = (await redis.eval(
+        TAKE_SCRIPT,
+        1,
+        KEY_PREFIX + key,
+        limit.capacity,
+        limit.windowMs,
+        now
+      )) as [number, string];
+      return toDecision(limit, allowed === 1, Number(tokens));
+    },
+
+    async close() {
+      await redis.quit();
+    },
+  };
+}
@@ -0,0 +1,52 @@
+export type RateLimitStoreDriver = "memory" | "redis";
+
+/** Request budgets with their own limits */
+export const RATE_LIMIT_BUDGETS = ["read", "create", "proof"] as const;
+
+/**
+ * - read: cheap lookups, and any request without a budget of its own
+ * - create: creating links, checkout sessions, webhooks and API keys
+ * - proof: withdrawals, each of which runs a CPU-bound proof for up to five minutes
+ */
+export type RateLimitBudget = (typeof RATE_LIMIT_BUDGETS)[number];
+
+/**
+ * Token bucket: holds up to `capacity` requests and refills at `capacity` per `windowMs`,
+ * so a client may burst the whole capacity and then continues at the average rate.
+ */
+export interface RateLimit {
+  capacity: number;
+  windowMs: number;
+}
+
+export type RateLimitDecision = {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  /** Seconds until the bucket is full again */
+  resetSeconds: number;
+  /** Seconds until the next request is allowed; 0 when allowed now */
+  retryAfterSeconds: number;
+};
+
+/**
+ * Where bucket levels are kept. The memory store counts per process; the Redis store
+ * shares the buckets between backend instances.
+ */
+export interface RateLimitStore {
+  /** Take one request from the bucket `key`, refilling it for the time since its last use */
+  take(key: string, limit: RateLimit, now?: number): Promise<RateLimitDecision>;
+  close(): Promise<void>;
+}
+
+/** Decision for a bucket left with `tokens` after the request was (or was not) taken */
+export function toDecision(limit: RateLimit, allowed: boolean, tokens: number): RateLimitDecision {
+  const msPerToken = limit.windowMs / limit.capacity;
+  return {
+    allowed,
+    limit: limit.capacity,
+    remaining: Math.max(0, Math.floor(tokens)),
+    resetSeconds: Math.ceil(((limit.capacity - tokens) * msPerToken) / 1000),
+    retryAfterSeconds: allowed ? 0 : Math.max(1, Math.ceil(((1 - tokens) * msPerToken) / 1000)),
+  };
+}
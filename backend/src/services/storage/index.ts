@@ -0,0 +1,111 @@
+/**
+ * Storage selected at startup. Each domain has its own adapter interface (payment
+ * links, webhooks, API keys, withdraw holds and keys); the adapters of one driver share
+ * a single connection.
+ */
+
+import type { PaymentLinksStorage } from "../payment-links/storage/types";
+import { createMemoryPaymentLinksStorage } from "../payment-links/storage/memory";
+import { createPostgresPaymentLinksStorage } from "../payment-links/storage/postgres";
+import { createRedisPaymentLinksStorage } from "../payment-links/storage/redis";
+import { createSqlitePaymentLinksStorage } from "../payment-links/storage/sqlite";
+import type { WebhookStorage } from "../webhooks/storage/types";
+import { createMemoryWebhookStorage } from "../webhooks/storage/memory";
+import { createPostgresWebhookStorage } from "../webhooks/storage/postgres";
+import { createRedisWebhookStorage } from "../webhooks/storage/redis";
+import { createSqliteWebhookStorage } from "../webhooks/storage/sqlite";
+import type { ApiKeyStorage } from "../api-keys/storage/types";
+import { createMemoryApiKeyStorage } from "../api-keys/storage/memory";
+import { createPostgresApiKeyStorage } from "../api-keys/storage/postgres";
+import { createRedisApiKeyStorage } from "../api-keys/storage/redis";
+import { createSqliteApiKeyStorage } from "../api-keys/storage/sqlite";
+import type { WithdrawStorage } from "../withdraw/storage/types";
+import { createMemoryWithdrawStorage } from "../withdraw/storage/memory";
+import { createPostgresWithdrawStorage } from "../withdraw/storage/postgres";
+import { createRedisWithdrawStorage } from "../withdraw/storage/redis";
+import { createSqliteWithdrawStorage } from "../withdraw/storage/sqlite";
+import { openPostgresDatabase } from "./postgres";
+import { openRedisClient } from "./redis";
+import { openSqliteDatabase } from "./sqlite";
+
+export type StorageDriver = "sqlite" | "memory" | "postgres" | "redis";
+
+export interface Storage {
+  paymentLinks: PaymentLinksStorage;
+  webhooks: WebhookStorage;
+  apiKeys: ApiKeyStorage;
+  withdrawals: WithdrawStorage;
+  /** Release the shared connection */
+  close(): Promise<void>;
+}
+
+const DEFAULT_SQLITE_PATH = "data/payment-links.db";
+
+/**
+ * Create the storage selected by PAYMENT_LINKS_STORAGE:
+ * - "sqlite" (default): file at PAYMENT_LINKS_DB_PATH, single instance only
+ * - "postgres": DATABASE_URL, shared by several instances
+ * - "redis": REDIS_URL, shared by several instances
+ * - "memory": tests only, data is lost on restart
+ */
+export function createStorageFromEnv(env: NodeJS.ProcessEnv = process.env): Storage {
+  const driver = (env.PAYMENT_LINKS_STORAGE || "sqlite") as StorageDriver;
+
+  switch (driver) {
+    case "memory":
+      console.log("[storage] using in-memory storage (data is lost on restart)");
+      return {
+        paymentLinks: createMemoryPaymentLinksStorage(),
+        webhooks: createMemoryWebhookStorage(),
+        apiKeys: createMemoryApiKeyStorage(),
+        withdrawals: createMemoryWithdrawStorage(),
+        close: async () => undefined,
+      };
+    case "sqlite": {
+      const filename = env.PAYMENT_LINKS_DB_PATH || DEFAULT_SQLITE_PATH;
+      console.log(`[storage] using sqlite storage: ${filename}`);
+      const db = openSqliteDatabase(filename);
+      return {
+        paymentLinks: createSqlitePaymentLinksStorage(db),
+        webhooks: createSqliteWebhookStorage(db),
+        apiKeys: createSqliteApiKeyStorage(db),
+        withdrawals: createSqliteWithdrawStorage(db),
+        close: async () => {
+          db.close();
+        },
+      };
+    }
+    case "postgres": {
+      if (!env.DATABASE_URL) {
+        throw new Error("DATABASE_URL is required when PAYMENT_LINKS_STORAGE=postgres");
+      }
+      console.log("[storage] using postgres storage");
+      const db = openPostgresDatabase(env.DATABASE_URL);
+      return {
+        paymentLinks: createPostgresPaymentLinksStorage(db),
+        webhooks: createPostgresWebhookStorage(db),
+        apiKeys: createPostgresApiKeyStorage(db),
+        withdrawals: createPostgresWithdrawStorage(db),
+        close: () => db.close(),
+      };
+    }
+    case "redis": {
+      if (!env.REDIS_URL) {
+        throw new Error("REDIS_URL is required when PAYMENT_LINKS_STORAGE=redis");
+      }
+      console.log("[storage] using redis storage");
+      const redis = openRedisClient(env.REDIS_URL);
+      return {
+        paymentLinks: createRedisPaymentLinksStorage(redis),
+        webhooks: createRedisWebhookStorage(redis),
+        apiKeys: createRedisApiKeyStorage(redis),
+        withdrawals: createRedisWithdrawStorage(redis),
+        close: async () => {
+          await redis.quit();
+        },
+      };
+    }
+    default:
+      throw new Error(`Unknown PAYMENT_LINKS_STORAGE driver: ${driver}`);
+  }
+}
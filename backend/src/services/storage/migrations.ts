@@ -0,0 +1,408 @@
+/**
+ * Schema migrations for the SQL adapters.
+ *
+ * Migrations are append-only: never edit one that has shipped, add a new entry instead.
+ * Keep the SQLite and Postgres lists in step so both adapters expose the same columns.
+ */
+
+export interface Migration {
+  id: number;
+  name: string;
+  up: string;
+}
+
+export const sqliteMigrations: Migration[] = [
+  {
+    id: 1,
+    name: "create_payment_links",
+    up: `
+      CREATE TABLE payment_links (
+        payment_id TEXT PRIMARY KEY,
+        recipient_address TEXT NOT NULL,
+        token_mint TEXT NOT NULL,
+        amount_type TEXT NOT NULL,
+        fixed_amount INTEGER,
+        min_amount INTEGER,
+        max_amount INTEGER,
+        reusable INTEGER NOT NULL,
+        max_usage_count INTEGER,
+        label TEXT,
+        message TEXT,
+        created_at INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        usage_count INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX idx_payment_links_recipient ON payment_links (recipient_address);
+    `,
+  },
+  {
+    id: 2,
+    name: "create_payment_records",
+    up: `
+      CREATE TABLE payment_records (
+        id TEXT PRIMARY KEY,
+        payment_id TEXT NOT NULL,
+        token_mint TEXT NOT NULL,
+        amount INTEGER NOT NULL,
+        tx_signature TEXT NOT NULL,
+        completed_at INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        UNIQUE (payment_id, tx_signature)
+      );
+      CREATE INDEX idx_payment_records_payment ON payment_records (payment_id);
+    `,
+  },
+  {
+    id: 3,
+    name: "unique_payment_records_tx",
+    // Earlier versions could record one transaction against several links. The first
+    // record of each transaction is kept; the others move to payment_records_duplicate_tx
+    // for review, so the index can be created.
+    up: `
+      CREATE TABLE payment_records_duplicate_tx AS
+        SELECT * FROM payment_records r
+        WHERE EXISTS (
+          SELECT 1 FROM payment_records k
+          WHERE k.tx_signature = r.tx_signature
+            AND (k.completed_at < r.completed_at OR (k.completed_at = r.completed_at AND k.id < r.id))
+        );
+      DELETE FROM payment_records WHERE id IN (SELECT id FROM payment_records_duplicate_tx);
+      CREATE UNIQUE INDEX idx_payment_records_tx ON payment_records (tx_signature);
+    `,
+  },
+  {
+    id: 4,
+    name: "payment_links_schedule",
+    up: `
+      ALTER TABLE payment_links ADD COLUMN active_from INTEGER;
+      ALTER TABLE payment_links ADD COLUMN expires_at INTEGER;
+      CREATE INDEX idx_payment_links_expiry ON payment_links (status, expires_at);
+    `,
+  },
+  {
+    id: 5,
+    name: "create_payment_link_audit",
+    up: `
+      CREATE TABLE payment_link_audit (
+        id TEXT PRIMARY KEY,
+        payment_id TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        changes TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_payment_link_audit_payment ON payment_link_audit (payment_id);
+    `,
+  },
+  {
+    id: 6,
+    name: "payment_links_archived_at",
+    up: `
+      ALTER TABLE payment_links ADD COLUMN archived_at INTEGER;
+    `,
+  },
+  {
+    id: 7,
+    name: "list_sort_indexes",
+    up: `
+      CREATE INDEX idx_payment_links_recipient_created
+        ON payment_links (recipient_address, created_at);
+      DROP INDEX idx_payment_links_recipient;
+      CREATE INDEX idx_payment_records_payment_completed
+        ON payment_records (payment_id, completed_at);
+      DROP INDEX idx_payment_records_payment;
+    `,
+  },
+  {
+    id: 8,
+    name: "create_webhooks",
+    up: `
+      CREATE TABLE webhook_endpoints (
+        id TEXT PRIMARY KEY,
+        owner_address TEXT NOT NULL,
+        payment_id TEXT,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_webhook_endpoints_owner ON webhook_endpoints (owner_address, created_at);
+      CREATE INDEX idx_webhook_endpoints_payment ON webhook_endpoints (payment_id);
+      CREATE TABLE webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at INTEGER,
+        last_attempt_at INTEGER,
+        response_status INTEGER,
+        last_error TEXT,
+        created_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_webhook_deliveries_webhook ON webhook_deliveries (webhook_id, created_at);
+      CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+    `,
+  },
+  {
+    id: 9,
+    name: "checkout_sessions",
+    up: `
+      ALTER TABLE payment_links ADD COLUMN order_id TEXT;
+      ALTER TABLE payment_links ADD COLUMN metadata TEXT;
+      ALTER TABLE payment_links ADD COLUMN success_url TEXT;
+      ALTER TABLE payment_links ADD COLUMN cancel_url TEXT;
+      ALTER TABLE payment_records ADD COLUMN order_id TEXT;
+      ALTER TABLE payment_records ADD COLUMN metadata TEXT;
+    `,
+  },
+  {
+    id: 10,
+    name: "create_api_keys",
+    up: `
+      CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        owner_address TEXT NOT NULL,
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        scopes TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        last_used_at INTEGER,
+        revoked_at INTEGER
+      );
+      CREATE INDEX idx_api_keys_owner ON api_keys (owner_address, created_at);
+      ALTER TABLE payment_links ADD COLUMN api_key_id TEXT;
+    `,
+  },
+  {
+    id: 11,
+    name: "withdraw_holds_and_idempotency_keys",
+    up: `
+      CREATE TABLE withdraw_holds (
+        id TEXT PRIMARY KEY,
+        payment_id TEXT NOT NULL,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_withdraw_holds_payment ON withdraw_holds (payment_id, expires_at);
+      CREATE TABLE withdraw_idempotency_keys (
+        idempotency_key TEXT PRIMARY KEY,
+        fingerprint TEXT NOT NULL,
+        job_id TEXT,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_withdraw_idempotency_keys_expiry ON withdraw_idempotency_keys (expires_at);
+    `,
+  },
+  {
+    id: 12,
+    name: "create_withdraw_jobs",
+    up: `
+      CREATE TABLE withdraw_jobs (
+        id TEXT PRIMARY KEY,
+        job TEXT NOT NULL,
+        lease_until INTEGER,
+        expires_at INTEGER NOT NULL
+      );
+      CREATE INDEX idx_withdraw_jobs_expiry ON withdraw_jobs (expires_at);
+    `,
+  },
+];
+
+export const postgresMigrations: Migration[] = [
+  {
+    id: 1,
+    name: "create_payment_links",
+    up: `
+      CREATE TABLE payment_links (
+        payment_id TEXT PRIMARY KEY,
+        recipient_address TEXT NOT NULL,
+        token_mint TEXT NOT NULL,
+        amount_type TEXT NOT NULL,
+        fixed_amount BIGINT,
+        min_amount BIGINT,
+        max_amount BIGINT,
+        reusable INTEGER NOT NULL,
+        max_usage_count INTEGER,
+        label TEXT,
+        message TEXT,
+        created_at BIGINT NOT NULL,
+        status TEXT NOT NULL,
+        usage_count INTEGER NOT NULL DEFAULT 0
+      );
+      CREATE INDEX idx_payment_links_recipient ON payment_links (recipient_address);
+    `,
+  },
+  {
+    id: 2,
+    name: "create_payment_records",
+    up: `
+      CREATE TABLE payment_records (
+        id TEXT PRIMARY KEY,
+        payment_id TEXT NOT NULL,
+        token_mint TEXT NOT NULL,
+        amount BIGINT NOT NULL,
+        tx_signature TEXT NOT NULL,
+        completed_at BIGINT NOT NULL,
+        status TEXT NOT NULL,
+        UNIQUE (payment_id, tx_signature)
+      );
+      CREATE INDEX idx_payment_records_payment ON payment_records (payment_id);
+    `,
+  },
+  {
+    id: 3,
+    name: "unique_payment_records_tx",
+    // Earlier versions could record one transaction against several links. The first
+    // record of each transaction is kept; the others move to payment_records_duplicate_tx
+    // for review, so the index can be created.
+    up: `
+      CREATE TABLE payment_records_duplicate_tx AS
+        SELECT * FROM payment_records r
+        WHERE EXISTS (
+          SELECT 1 FROM payment_records k
+          WHERE k.tx_signature = r.tx_signature
+            AND (k.completed_at < r.completed_at OR (k.completed_at = r.completed_at AND k.id < r.id))
+        );
+      DELETE FROM payment_records WHERE id IN (SELECT id FROM payment_records_duplicate_tx);
+      CREATE UNIQUE INDEX idx_payment_records_tx ON payment_records (tx_signature);
+    `,
+  },
+  {
+    id: 4,
+    name: "payment_links_schedule",
+    up: `
+      ALTER TABLE payment_links ADD COLUMN active_from BIGINT;
+      ALTER TABLE payment_links ADD COLUMN expires_at BIGINT;
+      CREATE INDEX idx_payment_links_expiry ON payment_links (status, expires_at);
+    `,
+  },
+  {
+    id: 5,
+    name: "create_payment_link_audit",
+    up: `
+      CREATE TABLE payment_link_audit (
+        id TEXT PRIMARY KEY,
+        payment_id TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        changes TEXT NOT NULL,
+        created_at BIGINT NOT NULL
+      );
+      CREATE INDEX idx_payment_link_audit_payment ON payment_link_audit (payment_id);
+    `,
+  },
+  {
+    id: 6,
+    name: "payment_links_archived_at",
+    up: `
+      ALTER TABLE payment_links ADD COLUMN archived_at BIGINT;
+    `,
+  },
+  {
+    id: 7,
+    name: "list_sort_indexes",
+    up: `
+      CREATE INDEX idx_payment_links_recipient_created
+        ON payment_links (recipient_address, created_at);
+      DROP INDEX idx_payment_links_recipient;
+      CREATE INDEX idx_payment_records_payment_completed
+        ON payment_records (payment_id, completed_at);
+      DROP INDEX idx_payment_records_payment;
+    `,
+  },
+  {
+    id: 8,
+    name: "create_webhooks",
+    up: `
+      CREATE TABLE webhook_endpoints (
+        id TEXT PRIMARY KEY,
+        owner_address TEXT NOT NULL,
+        payment_id TEXT,
+        url TEXT NOT NULL,
+        secret TEXT NOT NULL,
+        created_at BIGINT NOT NULL
+      );
+      CREATE INDEX idx_webhook_endpoints_owner ON webhook_endpoints (owner_address, created_at);
+      CREATE INDEX idx_webhook_endpoints_payment ON webhook_endpoints (payment_id);
+      CREATE TABLE webhook_deliveries (
+        id TEXT PRIMARY KEY,
+        webhook_id TEXT NOT NULL,
+        event_id TEXT NOT NULL,
+        event_type TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        status TEXT NOT NULL,
+        attempts INTEGER NOT NULL DEFAULT 0,
+        next_attempt_at BIGINT,
+        last_attempt_at BIGINT,
+        response_status INTEGER,
+        last_error TEXT,
+        created_at BIGINT NOT NULL
+      );
+      CREATE INDEX idx_webhook_deliveries_webhook ON webhook_deliveries (webhook_id, created_at);
+      CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries (status, next_attempt_at);
+    `,
+  },
+  {
+    id: 9,
+    name: "checkout_sessions",
+    up: `
+      ALTER TABLE payment_links ADD COLUMN order_id TEXT;
+      ALTER TABLE payment_links ADD COLUMN metadata TEXT;
+      ALTER TABLE payment_links ADD COLUMN success_url TEXT;
+      ALTER TABLE payment_links ADD COLUMN cancel_url TEXT;
+      ALTER TABLE payment_records ADD COLUMN order_id TEXT;
+      ALTER TABLE payment_records ADD COLUMN metadata TEXT;
+    `,
+  },
+  {
+    id: 10,
+    name: "create_api_keys",
+    up: `
+      CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        owner_address TEXT NOT NULL,
+        name TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        scopes TEXT NOT NULL,
+        created_at BIGINT NOT NULL,
+        last_used_at BIGINT,
+        revoked_at BIGINT
+      );
+      CREATE INDEX idx_api_keys_owner ON api_keys (owner_address, created_at);
+      ALTER TABLE payment_links ADD COLUMN api_key_id TEXT;
+    `,
+  },
+  {
+    id: 11,
+    name: "withdraw_holds_and_idempotency_keys",
+    up: `
+      CREATE TABLE withdraw_holds (
+        id TEXT PRIMARY KEY,
+        payment_id TEXT NOT NULL,
+        expires_at BIGINT NOT NULL
+      );
+      CREATE INDEX idx_withdraw_holds_payment ON withdraw_holds (payment_id, expires_at);
+      CREATE TABLE withdraw_idempotency_keys (
+        idempotency_key TEXT PRIMARY KEY,
+        fingerprint TEXT NOT NULL,
+        job_id TEXT,
+        expires_at BIGINT NOT NULL
+      );
+      CREATE INDEX idx_withdraw_idempotency_keys_expiry ON withdraw_idempotency_keys (expires_at);
+    `,
+  },
+  {
+    id: 12,
+    name: "create_withdraw_jobs",
+    up: `
+      CREATE TABLE withdraw_jobs (
+        id TEXT PRIMARY KEY,
+        job TEXT NOT NULL,
+        lease_until BIGINT,
+        expires_at BIGINT NOT NULL
+      );
+      CREATE INDEX idx_withdraw_jobs_expiry ON withdraw_jobs (expires_at);
+    `,
+  },
+];
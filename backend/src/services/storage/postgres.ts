@@ -0,0 +1,104 @@
+/**
+ * Postgres connection pool shared by the Postgres storage adapters.
+ *
+ * Safe to share between several backend instances: migrations run under an advisory
+ * lock, and queries wait until they have been applied.
+ */
+
+import { Pool, type PoolClient, type QueryResult, type QueryResultRow } from "pg";
+import { postgresMigrations } from "./migrations";
+
+// Arbitrary constant so concurrent instances don't run migrations twice
+const MIGRATION_LOCK_ID = 724_801;
+
+export interface PostgresDatabase {
+  query<T extends QueryResultRow>(text: string, values?: unknown[]): Promise<QueryResult<T>>;
+  /** Run `work` in a transaction on one client, rolling back if it throws */
+  transaction<T>(work: (client: PoolClient) => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+}
+
+async function runMigrations(client: PoolClient): Promise<number[]> {
+  await client.query("SELECT pg_advisory_lock($1)", [MIGRATION_LOCK_ID]);
+  try {
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS schema_migrations (
+        id INTEGER PRIMARY KEY,
+        name TEXT NOT NULL,
+        applied_at BIGINT NOT NULL
+      )
+    `);
+    const { rows } = await client.query<{ id: number }>("SELECT id FROM schema_migrations");
+    const applied = new Set(rows.map((row) => row.id));
+
+    const ran: number[] = [];
+    for (const migration of [...postgresMigrations].sort((a, b) => a.id - b.id)) {
+      if (applied.has(migration.id)) continue;
+      await client.query("BEGIN");
+      try {
+        await client.query(migration.up);
+        await client.query(
+          "INSERT INTO schema_migrations (id, name, applied_at) VALUES ($1, $2, $3)",
+          [migration.id, migration.name, Date.now()]
+        );
+        await client.query("COMMIT");
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      }
+      ran.push(migration.id);
+    }
+    return ran;
+  } finally {
+    await client.query("SELECT pg_advisory_unlock($1)", [MIGRATION_LOCK_ID]);
+  }
+}
+
+export function openPostgresDatabase(connectionString: string): PostgresDatabase {
+  const pool = new Pool({ connectionString });
+
+  const ready = (async () => {
+    const client = await pool.connect();
+    try {
+      const applied = await runMigrations(client);
+      if (applied.length > 0) {
+        console.log(`[storage] applied postgres migrations: ${applied.join(", ")}`);
+      }
+    } finally {
+      client.release();
+    }
+  })();
+
+  return {
+    async query<T extends QueryResultRow>(text: string, values: unknown[] = []) {
+      await ready;
+      return pool.query<T>(text, values);
+    },
+
+    async transaction(work) {
+      await ready;
+      const client = await pool.connect();
+      try {
+        await client.query("BEGIN");
+        const result = await work(client);
+        await client.query("COMMIT");
+        return result;
+      } catch (error) {
+        await client.query("ROLLBACK");
+        throw error;
+      } finally {
+        client.release();
+      }
+    },
+
+    async close() {
+      await ready.catch(() => undefined);
+      await pool.end();
+    },
+  };
+}
+
+/** `$1, $2, ...` for an INSERT of `count` columns */
+export function postgresPlaceholders(count: number): string {
+  return Array.from({ length: count }, (_, i) => `$${i + 1}`).join(", ");
+}
@@ -0,0 +1,16 @@
+/**
+ * Redis client shared by the Redis storage adapters.
+ *
+ * Every adapter writes under the same key prefix, so one Redis database can hold the
+ * data of all of them.
+ */
+
+import Redis from "ioredis";
+
+export type RedisClient = Redis;
+
+export const REDIS_KEY_PREFIX = "ghostsend:";
+
+export function openRedisClient(url: string): RedisClient {
+  return new Redis(url);
+}
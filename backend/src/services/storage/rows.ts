@@ -0,0 +1,12 @@
+/**
+ * Column helpers shared by the SQL adapters (SQLite and Postgres).
+ *
+ * Postgres returns BIGINT columns as strings and SQLite reads integers as bigint, so
+ * numeric columns go through Number(), and amounts through String() to stay exact.
+ */
+
+export type Numeric = number | string | bigint;
+
+export function optionalNumber(value: Numeric | null): number | undefined {
+  return value === null ? undefined : Number(value);
+}
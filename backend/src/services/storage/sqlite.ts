@@ -0,0 +1,65 @@
+/**
+ * SQLite database shared by the SQLite storage adapters.
+ *
+ * Uses a single database file; the schema is brought up to date on open.
+ * Suitable for a single backend instance.
+ */
+
+import fs from "fs";
+import path from "path";
+import Database from "better-sqlite3";
+import { sqliteMigrations } from "./migrations";
+
+export type SqliteDatabase = Database.Database;
+
+/**
+ * Apply pending migrations in order. Each migration runs in its own transaction.
+ */
+function runMigrations(db: SqliteDatabase): number[] {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      id INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    (db.prepare("SELECT id FROM schema_migrations").all() as { id: number }[]).map((row) => row.id)
+  );
+  const markApplied = db.prepare(
+    "INSERT INTO schema_migrations (id, name, applied_at) VALUES (?, ?, ?)"
+  );
+
+  const ran: number[] = [];
+  for (const migration of [...sqliteMigrations].sort((a, b) => a.id - b.id)) {
+    if (applied.has(migration.id)) continue;
+    db.transaction(() => {
+      db.exec(migration.up);
+      markApplied.run(migration.id, migration.name, Date.now());
+    })();
+    ran.push(migration.id);
+  }
+  return ran;
+}
+
+export function openSqliteDatabase(filename: string): SqliteDatabase {
+  if (filename !== ":memory:") {
+    fs.mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+  }
+
+  const db = new Database(filename);
+  db.pragma("journal_mode = WAL");
+  const applied = runMigrations(db);
+  if (applied.length > 0) {
+    console.log(`[storage] applied sqlite migrations: ${applied.join(", ")}`);
+  }
+  // Amounts can exceed Number.MAX_SAFE_INTEGER; read integers as bigint (see rows.ts)
+  db.defaultSafeIntegers(true);
+  return db;
+}
+
+/** `?, ?, ...` for an INSERT of `count` columns */
+export function sqlitePlaceholders(count: number): string {
+  return Array.from({ length: count }, () => "?").join(", ");
+}
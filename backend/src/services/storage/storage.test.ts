@@ -0,0 +1,594 @@
+/**
+ * Conformance suite for the storage adapters: every driver runs the same checks.
+ *
+ * Memory and SQLite always run. Postgres and Redis run when TEST_DATABASE_URL and
+ * TEST_REDIS_URL point at a database the suite may write to; it only adds rows and keys
+ * with fresh IDs, so a shared development database is fine.
+ */
+
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { after, before, describe, test } from "node:test";
+import Fastify from "fastify";
+import type { ApiKey } from "../../types/api-keys";
+import type { WithdrawJobInfo } from "../../types/withdraw";
+import type {
+  PaymentLinkAuditEntry,
+  PaymentLinkMetadata,
+  PaymentRecord,
+} from "../../types/payment-links";
+import type { WebhookDelivery } from "../../types/webhooks";
+import { linkSortValue, recordSortValue } from "../payment-links/storage/list-queries";
+import type { LinkListOptions, RecordListOptions } from "../payment-links/storage/types";
+import { createPaymentLinksRepository } from "../payment-links/repository";
+import { createIdempotencyKeys } from "../withdraw/idempotency";
+import { createPaymentReservations } from "../withdraw/reservations";
+import { createStorageFromEnv, type Storage } from "./index";
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+
+const drivers: Array<{ name: string; env?: NodeJS.ProcessEnv }> = [
+  { name: "memory", env: { PAYMENT_LINKS_STORAGE: "memory" } },
+  { name: "sqlite", env: { PAYMENT_LINKS_STORAGE: "sqlite", PAYMENT_LINKS_DB_PATH: ":memory:" } },
+  {
+    name: "postgres",
+    env: process.env.TEST_DATABASE_URL
+      ? { PAYMENT_LINKS_STORAGE: "postgres", DATABASE_URL: process.env.TEST_DATABASE_URL }
+      : undefined,
+  },
+  {
+    name: "redis",
+    env: process.env.TEST_REDIS_URL
+      ? { PAYMENT_LINKS_STORAGE: "redis", REDIS_URL: process.env.TEST_REDIS_URL }
+      : undefined,
+  },
+];
+
+const uniqueId = (kind: string) => `${kind}-${crypto.randomBytes(6).toString("hex")}`;
+
+function newLink(
+  recipientAddress: string,
+  fields: Partial<PaymentLinkMetadata> = {}
+): PaymentLinkMetadata {
+  return {
+    paymentId: uniqueId("link"),
+    recipientAddress,
+    tokenMint: SOL_MINT,
+    amountType: "fixed",
+    fixedAmount: "1000",
+    reusable: false,
+    createdAt: Date.now(),
+    status: "active",
+    usageCount: 0,
+    ...fields,
+  };
+}
+
+function newRecord(paymentId: string, fields: Partial<PaymentRecord> = {}): PaymentRecord {
+  return {
+    id: uniqueId("record"),
+    paymentId,
+    tokenMint: SOL_MINT,
+    amount: "1000",
+    txSignature: uniqueId("tx"),
+    completedAt: Date.now(),
+    status: "completed",
+    ...fields,
+  };
+}
+
+function newAuditEntry(
+  paymentId: string,
+  createdAt: number,
+  changes: PaymentLinkAuditEntry["changes"]
+): PaymentLinkAuditEntry {
+  return { id: uniqueId("audit"), paymentId, actor: uniqueId("wallet"), changes, createdAt };
+}
+
+function newApiKey(ownerAddress: string, createdAt: number): ApiKey {
+  return {
+    id: uniqueId("key"),
+    ownerAddress,
+    name: "Shop server",
+    prefix: "gs_live_ab",
+    keyHash: crypto.randomBytes(32).toString("hex"),
+    scopes: ["links:create", "history:read"],
+    createdAt,
+  };
+}
+
+// Adapters may leave an unset optional field out or set it to undefined
+const withoutUndefined = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/** Every page of a list, each read after the previous page's last item like the repository */
+async function readAllPages<T>(
+  readPage: (cursor?: { value: bigint; id: string }) => Promise<T[]>,
+  cursorOf: (item: T) => { value: bigint; id: string }
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: { value: bigint; id: string } | undefined;
+  for (;;) {
+    const page = await readPage(cursor);
+    items.push(...page);
+    if (page.length === 0) return items;
+    cursor = cursorOf(page[page.length - 1]);
+  }
+}
+
+for (const driver of drivers) {
+  describe(`${driver.name} storage`, { skip: driver.env ? false : "no test database" }, () => {
+    let storage: Storage;
+
+    before(() => {
+      storage = createStorageFromEnv(driver.env);
+    });
+    after(() => storage.close());
+
+    test("reads back an inserted link field for field", async () => {
+      const link = newLink(uniqueId("wallet"), {
+        fixedAmount: "9007199254740993", // Past 2^53
+        label: "Invoice 42",
+        message: "Thanks",
+        expiresAt: Date.now() + 60_000,
+        checkout: {
+          orderId: "order-42",
+          metadata: { customer: "c_1" },
+          successUrl: "https://shop.example/done",
+        },
+      });
+      await storage.paymentLinks.insertLink(link);
+
+      assert.deepEqual(
+        withoutUndefined(await storage.paymentLinks.getLink(link.paymentId)),
+        withoutUndefined(link)
+      );
+      assert.equal(await storage.paymentLinks.getLink(uniqueId("link")), null);
+    });
+
+    test("increments usage atomically and completes a used-up link", async () => {
+      const links = storage.paymentLinks;
+      const capped = newLink(uniqueId("wallet"), { reusable: true, maxUsageCount: 5 });
+      await links.insertLink(capped);
+
+      await Promise.all(Array.from({ length: 5 }, () => links.incrementUsage(capped.paymentId)));
+      const used = await links.getLink(capped.paymentId);
+      assert.equal(used?.usageCount, 5);
+      assert.equal(used?.status, "completed");
+
+      const oneTime = newLink(uniqueId("wallet"));
+      await links.insertLink(oneTime);
+      assert.equal((await links.incrementUsage(oneTime.paymentId))?.status, "completed");
+
+      // A status the owner set is kept
+      const disabled = newLink(uniqueId("wallet"), { status: "disabled" });
+      await links.insertLink(disabled);
+      const counted = await links.incrementUsage(disabled.paymentId);
+      assert.equal(counted?.usageCount, 1);
+      assert.equal(counted?.status, "disabled");
+
+      assert.equal(await links.incrementUsage(uniqueId("link")), null);
+    });
+
+    test("records a transaction signature once across all links", async () => {
+      const links = storage.paymentLinks;
+      const recipient = uniqueId("wallet");
+      const first = newLink(recipient, { reusable: true });
+      const second = newLink(recipient, { reusable: true });
+      await links.insertLink(first);
+      await links.insertLink(second);
+
+      const record = newRecord(first.paymentId);
+      assert.equal(await links.addRecord(record), true);
+      assert.equal(await links.addRecord({ ...record, id: uniqueId("record") }), false);
+      assert.equal(
+        await links.addRecord(newRecord(second.paymentId, { txSignature: record.txSignature })),
+        false
+      );
+      assert.equal(await links.hasRecord(first.paymentId, record.txSignature), true);
+      assert.equal(await links.hasRecord(second.paymentId, record.txSignature), false);
+
+      const txSignature = uniqueId("tx");
+      const inserted = await Promise.all([
+        links.addRecord(newRecord(first.paymentId, { txSignature })),
+        links.addRecord(newRecord(second.paymentId, { txSignature })),
+      ]);
+      assert.deepEqual(inserted.filter(Boolean), [true]);
+    });
+
+    test("expires active links past their expiry only", async () => {
+      const links = storage.paymentLinks;
+      const now = Date.now();
+      const recipient = uniqueId("wallet");
+      const due = newLink(recipient, { expiresAt: now });
+      const later = newLink(recipient, { expiresAt: now + 60_000 });
+      const disabled = newLink(recipient, { expiresAt: now - 1, status: "disabled" });
+      for (const link of [due, later, disabled]) await links.insertLink(link);
+
+      // Other links in a shared test database may expire in the same sweep
+      assert.ok((await links.expireLinks(now)) >= 1);
+      assert.equal((await links.getLink(due.paymentId))?.status, "expired");
+      assert.equal((await links.getLink(later.paymentId))?.status, "active");
+      assert.equal((await links.getLink(disabled.paymentId))?.status, "disabled");
+    });
+
+    test("pages links through cursors in every sort order", async () => {
+      const links = storage.paymentLinks;
+      const recipient = uniqueId("wallet");
+      const createdAt = Date.now();
+      // Repeated sort values, so paging must fall back to the ID
+      const inserted = [
+        newLink(recipient, { createdAt, fixedAmount: "300", usageCount: 2, reusable: true }),
+        newLink(recipient, { createdAt, fixedAmount: "100", usageCount: 0, reusable: true }),
+        newLink(recipient, { createdAt: createdAt + 1, fixedAmount: "300", reusable: true }),
+        newLink(recipient, { createdAt: createdAt + 2, fixedAmount: "200", usageCount: 2 }),
+        newLink(recipient, { createdAt: createdAt + 3, fixedAmount: "100", usageCount: 1 }),
+      ];
+      for (const link of inserted) await links.insertLink(link);
+      await links.insertLink(newLink(uniqueId("wallet"))); // Another recipient's
+
+      const orders: Array<Pick<LinkListOptions, "sort" | "order">> = [
+        { sort: "createdAt", order: "desc" },
+        { sort: "amount", order: "asc" },
+        { sort: "usageCount", order: "desc" },
+      ];
+      for (const { sort, order } of orders) {
+        const direction = order === "asc" ? 1 : -1;
+        const expected = [...inserted]
+          .sort((a, b) => {
+            const [aValue, bValue] = [linkSortValue(a, sort), linkSortValue(b, sort)];
+            if (aValue !== bValue) return (aValue < bValue ? -1 : 1) * direction;
+            return (a.paymentId < b.paymentId ? -1 : 1) * direction;
+          })
+          .map((link) => link.paymentId);
+
+        const pages = await readAllPages(
+          (cursor) =>
+            links.listLinksByRecipient(recipient, {
+              sort,
+              order,
+              limit: 2,
+              cursor,
+              now: Date.now(),
+            }),
+          (link) => ({ value: linkSortValue(link, sort), id: link.paymentId })
+        );
+        assert.deepEqual(
+          pages.map((link) => link.paymentId),
+          expected,
+          `${sort} ${order}`
+        );
+      }
+    });
+
+    test("pages payment history through cursors in every sort order", async () => {
+      const links = storage.paymentLinks;
+      const recipient = uniqueId("wallet");
+      const link = newLink(recipient, { reusable: true });
+      await links.insertLink(link);
+      const completedAt = Date.now();
+      const inserted = [
+        newRecord(link.paymentId, { completedAt, amount: "500" }),
+        newRecord(link.paymentId, { completedAt, amount: "9007199254740993" }),
+        newRecord(link.paymentId, { completedAt: completedAt + 1, amount: "500" }),
+        newRecord(link.paymentId, { completedAt: completedAt + 2, amount: "20" }),
+      ];
+      for (const record of inserted) await links.addRecord(record);
+
+      const orders: Array<Pick<RecordListOptions, "sort" | "order">> = [
+        { sort: "completedAt", order: "desc" },
+        { sort: "amount", order: "asc" },
+      ];
+      for (const { sort, order } of orders) {
+        const direction = order === "asc" ? 1 : -1;
+        const expected = [...inserted]
+          .sort((a, b) => {
+            const [aValue, bValue] = [recordSortValue(a, sort), recordSortValue(b, sort)];
+            if (aValue !== bValue) return (aValue < bValue ? -1 : 1) * direction;
+            return (a.id < b.id ? -1 : 1) * direction;
+          })
+          .map((record) => record.id);
+
+        const pages = await readAllPages(
+          (cursor) => links.listRecordsByRecipient(recipient, { sort, order, limit: 3, cursor }),
+          (record) => ({ value: recordSortValue(record, sort), id: record.id })
+        );
+        assert.deepEqual(
+          pages.map((record) => record.id),
+          expected,
+          `${sort} ${order}`
+        );
+      }
+    });
+
+    test("lets one caller claim a due delivery until its lease ends", async () => {
+      const webhooks = storage.webhooks;
+      const now = Date.now();
+      const webhookId = uniqueId("webhook");
+      await webhooks.insertWebhook({
+        id: webhookId,
+        ownerAddress: uniqueId("wallet"),
+        url: "https://hooks.example/ghostsend",
+        secret: "whsec_test",
+        createdAt: now,
+      });
+      const delivery: WebhookDelivery = {
+        id: uniqueId("delivery"),
+        webhookId,
+        eventId: uniqueId("event"),
+        eventType: "ping",
+        payload: "{}",
+        status: "pending",
+        attempts: 0,
+        nextAttemptAt: now - 1,
+        createdAt: now,
+      };
+      await webhooks.insertDelivery(delivery);
+
+      const leaseUntil = now + 30_000;
+      const claims = await Promise.all([
+        webhooks.claimDelivery(delivery.id, now, leaseUntil),
+        webhooks.claimDelivery(delivery.id, now, leaseUntil),
+      ]);
+      assert.deepEqual(claims.filter(Boolean), [true]);
+      assert.equal(await webhooks.claimDelivery(delivery.id, now + 1, leaseUntil + 1), false);
+      assert.equal(
+        await webhooks.claimDelivery(delivery.id, leaseUntil, leaseUntil + 30_000),
+        true
+      );
+
+      await webhooks.updateDelivery({ ...delivery, status: "succeeded", attempts: 1 });
+      assert.equal(await webhooks.claimDelivery(delivery.id, leaseUntil + 60_000, now), false);
+      assert.equal(await webhooks.claimDelivery(uniqueId("delivery"), now, leaseUntil), false);
+    });
+
+    test("applies owner edits together with their audit entries", async () => {
+      const links = storage.paymentLinks;
+      const link = newLink(uniqueId("wallet"), {
+        reusable: true,
+        label: "Old label",
+        message: "Thanks",
+      });
+      await links.insertLink(link);
+      const now = Date.now();
+
+      const first = newAuditEntry(link.paymentId, now, [
+        { field: "label", from: "Old label", to: "New label" },
+        { field: "message", from: "Thanks", to: null },
+      ]);
+      const updated = await links.updateLink(
+        link.paymentId,
+        { label: "New label", message: undefined },
+        first
+      );
+      const expected = { ...link, label: "New label", message: undefined };
+      assert.deepEqual(withoutUndefined(updated), withoutUndefined(expected));
+      assert.deepEqual(
+        withoutUndefined(await links.getLink(link.paymentId)),
+        withoutUndefined(expected)
+      );
+
+      const second = newAuditEntry(link.paymentId, now + 1, [
+        { field: "maxUsageCount", from: null, to: 3 },
+      ]);
+      assert.equal(
+        (await links.updateLink(link.paymentId, { maxUsageCount: 3 }, second))?.maxUsageCount,
+        3
+      );
+      assert.deepEqual(await links.listAuditEntries(link.paymentId), [first, second]);
+
+      const missing = uniqueId("link");
+      assert.equal(
+        await links.updateLink(missing, { label: "x" }, newAuditEntry(missing, now, [])),
+        null
+      );
+      assert.deepEqual(await links.listAuditEntries(missing), []);
+    });
+
+    test("archives, restores and purges a link with its records and audit trail", async () => {
+      const links = storage.paymentLinks;
+      const recipient = uniqueId("wallet");
+      const link = newLink(recipient, { reusable: true });
+      await links.insertLink(link);
+      const record = newRecord(link.paymentId);
+      await links.addRecord(record);
+      const now = Date.now();
+      const listIds = async (archived: boolean) =>
+        (
+          await links.listLinksByRecipient(recipient, {
+            sort: "createdAt",
+            order: "desc",
+            limit: 10,
+            now: Date.now(),
+            archived,
+          })
+        ).map((listed) => listed.paymentId);
+
+      await links.updateLink(
+        link.paymentId,
+        { archivedAt: now },
+        newAuditEntry(link.paymentId, now, [{ field: "archivedAt", from: null, to: now }])
+      );
+      assert.equal((await links.getLink(link.paymentId))?.archivedAt, now);
+      assert.deepEqual(await listIds(true), [link.paymentId]);
+      assert.deepEqual(await listIds(false), []);
+
+      await links.updateLink(
+        link.paymentId,
+        { archivedAt: undefined },
+        newAuditEntry(link.paymentId, now + 1, [{ field: "archivedAt", from: now, to: null }])
+      );
+      assert.equal((await links.getLink(link.paymentId))?.archivedAt, undefined);
+      assert.deepEqual(await listIds(false), [link.paymentId]);
+      assert.deepEqual(await listIds(true), []);
+
+      await links.deleteLink(link.paymentId);
+      assert.equal(await links.getLink(link.paymentId), null);
+      assert.equal(await links.hasRecord(link.paymentId, record.txSignature), false);
+      assert.deepEqual(await links.listAuditEntries(link.paymentId), []);
+      assert.deepEqual(await listIds(false), []);
+      assert.deepEqual(
+        await links.listRecordsByRecipient(recipient, {
+          sort: "completedAt",
+          order: "desc",
+          limit: 10,
+        }),
+        []
+      );
+    });
+
+    test("stores API keys and revokes them once", async () => {
+      const apiKeys = storage.apiKeys;
+      const owner = uniqueId("wallet");
+      const now = Date.now();
+      const older = newApiKey(owner, now);
+      const newer = newApiKey(owner, now + 1);
+      for (const key of [older, newer, newApiKey(uniqueId("wallet"), now)]) {
+        await apiKeys.insertApiKey(key);
+      }
+
+      assert.deepEqual(withoutUndefined(await apiKeys.getApiKey(older.id)), older);
+      assert.deepEqual(withoutUndefined(await apiKeys.getApiKeyByHash(newer.keyHash)), newer);
+      assert.deepEqual(
+        (await apiKeys.listApiKeysByOwner(owner)).map((key) => key.id),
+        [newer.id, older.id]
+      );
+
+      await apiKeys.setApiKeyLastUsed(older.id, now + 5);
+      await apiKeys.revokeApiKey(older.id, now + 10);
+      await apiKeys.revokeApiKey(older.id, now + 20);
+      const revoked = await apiKeys.getApiKey(older.id);
+      assert.equal(revoked?.lastUsedAt, now + 5);
+      assert.equal(revoked?.revokedAt, now + 10);
+      // Revoked keys are still found by hash, for attribution
+      assert.equal((await apiKeys.getApiKeyByHash(older.keyHash))?.revokedAt, now + 10);
+
+      assert.equal(await apiKeys.getApiKey(uniqueId("key")), null);
+      assert.equal(await apiKeys.getApiKeyByHash("0".repeat(64)), null);
+    });
+
+    test("counts a link's unexpired holds together with each new hold", async () => {
+      const withdrawals = storage.withdrawals;
+      const paymentId = uniqueId("link");
+      const now = Date.now();
+      const expiresAt = now + 60_000;
+      const [a, b, c, d, e] = Array.from({ length: 5 }, () => uniqueId("hold"));
+
+      // Each concurrent hold sees a different number ahead of it, so only one can take
+      // a link's last use
+      const ahead = await Promise.all(
+        [a, b, c].map((holdId) => withdrawals.addHold(paymentId, holdId, expiresAt, now))
+      );
+      assert.deepEqual(
+        [...ahead].sort((x, y) => x - y),
+        [0, 1, 2]
+      );
+
+      await withdrawals.removeHold(paymentId, b);
+      assert.equal(await withdrawals.addHold(paymentId, d, expiresAt, now), 2);
+
+      // Past a hold's expiry it no longer counts, unless it was renewed
+      await withdrawals.renewHold(paymentId, a, now + 120_000);
+      await withdrawals.renewHold(paymentId, uniqueId("hold"), now + 120_000);
+      assert.equal(await withdrawals.addHold(paymentId, e, now + 180_000, expiresAt), 1);
+
+      assert.equal(
+        await withdrawals.addHold(uniqueId("link"), uniqueId("hold"), expiresAt, now),
+        0
+      );
+    });
+
+    test("lets concurrent holds take only a link's remaining uses", async () => {
+      const repository = createPaymentLinksRepository(storage.paymentLinks);
+      const reservations = createPaymentReservations({
+        storage: storage.withdrawals,
+        log: Fastify().log,
+      });
+      const link = newLink(uniqueId("wallet"), { reusable: true, maxUsageCount: 3 });
+      await storage.paymentLinks.insertLink(link);
+      await storage.paymentLinks.incrementUsage(link.paymentId);
+
+      const held = await Promise.all(
+        Array.from({ length: 4 }, () => reservations.hold(link.paymentId))
+      );
+      const accepted = await Promise.all(
+        held.map((reservation) => repository.canAcceptPayment(link.paymentId, reservation.ahead))
+      );
+      assert.equal(accepted.filter(Boolean).length, 2);
+
+      // Released holds free their uses for the next payer
+      await Promise.all(held.map((reservation) => reservation.release()));
+      const next = await reservations.hold(link.paymentId);
+      assert.equal(await repository.canAcceptPayment(link.paymentId, next.ahead), true);
+      await next.release();
+      reservations.stop();
+    });
+
+    test("claims an Idempotency-Key once and replays the job bound to it", async () => {
+      const keys = createIdempotencyKeys({ storage: storage.withdrawals, log: Fastify().log });
+      const key = uniqueId("idempotency");
+
+      const claims = await Promise.all([keys.claim(key, "body-1"), keys.claim(key, "body-1")]);
+      assert.deepEqual(claims.map((claim) => claim.status).sort(), ["claimed", "in_progress"]);
+      assert.deepEqual(await keys.claim(key, "body-2"), { status: "mismatch" });
+
+      // A released claim can be taken again, e.g. after the request failed validation
+      await keys.release(key);
+      assert.deepEqual(await keys.claim(key, "body-2"), { status: "claimed" });
+
+      await keys.bind(key, "job-1");
+      await keys.release(key);
+      assert.deepEqual(await keys.claim(key, "body-2"), { status: "accepted", jobId: "job-1" });
+      assert.deepEqual(await keys.claim(key, "body-1"), { status: "mismatch" });
+
+      // A claim that was never bound lapses at its expiry
+      const abandoned = uniqueId("idempotency");
+      const now = Date.now();
+      assert.equal(
+        await storage.withdrawals.claimIdempotencyKey(abandoned, "body-1", now + 1_000, now),
+        null
+      );
+      assert.equal(
+        await storage.withdrawals.claimIdempotencyKey(
+          abandoned,
+          "body-2",
+          now + 2_000,
+          now + 1_000
+        ),
+        null
+      );
+    });
+
+    test("keeps a withdraw job's last snapshot and never reopens an ended job", async () => {
+      const withdrawals = storage.withdrawals;
+      const now = Date.now();
+      const job: WithdrawJobInfo = {
+        id: uniqueId("job"),
+        kind: "sol",
+        paymentId: uniqueId("link"),
+        stage: "proving",
+        createdAt: now,
+        updatedAt: now,
+      };
+      const expiresAt = now + 60_000;
+
+      await withdrawals.saveJob(job, now + 1_000, expiresAt);
+      await withdrawals.renewJobLease(job.id, now + 2_000);
+      assert.deepEqual(await withdrawals.getJob(job.id, now), { job, leaseUntil: now + 2_000 });
+
+      const confirmed: WithdrawJobInfo = {
+        ...job,
+        stage: "confirmed",
+        tx: uniqueId("tx"),
+        result: { isPartial: false, amount_in_lamports: "1000", fee_in_lamports: "5" },
+      };
+      await withdrawals.saveJob(confirmed, null, expiresAt);
+      await withdrawals.saveJob({ ...job, stage: "submitting" }, now + 3_000, expiresAt);
+      await withdrawals.renewJobLease(job.id, now + 4_000);
+      assert.deepEqual(withoutUndefined(await withdrawals.getJob(job.id, now)), {
+        job: confirmed,
+      });
+
+      assert.equal(await withdrawals.getJob(uniqueId("job"), now), null);
+    });
+  });
+}
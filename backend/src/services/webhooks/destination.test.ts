@@ -0,0 +1,97 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, test } from "node:test";
+import { DESTINATION_ERRORS, checkDestination, postToDestination } from "./destination";
+
+let server: http.Server;
+let baseUrl: string;
+const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+
+before(async () => {
+  server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      received.push({ headers: request.headers, body });
+      if (request.url === "/slow") return; // Never answers
+      response.statusCode = request.url === "/redirect" ? 302 : 204;
+      response.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+test("refuses private, loopback, link-local and reserved addresses", async () => {
+  for (const url of [
+    "http://127.0.0.1/",
+    "http://10.1.2.3/",
+    "http://172.16.0.1/",
+    "http://192.168.1.1/",
+    "http://169.254.169.254/latest/meta-data",
+    "http://100.64.0.1/",
+    "http://0.0.0.0/",
+    "http://[::1]/",
+    "http://[::ffff:127.0.0.1]/",
+    "http://[fd00:ec2::254]/",
+    "http://[fe80::1]/",
+    "http://localhost/",
+  ]) {
+    assert.deepEqual(
+      await checkDestination(new URL(url)),
+      { error: DESTINATION_ERRORS.blocked },
+      url
+    );
+  }
+});
+
+test("accepts public addresses and reports hosts that do not resolve", async () => {
+  assert.deepEqual(await checkDestination(new URL("https://8.8.8.8/hook")), { ok: true });
+  assert.deepEqual(await checkDestination(new URL("https://[2606:4700:4700::1111]/")), {
+    ok: true,
+  });
+  assert.deepEqual(await checkDestination(new URL("https://ghostsend-test.invalid/")), {
+    error: DESTINATION_ERRORS.unresolved,
+  });
+});
+
+test("posts to a private endpoint only when private addresses are allowed", async () => {
+  const request = { headers: { "X-Test": "1" }, body: '{"ok":true}', timeoutMs: 2_000 };
+
+  assert.deepEqual(
+    await postToDestination(`${baseUrl}/hook`, { ...request, allowPrivateAddresses: false }),
+    { error: DESTINATION_ERRORS.blocked }
+  );
+  assert.equal(received.length, 0);
+
+  assert.deepEqual(
+    await postToDestination(`${baseUrl}/hook`, { ...request, allowPrivateAddresses: true }),
+    { status: 204 }
+  );
+  assert.equal(received[0].headers["x-test"], "1");
+  assert.equal(received[0].body, '{"ok":true}');
+});
+
+test("reports redirects as their status and silent endpoints as timed out", async () => {
+  const request = { headers: {}, body: "{}", allowPrivateAddresses: true };
+
+  assert.deepEqual(
+    await postToDestination(`${baseUrl}/redirect`, { ...request, timeoutMs: 2_000 }),
+    {
+      status: 302,
+    }
+  );
+  assert.deepEqual(await postToDestination(`${baseUrl}/slow`, { ...request, timeoutMs: 100 }), {
+    error: DESTINATION_ERRORS.timeout,
+  });
+  assert.deepEqual(
+    await postToDestination("http://127.0.0.1:1/", { ...request, timeoutMs: 2_000 }),
+    { error: DESTINATION_ERRORS.unreachable }
+  );
+});
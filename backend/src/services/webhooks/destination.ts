@@ -0,0 +1,173 @@
+/**
+ * Webhook Destinations
+ *
+ * Webhook URLs are chosen by wallet owners, so requests to them must not reach the
+ * backend's own network. A host is refused when any address it resolves to is private,
+ * loopback, link-local (including the 169.254.169.254 metadata service) or otherwise
+ * not publicly routable. Requests connect through a lookup that applies the same check,
+ * so a host that starts resolving to an internal address after it was registered is
+ * refused on its next attempt.
+ *
+ * Failures are reported as fixed messages: the text of a network error (addresses,
+ * ports, TLS details) is never passed on to the wallet owner.
+ */
+
+import dns from "dns";
+import http from "http";
+import https from "https";
+import net from "net";
+
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], // "This" network
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10], // Carrier-grade NAT
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16], // Link-local, cloud metadata
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24], // Documentation
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15], // Benchmarking
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4], // Multicast
+  ["240.0.0.0", 4], // Reserved, broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv4");
+}
+// IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) are matched against the IPv4 ranges
+for (const [network, prefix] of [
+  ["::", 128], // Unspecified
+  ["::1", 128],
+  ["64:ff9b::", 96], // NAT64
+  ["100::", 64], // Discard
+  ["2001:db8::", 32], // Documentation
+  ["2002::", 16], // 6to4
+  ["fc00::", 7], // Unique local, including fd00:ec2::254 metadata
+  ["fe80::", 10], // Link-local
+  ["ff00::", 8], // Multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, "ipv6");
+}
+
+export const DESTINATION_ERRORS = {
+  blocked: "Webhook host resolves to a private or reserved address",
+  unresolved: "Webhook host could not be resolved",
+  timeout: "Endpoint did not answer in time",
+  unreachable: "Could not connect to endpoint",
+} as const;
+
+class BlockedAddressError extends Error {
+  constructor() {
+    super(DESTINATION_ERRORS.blocked);
+  }
+}
+
+function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (family === 0) return false;
+  return !BLOCKED_ADDRESSES.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// URL hostnames keep IPv6 literals in brackets
+function bareHostname(url: URL): string {
+  return url.hostname.replace(/^\[(.*)\]$/, "$1");
+}
+
+/**
+ * Connection lookup that resolves like the default one but fails when any of the
+ * host's addresses is not public
+ */
+function publicOnlyLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | dns.LookupAddress[],
+    family?: number
+  ) => void
+) {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, []);
+    if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+      return callback(new BlockedAddressError(), []);
+    }
+    if (options.all) return callback(null, addresses);
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}
+
+/**
+ * Resolve a webhook URL's host and check that every address is public. An IP literal
+ * is checked as is.
+ */
+export async function checkDestination(url: URL): Promise<{ ok: true } | { error: string }> {
+  const hostname = bareHostname(url);
+  if (net.isIP(hostname)) {
+    return isPublicAddress(hostname) ? { ok: true } : { error: DESTINATION_ERRORS.blocked };
+  }
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true });
+  } catch {
+    return { error: DESTINATION_ERRORS.unresolved };
+  }
+  if (addresses.length === 0 || !addresses.every(({ address }) => isPublicAddress(address))) {
+    return { error: DESTINATION_ERRORS.blocked };
+  }
+  return { ok: true };
+}
+
+export interface DestinationRequest {
+  headers: Record<string, string>;
+  body: string;
+  timeoutMs: number;
+  /** Skip the public address checks (local development only) */
+  allowPrivateAddresses: boolean;
+}
+
+/**
+ * POST a body to a webhook URL. Redirects are not followed. Resolves to the HTTP status,
+ * or to one of DESTINATION_ERRORS when no answer arrived; never rejects.
+ */
+export async function postToDestination(
+  rawUrl: string,
+  { headers, body, timeoutMs, allowPrivateAddresses }: DestinationRequest
+): Promise<{ status: number } | { error: string }> {
+  const url = new URL(rawUrl);
+  if (!allowPrivateAddresses) {
+    // Connections to IP literals skip the lookup, so check them here as well
+    const checked = await checkDestination(url);
+    if ("error" in checked) return checked;
+  }
+
+  return new Promise((resolve) => {
+    const request = (url.protocol === "https:" ? https : http).request(url, {
+      method: "POST",
+      headers: { ...headers, "Content-Length": Buffer.byteLength(body) },
+      lookup: allowPrivateAddresses ? undefined : publicOnlyLookup,
+    });
+    // Covers the whole request, not just idle time on the socket
+    const timer = setTimeout(() => {
+      resolve({ error: DESTINATION_ERRORS.timeout });
+      request.destroy();
+    }, timeoutMs);
+    const finish = (outcome: { status: number } | { error: string }) => {
+      clearTimeout(timer);
+      resolve(outcome);
+    };
+
+    request.on("response", (response) => {
+      response.destroy();
+      finish({ status: response.statusCode ?? 0 });
+    });
+    request.on("error", (error) => {
+      if (error instanceof BlockedAddressError) finish({ error: DESTINATION_ERRORS.blocked });
+      else if ((error as NodeJS.ErrnoException).code === "ENOTFOUND") {
+        finish({ error: DESTINATION_ERRORS.unresolved });
+      } else finish({ error: DESTINATION_ERRORS.unreachable });
+    });
+    request.end(body);
+  });
+}
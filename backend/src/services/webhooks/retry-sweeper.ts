@@ -0,0 +1,54 @@
+/**
+ * Webhook Retry Sweeper
+ *
+ * Periodically attempts webhook deliveries whose backoff has elapsed, including first
+ * attempts that were cut short by a restart. Safe to run on several instances: each
+ * attempt is claimed in storage before it is sent.
+ */
+
+import type { FastifyBaseLogger } from "fastify";
+import type { WebhooksService } from "./webhooks";
+
+interface WebhookRetrySweeperOptions {
+  webhooks: WebhooksService;
+  intervalMs: number;
+  log: FastifyBaseLogger;
+}
+
+export function startWebhookRetrySweeper({
+  webhooks,
+  intervalMs,
+  log,
+}: WebhookRetrySweeperOptions) {
+  let sweeping = false;
+
+  const sweep = async () => {
+    if (sweeping) return;
+    sweeping = true;
+    try {
+      const attempted = await webhooks.deliverDue();
+      if (attempted > 0) {
+        log.info({ msg: "Retried webhook deliveries", count: attempted });
+      }
+    } catch (error) {
+      log.error({
+        msg: "Error retrying webhook deliveries",
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      sweeping = false;
+    }
+  };
+
+  const timer = setInterval(sweep, intervalMs);
+  timer.unref();
+  void sweep();
+
+  return {
+    stop() {
+      clearInterval(timer);
+    },
+  };
+}
+
+export type WebhookRetrySweeper = ReturnType<typeof startWebhookRetrySweeper>;
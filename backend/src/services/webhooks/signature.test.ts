@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import crypto from "node:crypto";
+import { test } from "node:test";
+import { createWebhookSecret, signWebhookPayload } from "./signature";
+
+const secret = "whsec_test";
+const timestamp = "1767225600";
+const body = JSON.stringify({ id: "evt_1", type: "payment.completed" });
+
+test("signs the timestamp and body the way receivers are told to check them", () => {
+  // What a receiver computes: HMAC-SHA256 of "<timestamp>.<raw body>" with the secret
+  const expected = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  assert.equal(signWebhookPayload(secret, timestamp, body), `v1=${expected}`);
+});
+
+test("gives a different signature for another body, timestamp or secret", () => {
+  const signature = signWebhookPayload(secret, timestamp, body);
+  assert.notEqual(signWebhookPayload(secret, timestamp, `${body} `), signature);
+  assert.notEqual(signWebhookPayload(secret, "1767225601", body), signature);
+  assert.notEqual(signWebhookPayload("whsec_other", timestamp, body), signature);
+});
+
+test("creates distinct secrets with the whsec_ prefix", () => {
+  const [first, second] = [createWebhookSecret(), createWebhookSecret()];
+  assert.match(first, /^whsec_[A-Za-z0-9_-]{32}$/);
+  assert.notEqual(first, second);
+});
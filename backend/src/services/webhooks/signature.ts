@@ -0,0 +1,25 @@
+/**
+ * Webhook signatures
+ *
+ * Each request carries the send time and an HMAC-SHA256 of `<timestamp>.<body>` keyed
+ * with the endpoint's secret. Receivers recompute it over the raw body and reject old
+ * timestamps, so a captured request cannot be replayed later.
+ */
+
+import crypto from "crypto";
+
+export const WEBHOOK_HEADERS = {
+  event: "X-GhostSend-Event",
+  delivery: "X-GhostSend-Delivery",
+  timestamp: "X-GhostSend-Timestamp", // Unix seconds
+  signature: "X-GhostSend-Signature", // "v1=<hex HMAC-SHA256>"
+} as const;
+
+export function createWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  const mac = crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+  return `v1=${mac}`;
+}
@@ -0,0 +1,95 @@
+/**
+ * In-memory storage for webhooks.
+ *
+ * Data is lost on restart and not shared between instances; intended for tests.
+ */
+
+import type { WebhookDelivery, WebhookEndpoint } from "../../../types/webhooks";
+import type { WebhookStorage } from "./types";
+
+export function createMemoryWebhookStorage(): WebhookStorage {
+  const webhooks = new Map<string, WebhookEndpoint>();
+  const deliveries = new Map<string, WebhookDelivery>();
+
+  const deleteWebhookWithDeliveries = (webhookId: string) => {
+    webhooks.delete(webhookId);
+    for (const delivery of deliveries.values()) {
+      if (delivery.webhookId === webhookId) deliveries.delete(delivery.id);
+    }
+  };
+
+  const isDue = (delivery: WebhookDelivery, now: number) =>
+    delivery.status === "pending" &&
+    delivery.nextAttemptAt !== undefined &&
+    delivery.nextAttemptAt <= now;
+
+  const newestFirst = (
+    a: { createdAt: number; id: string },
+    b: { createdAt: number; id: string }
+  ) => b.createdAt - a.createdAt || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+  return {
+    async insertWebhook(webhook) {
+      webhooks.set(webhook.id, { ...webhook });
+    },
+
+    async getWebhook(webhookId) {
+      const webhook = webhooks.get(webhookId);
+      return webhook ? { ...webhook } : null;
+    },
+
+    async listWebhooksByOwner(ownerAddress) {
+      return Array.from(webhooks.values())
+        .filter((webhook) => webhook.ownerAddress === ownerAddress)
+        .sort(newestFirst)
+        .map((webhook) => ({ ...webhook }));
+    },
+
+    async deleteWebhook(webhookId) {
+      deleteWebhookWithDeliveries(webhookId);
+    },
+
+    async deleteWebhooksForLink(paymentId) {
+      for (const webhook of webhooks.values()) {
+        if (webhook.paymentId === paymentId) deleteWebhookWithDeliveries(webhook.id);
+      }
+    },
+
+    async insertDelivery(delivery) {
+      deliveries.set(delivery.id, { ...delivery });
+    },
+
+    async getDelivery(deliveryId) {
+      const delivery = deliveries.get(deliveryId);
+      return delivery ? { ...delivery } : null;
+    },
+
+    async updateDelivery(delivery) {
+      if (!deliveries.has(delivery.id)) return;
+      deliveries.set(delivery.id, { ...delivery });
+    },
+
+    async listDeliveries(webhookId, limit) {
+      return Array.from(deliveries.values())
+        .filter((delivery) => delivery.webhookId === webhookId)
+        .sort(newestFirst)
+        .slice(0, limit)
+        .map((delivery) => ({ ...delivery }));
+    },
+
+    async listDueDeliveries(now, limit) {
+      return Array.from(deliveries.values())
+        .filter((delivery) => isDue(delivery, now))
+        .sort((a, b) => (a.nextAttemptAt ?? 0) - (b.nextAttemptAt ?? 0))
+        .slice(0, limit)
+        .map((delivery) => delivery.id);
+    },
+
+    async claimDelivery(deliveryId, now, leaseUntil) {
+      const delivery = deliveries.get(deliveryId);
+      if (!delivery || !isDue(delivery, now)) return false;
+      deliveries.set(deliveryId, { ...delivery, nextAttemptAt: leaseUntil });
+      return true;
+    },
+  };
+}
@@ -0,0 +1,118 @@
+/**
+ * Postgres storage for webhooks, on the shared pool (see ../../storage/postgres).
+ */
+
+import { postgresPlaceholders, type PostgresDatabase } from "../../storage/postgres";
+import type { WebhookStorage } from "./types";
+import {
+  DELIVERY_COLUMNS,
+  DELIVERY_OUTCOME_COLUMNS,
+  WEBHOOK_COLUMNS,
+  deliveryOutcomeValues,
+  deliveryValues,
+  toDelivery,
+  toWebhook,
+  webhookValues,
+  type WebhookDeliveryRow,
+  type WebhookEndpointRow,
+} from "./rows";
+
+export function createPostgresWebhookStorage(db: PostgresDatabase): WebhookStorage {
+  return {
+    async insertWebhook(webhook) {
+      await db.query(
+        `INSERT INTO webhook_endpoints (${WEBHOOK_COLUMNS.join(", ")})
+         VALUES (${postgresPlaceholders(WEBHOOK_COLUMNS.length)})`,
+        webhookValues(webhook)
+      );
+    },
+
+    async getWebhook(webhookId) {
+      const { rows } = await db.query<WebhookEndpointRow>(
+        "SELECT * FROM webhook_endpoints WHERE id = $1",
+        [webhookId]
+      );
+      return rows[0] ? toWebhook(rows[0]) : null;
+    },
+
+    async listWebhooksByOwner(ownerAddress) {
+      const { rows } = await db.query<WebhookEndpointRow>(
+        `SELECT * FROM webhook_endpoints WHERE owner_address = $1
+         ORDER BY created_at DESC, id DESC`,
+        [ownerAddress]
+      );
+      return rows.map(toWebhook);
+    },
+
+    async deleteWebhook(webhookId) {
+      await db.transaction(async (client) => {
+        await client.query("DELETE FROM webhook_deliveries WHERE webhook_id = $1", [webhookId]);
+        await client.query("DELETE FROM webhook_endpoints WHERE id = $1", [webhookId]);
+      });
+    },
+
+    async deleteWebhooksForLink(paymentId) {
+      await db.transaction(async (client) => {
+        await client.query(
+          `DELETE FROM webhook_deliveries
+           WHERE webhook_id IN (SELECT id FROM webhook_endpoints WHERE payment_id = $1)`,
+          [paymentId]
+        );
+        await client.query("DELETE FROM webhook_endpoints WHERE payment_id = $1", [paymentId]);
+      });
+    },
+
+    async insertDelivery(delivery) {
+      await db.query(
+        `INSERT INTO webhook_deliveries (${DELIVERY_COLUMNS.join(", ")})
+         VALUES (${postgresPlaceholders(DELIVERY_COLUMNS.length)})`,
+        deliveryValues(delivery)
+      );
+    },
+
+    async getDelivery(deliveryId) {
+      const { rows } = await db.query<WebhookDeliveryRow>(
+        "SELECT * FROM webhook_deliveries WHERE id = $1",
+        [deliveryId]
+      );
+      return rows[0] ? toDelivery(rows[0]) : null;
+    },
+
+    async updateDelivery(delivery) {
+      await db.query(
+        `UPDATE webhook_deliveries
+         SET ${DELIVERY_OUTCOME_COLUMNS.map((column, i) => `${column} = $${i + 1}`).join(", ")}
+         WHERE id = $${DELIVERY_OUTCOME_COLUMNS.length + 1}`,
+        [...deliveryOutcomeValues(delivery), delivery.id]
+      );
+    },
+
+    async listDeliveries(webhookId, limit) {
+      const { rows } = await db.query<WebhookDeliveryRow>(
+        `SELECT * FROM webhook_deliveries WHERE webhook_id = $1
+         ORDER BY created_at DESC, id DESC LIMIT $2`,
+        [webhookId, limit]
+      );
+      return rows.map(toDelivery);
+    },
+
+    async listDueDeliveries(now, limit) {
+      const { rows } = await db.query<{ id: string }>(
+        `SELECT id FROM webhook_deliveries
+         WHERE status = 'pending' AND next_attempt_at <= $1
+         ORDER BY next_attempt_at LIMIT $2`,
+        [now, limit]
+      );
+      return rows.map((row) => row.id);
+    },
+
+    async claimDelivery(deliveryId, now, leaseUntil) {
+      const { rowCount } = await db.query(
+        `UPDATE webhook_deliveries SET next_attempt_at = $1
+         WHERE id = $2 AND status = 'pending' AND next_attempt_at <= $3`,
+        [leaseUntil, deliveryId, now]
+      );
+      return (rowCount ?? 0) > 0;
+    },
+  };
+}
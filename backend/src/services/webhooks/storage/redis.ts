@@ -0,0 +1,133 @@
+/**
+ * Redis storage for webhooks, on the shared client (see ../../storage/redis).
+ *
+ * Webhooks and deliveries are JSON strings. Pending deliveries are scheduled in a sorted
+ * set scored by next attempt time; claiming one only moves its score, so a delivery's
+ * nextAttemptAt reads as the claimed time until its attempt is written.
+ */
+
+import type { WebhookDelivery, WebhookEndpoint } from "../../../types/webhooks";
+import { REDIS_KEY_PREFIX, type RedisClient } from "../../storage/redis";
+import type { WebhookStorage } from "./types";
+
+const keys = {
+  webhook: (webhookId: string) => `${REDIS_KEY_PREFIX}webhook:${webhookId}`,
+  webhookDeliveries: (webhookId: string) => `${REDIS_KEY_PREFIX}webhook:${webhookId}:deliveries`,
+  ownerWebhooks: (ownerAddress: string) => `${REDIS_KEY_PREFIX}owner:${ownerAddress}:webhooks`,
+  linkWebhooks: (paymentId: string) => `${REDIS_KEY_PREFIX}link:${paymentId}:webhooks`,
+  delivery: (deliveryId: string) => `${REDIS_KEY_PREFIX}delivery:${deliveryId}`,
+  dueDeliveries: () => `${REDIS_KEY_PREFIX}deliveries-due`,
+};
+
+// Moves a due delivery's score to the lease end; fails if it is not due (or not pending)
+const CLAIM_DELIVERY_SCRIPT = `
+  local score = redis.call('ZSCORE', KEYS[1], ARGV[1])
+  if not score or tonumber(score) > tonumber(ARGV[2]) then return 0 end
+  redis.call('ZADD', KEYS[1], ARGV[3], ARGV[1])
+  return 1
+`;
+
+export function createRedisWebhookStorage(redis: RedisClient): WebhookStorage {
+  const getJson = async <T>(key: string): Promise<T | null> => {
+    const raw = await redis.get(key);
+    return raw ? (JSON.parse(raw) as T) : null;
+  };
+
+  const getJsonList = async <T>(rawKeys: string[]): Promise<T[]> => {
+    if (rawKeys.length === 0) return [];
+    const raw = await redis.mget(rawKeys);
+    return raw.filter((value): value is string => Boolean(value)).map((value) => JSON.parse(value));
+  };
+
+  const deleteWebhook = async (webhookId: string) => {
+    const webhook = await getJson<WebhookEndpoint>(keys.webhook(webhookId));
+    const deliveryIds = await redis.zrange(keys.webhookDeliveries(webhookId), 0, -1);
+    const tx = redis.multi().del(keys.webhook(webhookId), keys.webhookDeliveries(webhookId));
+    if (deliveryIds.length > 0) {
+      tx.del(...deliveryIds.map(keys.delivery)).zrem(keys.dueDeliveries(), ...deliveryIds);
+    }
+    if (webhook) {
+      tx.zrem(keys.ownerWebhooks(webhook.ownerAddress), webhookId);
+      if (webhook.paymentId) tx.srem(keys.linkWebhooks(webhook.paymentId), webhookId);
+    }
+    await tx.exec();
+  };
+
+  const scheduleDelivery = (tx: ReturnType<RedisClient["multi"]>, delivery: WebhookDelivery) => {
+    if (delivery.status === "pending" && delivery.nextAttemptAt !== undefined) {
+      tx.zadd(keys.dueDeliveries(), delivery.nextAttemptAt, delivery.id);
+    } else {
+      tx.zrem(keys.dueDeliveries(), delivery.id);
+    }
+  };
+
+  return {
+    async insertWebhook(webhook) {
+      const tx = redis
+        .multi()
+        .set(keys.webhook(webhook.id), JSON.stringify(webhook))
+        .zadd(keys.ownerWebhooks(webhook.ownerAddress), webhook.createdAt, webhook.id);
+      if (webhook.paymentId) tx.sadd(keys.linkWebhooks(webhook.paymentId), webhook.id);
+      await tx.exec();
+    },
+
+    getWebhook(webhookId) {
+      return getJson<WebhookEndpoint>(keys.webhook(webhookId));
+    },
+
+    async listWebhooksByOwner(ownerAddress) {
+      const webhookIds = await redis.zrevrange(keys.ownerWebhooks(ownerAddress), 0, -1);
+      return getJsonList<WebhookEndpoint>(webhookIds.map(keys.webhook));
+    },
+
+    deleteWebhook,
+
+    async deleteWebhooksForLink(paymentId) {
+      for (const webhookId of await redis.smembers(keys.linkWebhooks(paymentId))) {
+        await deleteWebhook(webhookId);
+      }
+      await redis.del(keys.linkWebhooks(paymentId));
+    },
+
+    async insertDelivery(delivery) {
+      const tx = redis
+        .multi()
+        .set(keys.delivery(delivery.id), JSON.stringify(delivery))
+        .zadd(keys.webhookDeliveries(delivery.webhookId), delivery.createdAt, delivery.id);
+      scheduleDelivery(tx, delivery);
+      await tx.exec();
+    },
+
+    getDelivery(deliveryId) {
+      return getJson<WebhookDelivery>(keys.delivery(deliveryId));
+    },
+
+    async updateDelivery(delivery) {
+      if (!(await redis.exists(keys.delivery(delivery.id)))) return;
+      const tx = redis.multi().set(keys.delivery(delivery.id), JSON.stringify(delivery));
+      scheduleDelivery(tx, delivery);
+      await tx.exec();
+    },
+
+    async listDeliveries(webhookId, limit) {
+      const deliveryIds = await redis.zrevrange(keys.webhookDeliveries(webhookId), 0, limit - 1);
+      return getJsonList<WebhookDelivery>(deliveryIds.map(keys.delivery));
+    },
+
+    listDueDeliveries(now, limit) {
+      return redis.zrangebyscore(keys.dueDeliveries(), 0, now, "LIMIT", 0, limit);
+    },
+
+    async claimDelivery(deliveryId, now, leaseUntil) {
+      const claimed = await redis.eval(
+        CLAIM_DELIVERY_SCRIPT,
+        1,
+        keys.dueDeliveries(),
+        deliveryId,
+        now,
+        leaseUntil
+      );
+      return Number(claimed) === 1;
+    },
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Row mapping for webhook endpoints and deliveries in the SQL adapters.
+ */
+
+import type { WebhookDelivery, WebhookEndpoint } from "../../../types/webhooks";
+import { optionalNumber, type Numeric } from "../../storage/rows";
+
+export type WebhookEndpointRow = {
+  id: string;
+  owner_address: string;
+  payment_id: string | null;
+  url: string;
+  secret: string;
+  created_at: Numeric;
+};
+
+export type WebhookDeliveryRow = {
+  id: string;
+  webhook_id: string;
+  event_id: string;
+  event_type: WebhookDelivery["eventType"];
+  payload: string;
+  status: WebhookDelivery["status"];
+  attempts: Numeric;
+  next_attempt_at: Numeric | null;
+  last_attempt_at: Numeric | null;
+  response_status: Numeric | null;
+  last_error: string | null;
+  created_at: Numeric;
+};
+
+export function toWebhook(row: WebhookEndpointRow): WebhookEndpoint {
+  return {
+    id: row.id,
+    ownerAddress: row.owner_address,
+    paymentId: row.payment_id ?? undefined,
+    url: row.url,
+    secret: row.secret,
+    createdAt: Number(row.created_at),
+  };
+}
+
+export function toDelivery(row: WebhookDeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    webhookId: row.webhook_id,
+    eventId: row.event_id,
+    eventType: row.event_type,
+    payload: row.payload,
+    status: row.status,
+    attempts: Number(row.attempts),
+    nextAttemptAt: optionalNumber(row.next_attempt_at),
+    lastAttemptAt: optionalNumber(row.last_attempt_at),
+    responseStatus: optionalNumber(row.response_status),
+    lastError: row.last_error ?? undefined,
+    createdAt: Number(row.created_at),
+  };
+}
+
+/** Column order used by INSERT statements in both SQL adapters */
+export const WEBHOOK_COLUMNS = [
+  "id",
+  "owner_address",
+  "payment_id",
+  "url",
+  "secret",
+  "created_at",
+] as const;
+
+export function webhookValues(webhook: WebhookEndpoint): unknown[] {
+  return [
+    webhook.id,
+    webhook.ownerAddress,
+    webhook.paymentId ?? null,
+    webhook.url,
+    webhook.secret,
+    webhook.createdAt,
+  ];
+}
+
+export const DELIVERY_COLUMNS = [
+  "id",
+  "webhook_id",
+  "event_id",
+  "event_type",
+  "payload",
+  "status",
+  "attempts",
+  "next_attempt_at",
+  "last_attempt_at",
+  "response_status",
+  "last_error",
+  "created_at",
+] as const;
+
+export function deliveryValues(delivery: WebhookDelivery): unknown[] {
+  return [
+    delivery.id,
+    delivery.webhookId,
+    delivery.eventId,
+    delivery.eventType,
+    delivery.payload,
+    delivery.status,
+    delivery.attempts,
+    delivery.nextAttemptAt ?? null,
+    delivery.lastAttemptAt ?? null,
+    delivery.responseStatus ?? null,
+    delivery.lastError ?? null,
+    delivery.createdAt,
+  ];
+}
+
+/** Columns an attempt changes, in the order of deliveryOutcomeValues */
+export const DELIVERY_OUTCOME_COLUMNS = [
+  "status",
+  "attempts",
+  "next_attempt_at",
+  "last_attempt_at",
+  "response_status",
+  "last_error",
+] as const;
+
+export function deliveryOutcomeValues(delivery: WebhookDelivery): unknown[] {
+  return [
+    delivery.status,
+    delivery.attempts,
+    delivery.nextAttemptAt ?? null,
+    delivery.lastAttemptAt ?? null,
+    delivery.responseStatus ?? null,
+    delivery.lastError ?? null,
+  ];
+}
@@ -0,0 +1,122 @@
+/**
+ * SQLite storage for webhooks, on the shared database (see ../../storage/sqlite).
+ */
+
+import { sqlitePlaceholders, type SqliteDatabase } from "../../storage/sqlite";
+import type { WebhookStorage } from "./types";
+import {
+  DELIVERY_COLUMNS,
+  DELIVERY_OUTCOME_COLUMNS,
+  WEBHOOK_COLUMNS,
+  deliveryOutcomeValues,
+  deliveryValues,
+  toDelivery,
+  toWebhook,
+  webhookValues,
+  type WebhookDeliveryRow,
+  type WebhookEndpointRow,
+} from "./rows";
+
+export function createSqliteWebhookStorage(db: SqliteDatabase): WebhookStorage {
+  const statements = {
+    insertWebhook: db.prepare(
+      `INSERT INTO webhook_endpoints (${WEBHOOK_COLUMNS.join(", ")})
+       VALUES (${sqlitePlaceholders(WEBHOOK_COLUMNS.length)})`
+    ),
+    getWebhook: db.prepare("SELECT * FROM webhook_endpoints WHERE id = ?"),
+    listWebhooksByOwner: db.prepare(
+      "SELECT * FROM webhook_endpoints WHERE owner_address = ? ORDER BY created_at DESC, id DESC"
+    ),
+    deleteWebhook: db.prepare("DELETE FROM webhook_endpoints WHERE id = ?"),
+    deleteDeliveriesForWebhook: db.prepare("DELETE FROM webhook_deliveries WHERE webhook_id = ?"),
+    deleteDeliveriesForLink: db.prepare(
+      `DELETE FROM webhook_deliveries
+       WHERE webhook_id IN (SELECT id FROM webhook_endpoints WHERE payment_id = ?)`
+    ),
+    deleteWebhooksForLink: db.prepare("DELETE FROM webhook_endpoints WHERE payment_id = ?"),
+    insertDelivery: db.prepare(
+      `INSERT INTO webhook_deliveries (${DELIVERY_COLUMNS.join(", ")})
+       VALUES (${sqlitePlaceholders(DELIVERY_COLUMNS.length)})`
+    ),
+    getDelivery: db.prepare("SELECT * FROM webhook_deliveries WHERE id = ?"),
+    updateDelivery: db.prepare(
+      `UPDATE webhook_deliveries
+       SET ${DELIVERY_OUTCOME_COLUMNS.map((column) => `${column} = ?`).join(", ")}
+       WHERE id = ?`
+    ),
+    listDeliveries: db.prepare(
+      `SELECT * FROM webhook_deliveries WHERE webhook_id = ?
+       ORDER BY created_at DESC, id DESC LIMIT ?`
+    ),
+    listDueDeliveries: db.prepare(
+      `SELECT id FROM webhook_deliveries
+       WHERE status = 'pending' AND next_attempt_at <= ?
+       ORDER BY next_attempt_at LIMIT ?`
+    ),
+    claimDelivery: db.prepare(
+      `UPDATE webhook_deliveries SET next_attempt_at = ?
+       WHERE id = ? AND status = 'pending' AND next_attempt_at <= ?`
+    ),
+  };
+
+  const deleteWebhookWithDeliveries = db.transaction((webhookId: string) => {
+    statements.deleteDeliveriesForWebhook.run(webhookId);
+    statements.deleteWebhook.run(webhookId);
+  });
+
+  const deleteLinkWebhooks = db.transaction((paymentId: string) => {
+    statements.deleteDeliveriesForLink.run(paymentId);
+    statements.deleteWebhooksForLink.run(paymentId);
+  });
+
+  return {
+    async insertWebhook(webhook) {
+      statements.insertWebhook.run(...webhookValues(webhook));
+    },
+
+    async getWebhook(webhookId) {
+      const row = statements.getWebhook.get(webhookId) as WebhookEndpointRow | undefined;
+      return row ? toWebhook(row) : null;
+    },
+
+    async listWebhooksByOwner(ownerAddress) {
+      const rows = statements.listWebhooksByOwner.all(ownerAddress) as WebhookEndpointRow[];
+      return rows.map(toWebhook);
+    },
+
+    async deleteWebhook(webhookId) {
+      deleteWebhookWithDeliveries(webhookId);
+    },
+
+    async deleteWebhooksForLink(paymentId) {
+      deleteLinkWebhooks(paymentId);
+    },
+
+    async insertDelivery(delivery) {
+      statements.insertDelivery.run(...deliveryValues(delivery));
+    },
+
+    async getDelivery(deliveryId) {
+      const row = statements.getDelivery.get(deliveryId) as WebhookDeliveryRow | undefined;
+      return row ? toDelivery(row) : null;
+    },
+
+    async updateDelivery(delivery) {
+      statements.updateDelivery.run(...deliveryOutcomeValues(delivery), delivery.id);
+    },
+
+    async listDeliveries(webhookId, limit) {
+      const rows = statements.listDeliveries.all(webhookId, limit) as WebhookDeliveryRow[];
+      return rows.map(toDelivery);
+    },
+
+    async listDueDeliveries(now, limit) {
+      const rows = statements.listDueDeliveries.all(now, limit) as { id: string }[];
+      return rows.map((row) => row.id);
+    },
+
+    async claimDelivery(deliveryId, now, leaseUntil) {
+      return statements.claimDelivery.run(leaseUntil, deliveryId, now).changes > 0;
+    },
+  };
+}
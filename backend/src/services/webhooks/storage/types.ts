@@ -0,0 +1,31 @@
+import type { WebhookDelivery, WebhookEndpoint } from "../../../types/webhooks";
+
+/**
+ * Persistence adapter behind the webhooks service: endpoints and their delivery log.
+ *
+ * Claiming a delivery must be atomic in the adapter itself, as several backend
+ * instances run the retry sweeper.
+ */
+export interface WebhookStorage {
+  insertWebhook(webhook: WebhookEndpoint): Promise<void>;
+  getWebhook(webhookId: string): Promise<WebhookEndpoint | null>;
+  /** A wallet's webhooks, newest first */
+  listWebhooksByOwner(ownerAddress: string): Promise<WebhookEndpoint[]>;
+  /** Delete a webhook with its delivery log */
+  deleteWebhook(webhookId: string): Promise<void>;
+  /** Delete the webhooks registered for one link alone, with their delivery logs */
+  deleteWebhooksForLink(paymentId: string): Promise<void>;
+  insertDelivery(delivery: WebhookDelivery): Promise<void>;
+  getDelivery(deliveryId: string): Promise<WebhookDelivery | null>;
+  /** Write the outcome of an attempt (status, attempts and the last* fields) */
+  updateDelivery(delivery: WebhookDelivery): Promise<void>;
+  /** Up to `limit` of a webhook's deliveries, newest first */
+  listDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]>;
+  /** IDs of up to `limit` pending deliveries whose nextAttemptAt is at or before `now` */
+  listDueDeliveries(now: number, limit: number): Promise<string[]>;
+  /**
+   * Take a due delivery for an attempt by moving its nextAttemptAt to `leaseUntil`.
+   * Returns false if it is no longer due, e.g. another instance claimed it first.
+   */
+  claimDelivery(deliveryId: string, now: number, leaseUntil: number): Promise<boolean>;
+}
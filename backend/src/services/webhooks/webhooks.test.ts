@@ -0,0 +1,133 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, before, test } from "node:test";
+import Fastify from "fastify";
+import { createPaymentLinksRepository } from "../payment-links/repository";
+import { createMemoryPaymentLinksStorage } from "../payment-links/storage/memory";
+import { WEBHOOK_HEADERS, signWebhookPayload } from "./signature";
+import { createMemoryWebhookStorage } from "./storage/memory";
+import { createWebhooksService, retryDelayMs } from "./webhooks";
+
+const SOL_MINT = "So11111111111111111111111111111111111111112";
+const owner = "OwnerWallet1111111111111111111111111111111";
+
+let server: http.Server;
+let baseUrl: string;
+// Status the endpoint answers with next
+let nextStatus = 500;
+const received: Array<{ headers: http.IncomingHttpHeaders; body: string }> = [];
+
+before(async () => {
+  server = http.createServer((request, response) => {
+    let body = "";
+    request.on("data", (chunk) => (body += chunk));
+    request.on("end", () => {
+      received.push({ headers: request.headers, body });
+      response.statusCode = nextStatus;
+      response.end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+function createService(allowPrivateAddresses = true) {
+  const storage = createMemoryWebhookStorage();
+  const paymentLinks = createPaymentLinksRepository(createMemoryPaymentLinksStorage());
+  const webhooks = createWebhooksService({
+    storage,
+    paymentLinks,
+    log: Fastify().log,
+    allowInsecureUrls: true,
+    allowPrivateAddresses,
+  });
+  return { storage, paymentLinks, webhooks };
+}
+
+test("backs off 30s, 1m, 2m and so on between attempts, up to 4 hours", () => {
+  assert.equal(retryDelayMs(1), 30_000);
+  assert.equal(retryDelayMs(2), 60_000);
+  assert.equal(retryDelayMs(3), 120_000);
+  assert.equal(retryDelayMs(9), 7_680_000);
+  assert.equal(retryDelayMs(10), 4 * 60 * 60 * 1000);
+  assert.equal(retryDelayMs(30), 4 * 60 * 60 * 1000);
+});
+
+test("refuses endpoints on private addresses and plain http unless allowed", async () => {
+  const { webhooks } = createService(false);
+  assert.deepEqual(await webhooks.registerWebhook(owner, { url: `${baseUrl}/hook` }), {
+    success: false,
+    error: "Webhook host resolves to a private or reserved address",
+  });
+
+  const strict = createWebhooksService({
+    storage: createMemoryWebhookStorage(),
+    paymentLinks: createPaymentLinksRepository(createMemoryPaymentLinksStorage()),
+    log: Fastify().log,
+  });
+  assert.deepEqual(await strict.registerWebhook(owner, { url: "http://8.8.8.8/hook" }), {
+    success: false,
+    error: "Webhook URL must use https",
+  });
+});
+
+test("signs each attempt and schedules a retry after a failed one", async () => {
+  const { storage, paymentLinks, webhooks } = createService();
+  const registered = await webhooks.registerWebhook(owner, { url: `${baseUrl}/hook` });
+  assert.ok(registered.success);
+  const { webhook } = registered;
+
+  const link = await paymentLinks.createPaymentLink({
+    recipientAddress: owner,
+    tokenMint: SOL_MINT,
+    amountType: "fixed",
+    fixedAmount: "2000000",
+    reusable: false,
+  });
+  const record = await paymentLinks.addPaymentRecord(link.paymentId, "2000000", SOL_MINT, "tx-1");
+  assert.ok(record);
+
+  nextStatus = 500;
+  received.length = 0;
+  await webhooks.notifyPaymentCompleted(link, record);
+  let [delivery] = await storage.listDeliveries(webhook.id, 10);
+  while (delivery?.attempts !== 1) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    [delivery] = await storage.listDeliveries(webhook.id, 10);
+  }
+
+  const [{ headers, body }] = received;
+  const timestamp = headers[WEBHOOK_HEADERS.timestamp.toLowerCase()] as string;
+  assert.equal(
+    headers[WEBHOOK_HEADERS.signature.toLowerCase()],
+    signWebhookPayload(webhook.secret, timestamp, body)
+  );
+  assert.equal(headers[WEBHOOK_HEADERS.event.toLowerCase()], "payment.completed");
+  assert.equal(headers[WEBHOOK_HEADERS.delivery.toLowerCase()], delivery.id);
+  assert.equal(JSON.parse(body).data.txSignature, "tx-1");
+
+  assert.equal(delivery.status, "pending");
+  assert.equal(delivery.responseStatus, 500);
+  assert.equal(delivery.lastError, "Endpoint answered HTTP 500");
+  assert.equal(delivery.nextAttemptAt, delivery.lastAttemptAt! + retryDelayMs(1));
+});
+
+test("sends a ping once without scheduling a retry", async () => {
+  const { webhooks } = createService();
+  const registered = await webhooks.registerWebhook(owner, { url: `${baseUrl}/hook` });
+  assert.ok(registered.success);
+
+  nextStatus = 503;
+  const failed = await webhooks.sendPing(registered.webhook);
+  assert.equal(failed.status, "failed");
+  assert.equal(failed.nextAttemptAt, undefined);
+
+  nextStatus = 204;
+  assert.equal((await webhooks.sendPing(registered.webhook)).status, "succeeded");
+});
@@ -0,0 +1,370 @@
+/**
+ * Webhooks
+ *
+ * Wallets register URLs that are notified when their links are paid. Every event sent
+ * to an endpoint is a delivery in the persistent log; a failed attempt is retried with
+ * exponential backoff by the retry sweeper until it succeeds or runs out of attempts.
+ *
+ * Attempts are claimed with a lease in storage before they run, so several backend
+ * instances never send the same attempt twice, and an attempt cut short by a restart is
+ * picked up again once its lease ends.
+ *
+ * Endpoints must resolve to public addresses, checked on registration and again on
+ * every attempt (see ./destination).
+ */
+
+import { nanoid } from "nanoid";
+import type { FastifyBaseLogger } from "fastify";
+import type { PaymentLinkMetadata, PaymentRecord } from "../../types/payment-links";
+import type {
+  CreateWebhookRequest,
+  PaymentCompletedEventData,
+  PingEventData,
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEvent,
+  WebhookEventType,
+} from "../../types/webhooks";
+import type { PaymentLinksRepository } from "../payment-links/repository";
+import { checkDestination, postToDestination } from "./destination";
+import { WEBHOOK_HEADERS, createWebhookSecret, signWebhookPayload } from "./signature";
+import type { WebhookStorage } from "./storage/types";
+
+const MAX_WEBHOOKS_PER_WALLET = 10;
+const MAX_URL_LENGTH = 2048;
+const MAX_ATTEMPTS = 10;
+const RETRY_BASE_DELAY_MS = 30_000;
+const MAX_RETRY_DELAY_MS = 4 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 10_000;
+// Longer than any attempt can take (request timeout plus storage writes)
+const ATTEMPT_LEASE_MS = 60_000;
+const DUE_BATCH_SIZE = 50;
+const USER_AGENT = "GhostSend-Webhooks/1.0";
+
+/**
+ * Wait before the next attempt after `attempts` failed ones: 30s, 1m, 2m, ... up to 4h
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+function checkWebhookUrl(
+  raw: unknown,
+  allowInsecureUrls: boolean
+): { url: string } | { error: string } {
+  if (typeof raw !== "string" || !raw.trim()) return { error: "Webhook URL is required" };
+  if (raw.length > MAX_URL_LENGTH) return { error: "Webhook URL is too long" };
+
+  let url: URL;
+  try {
+    url = new URL(raw.trim());
+  } catch {
+    return { error: "Invalid webhook URL" };
+  }
+  if (url.protocol !== "https:" && !(allowInsecureUrls && url.protocol === "http:")) {
+    return { error: "Webhook URL must use https" };
+  }
+  if (url.username || url.password) return { error: "Webhook URL must not contain credentials" };
+  return { url: url.toString() };
+}
+
+function describeError(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+  // fetch reports network failures as "fetch failed" with the reason in `cause`
+  const cause = (error as Error & { cause?: unknown }).cause;
+  return cause instanceof Error ? `${error.message}: ${cause.message}` : error.message;
+}
+
+export type WebhookRegistration =
+  | { success: true; webhook: WebhookEndpoint }
+  | { success: false; error: string };
+
+export interface WebhooksServiceOptions {
+  storage: WebhookStorage;
+  /** Checks that a link-scoped webhook's link belongs to the caller */
+  paymentLinks: PaymentLinksRepository;
+  log: FastifyBaseLogger;
+  /** Accept http:// endpoints (local development only) */
+  allowInsecureUrls?: boolean;
+  /** Accept endpoints on private and loopback addresses (local development only) */
+  allowPrivateAddresses?: boolean;
+}
+
+export interface WebhooksService {
+  /** Register an endpoint for all of the owner's links, or one link they own */
+  registerWebhook(
+    ownerAddress: string,
+    request: CreateWebhookRequest
+  ): Promise<WebhookRegistration>;
+  getWebhook(webhookId: string): Promise<WebhookEndpoint | null>;
+  /** The owner's webhooks, newest first */
+  listWebhooks(ownerAddress: string): Promise<WebhookEndpoint[]>;
+  /** Remove a webhook with its delivery log; pending retries are dropped */
+  deleteWebhook(webhookId: string): Promise<void>;
+  /** Remove the webhooks registered for one link alone, e.g. when it is purged */
+  deleteLinkWebhooks(paymentId: string): Promise<void>;
+  getDelivery(deliveryId: string): Promise<WebhookDelivery | null>;
+  /** Latest deliveries of a webhook, newest first */
+  listDeliveries(webhookId: string, limit: number): Promise<WebhookDelivery[]>;
+  /**
+   * Queue payment.completed for every webhook covering the link and make the first
+   * attempts in the background. Never throws, so a payment is not failed by its
+   * notification.
+   */
+  notifyPaymentCompleted(link: PaymentLinkMetadata, record: PaymentRecord): Promise<void>;
+  /** Send a ping event once (no retries) and return the outcome */
+  sendPing(webhook: WebhookEndpoint): Promise<WebhookDelivery>;
+  /**
+   * Send a delivery's event again as a new delivery with the same event ID. Failures
+   * are retried like any other event.
+   */
+  redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery>;
+  /** Attempt deliveries whose retry is due; returns how many were attempted */
+  deliverDue(): Promise<number>;
+}
+
+export function createWebhooksService({
+  storage,
+  paymentLinks,
+  log,
+  allowInsecureUrls = false,
+  allowPrivateAddresses = false,
+}: WebhooksServiceOptions): WebhooksService {
+  /**
+   * POST the delivery's payload once and write the outcome. Failed events are
+   * rescheduled while attempts remain; pings are not retried.
+   */
+  const attempt = async (
+    webhook: WebhookEndpoint,
+    delivery: WebhookDelivery
+  ): Promise<WebhookDelivery> => {
+    const attemptedAt = Date.now();
+    const timestamp = String(Math.floor(attemptedAt / 1000));
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+
+    // A redirect is a failed attempt; the signed request is not re-sent elsewhere
+    const outcome = await postToDestination(webhook.url, {
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": USER_AGENT,
+        [WEBHOOK_HEADERS.event]: delivery.eventType,
+        [WEBHOOK_HEADERS.delivery]: delivery.id,
+        [WEBHOOK_HEADERS.timestamp]: timestamp,
+        [WEBHOOK_HEADERS.signature]: signWebhookPayload(
+          webhook.secret,
+          timestamp,
+          delivery.payload
+        ),
+      },
+      body: delivery.payload,
+      timeoutMs: REQUEST_TIMEOUT_MS,
+      allowPrivateAddresses,
+    });
+    if ("error" in outcome) {
+      error = outcome.error;
+    } else {
+      responseStatus = outcome.status;
+      if (outcome.status < 200 || outcome.status >= 300) {
+        error = `Endpoint answered HTTP ${outcome.status}`;
+      }
+    }
+
+    const attempts = delivery.attempts + 1;
+    const retrying = Boolean(error) && delivery.eventType !== "ping" && attempts < MAX_ATTEMPTS;
+    const updated: WebhookDelivery = {
+      ...delivery,
+      status: !error ? "succeeded" : retrying ? "pending" : "failed",
+      attempts,
+      nextAttemptAt: retrying ? attemptedAt + retryDelayMs(attempts) : undefined,
+      lastAttemptAt: attemptedAt,
+      responseStatus,
+      lastError: error,
+    };
+    await storage.updateDelivery(updated);
+
+    if (error) {
+      log.warn({
+        msg: "Webhook delivery failed",
+        webhookId: webhook.id,
+        deliveryId: delivery.id,
+        attempts,
+        error,
+      });
+    }
+    return updated;
+  };
+
+  /**
+   * Log a new delivery, already leased so the retry sweeper leaves it to the caller's
+   * first attempt.
+   */
+  const startDelivery = async (
+    webhook: WebhookEndpoint,
+    eventId: string,
+    eventType: WebhookEventType,
+    payload: string
+  ): Promise<WebhookDelivery> => {
+    const now = Date.now();
+    const delivery: WebhookDelivery = {
+      id: nanoid(12),
+      webhookId: webhook.id,
+      eventId,
+      eventType,
+      payload,
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: now + ATTEMPT_LEASE_MS,
+      createdAt: now,
+    };
+    await storage.insertDelivery(delivery);
+    return delivery;
+  };
+
+  const createEvent = <T>(type: WebhookEventType, data: T): WebhookEvent<T> => ({
+    id: nanoid(12),
+    type,
+    createdAt: Date.now(),
+    data,
+  });
+
+  return {
+    async registerWebhook(ownerAddress, request) {
+      const checked = checkWebhookUrl(request?.url, allowInsecureUrls);
+      if ("error" in checked) return { success: false, error: checked.error };
+      if (!allowPrivateAddresses) {
+        const destination = await checkDestination(new URL(checked.url));
+        if ("error" in destination) return { success: false, error: destination.error };
+      }
+
+      const paymentId = request.paymentId || undefined;
+      if (paymentId !== undefined) {
+        const link =
+          typeof paymentId === "string" ? await paymentLinks.getPaymentLink(paymentId) : null;
+        if (!link || link.recipientAddress !== ownerAddress) {
+          return { success: false, error: "Payment link not found" };
+        }
+      }
+
+      const existing = await storage.listWebhooksByOwner(ownerAddress);
+      if (existing.length >= MAX_WEBHOOKS_PER_WALLET) {
+        return {
+          success: false,
+          error: `A wallet can register at most ${MAX_WEBHOOKS_PER_WALLET} webhooks`,
+        };
+      }
+
+      const webhook: WebhookEndpoint = {
+        id: nanoid(12),
+        ownerAddress,
+        paymentId,
+        url: checked.url,
+        secret: createWebhookSecret(),
+        createdAt: Date.now(),
+      };
+      await storage.insertWebhook(webhook);
+      return { success: true, webhook };
+    },
+
+    getWebhook(webhookId) {
+      return storage.getWebhook(webhookId);
+    },
+
+    listWebhooks(ownerAddress) {
+      return storage.listWebhooksByOwner(ownerAddress);
+    },
+
+    deleteWebhook(webhookId) {
+      return storage.deleteWebhook(webhookId);
+    },
+
+    deleteLinkWebhooks(paymentId) {
+      return storage.deleteWebhooksForLink(paymentId);
+    },
+
+    getDelivery(deliveryId) {
+      return storage.getDelivery(deliveryId);
+    },
+
+    listDeliveries(webhookId, limit) {
+      return storage.listDeliveries(webhookId, limit);
+    },
+
+    async notifyPaymentCompleted(link, record) {
+      try {
+        const webhooks = (await storage.listWebhooksByOwner(link.recipientAddress)).filter(
+          (webhook) => !webhook.paymentId || webhook.paymentId === link.paymentId
+        );
+        if (webhooks.length === 0) return;
+
+        const event = createEvent<PaymentCompletedEventData>("payment.completed", {
+          paymentId: link.paymentId,
+          label: link.label,
+          recordId: record.id,
+          tokenMint: record.tokenMint,
+          amount: record.amount,
+          txSignature: record.txSignature,
+          completedAt: record.completedAt,
+          orderId: record.orderId,
+          metadata: record.metadata,
+        });
+        const payload = JSON.stringify(event);
+
+        for (const webhook of webhooks) {
+          const delivery = await startDelivery(webhook, event.id, event.type, payload);
+          // Not awaited: the payer's request should not wait on the merchant's endpoint
+          void attempt(webhook, delivery).catch((error) => {
+            log.error({
+              msg: "Error delivering webhook",
+              deliveryId: delivery.id,
+              error: describeError(error),
+            });
+          });
+        }
+      } catch (error) {
+        log.error({
+          msg: "Error queueing payment webhooks",
+          paymentId: link.paymentId,
+          error: describeError(error),
+        });
+      }
+    },
+
+    async sendPing(webhook) {
+      const event = createEvent<PingEventData>("ping", { webhookId: webhook.id });
+      const delivery = await startDelivery(webhook, event.id, event.type, JSON.stringify(event));
+      return attempt(webhook, delivery);
+    },
+
+    async redeliver(delivery) {
+      const webhook = await storage.getWebhook(delivery.webhookId);
+      if (!webhook) throw new Error("Webhook not found");
+      const redelivery = await startDelivery(
+        webhook,
+        delivery.eventId,
+        delivery.eventType,
+        delivery.payload
+      );
+      return attempt(webhook, redelivery);
+    },
+
+    async deliverDue() {
+      const now = Date.now();
+      const deliveryIds = await storage.listDueDeliveries(now, DUE_BATCH_SIZE);
+
+      const attempted = await Promise.all(
+        deliveryIds.map(async (deliveryId) => {
+          if (!(await storage.claimDelivery(deliveryId, now, now + ATTEMPT_LEASE_MS))) {
+            return false;
+          }
+          const delivery = await storage.getDelivery(deliveryId);
+          const webhook = delivery && (await storage.getWebhook(delivery.webhookId));
+          if (!delivery || !webhook) return false;
+          await attempt(webhook, delivery);
+          return true;
+        })
+      );
+      return attempted.filter(Boolean).length;
+    },
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Withdraw Idempotency-Keys
+ *
+ * A key is claimed for a request fingerprint before the request is validated, then
+ * bound to the job it queued. Keys are kept in storage, so a retry sent to another
+ * instance or after a restart still finds the original job ID.
+ */
+
+import type { FastifyBaseLogger } from "fastify";
+import type { WithdrawStorage } from "./storage/types";
+
+// Long enough for a request to be validated; a claim older than this was abandoned
+const CLAIM_TTL_MS = 60_000;
+const KEY_TTL_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Outcome of claiming an Idempotency-Key before validating a withdraw request
+ */
+export type IdempotencyClaim =
+  | { status: "claimed" }
+  | { status: "in_progress" }
+  | { status: "mismatch" }
+  | { status: "accepted"; jobId: string };
+
+interface IdempotencyKeysOptions {
+  storage: WithdrawStorage;
+  log: FastifyBaseLogger;
+}
+
+export function createIdempotencyKeys({ storage, log }: IdempotencyKeysOptions) {
+  const logFailure = (msg: string, key: string) => (error: unknown) => {
+    log.warn({ msg, key, error: error instanceof Error ? error.message : String(error) });
+  };
+
+  return {
+    /**
+     * Reserve a key for a request. A key that already queued a job resolves to that job
+     * for 24 hours.
+     */
+    async claim(key: string, fingerprint: string): Promise<IdempotencyClaim> {
+      const now = Date.now();
+      const existing = await storage.claimIdempotencyKey(key, fingerprint, now + CLAIM_TTL_MS, now);
+      if (!existing) return { status: "claimed" };
+      if (existing.fingerprint !== fingerprint) return { status: "mismatch" };
+      if (!existing.jobId) return { status: "in_progress" };
+      return { status: "accepted", jobId: existing.jobId };
+    },
+
+    /**
+     * Point a claimed key at the job its request queued. Never throws: the job is
+     * already queued, and an unbound claim lapses after a minute.
+     */
+    async bind(key: string, jobId: string): Promise<void> {
+      await storage
+        .bindIdempotencyKey(key, jobId, Date.now() + KEY_TTL_MS)
+        .catch(logFailure("[idempotency] failed to bind key", key));
+    },
+
+    /**
+     * Drop a claimed key whose request was rejected before a job was queued, so the
+     * client can retry with it. Never throws, like bind.
+     */
+    async release(key: string): Promise<void> {
+      await storage
+        .releaseIdempotencyKey(key)
+        .catch(logFailure("[idempotency] failed to release key", key));
+    },
+  };
+}
+
+export type IdempotencyKeys = ReturnType<typeof createIdempotencyKeys>;
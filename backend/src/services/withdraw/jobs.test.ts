@@ -0,0 +1,251 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import Fastify from "fastify";
+import { codedError } from "../../types/errors";
+import type { WithdrawJobEvent, WithdrawJobInfo } from "../../types/withdraw";
+import { createWithdrawJobQueue, type WithdrawJobTask } from "./jobs";
+import { createMemoryWithdrawStorage } from "./storage/memory";
+
+const result = { isPartial: false, amount_in_lamports: "1000", fee_in_lamports: "5" };
+
+const createQueue = (concurrency = 1, maxQueued = 10, storage = createMemoryWithdrawStorage()) =>
+  createWithdrawJobQueue({
+    concurrency,
+    maxQueued,
+    retentionMs: 60_000,
+    storage,
+    log: Fastify().log,
+  });
+
+/** A task that runs until the test settles it */
+function controlledTask() {
+  let settle!: { resolve: () => void; reject: (error: unknown) => void };
+  const done = new Promise<void>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+  const task: WithdrawJobTask = async () => {
+    await done;
+    return { tx: "tx-1", result };
+  };
+  return { task, ...settle };
+}
+
+/** The job once it has reached one of the given stages */
+async function waitForStage(
+  queue: ReturnType<typeof createQueue>,
+  jobId: string,
+  stages: WithdrawJobInfo["stage"][]
+): Promise<WithdrawJobInfo> {
+  for (;;) {
+    const job = queue.get(jobId);
+    if (job && stages.includes(job.stage)) return job;
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+/** The job as found through storage once it has reached a stage */
+async function waitForStoredStage(
+  queue: ReturnType<typeof createQueue>,
+  jobId: string,
+  stage: WithdrawJobInfo["stage"]
+): Promise<WithdrawJobInfo> {
+  for (;;) {
+    const job = await queue.find(jobId);
+    if (job?.stage === stage) return job;
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+}
+
+test("runs a queued job to confirmed with its transaction and result", async () => {
+  const queue = createQueue();
+  const job = queue.enqueue("sol", "link-1", async () => ({ tx: "tx-1", result }));
+  assert.equal(job?.stage, "queued");
+
+  const done = await waitForStage(queue, job!.id, ["confirmed", "failed"]);
+  assert.equal(done.stage, "confirmed");
+  assert.equal(done.tx, "tx-1");
+  assert.deepEqual(done.result, result);
+  queue.stop();
+});
+
+test("fails a job with its task's error code, or WITHDRAW_FAILED without one", async () => {
+  const queue = createQueue(2);
+  const coded = queue.enqueue("sol", "link-1", async () => {
+    throw codedError("LINK_INACTIVE", "Payment link is not active");
+  });
+  const uncoded = queue.enqueue("spl", "link-1", async () => {
+    throw new Error("Proof failed");
+  });
+
+  const codedJob = await waitForStage(queue, coded!.id, ["failed"]);
+  assert.equal(codedJob.errorCode, "LINK_INACTIVE");
+  assert.equal(codedJob.error, "Payment link is not active");
+  const uncodedJob = await waitForStage(queue, uncoded!.id, ["failed"]);
+  assert.equal(uncodedJob.errorCode, "WITHDRAW_FAILED");
+  assert.equal(uncodedJob.error, "Proof failed");
+  queue.stop();
+});
+
+test("advances a running job's stage from SDK log lines", async () => {
+  const queue = createQueue();
+  const { task, resolve } = controlledTask();
+  const job = queue.enqueue("sol", "link-1", task)!;
+
+  queue.handleSdkLog(job.id, "info", "Fetching existing UTXOs...");
+  assert.equal(queue.get(job.id)?.stage, "syncing_utxos");
+  queue.handleSdkLog(job.id, "info", "Generating ZK proof...");
+  assert.equal(queue.get(job.id)?.stage, "proving");
+  queue.handleSdkLog(job.id, "info", "unrelated line");
+  assert.equal(queue.get(job.id)?.stage, "proving");
+
+  resolve();
+  await waitForStage(queue, job.id, ["confirmed"]);
+  // Lines that arrive after the job ended change nothing
+  queue.handleSdkLog(job.id, "info", "Submitting transaction to relayer...");
+  assert.equal(queue.get(job.id)?.stage, "confirmed");
+  assert.equal(queue.get("unknown-job"), null);
+  queue.stop();
+});
+
+test("replays a job's buffered events to a late subscriber, then streams new ones", async () => {
+  const queue = createQueue();
+  const { task, resolve } = controlledTask();
+  const job = queue.enqueue("sol", "link-1", task)!;
+  queue.handleSdkLog(job.id, "info", "Generating ZK proof...");
+  queue.handleSdkLog(job.id, "debug", "not relayed");
+  queue.log(job.id, "info", "Still running... 15s elapsed");
+
+  const events: WithdrawJobEvent[] = [];
+  const unsubscribe = queue.subscribe(job.id, (event) => events.push(event));
+  assert.ok(unsubscribe);
+  assert.deepEqual(
+    events.map((event) => (event.type === "stage" ? event.stage : event.message)),
+    ["queued", "Generating ZK proof...", "proving", "Still running... 15s elapsed"]
+  );
+
+  resolve();
+  await waitForStage(queue, job.id, ["confirmed"]);
+  const last = events[events.length - 1];
+  assert.ok(last.type === "stage");
+  assert.equal(last.stage, "confirmed");
+  assert.equal(last.job.tx, "tx-1");
+
+  unsubscribe();
+  queue.log(job.id, "info", "after unsubscribing");
+  assert.equal(events.length, 5);
+  assert.equal(
+    queue.subscribe("unknown-job", () => {}),
+    null
+  );
+  queue.stop();
+});
+
+test("refuses a job once every slot is busy and the queue is full", async () => {
+  const queue = createQueue(1, 1);
+  const running = controlledTask();
+  const queued = controlledTask();
+  const first = queue.enqueue("sol", "link-1", running.task)!;
+  const second = queue.enqueue("sol", "link-2", queued.task)!;
+
+  // The route answers 503 PROVER_BUSY with Retry-After for this
+  assert.equal(
+    queue.enqueue("sol", "link-3", async () => ({ tx: "tx-3", result })),
+    null
+  );
+
+  running.resolve();
+  await waitForStage(queue, first.id, ["confirmed"]);
+  assert.ok(queue.enqueue("sol", "link-3", async () => ({ tx: "tx-3", result })));
+  queued.resolve();
+  await waitForStage(queue, second.id, ["confirmed"]);
+  queue.stop();
+});
+
+test("ends an overdue submitting job unconfirmed unless it was rejected with a code", async () => {
+  const queue = createQueue(2);
+  const lost = controlledTask();
+  const rejected = controlledTask();
+  const lostJob = queue.enqueue("sol", "link-1", lost.task)!;
+  const rejectedJob = queue.enqueue("sol", "link-2", rejected.task)!;
+  for (const job of [lostJob, rejectedJob]) {
+    assert.equal(queue.canCancel(job.id), true);
+    queue.handleSdkLog(job.id, "info", "Submitting transaction to relayer...");
+    assert.equal(queue.canCancel(job.id), false);
+    queue.markOverdue(job.id);
+  }
+
+  const timeout = new Error("Withdraw stopped 600000ms after its timeout");
+  assert.equal(queue.isUnconfirmed(lostJob.id, timeout), true);
+  lost.reject(timeout);
+  const unconfirmed = await waitForStage(queue, lostJob.id, ["unconfirmed", "failed"]);
+  assert.equal(unconfirmed.stage, "unconfirmed");
+  assert.equal(unconfirmed.errorCode, "WITHDRAW_UNCONFIRMED");
+
+  rejected.reject(codedError("LINK_INACTIVE", "Payment link is not active"));
+  const failed = await waitForStage(queue, rejectedJob.id, ["unconfirmed", "failed"]);
+  assert.equal(failed.stage, "failed");
+  assert.equal(failed.errorCode, "LINK_INACTIVE");
+  queue.stop();
+});
+
+test("finds a job another instance ran through storage", async () => {
+  const storage = createMemoryWithdrawStorage();
+  const [running, other] = [createQueue(1, 10, storage), createQueue(1, 10, storage)];
+  const { task, resolve } = controlledTask();
+  const job = running.enqueue("sol", "link-1", task)!;
+  running.handleSdkLog(job.id, "info", "Generating ZK proof...");
+
+  // Saves are asynchronous; wait until the other instance sees each stage
+  await waitForStoredStage(other, job.id, "proving");
+  assert.equal(other.get(job.id), null);
+
+  resolve();
+  await waitForStage(running, job.id, ["confirmed"]);
+  await waitForStoredStage(other, job.id, "confirmed");
+  assert.equal((await other.find(job.id))?.tx, "tx-1");
+  assert.equal(await other.find("unknown-job"), null);
+  running.stop();
+  other.stop();
+});
+
+test("reports a stored job whose lease lapsed by the stage it was lost in", async () => {
+  const storage = createMemoryWithdrawStorage();
+  const queue = createQueue(1, 10, storage);
+  const now = Date.now();
+  const lost = (id: string, stage: WithdrawJobInfo["stage"]): WithdrawJobInfo => ({
+    id,
+    kind: "sol",
+    paymentId: "link-1",
+    stage,
+    createdAt: now,
+    updatedAt: now,
+  });
+  await storage.saveJob(lost("proving", "proving"), now - 1, now + 60_000);
+  await storage.saveJob(lost("submitting", "submitting"), now - 1, now + 60_000);
+  await storage.saveJob(lost("leased", "submitting"), now + 60_000, now + 60_000);
+
+  const proving = await queue.find("proving");
+  assert.equal(proving?.stage, "failed");
+  assert.equal(proving?.errorCode, "WITHDRAW_FAILED");
+  const submitting = await queue.find("submitting");
+  assert.equal(submitting?.stage, "unconfirmed");
+  assert.equal(submitting?.errorCode, "WITHDRAW_UNCONFIRMED");
+  // Still renewed by the instance running it
+  assert.equal((await queue.find("leased"))?.stage, "submitting");
+  queue.stop();
+});
+
+test("ends a job unconfirmed on any failure once its transaction was submitted", async () => {
+  const queue = createQueue();
+  const job = queue.enqueue("sol", "link-1", async (jobId) => {
+    queue.markSubmitted(jobId, "tx-mismatch");
+    throw codedError("AMOUNT_MISMATCH", "Withdrawal amount does not match payment link");
+  })!;
+
+  const done = await waitForStage(queue, job.id, ["unconfirmed", "failed"]);
+  assert.equal(done.stage, "unconfirmed");
+  assert.equal(done.errorCode, "WITHDRAW_UNCONFIRMED");
+  assert.equal(done.tx, "tx-mismatch");
+  assert.match(done.error ?? "", /tx-mismatch was submitted.*does not match/);
+  queue.stop();
+});
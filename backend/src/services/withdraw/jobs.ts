@@ -0,0 +1,349 @@
+/**
+ * Withdraw Job Queue
+ *
+ * Runs withdraw proofs in the background so the HTTP request can return a job ID
+ * immediately. Jobs run and stream their events in this process; a snapshot of each job
+ * is saved to storage on every stage change, so a poll or an Idempotency-Key replay on
+ * another instance or after a restart still finds its stage and result. A running job
+ * holds a lease in storage that this process renews; a job whose lease lapsed was lost
+ * with its instance and reads as `failed`, or `unconfirmed` if it was submitting.
+ *
+ * A job whose transaction may have reached the chain (the relayer accepted it, or it
+ * outlived its timeout while submitting) ends `unconfirmed` instead of `failed` when it
+ * then fails without an error code, so its payment is reconciled instead of retried. A
+ * job whose transaction was submitted ends `unconfirmed` on any failure, coded or not.
+ */
+
+import { EventEmitter } from "events";
+import { nanoid } from "nanoid";
+import type { FastifyBaseLogger } from "fastify";
+import { isErrorCode } from "../../types/errors";
+import type {
+  WithdrawJobEvent,
+  WithdrawJobInfo,
+  WithdrawJobKind,
+  WithdrawJobLogLevel,
+  WithdrawJobStage,
+  WithdrawResult,
+  WithdrawSplResult,
+} from "../../types/withdraw";
+import type { WithdrawStorage } from "./storage/types";
+
+export type WithdrawJobTask = (jobId: string) => Promise<{
+  tx: string;
+  result: WithdrawResult | WithdrawSplResult;
+}>;
+
+interface WithdrawJobQueueOptions {
+  /** Number of proofs allowed to run at the same time */
+  concurrency: number;
+  /** Jobs allowed to wait for a free slot before enqueue refuses new ones */
+  maxQueued: number;
+  /** How long finished jobs stay in memory for subscribers; storage keeps them longer */
+  retentionMs: number;
+  storage: WithdrawStorage;
+  log: FastifyBaseLogger;
+}
+
+/**
+ * SDK log lines that mark the start of a stage (see privacycash withdraw.ts / withdrawSPL.ts)
+ */
+const STAGE_MARKERS: Array<[RegExp, WithdrawJobStage]> = [
+  [/fetching existing utxos/i, "syncing_utxos"],
+  [/generating zk proof/i, "proving"],
+  [/submitting transaction to relayer/i, "submitting"],
+];
+
+/** Logged once the relayer has accepted the transaction */
+const SENT_MARKER = /waiting for transaction confirmation/i;
+
+const TERMINAL_STAGES = new Set<WithdrawJobStage>(["confirmed", "failed", "unconfirmed"]);
+
+/** Events kept per job so late subscribers can catch up */
+const MAX_BUFFERED_EVENTS = 200;
+
+const JOB_LEASE_MS = 60_000;
+// As long as the Idempotency-Key that replays the job
+const STORED_JOB_TTL_MS = 24 * 60 * 60 * 1000;
+
+export function isTerminalStage(stage: WithdrawJobStage): boolean {
+  return TERMINAL_STAGES.has(stage);
+}
+
+export function createWithdrawJobQueue({
+  concurrency,
+  maxQueued,
+  retentionMs,
+  storage,
+  log,
+}: WithdrawJobQueueOptions) {
+  const jobs = new Map<string, WithdrawJobInfo>();
+  const history = new Map<string, WithdrawJobEvent[]>();
+  const events = new EventEmitter();
+  events.setMaxListeners(0);
+  const pending: Array<{ job: WithdrawJobInfo; task: WithdrawJobTask }> = [];
+  // Pending snapshot writes per job, chained so they land in order
+  const saves = new Map<string, Promise<void>>();
+  // Running jobs whose transaction may be on chain
+  const maybeSent = new Set<string>();
+  let running = 0;
+
+  // Before the transaction is known, coded errors are deliberate rejections; after, even
+  // a rejection (e.g. an amount mismatch on the result) leaves money that has moved
+  const isUnconfirmed = (jobId: string, error: unknown) =>
+    jobs.get(jobId)?.tx !== undefined ||
+    (maybeSent.has(jobId) && !isErrorCode((error as { code?: unknown } | null)?.code));
+
+  const emit = (jobId: string, event: WithdrawJobEvent) => {
+    const buffered = history.get(jobId);
+    if (!buffered) return;
+    buffered.push(event);
+    if (buffered.length > MAX_BUFFERED_EVENTS) buffered.shift();
+    events.emit(jobId, event);
+  };
+
+  const save = (job: WithdrawJobInfo) => {
+    const snapshot = { ...job };
+    const now = Date.now();
+    const leaseUntil = TERMINAL_STAGES.has(snapshot.stage) ? null : now + JOB_LEASE_MS;
+    const saved = (saves.get(job.id) ?? Promise.resolve())
+      .then(() => storage.saveJob(snapshot, leaseUntil, now + STORED_JOB_TTL_MS))
+      .catch((error) => {
+        // Only this instance can report the job until a later save succeeds
+        log.warn({
+          msg: "[withdraw-jobs] failed to save job",
+          jobId: job.id,
+          stage: snapshot.stage,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      })
+      .finally(() => {
+        if (saves.get(job.id) === saved) saves.delete(job.id);
+      });
+    saves.set(job.id, saved);
+  };
+
+  const renewTimer = setInterval(() => {
+    const leaseUntil = Date.now() + JOB_LEASE_MS;
+    for (const job of jobs.values()) {
+      if (TERMINAL_STAGES.has(job.stage)) continue;
+      storage.renewJobLease(job.id, leaseUntil).catch((error) => {
+        log.warn({
+          msg: "[withdraw-jobs] failed to renew job lease",
+          jobId: job.id,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+  }, JOB_LEASE_MS / 3);
+  renewTimer.unref();
+
+  const update = (job: WithdrawJobInfo, changes: Partial<WithdrawJobInfo>) => {
+    const previousStage = job.stage;
+    Object.assign(job, changes, { updatedAt: Date.now() });
+    save(job);
+    if (job.stage !== previousStage) {
+      emit(job.id, { type: "stage", stage: job.stage, job: { ...job }, at: job.updatedAt });
+    }
+  };
+
+  const appendLog = (jobId: string, level: WithdrawJobLogLevel, message: string) => {
+    emit(jobId, { type: "log", level, message, at: Date.now() });
+  };
+
+  const scheduleCleanup = (jobId: string) => {
+    setTimeout(() => {
+      jobs.delete(jobId);
+      history.delete(jobId);
+    }, retentionMs).unref();
+  };
+
+  const drain = () => {
+    while (running < concurrency && pending.length > 0) {
+      const { job, task } = pending.shift()!;
+      running += 1;
+      task(job.id)
+        .then(({ tx, result }) => update(job, { stage: "confirmed", tx, result }))
+        .catch((error) => {
+          const message = error instanceof Error ? error.message : String(error);
+          const code = (error as { code?: unknown } | null)?.code;
+          if (isUnconfirmed(job.id, error)) {
+            const sent = job.tx
+              ? `Transaction ${job.tx} was submitted`
+              : "Transaction may be on chain";
+            update(job, {
+              stage: "unconfirmed",
+              error: `${sent}, but the payment was not recorded: ${message}`,
+              errorCode: "WITHDRAW_UNCONFIRMED",
+            });
+            return;
+          }
+          update(job, {
+            stage: "failed",
+            error: message || "Withdraw failed",
+            errorCode: isErrorCode(code) ? code : "WITHDRAW_FAILED",
+          });
+        })
+        .finally(() => {
+          maybeSent.delete(job.id);
+          running -= 1;
+          scheduleCleanup(job.id);
+          drain();
+        });
+    }
+  };
+
+  return {
+    /**
+     * Queue a withdraw. The task should throw to fail the job. Returns null when the
+     * queue is full.
+     */
+    enqueue(
+      kind: WithdrawJobKind,
+      paymentId: string,
+      task: WithdrawJobTask
+    ): WithdrawJobInfo | null {
+      if (running >= concurrency && pending.length >= maxQueued) return null;
+      const now = Date.now();
+      const job: WithdrawJobInfo = {
+        id: nanoid(),
+        kind,
+        paymentId,
+        stage: "queued",
+        createdAt: now,
+        updatedAt: now,
+      };
+      jobs.set(job.id, job);
+      save(job);
+      history.set(job.id, [{ type: "stage", stage: job.stage, job: { ...job }, at: now }]);
+      pending.push({ job, task });
+      drain();
+      return { ...job };
+    },
+
+    get(jobId: string): WithdrawJobInfo | null {
+      const job = jobs.get(jobId);
+      return job ? { ...job } : null;
+    },
+
+    /**
+     * A job run by this or any other instance, read from storage when it is not in
+     * memory here. Returns null if it is unknown or its snapshot has expired.
+     */
+    async find(jobId: string): Promise<WithdrawJobInfo | null> {
+      const local = jobs.get(jobId);
+      if (local) return { ...local };
+
+      const now = Date.now();
+      const stored = await storage.getJob(jobId, now);
+      if (!stored) return null;
+      const { job, leaseUntil } = stored;
+      if (TERMINAL_STAGES.has(job.stage) || (leaseUntil ?? 0) > now) return job;
+
+      // Its instance stopped renewing the lease, e.g. because it crashed mid-proof
+      if (job.stage === "submitting") {
+        return {
+          ...job,
+          stage: "unconfirmed",
+          error: "The instance running this withdrawal stopped while submitting it",
+          errorCode: "WITHDRAW_UNCONFIRMED",
+        };
+      }
+      return {
+        ...job,
+        stage: "failed",
+        error: "The instance running this withdrawal stopped before submitting it",
+        errorCode: "WITHDRAW_FAILED",
+      };
+    },
+
+    /**
+     * Whether a running job may still be cancelled: not once it has started submitting
+     * its transaction.
+     */
+    canCancel(jobId: string): boolean {
+      return jobs.get(jobId)?.stage !== "submitting";
+    },
+
+    /**
+     * Note that a submitting job outlived its timeout and is left to finish. If it then
+     * fails, it ends `unconfirmed`.
+     */
+    markOverdue(jobId: string) {
+      const job = jobs.get(jobId);
+      if (!job || TERMINAL_STAGES.has(job.stage)) return;
+      maybeSent.add(jobId);
+      appendLog(jobId, "warn", "Timed out after submitting; waiting for the transaction");
+    },
+
+    /**
+     * Record the transaction a running job submitted. From now on any failure ends the
+     * job `unconfirmed`.
+     */
+    markSubmitted(jobId: string, tx: string) {
+      const job = jobs.get(jobId);
+      if (job && !TERMINAL_STAGES.has(job.stage)) update(job, { tx });
+    },
+
+    /**
+     * Whether a running job that fails with this error will end `unconfirmed`.
+     */
+    isUnconfirmed(jobId: string, error: unknown): boolean {
+      return isUnconfirmed(jobId, error);
+    },
+
+    /**
+     * Record the relayer that answered a job's relayer request.
+     */
+    setRelayer(jobId: string, relayer: string) {
+      const job = jobs.get(jobId);
+      if (job && !TERMINAL_STAGES.has(job.stage) && job.relayer !== relayer) {
+        update(job, { relayer });
+      }
+    },
+
+    /**
+     * Record a progress line for a job (e.g. the prover heartbeat).
+     */
+    log(jobId: string, level: WithdrawJobLogLevel, message: string) {
+      appendLog(jobId, level, message);
+    },
+
+    /**
+     * Subscribe to a job's events. Buffered events are replayed first. Returns an
+     * unsubscribe function, or null if the job is unknown.
+     */
+    subscribe(jobId: string, listener: (event: WithdrawJobEvent) => void): (() => void) | null {
+      const buffered = history.get(jobId);
+      if (!buffered) return null;
+      for (const event of buffered) listener(event);
+      events.on(jobId, listener);
+      return () => {
+        events.off(jobId, listener);
+      };
+    },
+
+    stop() {
+      clearInterval(renewTimer);
+    },
+
+    /**
+     * Feed SDK log output for a job here. Lines are relayed to the job's subscribers
+     * and advance its stage.
+     */
+    handleSdkLog(jobId: string, level: WithdrawJobLogLevel, message: string) {
+      const job = jobs.get(jobId);
+      if (!job || TERMINAL_STAGES.has(job.stage)) return;
+      if (level !== "debug") appendLog(job.id, level, message);
+      if (SENT_MARKER.test(message)) maybeSent.add(job.id);
+      for (const [pattern, stage] of STAGE_MARKERS) {
+        if (pattern.test(message) && job.stage !== stage) {
+          update(job, { stage });
+          return;
+        }
+      }
+    },
+  };
+}
+
+export type WithdrawJobQueue = ReturnType<typeof createWithdrawJobQueue>;
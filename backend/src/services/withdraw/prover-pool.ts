@@ -0,0 +1,236 @@
+/**
+ * Prover Pool
+ *
+ * Runs SDK withdraw proofs on worker threads so proving never blocks the Fastify event
+ * loop. Each worker warms its own SDK and LightWasm instance and handles one proof at a
+ * time. A proof that exceeds its timeout is cancelled by terminating its worker, which
+ * is then replaced, unless its transaction may already have been sent: that one is left
+ * to finish so its payment can still be recorded, up to a second, hard limit after which
+ * its worker is terminated and replaced all the same.
+ *
+ * Each task carries the relayers to try, ranked by the relayer pool when it starts, and
+ * workers report every relayer request back to that pool.
+ */
+
+import path from "path";
+import { Worker } from "worker_threads";
+import type { RelayerPool } from "@ghostsend/shared";
+import type {
+  ProverRequest,
+  ProverTaskMessage,
+  ProverWorkerData,
+  ProverWorkerMessage,
+  WithdrawJobLogLevel,
+  WithdrawSdkResult,
+  WithdrawSplSdkResult,
+} from "../../types/withdraw";
+
+// Same extension as this module, so the worker runs under tsx in dev and from dist in prod
+const WORKER_FILE = path.join(__dirname, `prover-worker${path.extname(__filename)}`);
+
+type ProverResult = WithdrawSdkResult | WithdrawSplSdkResult;
+
+interface ProverPoolOptions {
+  /** Number of worker threads */
+  size: number;
+  workerData: ProverWorkerData;
+  /** Receives SDK log lines from the workers, tagged with the job they belong to */
+  onLog: (jobId: string, level: WithdrawJobLogLevel, message: string) => void;
+  relayers: Pick<RelayerPool, "ranked" | "record">;
+  /** Receives the relayer that answered each of a job's relayer requests */
+  onRelayer: (jobId: string, url: string) => void;
+  /** Whether a job that exceeds its timeout may still be cancelled */
+  canCancel: (jobId: string) => boolean;
+  /** Called when a job that could not be cancelled exceeds its timeout */
+  onOverdue: (jobId: string) => void;
+  /** How long an overdue job may keep running past its timeout before it is stopped */
+  overdueLimitMs: number;
+}
+
+interface ProverTask {
+  request: ProverRequest;
+  timeoutMs: number;
+  resolve: (result: ProverResult) => void;
+  reject: (error: Error) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+interface ProverSlot {
+  worker: Worker;
+  ready: Promise<void>;
+  alive: boolean;
+  started: boolean;
+  task: ProverTask | null;
+}
+
+export function createProverPool({
+  size,
+  workerData,
+  onLog,
+  relayers,
+  onRelayer,
+  canCancel,
+  onOverdue,
+  overdueLimitMs,
+}: ProverPoolOptions) {
+  const waiting: ProverTask[] = [];
+  let closing = false;
+
+  const settle = (slot: ProverSlot, error: Error | null, result?: ProverResult) => {
+    const task = slot.task;
+    if (!task) return;
+    slot.task = null;
+    clearTimeout(task.timer);
+    if (error) task.reject(error);
+    else task.resolve(result!);
+    dispatch();
+  };
+
+  const replace = (slot: ProverSlot) => {
+    const index = slots.indexOf(slot);
+    if (index >= 0 && !closing) slots[index] = spawn();
+  };
+
+  const spawn = (): ProverSlot => {
+    const worker = WORKER_FILE.endsWith(".ts")
+      ? // Dev: workers don't inherit the tsx loader, so register it before loading the entry
+        new Worker(`require("tsx/cjs"); require(${JSON.stringify(WORKER_FILE)});`, {
+          eval: true,
+          workerData,
+        })
+      : new Worker(WORKER_FILE, { workerData });
+    let markReady!: () => void;
+    let markFailed!: (error: Error) => void;
+    const slot: ProverSlot = {
+      worker,
+      ready: new Promise<void>((resolve, reject) => {
+        markReady = resolve;
+        markFailed = reject;
+      }),
+      alive: true,
+      started: false,
+      task: null,
+    };
+    // Failures before "ready" reach the waiting task through settle()
+    slot.ready.catch(() => {});
+
+    worker.on("message", (message: ProverWorkerMessage) => {
+      if (message.type === "ready") {
+        slot.started = true;
+        markReady();
+        return;
+      }
+      if (message.type === "log") {
+        onLog(message.jobId, message.level, message.message);
+        return;
+      }
+      if (message.type === "relayer") {
+        relayers.record(message.url, message.outcome);
+        if (message.outcome.ok) onRelayer(message.jobId, message.url);
+        return;
+      }
+      if (slot.task?.request.jobId !== message.jobId) return;
+      if (message.type === "result") settle(slot, null, message.result);
+      else settle(slot, new Error(message.message));
+    });
+
+    worker.on("error", (error) => {
+      console.error("[prover-pool] worker error:", error);
+    });
+
+    worker.on("exit", (code) => {
+      if (!slot.alive) return;
+      slot.alive = false;
+      const error = new Error(`Prover worker exited with code ${code}`);
+      markFailed(error);
+      settle(slot, error);
+      // Respawn right away only if it had warmed up; a worker that dies on startup is
+      // retried lazily by the next dispatch to avoid a crash loop
+      if (slot.started) replace(slot);
+    });
+
+    return slot;
+  };
+
+  // Terminate a slot's worker mid-task and fail the task
+  const abort = (slot: ProverSlot, error: Error) => {
+    slot.alive = false;
+    void slot.worker.terminate();
+    settle(slot, error);
+    replace(slot);
+  };
+
+  const start = (slot: ProverSlot, task: ProverTask) => {
+    slot.task = task;
+    task.timer = setTimeout(() => {
+      if (canCancel(task.request.jobId)) {
+        abort(slot, new Error(`Withdraw timed out after ${task.timeoutMs}ms`));
+        return;
+      }
+      onOverdue(task.request.jobId);
+      // A submission that never returns would hold the worker for good
+      task.timer = setTimeout(() => {
+        abort(slot, new Error(`Withdraw stopped ${overdueLimitMs}ms after its timeout`));
+      }, overdueLimitMs);
+    }, task.timeoutMs);
+
+    slot.ready.then(
+      () => {
+        if (slot.task !== task) return;
+        const message: ProverTaskMessage = { ...task.request, relayers: relayers.ranked() };
+        slot.worker.postMessage(message);
+      },
+      (error: Error) => {
+        if (slot.task === task) settle(slot, error);
+      }
+    );
+  };
+
+  function dispatch() {
+    if (closing) return;
+    for (let index = 0; index < slots.length && waiting.length > 0; index += 1) {
+      if (slots[index].task) continue;
+      if (!slots[index].alive) slots[index] = spawn();
+      start(slots[index], waiting.shift()!);
+    }
+  }
+
+  const slots: ProverSlot[] = Array.from({ length: Math.max(1, size) }, () => spawn());
+
+  return {
+    /**
+     * Resolves once every worker has warmed up.
+     */
+    ready(): Promise<void> {
+      return Promise.all(slots.map((slot) => slot.ready)).then(() => undefined);
+    },
+
+    /**
+     * Run a withdraw on the next free worker. Rejects on SDK errors, worker crashes and
+     * timeouts (the worker is terminated, cancelling the proof). A job that canCancel
+     * refuses keeps running past its timeout, then is stopped once overdueLimitMs more
+     * have passed.
+     */
+    run(request: ProverRequest, timeoutMs: number): Promise<ProverResult> {
+      if (closing) return Promise.reject(new Error("Prover pool is closed"));
+      return new Promise<ProverResult>((resolve, reject) => {
+        waiting.push({ request, timeoutMs, resolve, reject });
+        dispatch();
+      });
+    },
+
+    async close() {
+      closing = true;
+      for (const task of waiting.splice(0)) task.reject(new Error("Prover pool is closed"));
+      await Promise.all(
+        slots.map((slot) => {
+          slot.alive = false;
+          settle(slot, new Error("Prover pool is closed"));
+          return slot.worker.terminate();
+        })
+      );
+    },
+  };
+}
+
+export type ProverPool = ReturnType<typeof createProverPool>;
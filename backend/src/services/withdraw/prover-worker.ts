@@ -0,0 +1,152 @@
+/**
+ * Prover Worker
+ *
+ * Worker thread entry for the prover pool. Loads its own SDK and LightWasm instance and
+ * runs one withdraw at a time, reporting SDK log lines back to the main thread. The
+ * SDK's relayer requests go through a failover fetch over the relayers of the task.
+ */
+
+import workerThreads, { parentPort, workerData } from "worker_threads";
+import { Connection, PublicKey } from "@solana/web3.js";
+import { createFailoverFetch } from "@ghostsend/shared";
+import type {
+  ProverTaskMessage,
+  ProverWorkerData,
+  ProverWorkerMessage,
+  WithdrawSdkResult,
+  WithdrawSplSdkResult,
+} from "../../types/withdraw";
+
+const { keyBasePath, rpcUrl } = workerData as ProverWorkerData;
+
+let currentJobId: string | null = null;
+let currentRelayers = [process.env.NEXT_PUBLIC_RELAYER_API_URL!];
+
+function post(message: ProverWorkerMessage) {
+  parentPort!.postMessage(message);
+}
+
+// UTXO cache per wallet; kept for the life of the worker so repeat payers sync faster
+const storageCache = new Map<string, Map<string, string>>();
+function getStorageForPubkey(pubkey: string): Storage {
+  if (!storageCache.has(pubkey)) {
+    storageCache.set(pubkey, new Map());
+  }
+  const map = storageCache.get(pubkey)!;
+  return {
+    get length() {
+      return map.size;
+    },
+    clear() {
+      map.clear();
+    },
+    getItem(key: string) {
+      return map.get(key) ?? null;
+    },
+    key(index: number) {
+      return Array.from(map.keys())[index] ?? null;
+    },
+    removeItem(key: string) {
+      map.delete(key);
+    },
+    setItem(key: string, value: string) {
+      map.set(key, value);
+    },
+  };
+}
+
+async function main() {
+  const start = Date.now();
+  // snarkjs proves on its own web-worker threads, and web-worker picks its side of the
+  // thread boundary from isMainThread when first loaded. Load the SDK as a main thread.
+  const threadRole = workerThreads as { isMainThread: boolean };
+  threadRole.isMainThread = true;
+  const [sdk, wasmModule] = await Promise.all([
+    import("privacycash/utils"),
+    import("@lightprotocol/hasher.rs"),
+  ]).finally(() => {
+    threadRole.isMainThread = false;
+  });
+  const lightWasm = await wasmModule.WasmFactory.getInstance();
+  const connection = new Connection(rpcUrl, "confirmed");
+
+  sdk.setLogger((level, message) => {
+    if (currentJobId) post({ type: "log", jobId: currentJobId, level, message });
+  });
+
+  // The SDK calls the global fetch with the relayer URL it was loaded with
+  globalThis.fetch = createFailoverFetch({
+    primaryUrl: process.env.NEXT_PUBLIC_RELAYER_API_URL!,
+    candidates: () => currentRelayers,
+    onAttempt: (url, outcome) => {
+      if (currentJobId) post({ type: "relayer", jobId: currentJobId, url, outcome });
+    },
+  });
+
+  parentPort!.on("message", async (request: ProverTaskMessage) => {
+    currentJobId = request.jobId;
+    currentRelayers = request.relayers;
+    try {
+      const publicKey = new PublicKey(request.publicKey);
+      const signature = Uint8Array.from(Buffer.from(request.signature, "base64"));
+      const encryptionService = new sdk.EncryptionService();
+      encryptionService.deriveEncryptionKeyFromSignature(signature);
+
+      const common = {
+        lightWasm,
+        connection,
+        keyBasePath,
+        publicKey,
+        recipient: new PublicKey(request.recipient),
+        storage: getStorageForPubkey(publicKey.toBase58()),
+        encryptionService,
+      };
+
+      if (request.kind === "sol") {
+        const result = (await sdk.withdraw({
+          ...common,
+          amount_in_lamports: request.amount_in_lamports,
+        })) as WithdrawSdkResult;
+        post({
+          type: "result",
+          jobId: request.jobId,
+          result: {
+            tx: result.tx,
+            isPartial: result.isPartial,
+            amount_in_lamports: result.amount_in_lamports,
+            fee_in_lamports: result.fee_in_lamports,
+          },
+        });
+      } else {
+        const result = (await sdk.withdrawSPL({
+          ...common,
+          base_units: request.base_units,
+          mintAddress: request.mintAddress,
+        })) as WithdrawSplSdkResult;
+        post({
+          type: "result",
+          jobId: request.jobId,
+          result: {
+            tx: result.tx,
+            isPartial: result.isPartial,
+            base_units: result.base_units,
+            fee_base_units: result.fee_base_units,
+          },
+        });
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      post({ type: "error", jobId: request.jobId, message: message || "Withdraw failed" });
+    } finally {
+      currentJobId = null;
+    }
+  });
+
+  console.log(`[prover-worker] ready in ${Date.now() - start}ms`);
+  post({ type: "ready" });
+}
+
+main().catch((error) => {
+  console.error("[prover-worker] failed to start:", error);
+  process.exit(1);
+});
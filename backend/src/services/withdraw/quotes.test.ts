@@ -0,0 +1,112 @@
+import assert from "node:assert/strict";
+import { mock, test } from "node:test";
+import {
+  getRelayerConfigVersion,
+  tokenRegistry,
+  type RelayerConfig,
+  type RelayerConfigSnapshot,
+} from "@ghostsend/shared";
+import { checkQuotedWithdrawal, issueFeeQuote, verifyFeeQuote } from "./quotes";
+
+// Read on first use, so the quotes below are signed with it
+process.env.AUTH_SESSION_SECRET = "quotes-test-secret";
+
+const sol = tokenRegistry.find((token) => token.name === "sol")!;
+
+function snapshot(config: RelayerConfig): RelayerConfigSnapshot {
+  return { config, version: getRelayerConfigVersion(config), fetchedAt: 0, fallback: false };
+}
+
+const relayerConfig = snapshot({
+  withdraw_fee_rate: 0.0035,
+  withdraw_rent_fee: 0.006,
+  rent_fees: {},
+  minimum_withdrawal: {},
+});
+
+const quote = () => issueFeeQuote("link-1", sol, 2_000_000n, relayerConfig);
+
+const request = (id: string) => {
+  const { paymentId, totalBaseUnits } = verifyFeeQuote(id)!;
+  return { paymentId, totalBaseUnits: BigInt(totalBaseUnits), recipientBaseUnits: 2_000_000n };
+};
+
+test("a quote verifies to the terms it was issued with", () => {
+  const issued = quote();
+
+  assert.deepEqual(verifyFeeQuote(issued.id), issued);
+  assert.equal(issued.recipientBaseUnits, "2000000");
+  assert.equal(issued.configVersion, relayerConfig.version);
+  assert.deepEqual(checkQuotedWithdrawal(issued.id, request(issued.id), sol, relayerConfig), {
+    totalBaseUnits: BigInt(issued.totalBaseUnits),
+    recipientBaseUnits: 2_000_000n,
+  });
+});
+
+test("a quote with changed terms or signature does not verify", () => {
+  const { id, totalBaseUnits } = quote();
+  const [encoded, mac] = id.split(".");
+  const terms = JSON.parse(Buffer.from(encoded, "base64url").toString());
+  const cheaper = Buffer.from(JSON.stringify({ ...terms, totalBaseUnits: "2000001" })).toString(
+    "base64url"
+  );
+
+  assert.equal(verifyFeeQuote(`${cheaper}.${mac}`), null);
+  assert.equal(
+    verifyFeeQuote(`${encoded}.${mac.startsWith("A") ? "B" : "A"}${mac.slice(1)}`),
+    null
+  );
+  assert.equal(verifyFeeQuote(encoded), null);
+  assert.deepEqual(
+    checkQuotedWithdrawal(
+      `${cheaper}.${mac}`,
+      { paymentId: "link-1", totalBaseUnits: BigInt(totalBaseUnits) },
+      sol,
+      relayerConfig
+    ),
+    { code: "QUOTE_INVALID", error: "Fee quote is invalid or expired; request a new one" }
+  );
+});
+
+test("a quote stops verifying once it expires", () => {
+  const issued = quote();
+  const now = mock.method(Date, "now", () => issued.expiresAt - 1);
+  try {
+    assert.ok(verifyFeeQuote(issued.id));
+    now.mock.mockImplementation(() => issued.expiresAt);
+    assert.equal(verifyFeeQuote(issued.id), null);
+  } finally {
+    now.mock.restore();
+  }
+});
+
+test("a withdrawal for another link, total or recipient amount does not match its quote", () => {
+  const { id } = quote();
+  const mismatch = { code: "QUOTE_INVALID", error: "Withdrawal does not match its fee quote" };
+
+  for (const changed of [
+    { ...request(id), paymentId: "link-2" },
+    { ...request(id), totalBaseUnits: request(id).totalBaseUnits - 1n },
+    { ...request(id), recipientBaseUnits: 1_999_999n },
+  ]) {
+    assert.deepEqual(checkQuotedWithdrawal(id, changed, sol, relayerConfig), mismatch);
+  }
+  const usdc = tokenRegistry.find((token) => token.name === "usdc")!;
+  assert.deepEqual(checkQuotedWithdrawal(id, request(id), usdc, relayerConfig), mismatch);
+});
+
+test("a changed config version is refused only when it changes what the recipient gets", () => {
+  const { id } = quote();
+  const higherFees = snapshot({ ...relayerConfig.config, withdraw_fee_rate: 0.005 });
+  const sameFees = snapshot({ ...relayerConfig.config, minimum_withdrawal: { usdc: 1 } });
+  assert.notEqual(sameFees.version, relayerConfig.version);
+
+  assert.deepEqual(checkQuotedWithdrawal(id, request(id), sol, higherFees), {
+    code: "FEE_CONFIG_CHANGED",
+    error: "Fees changed since the quote; request a new one",
+  });
+  assert.deepEqual(checkQuotedWithdrawal(id, request(id), sol, sameFees), {
+    totalBaseUnits: request(id).totalBaseUnits,
+    recipientBaseUnits: 2_000_000n,
+  });
+});
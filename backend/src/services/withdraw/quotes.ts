@@ -0,0 +1,149 @@
+/**
+ * Fee quotes
+ *
+ * A quote locks the total a withdrawal takes for a recipient amount, computed with one
+ * relayer config version. Its ID is the quote itself, signed like wallet session
+ * tokens: base64url(JSON) + "." + HMAC, so any instance sharing AUTH_SESSION_SECRET
+ * can check it without storage. Fee breakdowns are the unsigned form, for showing fees
+ * before paying.
+ */
+
+import crypto from "crypto";
+import {
+  computeRecipientFromTotal,
+  computeTotalForRecipient,
+  getMinimumWithdrawal,
+  getRentFee,
+  toBaseUnits,
+  type FeeToken,
+  type RelayerConfigSnapshot,
+} from "@ghostsend/shared";
+import type { ErrorCode } from "../../types/errors";
+import type { FeeBreakdown, FeeQuote } from "../../types/withdraw";
+import { getAuthSecret } from "../auth/secret";
+
+const QUOTE_TTL_SECONDS = Number(process.env.FEE_QUOTE_TTL_SECONDS || 120);
+
+/** Largest total a withdrawal can take: the SDK takes amounts as JS numbers */
+export const MAX_WITHDRAW_BASE_UNITS = BigInt(Number.MAX_SAFE_INTEGER);
+
+type QuoteTerms = Omit<FeeQuote, "id" | "expiresAt">;
+
+function sign(encoded: string): string {
+  return crypto
+    .createHmac("sha256", getAuthSecret())
+    .update(`quote:${encoded}`)
+    .digest("base64url");
+}
+
+/** Fees of `recipients` withdrawals that each leave the recipient recipientBaseUnits */
+export function computeFeeBreakdown(
+  token: FeeToken & { mint: string },
+  recipientBaseUnits: bigint,
+  recipients: number,
+  relayerConfig: RelayerConfigSnapshot
+): FeeBreakdown {
+  const { config } = relayerConfig;
+  const each = computeTotalForRecipient(recipientBaseUnits, token, config);
+  const count = BigInt(recipients);
+  return {
+    tokenMint: token.mint,
+    configVersion: relayerConfig.version,
+    recipients,
+    feeRate: config.withdraw_fee_rate,
+    recipientBaseUnits: toBaseUnits(recipientBaseUnits),
+    totalPerRecipientBaseUnits: toBaseUnits(each.totalBaseUnits),
+    // Same expression as the SDK's rent term, see fees.ts
+    rentPerRecipientBaseUnits: toBaseUnits(
+      Math.floor(token.unitsPerToken * getRentFee(token, config))
+    ),
+    minimumWithdrawalBaseUnits: toBaseUnits(getMinimumWithdrawal(token, config)),
+    toRecipientsBaseUnits: toBaseUnits(recipientBaseUnits * count),
+    rateFeeBaseUnits: toBaseUnits(each.rateFeeBaseUnits * count),
+    rentBaseUnits: toBaseUnits(each.rentBaseUnits * count),
+    feeBaseUnits: toBaseUnits(each.feeBaseUnits * count),
+    totalBaseUnits: toBaseUnits(each.totalBaseUnits * count),
+  };
+}
+
+/** Quote the total that leaves the recipient recipientBaseUnits, under the given config */
+export function issueFeeQuote(
+  paymentId: string,
+  token: FeeToken & { mint: string },
+  recipientBaseUnits: bigint,
+  relayerConfig: RelayerConfigSnapshot
+): FeeQuote {
+  const breakdown = computeTotalForRecipient(recipientBaseUnits, token, relayerConfig.config);
+  const terms: QuoteTerms = {
+    paymentId,
+    tokenMint: token.mint,
+    configVersion: relayerConfig.version,
+    recipientBaseUnits: toBaseUnits(breakdown.recipientBaseUnits),
+    totalBaseUnits: toBaseUnits(breakdown.totalBaseUnits),
+    feeBaseUnits: toBaseUnits(breakdown.feeBaseUnits),
+    rateFeeBaseUnits: toBaseUnits(breakdown.rateFeeBaseUnits),
+    rentBaseUnits: toBaseUnits(breakdown.rentBaseUnits),
+  };
+  const expiresAt = Date.now() + QUOTE_TTL_SECONDS * 1000;
+  const encoded = Buffer.from(JSON.stringify({ ...terms, expiresAt })).toString("base64url");
+  return { id: `${encoded}.${sign(encoded)}`, ...terms, expiresAt };
+}
+
+/** The quote behind a quote ID, or null when it is forged, malformed or expired */
+export function verifyFeeQuote(id: string): FeeQuote | null {
+  const [encoded, mac] = id.split(".");
+  if (!encoded || !mac) return null;
+
+  const expected = Buffer.from(sign(encoded));
+  const actual = Buffer.from(mac);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const quote = JSON.parse(Buffer.from(encoded, "base64url").toString()) as Omit<FeeQuote, "id">;
+    if (typeof quote.expiresAt !== "number" || quote.expiresAt <= Date.now()) return null;
+    return { id, ...quote };
+  } catch {
+    return null;
+  }
+}
+
+export type QuotedWithdrawal =
+  | { totalBaseUnits: bigint; recipientBaseUnits: bigint }
+  | { code: ErrorCode; error: string };
+
+/**
+ * Check a withdrawal against the quote it names. The quoted total is honoured while the
+ * quote is valid; if the relayer config has moved on since, it still is as long as the
+ * new fees leave the recipient exactly the quoted amount, which the payment is checked
+ * against once proven.
+ */
+export function checkQuotedWithdrawal(
+  quoteId: string,
+  request: { paymentId: string; totalBaseUnits: bigint; recipientBaseUnits?: bigint },
+  token: FeeToken & { mint: string },
+  relayerConfig: RelayerConfigSnapshot
+): QuotedWithdrawal {
+  const quote = verifyFeeQuote(quoteId);
+  if (!quote) {
+    return { code: "QUOTE_INVALID", error: "Fee quote is invalid or expired; request a new one" };
+  }
+  const totalBaseUnits = BigInt(quote.totalBaseUnits);
+  const recipientBaseUnits = BigInt(quote.recipientBaseUnits);
+  if (
+    quote.paymentId !== request.paymentId ||
+    quote.tokenMint !== token.mint ||
+    totalBaseUnits !== request.totalBaseUnits ||
+    (request.recipientBaseUnits !== undefined && recipientBaseUnits !== request.recipientBaseUnits)
+  ) {
+    return { code: "QUOTE_INVALID", error: "Withdrawal does not match its fee quote" };
+  }
+  if (
+    quote.configVersion !== relayerConfig.version &&
+    computeRecipientFromTotal(totalBaseUnits, token, relayerConfig.config) !== recipientBaseUnits
+  ) {
+    return { code: "FEE_CONFIG_CHANGED", error: "Fees changed since the quote; request a new one" };
+  }
+  return { totalBaseUnits, recipientBaseUnits };
+}
@@ -0,0 +1,99 @@
+/**
+ * Payment Reservations
+ *
+ * Per-link holds taken before a withdraw is validated and kept until its payment is
+ * recorded (or the withdraw fails). `canAcceptPayment` counts earlier holds as used, so
+ * two payers cannot both start a proof for the last use of a link, even on different
+ * instances.
+ *
+ * Holds are kept in storage with a short expiry that this process renews while it
+ * holds them, so the holds of an instance that dies lapse on their own.
+ */
+
+import { nanoid } from "nanoid";
+import type { FastifyBaseLogger } from "fastify";
+import type { WithdrawStorage } from "./storage/types";
+
+const HOLD_TTL_MS = 60_000;
+
+export interface PaymentReservation {
+  /** Holds on the same link taken before this one and still held */
+  ahead: number;
+  /** Give the hold back; safe to call more than once, never throws */
+  release: () => Promise<void>;
+  /** Stop renewing the hold and leave it in place for `ms`; never throws */
+  keep: (ms: number) => Promise<void>;
+}
+
+interface PaymentReservationsOptions {
+  storage: WithdrawStorage;
+  log: FastifyBaseLogger;
+  ttlMs?: number;
+}
+
+export function createPaymentReservations({
+  storage,
+  log,
+  ttlMs = HOLD_TTL_MS,
+}: PaymentReservationsOptions) {
+  // Holds this process still owns: holdId -> paymentId
+  const live = new Map<string, string>();
+
+  const renewTimer = setInterval(() => {
+    const expiresAt = Date.now() + ttlMs;
+    for (const [holdId, paymentId] of live) {
+      storage.renewHold(paymentId, holdId, expiresAt).catch((error) => {
+        log.warn({
+          msg: "[reservations] failed to renew hold",
+          paymentId,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      });
+    }
+  }, ttlMs / 3);
+  renewTimer.unref();
+
+  return {
+    async hold(paymentId: string): Promise<PaymentReservation> {
+      const holdId = nanoid();
+      const now = Date.now();
+      const ahead = await storage.addHold(paymentId, holdId, now + ttlMs, now);
+      live.set(holdId, paymentId);
+
+      return {
+        ahead,
+        async release() {
+          if (!live.delete(holdId)) return;
+          try {
+            await storage.removeHold(paymentId, holdId);
+          } catch (error) {
+            // No longer renewed, so it lapses within ttlMs anyway
+            log.warn({
+              msg: "[reservations] failed to release hold",
+              paymentId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        },
+        async keep(ms) {
+          if (!live.delete(holdId)) return;
+          try {
+            await storage.renewHold(paymentId, holdId, Date.now() + ms);
+          } catch (error) {
+            log.warn({
+              msg: "[reservations] failed to keep hold",
+              paymentId,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        },
+      };
+    },
+
+    stop() {
+      clearInterval(renewTimer);
+    },
+  };
+}
+
+export type PaymentReservations = ReturnType<typeof createPaymentReservations>;
@@ -0,0 +1,81 @@
+/**
+ * In-memory storage for withdraw holds, Idempotency-Keys and job snapshots.
+ *
+ * Data is lost on restart and not shared between instances; intended for tests.
+ */
+
+import type { WithdrawJobInfo } from "../../../types/withdraw";
+import type { IdempotencyKeyEntry, WithdrawStorage } from "./types";
+
+export function createMemoryWithdrawStorage(): WithdrawStorage {
+  // paymentId -> holdId -> expiresAt
+  const holds = new Map<string, Map<string, number>>();
+  const idempotencyKeys = new Map<string, IdempotencyKeyEntry & { expiresAt: number }>();
+  const jobs = new Map<
+    string,
+    { job: WithdrawJobInfo; leaseUntil: number | null; expiresAt: number }
+  >();
+
+  return {
+    async addHold(paymentId, holdId, expiresAt, now) {
+      const linkHolds = holds.get(paymentId) ?? new Map<string, number>();
+      for (const [id, holdExpiresAt] of linkHolds) {
+        if (holdExpiresAt <= now) linkHolds.delete(id);
+      }
+      const others = linkHolds.size;
+      linkHolds.set(holdId, expiresAt);
+      holds.set(paymentId, linkHolds);
+      return others;
+    },
+
+    async renewHold(paymentId, holdId, expiresAt) {
+      const linkHolds = holds.get(paymentId);
+      if (linkHolds?.has(holdId)) linkHolds.set(holdId, expiresAt);
+    },
+
+    async removeHold(paymentId, holdId) {
+      const linkHolds = holds.get(paymentId);
+      if (!linkHolds) return;
+      linkHolds.delete(holdId);
+      if (linkHolds.size === 0) holds.delete(paymentId);
+    },
+
+    async claimIdempotencyKey(key, fingerprint, expiresAt, now) {
+      const existing = idempotencyKeys.get(key);
+      if (existing && existing.expiresAt > now) {
+        return { fingerprint: existing.fingerprint, jobId: existing.jobId };
+      }
+      idempotencyKeys.set(key, { fingerprint, expiresAt });
+      return null;
+    },
+
+    async bindIdempotencyKey(key, jobId, expiresAt) {
+      const entry = idempotencyKeys.get(key);
+      if (entry) idempotencyKeys.set(key, { ...entry, jobId, expiresAt });
+    },
+
+    async releaseIdempotencyKey(key) {
+      if (idempotencyKeys.get(key)?.jobId === undefined) idempotencyKeys.delete(key);
+    },
+
+    async saveJob(job, leaseUntil, expiresAt) {
+      if (jobs.get(job.id)?.leaseUntil === null) return;
+      jobs.set(job.id, { job: { ...job }, leaseUntil, expiresAt });
+    },
+
+    async renewJobLease(jobId, leaseUntil) {
+      const stored = jobs.get(jobId);
+      if (stored && stored.leaseUntil !== null) stored.leaseUntil = leaseUntil;
+    },
+
+    async getJob(jobId, now) {
+      const stored = jobs.get(jobId);
+      if (!stored) return null;
+      if (stored.expiresAt <= now) {
+        jobs.delete(jobId);
+        return null;
+      }
+      return { job: { ...stored.job }, leaseUntil: stored.leaseUntil ?? undefined };
+    },
+  };
+}
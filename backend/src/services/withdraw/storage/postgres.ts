@@ -0,0 +1,120 @@
+/**
+ * Postgres storage for withdraw holds, Idempotency-Keys and job snapshots, on the shared
+ * pool (see ../../storage/postgres).
+ *
+ * Holds on one link are taken under a transaction-scoped advisory lock on the link, so
+ * two instances never count each other's holds out. Keys are claimed, and job snapshots
+ * saved, with a single conditional insert.
+ */
+
+import type { WithdrawJobInfo } from "../../../types/withdraw";
+import type { PostgresDatabase } from "../../storage/postgres";
+import type { WithdrawStorage } from "./types";
+
+// First key of the two-key advisory locks on links; the second is the payment ID's hash
+const HOLD_LOCK_CLASS = 724_802;
+
+export function createPostgresWithdrawStorage(db: PostgresDatabase): WithdrawStorage {
+  return {
+    async addHold(paymentId, holdId, expiresAt, now) {
+      return db.transaction(async (client) => {
+        await client.query("SELECT pg_advisory_xact_lock($1, hashtext($2))", [
+          HOLD_LOCK_CLASS,
+          paymentId,
+        ]);
+        await client.query(
+          "DELETE FROM withdraw_holds WHERE payment_id = $1 AND expires_at <= $2",
+          [paymentId, now]
+        );
+        const { rows } = await client.query<{ count: string }>(
+          "SELECT COUNT(*) AS count FROM withdraw_holds WHERE payment_id = $1",
+          [paymentId]
+        );
+        await client.query(
+          "INSERT INTO withdraw_holds (id, payment_id, expires_at) VALUES ($1, $2, $3)",
+          [holdId, paymentId, expiresAt]
+        );
+        return Number(rows[0].count);
+      });
+    },
+
+    async renewHold(paymentId, holdId, expiresAt) {
+      await db.query(
+        "UPDATE withdraw_holds SET expires_at = $1 WHERE id = $2 AND payment_id = $3",
+        [expiresAt, holdId, paymentId]
+      );
+    },
+
+    async removeHold(paymentId, holdId) {
+      await db.query("DELETE FROM withdraw_holds WHERE id = $1 AND payment_id = $2", [
+        holdId,
+        paymentId,
+      ]);
+    },
+
+    async claimIdempotencyKey(key, fingerprint, expiresAt, now) {
+      // Inserts a new key, or takes over one that has expired; otherwise changes nothing
+      const { rowCount } = await db.query(
+        `INSERT INTO withdraw_idempotency_keys (idempotency_key, fingerprint, job_id, expires_at)
+         VALUES ($1, $2, NULL, $3)
+         ON CONFLICT (idempotency_key) DO UPDATE
+           SET fingerprint = EXCLUDED.fingerprint, job_id = NULL, expires_at = EXCLUDED.expires_at
+           WHERE withdraw_idempotency_keys.expires_at <= $4`,
+        [key, fingerprint, expiresAt, now]
+      );
+      if ((rowCount ?? 0) > 0) return null;
+      const { rows } = await db.query<{ fingerprint: string; job_id: string | null }>(
+        "SELECT fingerprint, job_id FROM withdraw_idempotency_keys WHERE idempotency_key = $1",
+        [key]
+      );
+      // Released between the two statements: report it as still being validated
+      if (!rows[0]) return { fingerprint };
+      return { fingerprint: rows[0].fingerprint, jobId: rows[0].job_id ?? undefined };
+    },
+
+    async bindIdempotencyKey(key, jobId, expiresAt) {
+      await db.query(
+        "UPDATE withdraw_idempotency_keys SET job_id = $1, expires_at = $2 WHERE idempotency_key = $3",
+        [jobId, expiresAt, key]
+      );
+    },
+
+    async releaseIdempotencyKey(key) {
+      await db.query(
+        "DELETE FROM withdraw_idempotency_keys WHERE idempotency_key = $1 AND job_id IS NULL",
+        [key]
+      );
+    },
+
+    async saveJob(job, leaseUntil, expiresAt) {
+      await db.query("DELETE FROM withdraw_jobs WHERE expires_at <= $1", [Date.now()]);
+      // Leaves a job that has ended (no lease) as it is
+      await db.query(
+        `INSERT INTO withdraw_jobs (id, job, lease_until, expires_at) VALUES ($1, $2, $3, $4)
+         ON CONFLICT (id) DO UPDATE
+           SET job = EXCLUDED.job, lease_until = EXCLUDED.lease_until, expires_at = EXCLUDED.expires_at
+           WHERE withdraw_jobs.lease_until IS NOT NULL`,
+        [job.id, JSON.stringify(job), leaseUntil, expiresAt]
+      );
+    },
+
+    async renewJobLease(jobId, leaseUntil) {
+      await db.query(
+        "UPDATE withdraw_jobs SET lease_until = $1 WHERE id = $2 AND lease_until IS NOT NULL",
+        [leaseUntil, jobId]
+      );
+    },
+
+    async getJob(jobId, now) {
+      const { rows } = await db.query<{ job: string; lease_until: string | null }>(
+        "SELECT job, lease_until FROM withdraw_jobs WHERE id = $1 AND expires_at > $2",
+        [jobId, now]
+      );
+      if (!rows[0]) return null;
+      return {
+        job: JSON.parse(rows[0].job) as WithdrawJobInfo,
+        leaseUntil: rows[0].lease_until === null ? undefined : Number(rows[0].lease_until),
+      };
+    },
+  };
+}
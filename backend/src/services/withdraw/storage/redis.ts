@@ -0,0 +1,143 @@
+/**
+ * Redis storage for withdraw holds, Idempotency-Keys and job snapshots, on the shared
+ * client (see ../../storage/redis).
+ *
+ * A link's holds are a sorted set scored by expiry; a script drops expired holds,
+ * counts the rest and adds the new one in one step. A key is claimed with SET NX, and
+ * the job it queued is a second key so binding never races the claim. A job is a hash of
+ * its snapshot and, while it runs, its lease.
+ */
+
+import type { WithdrawJobInfo } from "../../../types/withdraw";
+import { REDIS_KEY_PREFIX, type RedisClient } from "../../storage/redis";
+import type { WithdrawStorage } from "./types";
+
+const keys = {
+  linkHolds: (paymentId: string) => `${REDIS_KEY_PREFIX}link:${paymentId}:holds`,
+  idempotencyKey: (key: string) => `${REDIS_KEY_PREFIX}idempotency:${key}`,
+  idempotencyJob: (key: string) => `${REDIS_KEY_PREFIX}idempotency:${key}:job`,
+  withdrawJob: (jobId: string) => `${REDIS_KEY_PREFIX}withdraw-job:${jobId}`,
+};
+
+// The set itself expires with its latest hold
+const ADD_HOLD_SCRIPT = `
+  redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', ARGV[3])
+  local others = redis.call('ZCARD', KEYS[1])
+  redis.call('ZADD', KEYS[1], ARGV[2], ARGV[1])
+  local latest = redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')
+  redis.call('PEXPIREAT', KEYS[1], latest[2])
+  return others
+`;
+
+const RENEW_HOLD_SCRIPT = `
+  if not redis.call('ZSCORE', KEYS[1], ARGV[1]) then return 0 end
+  redis.call('ZADD', KEYS[1], ARGV[2], ARGV[1])
+  local latest = redis.call('ZRANGE', KEYS[1], -1, -1, 'WITHSCORES')
+  redis.call('PEXPIREAT', KEYS[1], latest[2])
+  return 1
+`;
+
+// Deletes a claimed key unless a job was bound to it
+const RELEASE_KEY_SCRIPT = `
+  if redis.call('EXISTS', KEYS[2]) == 1 then return 0 end
+  return redis.call('DEL', KEYS[1])
+`;
+
+// Leaves a job that has ended (no lease) as it is; an empty lease ends the job
+const SAVE_JOB_SCRIPT = `
+  if redis.call('EXISTS', KEYS[1]) == 1 and redis.call('HEXISTS', KEYS[1], 'lease') == 0 then
+    return 0
+  end
+  redis.call('HSET', KEYS[1], 'job', ARGV[1])
+  if ARGV[2] == '' then
+    redis.call('HDEL', KEYS[1], 'lease')
+  else
+    redis.call('HSET', KEYS[1], 'lease', ARGV[2])
+  end
+  redis.call('PEXPIREAT', KEYS[1], ARGV[3])
+  return 1
+`;
+
+const RENEW_JOB_LEASE_SCRIPT = `
+  if redis.call('HEXISTS', KEYS[1], 'lease') == 0 then return 0 end
+  redis.call('HSET', KEYS[1], 'lease', ARGV[1])
+  return 1
+`;
+
+export function createRedisWithdrawStorage(redis: RedisClient): WithdrawStorage {
+  return {
+    async addHold(paymentId, holdId, expiresAt, now) {
+      const others = await redis.eval(
+        ADD_HOLD_SCRIPT,
+        1,
+        keys.linkHolds(paymentId),
+        holdId,
+        expiresAt,
+        now
+      );
+      return Number(others);
+    },
+
+    async renewHold(paymentId, holdId, expiresAt) {
+      await redis.eval(RENEW_HOLD_SCRIPT, 1, keys.linkHolds(paymentId), holdId, expiresAt);
+    },
+
+    async removeHold(paymentId, holdId) {
+      await redis.zrem(keys.linkHolds(paymentId), holdId);
+    },
+
+    async claimIdempotencyKey(key, fingerprint, expiresAt, now) {
+      const claimed = await redis.set(
+        keys.idempotencyKey(key),
+        fingerprint,
+        "PX",
+        Math.max(expiresAt - now, 1),
+        "NX"
+      );
+      if (claimed === "OK") return null;
+      const [existing, jobId] = await redis.mget(
+        keys.idempotencyKey(key),
+        keys.idempotencyJob(key)
+      );
+      // Expired or released since the SET: report it as still being validated
+      return { fingerprint: existing ?? fingerprint, jobId: jobId ?? undefined };
+    },
+
+    async bindIdempotencyKey(key, jobId, expiresAt) {
+      await redis
+        .multi()
+        .set(keys.idempotencyJob(key), jobId, "PXAT", expiresAt)
+        .pexpireat(keys.idempotencyKey(key), expiresAt)
+        .exec();
+    },
+
+    async releaseIdempotencyKey(key) {
+      await redis.eval(RELEASE_KEY_SCRIPT, 2, keys.idempotencyKey(key), keys.idempotencyJob(key));
+    },
+
+    async saveJob(job, leaseUntil, expiresAt) {
+      await redis.eval(
+        SAVE_JOB_SCRIPT,
+        1,
+        keys.withdrawJob(job.id),
+        JSON.stringify(job),
+        leaseUntil ?? "",
+        expiresAt
+      );
+    },
+
+    async renewJobLease(jobId, leaseUntil) {
+      await redis.eval(RENEW_JOB_LEASE_SCRIPT, 1, keys.withdrawJob(jobId), leaseUntil);
+    },
+
+    // Redis drops the hash once it expires, so `now` is not needed
+    async getJob(jobId) {
+      const [job, lease] = await redis.hmget(keys.withdrawJob(jobId), "job", "lease");
+      if (!job) return null;
+      return {
+        job: JSON.parse(job) as WithdrawJobInfo,
+        leaseUntil: lease === null ? undefined : Number(lease),
+      };
+    },
+  };
+}
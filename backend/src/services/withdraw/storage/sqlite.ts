@@ -0,0 +1,125 @@
+/**
+ * SQLite storage for withdraw holds, Idempotency-Keys and job snapshots, on the shared database (see
+ * ../../storage/sqlite). Each operation runs in one transaction.
+ */
+
+import type { WithdrawJobInfo } from "../../../types/withdraw";
+import type { SqliteDatabase } from "../../storage/sqlite";
+import type { WithdrawStorage } from "./types";
+
+export function createSqliteWithdrawStorage(db: SqliteDatabase): WithdrawStorage {
+  const statements = {
+    deleteExpiredHolds: db.prepare(
+      "DELETE FROM withdraw_holds WHERE payment_id = ? AND expires_at <= ?"
+    ),
+    countHolds: db.prepare("SELECT COUNT(*) AS count FROM withdraw_holds WHERE payment_id = ?"),
+    insertHold: db.prepare(
+      "INSERT INTO withdraw_holds (id, payment_id, expires_at) VALUES (?, ?, ?)"
+    ),
+    renewHold: db.prepare(
+      "UPDATE withdraw_holds SET expires_at = ? WHERE id = ? AND payment_id = ?"
+    ),
+    removeHold: db.prepare("DELETE FROM withdraw_holds WHERE id = ? AND payment_id = ?"),
+    deleteExpiredKeys: db.prepare("DELETE FROM withdraw_idempotency_keys WHERE expires_at <= ?"),
+    claimKey: db.prepare(
+      `INSERT OR IGNORE INTO withdraw_idempotency_keys
+         (idempotency_key, fingerprint, job_id, expires_at)
+       VALUES (?, ?, NULL, ?)`
+    ),
+    getKey: db.prepare(
+      "SELECT fingerprint, job_id FROM withdraw_idempotency_keys WHERE idempotency_key = ?"
+    ),
+    bindKey: db.prepare(
+      "UPDATE withdraw_idempotency_keys SET job_id = ?, expires_at = ? WHERE idempotency_key = ?"
+    ),
+    releaseKey: db.prepare(
+      "DELETE FROM withdraw_idempotency_keys WHERE idempotency_key = ? AND job_id IS NULL"
+    ),
+    deleteExpiredJobs: db.prepare("DELETE FROM withdraw_jobs WHERE expires_at <= ?"),
+    // Leaves a job that has ended (no lease) as it is
+    saveJob: db.prepare(
+      `INSERT INTO withdraw_jobs (id, job, lease_until, expires_at) VALUES (?, ?, ?, ?)
+       ON CONFLICT (id) DO UPDATE
+         SET job = excluded.job, lease_until = excluded.lease_until, expires_at = excluded.expires_at
+         WHERE withdraw_jobs.lease_until IS NOT NULL`
+    ),
+    renewJobLease: db.prepare(
+      "UPDATE withdraw_jobs SET lease_until = ? WHERE id = ? AND lease_until IS NOT NULL"
+    ),
+    getJob: db.prepare(
+      "SELECT job, lease_until FROM withdraw_jobs WHERE id = ? AND expires_at > ?"
+    ),
+  };
+
+  const addHold = db.transaction(
+    (paymentId: string, holdId: string, expiresAt: number, now: number) => {
+      statements.deleteExpiredHolds.run(paymentId, now);
+      const { count } = statements.countHolds.get(paymentId) as { count: bigint };
+      statements.insertHold.run(holdId, paymentId, expiresAt);
+      return Number(count);
+    }
+  );
+
+  const claimKey = db.transaction(
+    (key: string, fingerprint: string, expiresAt: number, now: number) => {
+      statements.deleteExpiredKeys.run(now);
+      if (statements.claimKey.run(key, fingerprint, expiresAt).changes > 0) return null;
+      const row = statements.getKey.get(key) as
+        | { fingerprint: string; job_id: string | null }
+        | undefined;
+      return row ? { fingerprint: row.fingerprint, jobId: row.job_id ?? undefined } : null;
+    }
+  );
+
+  const saveJob = db.transaction(
+    (job: WithdrawJobInfo, leaseUntil: number | null, expiresAt: number) => {
+      statements.deleteExpiredJobs.run(Date.now());
+      statements.saveJob.run(job.id, JSON.stringify(job), leaseUntil, expiresAt);
+    }
+  );
+
+  return {
+    async addHold(paymentId, holdId, expiresAt, now) {
+      return addHold(paymentId, holdId, expiresAt, now);
+    },
+
+    async renewHold(paymentId, holdId, expiresAt) {
+      statements.renewHold.run(expiresAt, holdId, paymentId);
+    },
+
+    async removeHold(paymentId, holdId) {
+      statements.removeHold.run(holdId, paymentId);
+    },
+
+    async claimIdempotencyKey(key, fingerprint, expiresAt, now) {
+      return claimKey(key, fingerprint, expiresAt, now);
+    },
+
+    async bindIdempotencyKey(key, jobId, expiresAt) {
+      statements.bindKey.run(jobId, expiresAt, key);
+    },
+
+    async releaseIdempotencyKey(key) {
+      statements.releaseKey.run(key);
+    },
+
+    async saveJob(job, leaseUntil, expiresAt) {
+      saveJob(job, leaseUntil, expiresAt);
+    },
+
+    async renewJobLease(jobId, leaseUntil) {
+      statements.renewJobLease.run(leaseUntil, jobId);
+    },
+
+    async getJob(jobId, now) {
+      const row = statements.getJob.get(jobId, now) as
+        | { job: string; lease_until: bigint | null }
+        | undefined;
+      if (!row) return null;
+      return {
+        job: JSON.parse(row.job) as WithdrawJobInfo,
+        leaseUntil: row.lease_until === null ? undefined : Number(row.lease_until),
+      };
+    },
+  };
+}
@@ -0,0 +1,59 @@
+import type { WithdrawJobInfo } from "../../../types/withdraw";
+
+/**
+ * Idempotency-Key as stored: the request it was claimed for and, once queued, its job
+ */
+export interface IdempotencyKeyEntry {
+  fingerprint: string;
+  jobId?: string;
+}
+
+/**
+ * Withdraw job as stored: its last snapshot and, while it runs, until when the instance
+ * running it has renewed its lease
+ */
+export interface StoredWithdrawJob {
+  job: WithdrawJobInfo;
+  leaseUntil?: number;
+}
+
+/**
+ * Persistence adapter for withdraw link holds, Idempotency-Keys and job snapshots.
+ *
+ * All three are shared by every backend instance, so taking a hold and claiming a key
+ * must be atomic in the adapter itself. Entries carry an expiry and read as absent after
+ * it, so a crashed instance cannot block a link or a key for good.
+ */
+export interface WithdrawStorage {
+  /**
+   * Add a hold on a link that lapses at `expiresAt` unless renewed. Returns the number
+   * of other holds on the link unexpired at `now`, counted atomically with the insert.
+   */
+  addHold(paymentId: string, holdId: string, expiresAt: number, now: number): Promise<number>;
+  /** Move a hold's expiry; no-op if it was removed */
+  renewHold(paymentId: string, holdId: string, expiresAt: number): Promise<void>;
+  removeHold(paymentId: string, holdId: string): Promise<void>;
+  /**
+   * Store a key for a request unless an entry unexpired at `now` exists. Returns null if
+   * the key was stored, or the existing entry.
+   */
+  claimIdempotencyKey(
+    key: string,
+    fingerprint: string,
+    expiresAt: number,
+    now: number
+  ): Promise<IdempotencyKeyEntry | null>;
+  /** Bind a claimed key to the job it queued and keep it until `expiresAt` */
+  bindIdempotencyKey(key: string, jobId: string, expiresAt: number): Promise<void>;
+  /** Delete a key that is not bound to a job */
+  releaseIdempotencyKey(key: string): Promise<void>;
+  /**
+   * Store a job's snapshot until `expiresAt`, leased until `leaseUntil` while it runs and
+   * with no lease once it has ended. No-op once the stored job has ended.
+   */
+  saveJob(job: WithdrawJobInfo, leaseUntil: number | null, expiresAt: number): Promise<void>;
+  /** Move a running job's lease; no-op once it has ended */
+  renewJobLease(jobId: string, leaseUntil: number): Promise<void>;
+  /** A job unexpired at `now`, or null */
+  getJob(jobId: string, now: number): Promise<StoredWithdrawJob | null>;
+}
@@ -0,0 +1,42 @@
+/**
+ * API Key Types
+ *
+ * Merchant API keys let a wallet's own servers call the backend without a browser
+ * wallet session.
+ */
+
+export const API_KEY_SCOPES = ["links:create", "history:read", "webhooks:manage"] as const;
+
+/**
+ * What a key may do:
+ * - links:create: create payment links and checkout sessions, and read those sessions
+ * - history:read: list and export payment history
+ * - webhooks:manage: the /webhooks routes
+ */
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/**
+ * API key as stored. Only a hash of the secret is kept; the full key is shown once.
+ */
+export interface ApiKey {
+  id: string;
+  ownerAddress: string; // Wallet the key acts for
+  name: string;
+  prefix: string; // First characters of the key, to tell keys apart in lists
+  keyHash: string; // SHA-256 of the full key (hex)
+  scopes: ApiKeyScope[];
+  createdAt: number;
+  lastUsedAt?: number;
+  revokedAt?: number; // Revoked keys are kept for attribution but never accepted
+}
+
+/** Key as listed to its owner (no hash) */
+export type ApiKeyInfo = Omit<ApiKey, "keyHash">;
+
+/**
+ * Request to issue an API key
+ */
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+}
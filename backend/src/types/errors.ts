@@ -0,0 +1,65 @@
+/**
+ * Error Types
+ *
+ * Every error response is `{ success: false, code, error }`: `code` is one of the stable
+ * codes below for clients to act on, `error` a human-readable message that may change.
+ */
+
+export const ERROR_CODES = [
+  // Any route
+  "VALIDATION_FAILED", // Body, query or params are missing or malformed
+  "UNAUTHENTICATED", // No valid wallet session or API key
+  "FORBIDDEN", // Signed in, but not the owner of the resource
+  "RATE_LIMITED",
+  "NOT_FOUND", // Unknown route
+  "PAYLOAD_TOO_LARGE", // Body over the size limit
+  "UNSUPPORTED_MEDIA_TYPE", // Body in a Content-Type the route does not parse
+  "BAD_REQUEST", // Any other client error without a more specific code
+  "INTERNAL_ERROR",
+  // Payment links
+  "LINK_NOT_FOUND",
+  "LINK_INACTIVE", // Paused, expired, archived, used up or not active yet
+  "LINK_BUSY", // Another payment is holding the link's last use
+  "LINK_NOT_ARCHIVED",
+  "INVALID_RECIPIENT",
+  "INVALID_TOKEN",
+  "AMOUNT_MISMATCH", // Amount does not match the link's fixed amount or bounds
+  "TX_VERIFICATION_FAILED",
+  "TX_ALREADY_RECORDED",
+  // Withdrawals
+  "TOKEN_MISMATCH", // SOL withdrawal for an SPL link or the other way round
+  "FEE_CONFIG_CHANGED", // Total was computed with other relayer fees; refresh and retry
+  "QUOTE_INVALID", // Fee quote is expired, forged or for another withdrawal; request a new one
+  "IDEMPOTENCY_KEY_REUSED", // Key was used for a different request
+  "IDEMPOTENCY_KEY_IN_PROGRESS",
+  "PROVER_BUSY", // Prover queue is full; retry after Retry-After
+  "JOB_NOT_FOUND",
+  "WITHDRAW_FAILED", // Proof or submission failed (on a failed withdraw job)
+  "WITHDRAW_UNCONFIRMED", // Transaction may be on chain but was not confirmed (on an unconfirmed job)
+  // Webhooks, API keys, checkout sessions and sign-in
+  "WEBHOOK_NOT_FOUND",
+  "DELIVERY_NOT_FOUND",
+  "API_KEY_NOT_FOUND",
+  "API_KEY_INVALID", // Unknown or revoked key
+  "API_KEY_SCOPE_MISSING",
+  "SESSION_NOT_FOUND",
+  "SESSION_NOT_PAID",
+  "SIGN_IN_FAILED",
+] as const;
+
+export type ErrorCode = (typeof ERROR_CODES)[number];
+
+export interface ErrorResponse {
+  success: false;
+  code: ErrorCode;
+  error: string;
+}
+
+export function isErrorCode(value: unknown): value is ErrorCode {
+  return ERROR_CODES.includes(value as ErrorCode);
+}
+
+/** Error carrying a code, for failures raised where no reply is at hand (e.g. in jobs) */
+export function codedError(code: ErrorCode, message: string): Error & { code: ErrorCode } {
+  return Object.assign(new Error(message), { code });
+}
@@ -0,0 +1,16 @@
+import "fastify";
+import type { RateLimitBudget } from "../services/rate-limit";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    /** Wallet address of the authenticated session (set by requireWalletSession) */
+    walletAddress: string | null;
+    /** API key the request was made with (set by requireWalletOrApiKey) */
+    apiKeyId: string | null;
+  }
+
+  interface FastifyContextConfig {
+    /** Budget the route's requests count against (default "read") */
+    rateLimit?: RateLimitBudget;
+  }
+}
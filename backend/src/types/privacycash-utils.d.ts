@@ -25,4 +25,7 @@ declare module "privacycash/utils" {
   ): Promise<RelayerConfigKeys[K]>;
   export function withdraw(opts: Record<string, unknown>): Promise<unknown>;
   export function withdrawSPL(opts: Record<string, unknown>): Promise<unknown>;
+  export function setLogger(
+    logger: (level: "debug" | "info" | "warn" | "error", message: string) => void
+  ): void;
 }
@@ -0,0 +1,84 @@
+/**
+ * Webhook Types
+ *
+ * Merchant notifications for payment link events.
+ */
+
+import type { BaseUnits } from "./payment-links";
+
+export type WebhookEventType = "payment.completed" | "ping";
+
+/**
+ * URL registered by a wallet to receive its events, for all of its links or just one
+ */
+export interface WebhookEndpoint {
+  id: string;
+  ownerAddress: string; // Wallet that registered the endpoint
+  paymentId?: string; // Only this link's events; every link of the owner when unset
+  url: string;
+  secret: string; // HMAC-SHA256 key for the signature header; shown once on creation
+  createdAt: number;
+}
+
+/** Endpoint as listed to its owner (no secret) */
+export type WebhookEndpointInfo = Omit<WebhookEndpoint, "secret">;
+
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+/**
+ * One event sent to one endpoint, with the outcome of its latest attempt
+ */
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  eventId: string; // Same across redeliveries so receivers can deduplicate
+  eventType: WebhookEventType;
+  payload: string; // Exact JSON body; the signature is computed over it on every attempt
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: number; // Unix timestamp (ms) of the next retry while pending
+  lastAttemptAt?: number;
+  responseStatus?: number; // HTTP status of the last attempt, if the endpoint answered
+  lastError?: string;
+  createdAt: number;
+}
+
+/**
+ * Delivery as answered by an on-demand attempt (ping, redeliver): whether it succeeded,
+ * without what the endpoint answered
+ */
+export type WebhookAttemptInfo = Omit<WebhookDelivery, "responseStatus" | "lastError">;
+
+/**
+ * Body of every webhook request
+ */
+export interface WebhookEvent<T = unknown> {
+  id: string;
+  type: WebhookEventType;
+  createdAt: number;
+  data: T;
+}
+
+export interface PaymentCompletedEventData {
+  paymentId: string;
+  label?: string;
+  recordId: string;
+  tokenMint: string;
+  amount: BaseUnits; // Base units received by the link's recipient, as a decimal string
+  txSignature: string;
+  completedAt: number;
+  orderId?: string; // Set when the link is a checkout session
+  metadata?: Record<string, string>;
+}
+
+export interface PingEventData {
+  webhookId: string;
+}
+
+/**
+ * Request to register a webhook endpoint
+ */
+export interface CreateWebhookRequest {
+  url: string;
+  paymentId?: string; // Limit the endpoint to one of the caller's links
+}
@@ -0,0 +1,191 @@
+import type { BaseUnits, RelayerOutcome } from "@ghostsend/shared";
+import type { ErrorCode } from "./errors";
+
+/**
+ * Withdraw Types
+ *
+ * Request/response shapes for the withdraw prover endpoints and their background jobs.
+ */
+
+export type WithdrawRequest = {
+  paymentId: string;
+  amountLamports: BaseUnits;
+  recipientAmountLamports?: BaseUnits;
+  quoteId?: string; // From POST /quotes; locks amountLamports to the quoted total
+  publicKey: string;
+  signature: string;
+};
+
+export type WithdrawResult = {
+  isPartial: boolean;
+  amount_in_lamports: BaseUnits;
+  fee_in_lamports: BaseUnits;
+};
+
+/** What the SDK returns; its amounts are JS numbers */
+export type WithdrawSdkResult = {
+  isPartial: boolean;
+  amount_in_lamports: number;
+  fee_in_lamports: number;
+  tx: string;
+  recipient?: string;
+};
+
+export type WithdrawSplRequest = {
+  paymentId: string;
+  amountBaseUnits: BaseUnits;
+  recipientAmountBaseUnits?: BaseUnits;
+  quoteId?: string; // From POST /quotes; locks amountBaseUnits to the quoted total
+  publicKey: string;
+  signature: string;
+};
+
+export type WithdrawSplResult = {
+  isPartial: boolean;
+  base_units: BaseUnits;
+  fee_base_units: BaseUnits;
+};
+
+export type WithdrawSplSdkResult = {
+  isPartial: boolean;
+  base_units: number;
+  fee_base_units: number;
+  tx: string;
+  recipient?: string;
+};
+
+/**
+ * Request for a fee quote. Fixed-amount links are quoted for their amount when
+ * recipientBaseUnits is left out.
+ */
+export interface CreateFeeQuoteRequest {
+  paymentId: string;
+  recipientBaseUnits?: BaseUnits;
+}
+
+/**
+ * Signed fee quote: what a withdrawal paying the link takes from the private balance.
+ * Pass `id` as quoteId to /withdraw or /withdraw-spl before `expiresAt`.
+ */
+export interface FeeQuote {
+  id: string;
+  paymentId: string;
+  tokenMint: string;
+  configVersion: string; // Version of the relayer config the fees were computed with
+  recipientBaseUnits: BaseUnits;
+  totalBaseUnits: BaseUnits;
+  feeBaseUnits: BaseUnits;
+  rateFeeBaseUnits: BaseUnits;
+  rentBaseUnits: BaseUnits;
+  expiresAt: number; // Unix timestamp (ms)
+}
+
+export interface FeeBreakdownQuery {
+  mint: string;
+  recipientAmount: BaseUnits; // Received by each recipient
+  recipients?: number; // Withdrawals of recipientAmount, one per recipient (default 1)
+}
+
+/**
+ * Fees of one or more withdrawals of the same recipient amount, as GET /fees/quote
+ * reports them. Totals cover every recipient; nothing is locked, see FeeQuote for that.
+ */
+export interface FeeBreakdown {
+  tokenMint: string;
+  configVersion: string;
+  recipients: number;
+  feeRate: number; // Relayer rate fee, e.g. 0.0035
+  recipientBaseUnits: BaseUnits; // Per recipient
+  totalPerRecipientBaseUnits: BaseUnits; // Taken from the private balance per withdrawal
+  rentPerRecipientBaseUnits: BaseUnits; // Rent the relayer charges per withdrawal
+  minimumWithdrawalBaseUnits: BaseUnits; // Smallest recipientAmount the relayer takes; 0 if none
+  toRecipientsBaseUnits: BaseUnits;
+  rateFeeBaseUnits: BaseUnits;
+  rentBaseUnits: BaseUnits;
+  feeBaseUnits: BaseUnits;
+  totalBaseUnits: BaseUnits; // Taken from the private balance for every recipient
+}
+
+export type WithdrawJobKind = "sol" | "spl";
+
+/**
+ * Lifecycle of a withdraw job. `confirmed`, `failed` and `unconfirmed` are terminal;
+ * `unconfirmed` jobs failed after their transaction may have been sent.
+ */
+export type WithdrawJobStage =
+  | "queued"
+  | "syncing_utxos"
+  | "proving"
+  | "submitting"
+  | "confirmed"
+  | "failed"
+  | "unconfirmed";
+
+/**
+ * Withdraw job as reported by GET /withdraw-jobs/:id
+ */
+export interface WithdrawJobInfo {
+  id: string;
+  kind: WithdrawJobKind;
+  paymentId: string;
+  stage: WithdrawJobStage;
+  createdAt: number;
+  updatedAt: number;
+  tx?: string;
+  result?: WithdrawResult | WithdrawSplResult;
+  error?: string;
+  errorCode?: ErrorCode; // Set with error on failed and unconfirmed jobs
+  relayer?: string; // Relayer that answered the job's latest relayer request
+}
+
+export type WithdrawJobLogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Progress event relayed over GET /withdraw-jobs/:id/events
+ */
+export type WithdrawJobEvent =
+  | { type: "log"; level: WithdrawJobLogLevel; message: string; at: number }
+  | { type: "stage"; stage: WithdrawJobStage; job: WithdrawJobInfo; at: number };
+
+/**
+ * Passed to every prover worker thread on startup
+ */
+export interface ProverWorkerData {
+  keyBasePath: string;
+  rpcUrl: string;
+}
+
+/**
+ * A withdraw handed to a prover worker. Only plain values cross the thread boundary;
+ * the worker rebuilds keys and the encryption service from them.
+ */
+export type ProverRequest =
+  | {
+      kind: "sol";
+      jobId: string;
+      publicKey: string;
+      signature: string;
+      recipient: string;
+      amount_in_lamports: number;
+    }
+  | {
+      kind: "spl";
+      jobId: string;
+      publicKey: string;
+      signature: string;
+      recipient: string;
+      mintAddress: string;
+      base_units: number;
+    };
+
+/**
+ * A withdraw as posted to a worker, with the relayers to try, best first
+ */
+export type ProverTaskMessage = ProverRequest & { relayers: string[] };
+
+export type ProverWorkerMessage =
+  | { type: "ready" }
+  | { type: "log"; jobId: string; level: WithdrawJobLogLevel; message: string }
+  | { type: "relayer"; jobId: string; url: string; outcome: RelayerOutcome }
+  | { type: "result"; jobId: string; result: WithdrawSdkResult | WithdrawSplSdkResult }
+  | { type: "error"; jobId: string; message: string };
@@ -0,0 +1,273 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useWallet } from "@jup-ag/wallet-adapter";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { CopyButton } from "@/components/ui/copy-button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { WalletConnectButton } from "@/components/wallet-button";
+import { ApiKeysAPI } from "@/lib/api-service";
+import type { ApiKeyInfo, ApiKeyScope } from "@/lib/api-keys-types";
+import type { WalletSigner } from "@/lib/wallet-auth";
+
+const SCOPE_OPTIONS: { scope: ApiKeyScope; label: string; description: string }[] = [
+  {
+    scope: "links:create",
+    label: "Create links",
+    description: "Create payment links and checkout sessions for this wallet",
+  },
+  {
+    scope: "history:read",
+    label: "Read history",
+    description: "List and export payments received",
+  },
+  {
+    scope: "webhooks:manage",
+    label: "Manage webhooks",
+    description: "Register, test and remove webhook endpoints",
+  },
+];
+
+function formatDate(timestamp: number) {
+  return new Date(timestamp).toLocaleString();
+}
+
+/**
+ * Issue and revoke the connected wallet's merchant API keys
+ */
+export function ApiKeysManager() {
+  const { publicKey, signMessage } = useWallet();
+  const [apiKeys, setApiKeys] = useState<ApiKeyInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiKeyScope[]>(["links:create"]);
+  const [creating, setCreating] = useState(false);
+  // Full key of the one just issued; the backend never returns it again
+  const [issuedKey, setIssuedKey] = useState<{ name: string; key: string } | null>(null);
+
+  const walletSigner = useMemo<WalletSigner | null>(
+    () => (publicKey && signMessage ? { publicKey, signMessage } : null),
+    [publicKey, signMessage]
+  );
+
+  const refreshKeys = useCallback(async () => {
+    if (!walletSigner) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await ApiKeysAPI.listApiKeys(walletSigner);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to load API keys");
+      }
+      setApiKeys(result.data.apiKeys);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load API keys");
+    } finally {
+      setLoading(false);
+    }
+  }, [walletSigner]);
+
+  useEffect(() => {
+    setApiKeys([]);
+    setIssuedKey(null);
+    refreshKeys();
+  }, [refreshKeys]);
+
+  const toggleScope = (scope: ApiKeyScope, enabled: boolean) => {
+    setScopes((current) =>
+      enabled ? [...current, scope] : current.filter((existing) => existing !== scope)
+    );
+  };
+
+  const createKey = async () => {
+    if (!walletSigner) return;
+    setCreating(true);
+    setError(null);
+    try {
+      const result = await ApiKeysAPI.createApiKey(walletSigner, { name: name.trim(), scopes });
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to create API key");
+      }
+      setIssuedKey({ name: result.data.apiKey.name, key: result.data.key });
+      setApiKeys((current) => [result.data!.apiKey, ...current]);
+      setName("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create API key");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const revokeKey = async (keyId: string) => {
+    if (!walletSigner) return;
+    setError(null);
+    const result = await ApiKeysAPI.revokeApiKey(walletSigner, keyId);
+    if (!result.success) {
+      setError(result.error || "Failed to revoke API key");
+      return;
+    }
+    setApiKeys((current) =>
+      current.map((apiKey) => (apiKey.id === keyId ? { ...apiKey, revokedAt: Date.now() } : apiKey))
+    );
+  };
+
+  if (!walletSigner) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>API keys</CardTitle>
+          <CardDescription>
+            Connect the wallet your payments go to. Keys act for that wallet.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <WalletConnectButton size="sm" align="start" />
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>New API key</CardTitle>
+          <CardDescription>
+            Let your own server create invoices and read payments for this wallet. Send the key as{" "}
+            <code className="font-mono">Authorization: Bearer &lt;key&gt;</code>.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="api-key-name">Name</Label>
+            <Input
+              id="api-key-name"
+              placeholder="e.g. Shop backend"
+              maxLength={60}
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+            />
+          </div>
+          <div className="space-y-3">
+            <Label>Scopes</Label>
+            {SCOPE_OPTIONS.map(({ scope, label, description }) => (
+              <div key={scope} className="flex items-start gap-3">
+                <Switch
+                  id={`scope-${scope}`}
+                  size="sm"
+                  checked={scopes.includes(scope)}
+                  onCheckedChange={(checked: boolean) => toggleScope(scope, checked)}
+                />
+                <Label htmlFor={`scope-${scope}`} className="flex flex-col items-start gap-0.5">
+                  <span>{label}</span>
+                  <span className="text-xs font-normal text-muted-foreground">{description}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+          <Button
+            onClick={createKey}
+            disabled={creating || !name.trim() || scopes.length === 0}
+            className="w-full"
+          >
+            {creating ? "Creating..." : "Create key"}
+          </Button>
+          {issuedKey && (
+            <div className="space-y-2 rounded-lg border border-primary/30 bg-primary/5 p-4">
+              <p className="text-sm font-medium">
+                Copy the key for “{issuedKey.name}” now. It is not shown again.
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="min-w-0 flex-1 truncate rounded bg-muted px-2 py-1 font-mono text-xs">
+                  {issuedKey.key}
+                </code>
+                <CopyButton text={issuedKey.key} />
+              </div>
+              <Button variant="ghost" size="sm" onClick={() => setIssuedKey(null)}>
+                Done
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {error && (
+        <div className="rounded-lg border border-red-500/20 bg-red-500/10 p-3 text-sm text-red-500">
+          {error}
+        </div>
+      )}
+
+      {loading && apiKeys.length === 0 ? (
+        <p className="text-center text-sm text-muted-foreground">Loading API keys...</p>
+      ) : apiKeys.length === 0 ? (
+        <p className="text-center text-sm text-muted-foreground">No API keys yet.</p>
+      ) : (
+        apiKeys.map((apiKey) => (
+          <Card key={apiKey.id} className={apiKey.revokedAt ? "opacity-60" : undefined}>
+            <CardContent className="flex flex-wrap items-start justify-between gap-3 pt-6">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-semibold">{apiKey.name}</span>
+                  {apiKey.revokedAt && <Badge variant="destructive">Revoked</Badge>}
+                </div>
+                <div className="font-mono text-xs text-muted-foreground">{apiKey.prefix}…</div>
+                <div className="flex flex-wrap gap-1">
+                  {apiKey.scopes.map((scope) => (
+                    <Badge key={scope} variant="outline">
+                      {scope}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="text-xs text-muted-foreground">
+                  Created {formatDate(apiKey.createdAt)}
+                  {" · "}
+                  {apiKey.lastUsedAt ? `Last used ${formatDate(apiKey.lastUsedAt)}` : "Never used"}
+                  {apiKey.revokedAt && ` · Revoked ${formatDate(apiKey.revokedAt)}`}
+                </div>
+              </div>
+              {!apiKey.revokedAt && (
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="outline" size="sm">
+                      Revoke
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Revoke “{apiKey.name}”?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Requests made with this key fail from now on. This cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction variant="destructive" onClick={() => revokeKey(apiKey.id)}>
+                        Revoke
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              )}
+            </CardContent>
+          </Card>
+        ))
+      )}
+    </div>
+  );
+}
@@ -1,32 +1,283 @@
 "use client";
 
-import { useMemo } from "react";
+import { useMemo, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 import { CopyButton } from "@/components/ui/copy-button";
 import { Input } from "@/components/ui/input";
-import type { PaymentLinkPublicInfo } from "@/lib/payment-links-types";
-import { formatTokenAmount, getTokenByMint } from "@/lib/token-registry";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ListFilterBar } from "@/components/list-filter-bar";
+import { LoadMoreSentinel } from "@/components/load-more-sentinel";
+import { cn } from "@/lib/utils";
+import type {
+  PaymentLinkPublicInfo,
+  PaymentLinkStatus,
+  UpdatePaymentLinkRequest,
+} from "@/lib/payment-links-types";
+import { formatLinkAmount, formatLinkUsage } from "@/lib/payment-link-display";
+import { isUnfiltered, type FilterOption, type ListFilters } from "@/lib/list-filters";
+import {
+  formatTokenAmountInput,
+  getTokenByMint,
+  getTokenStep,
+  parseTokenAmount,
+} from "@/lib/token-registry";
+
+const STATUS_LABELS: Record<PaymentLinkStatus, string> = {
+  active: "Pending",
+  completed: "Completed",
+  disabled: "Paused",
+  expired: "Expired",
+};
+
+/** The first option is the default */
+export const LINK_SORT_OPTIONS: FilterOption[] = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "amount:desc", label: "Highest amount" },
+  { value: "amount:asc", label: "Lowest amount" },
+  { value: "usageCount:desc", label: "Most paid" },
+];
+
+const LINK_STATUS_OPTIONS: FilterOption[] = [
+  { value: "active", label: "Active" },
+  { value: "completed", label: "Completed" },
+  { value: "disabled", label: "Paused" },
+  { value: "expired", label: "Expired" },
+];
+
+/** Resolves to an error message, or null once the link is updated */
+type UpdateLink = (paymentId: string, update: UpdatePaymentLinkRequest) => Promise<string | null>;
+
+interface EditLinkFormProps {
+  link: PaymentLinkPublicInfo;
+  onSave: (update: UpdatePaymentLinkRequest) => Promise<string | null>;
+  onCancel: () => void;
+}
+
+/**
+ * Inline editor for the owner-editable fields. Only fields that changed are sent.
+ */
+function EditLinkForm({ link, onSave, onCancel }: EditLinkFormProps) {
+  const token = getTokenByMint(link.tokenMint);
+  const toInput = (baseUnits?: string) =>
+    baseUnits && token ? formatTokenAmountInput(BigInt(baseUnits), token) : "";
+
+  const [label, setLabel] = useState(link.label ?? "");
+  const [message, setMessage] = useState(link.message ?? "");
+  const [minAmount, setMinAmount] = useState(toInput(link.minAmount));
+  const [maxAmount, setMaxAmount] = useState(toInput(link.maxAmount));
+  const [maxUsageCount, setMaxUsageCount] = useState(link.maxUsageCount?.toString() ?? "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const buildUpdate = (): UpdatePaymentLinkRequest => {
+    const update: UpdatePaymentLinkRequest = {};
+    const nextLabel = label.trim() || null;
+    if (nextLabel !== (link.label ?? null)) update.label = nextLabel;
+    const nextMessage = message.trim() || null;
+    if (nextMessage !== (link.message ?? null)) update.message = nextMessage;
+
+    if (link.amountType === "flexible" && token) {
+      const parseBound = (value: string, name: string) => {
+        if (!value.trim()) return null;
+        const parsed = parseTokenAmount(value, token);
+        if ("error" in parsed) throw new Error(parsed.error);
+        if (parsed.baseUnits <= 0n) throw new Error(`Please enter a valid ${name}`);
+        return parsed.baseUnits.toString();
+      };
+      const nextMin = parseBound(minAmount, "minimum amount");
+      const nextMax = parseBound(maxAmount, "maximum amount");
+      if (nextMin !== (link.minAmount ?? null)) update.minAmount = nextMin;
+      if (nextMax !== (link.maxAmount ?? null)) update.maxAmount = nextMax;
+    }
+
+    if (link.reusable) {
+      let nextCap: number | null = null;
+      if (maxUsageCount.trim()) {
+        nextCap = Number(maxUsageCount);
+        if (!Number.isInteger(nextCap) || nextCap < 1) {
+          throw new Error("Payment limit must be a whole number of at least 1");
+        }
+      }
+      if (nextCap !== (link.maxUsageCount ?? null)) update.maxUsageCount = nextCap;
+    }
+
+    return update;
+  };
+
+  const handleSave = async () => {
+    setError(null);
+    let update: UpdatePaymentLinkRequest;
+    try {
+      update = buildUpdate();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Invalid input");
+      return;
+    }
+    if (Object.keys(update).length === 0) {
+      onCancel();
+      return;
+    }
+    setSaving(true);
+    const saveError = await onSave(update);
+    setSaving(false);
+    if (saveError) {
+      setError(saveError);
+      return;
+    }
+    onCancel();
+  };
+
+  const step = token ? getTokenStep(token) : "0.001";
+
+  return (
+    <div className="space-y-3 rounded-lg border border-border/50 bg-muted/10 p-3">
+      <div className="space-y-1.5">
+        <Label className="text-xs">Title</Label>
+        <Input
+          value={label}
+          onChange={(event) => setLabel(event.target.value)}
+          maxLength={80}
+          className="h-9"
+        />
+      </div>
+      <div className="space-y-1.5">
+        <Label className="text-xs">Message</Label>
+        <Textarea
+          value={message}
+          onChange={(event) => setMessage(event.target.value)}
+          maxLength={200}
+          rows={2}
+        />
+      </div>
+      {link.amountType === "flexible" && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div className="space-y-1.5">
+            <Label className="text-xs">Minimum ({token?.label ?? "token"})</Label>
+            <Input
+              type="number"
+              step={step}
+              value={minAmount}
+              onChange={(event) => setMinAmount(event.target.value)}
+              placeholder="No minimum"
+              className="h-9"
+            />
+          </div>
+          <div className="space-y-1.5">
+            <Label className="text-xs">Maximum ({token?.label ?? "token"})</Label>
+            <Input
+              type="number"
+              step={step}
+              value={maxAmount}
+              onChange={(event) => setMaxAmount(event.target.value)}
+              placeholder="No limit"
+              className="h-9"
+            />
+          </div>
+        </div>
+      )}
+      {link.reusable && (
+        <div className="space-y-1.5">
+          <Label className="text-xs">Payment limit</Label>
+          <Input
+            type="number"
+            min={1}
+            step={1}
+            value={maxUsageCount}
+            onChange={(event) => setMaxUsageCount(event.target.value)}
+            placeholder="Unlimited"
+            className="h-9"
+          />
+        </div>
+      )}
+      {error && <p className="text-xs text-red-500">{error}</p>}
+      <div className="flex gap-2">
+        <Button type="button" size="sm" className="h-9 px-4" disabled={saving} onClick={handleSave}>
+          {saving ? "Saving..." : "Save"}
+        </Button>
+        <Button
+          type="button"
+          size="sm"
+          variant="ghost"
+          className="h-9 px-4"
+          disabled={saving}
+          onClick={onCancel}
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export type CreatedLinksFilter = "live" | "archived";
 
 interface CreatedLinksTabProps {
   links: PaymentLinkPublicInfo[];
   loading: boolean;
-  onDelete: (paymentId: string) => void;
+  filter: CreatedLinksFilter;
+  onFilterChange: (filter: CreatedLinksFilter) => void;
+  filters: ListFilters;
+  onFiltersChange: (filters: ListFilters) => void;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+  onArchive: (paymentId: string) => void;
+  onRestore: (paymentId: string) => void;
+  onPurge: (paymentId: string) => void;
+  onUpdate: UpdateLink;
   isWalletConnected: boolean;
 }
 
 export function CreatedLinksTab({
   links,
   loading,
-  onDelete,
+  filter,
+  onFilterChange,
+  filters,
+  onFiltersChange,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  onArchive,
+  onRestore,
+  onPurge,
+  onUpdate,
   isWalletConnected,
 }: CreatedLinksTabProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [togglingId, setTogglingId] = useState<string | null>(null);
+  const [toggleError, setToggleError] = useState<{ paymentId: string; error: string } | null>(null);
+
   const baseUrl = useMemo(() => {
     if (typeof window === "undefined") return "";
     return window.location.origin;
   }, []);
 
+  const handleToggle = async (link: PaymentLinkPublicInfo) => {
+    setTogglingId(link.paymentId);
+    setToggleError(null);
+    const error = await onUpdate(link.paymentId, {
+      status: link.status === "disabled" ? "active" : "disabled",
+    });
+    setTogglingId(null);
+    if (error) setToggleError({ paymentId: link.paymentId, error });
+  };
+
   if (!isWalletConnected) {
     return (
       <Card>
@@ -37,48 +288,104 @@ export function CreatedLinksTab({
     );
   }
 
+  const isArchivedView = filter === "archived";
+
+  const filterBar = (
+    <div className="space-y-3">
+      <div className="flex gap-2" role="group" aria-label="Link filter">
+        {(
+          [
+            ["live", "Active"],
+            ["archived", "Archived"],
+          ] as const
+        ).map(([value, label]) => (
+          <Button
+            key={value}
+            type="button"
+            size="sm"
+            variant={filter === value ? "secondary" : "ghost"}
+            className={cn("h-8 px-3 text-xs", filter !== value && "text-muted-foreground")}
+            aria-pressed={filter === value}
+            onClick={() => onFilterChange(value)}
+          >
+            {label}
+          </Button>
+        ))}
+      </div>
+      <ListFilterBar
+        filters={filters}
+        onChange={onFiltersChange}
+        sortOptions={LINK_SORT_OPTIONS}
+        statusOptions={LINK_STATUS_OPTIONS}
+        searchPlaceholder="Search by title"
+      />
+    </div>
+  );
+
   if (loading) {
     return (
-      <Card>
-        <CardContent className="py-8 text-center text-sm text-muted-foreground">
-          Loading your links...
-        </CardContent>
-      </Card>
+      <div className="space-y-4">
+        {filterBar}
+        <Card>
+          <CardContent className="py-8 text-center text-sm text-muted-foreground">
+            Loading your links...
+          </CardContent>
+        </Card>
+      </div>
     );
   }
 
   if (links.length === 0) {
     return (
-      <Card>
-        <CardContent className="py-8 text-center text-sm text-muted-foreground">
-          No links yet. Create a payment link to get started.
-        </CardContent>
-      </Card>
+      <div className="space-y-4">
+        {filterBar}
+        <Card>
+          <CardContent className="py-8 text-center text-sm text-muted-foreground">
+            {!isUnfiltered(filters, filters.sort)
+              ? "No links match these filters."
+              : isArchivedView
+                ? "No archived links."
+                : "No links yet. Create a payment link to get started."}
+          </CardContent>
+        </Card>
+      </div>
     );
   }
 
   return (
     <div className="space-y-4">
+      {filterBar}
       {links.map((link) => {
         const url = baseUrl ? `${baseUrl}/pay/${link.paymentId}` : "";
         const createdAt = new Date(link.createdAt).toLocaleString();
-        const statusLabel = link.status === "completed" ? "Completed" : "Pending";
-        const token = getTokenByMint(link.tokenMint);
-        const amountLabel = token
-          ? `${formatTokenAmount(link.fixedAmount ?? 0, token)} ${token.label}`
-          : "Unknown token";
+        // A multi-use link keeps taking payments, so "Pending" would undersell it
+        const statusLabel =
+          link.status === "active" && link.reusable ? "Active" : STATUS_LABELS[link.status];
+        const expiresAt = link.expiresAt ? new Date(link.expiresAt).toLocaleString() : null;
+        const amountLabel = formatLinkAmount(link);
+        const usageLabel = formatLinkUsage(link);
         const canShare = typeof navigator !== "undefined" && Boolean(navigator.share);
+        const canToggle =
+          !isArchivedView && (link.status === "active" || link.status === "disabled");
+        const isEditing = editingId === link.paymentId;
 
         return (
           <Card key={link.paymentId}>
             <CardContent className="space-y-3 p-4">
               <div className="flex flex-wrap items-start justify-between gap-4">
                 <div className="space-y-1">
+                  {link.label && <div className="text-sm font-medium">{link.label}</div>}
                   <div className="text-lg font-semibold">{amountLabel}</div>
                   <div className="text-xs text-muted-foreground">Created {createdAt}</div>
+                  {usageLabel && <div className="text-xs text-muted-foreground">{usageLabel}</div>}
+                  {expiresAt && (
+                    <div className="text-xs text-muted-foreground">
+                      {link.status === "expired" ? "Expired" : "Expires"} {expiresAt}
+                    </div>
+                  )}
                 </div>
-                <Badge variant={link.status === "completed" ? "secondary" : "outline"}>
-                  {statusLabel}
+                <Badge variant={link.status === "active" ? "outline" : "secondary"}>
+                  {isArchivedView ? "Archived" : statusLabel}
                 </Badge>
               </div>
 
@@ -89,34 +396,114 @@ export function CreatedLinksTab({
                     <CopyButton text={url} className="h-9 px-4" />
                   </div>
                   <div className="flex flex-wrap items-center gap-2">
-                    <Button
-                      type="button"
-                      size="sm"
-                      variant="outline"
-                      className="h-9 px-4"
-                      disabled={!canShare}
-                      onClick={() => {
-                        if (navigator.share) navigator.share({ url });
-                      }}
-                    >
-                      Share
-                    </Button>
-                    <Button
-                      type="button"
-                      size="sm"
-                      variant="destructive"
-                      className="h-9 px-4"
-                      onClick={() => onDelete(link.paymentId)}
-                    >
-                      Delete
-                    </Button>
+                    {isArchivedView ? (
+                      <>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          className="h-9 px-4"
+                          onClick={() => onRestore(link.paymentId)}
+                        >
+                          Restore
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="destructive"
+                              className="h-9 px-4"
+                            >
+                              Delete permanently
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>Delete this link permanently?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Its payment history and edit log are removed as well. This cannot be
+                                undone.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancel</AlertDialogCancel>
+                              <AlertDialogAction
+                                variant="destructive"
+                                onClick={() => onPurge(link.paymentId)}
+                              >
+                                Delete
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
+                      </>
+                    ) : (
+                      <>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          className="h-9 px-4"
+                          disabled={!canShare}
+                          onClick={() => {
+                            if (navigator.share) navigator.share({ url });
+                          }}
+                        >
+                          Share
+                        </Button>
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          className="h-9 px-4"
+                          disabled={isEditing}
+                          onClick={() => setEditingId(link.paymentId)}
+                        >
+                          Edit
+                        </Button>
+                        {canToggle && (
+                          <Button
+                            type="button"
+                            size="sm"
+                            variant="outline"
+                            className="h-9 px-4"
+                            disabled={togglingId === link.paymentId}
+                            onClick={() => handleToggle(link)}
+                          >
+                            {link.status === "disabled" ? "Resume" : "Pause"}
+                          </Button>
+                        )}
+                        <Button
+                          type="button"
+                          size="sm"
+                          variant="outline"
+                          className="h-9 px-4"
+                          onClick={() => onArchive(link.paymentId)}
+                        >
+                          Archive
+                        </Button>
+                      </>
+                    )}
                   </div>
+                  {toggleError?.paymentId === link.paymentId && (
+                    <p className="text-xs text-red-500">{toggleError.error}</p>
+                  )}
                 </div>
               )}
+
+              {isEditing && !isArchivedView && (
+                <EditLinkForm
+                  link={link}
+                  onSave={(update) => onUpdate(link.paymentId, update)}
+                  onCancel={() => setEditingId(null)}
+                />
+              )}
             </CardContent>
           </Card>
         );
       })}
+      <LoadMoreSentinel hasMore={hasMore} loading={loadingMore} onLoadMore={onLoadMore} />
     </div>
   );
 }
@@ -0,0 +1,178 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ANY,
+  createListFilters,
+  isUnfiltered,
+  type FilterOption,
+  type ListFilters,
+} from "@/lib/list-filters";
+import { getTokenByMint, tokenRegistry } from "@/lib/token-registry";
+
+// Typed fields are applied once the user pauses, not on every keystroke
+const TYPING_DELAY_MS = 300;
+
+type TypedFields = Pick<ListFilters, "search" | "amountMin" | "amountMax">;
+
+interface ListFilterBarProps {
+  filters: ListFilters;
+  onChange: (filters: ListFilters) => void;
+  sortOptions: FilterOption[];
+  statusOptions?: FilterOption[];
+  searchPlaceholder: string;
+}
+
+/**
+ * Search, status, token, date range, amount range and sort controls for a list tab.
+ */
+export function ListFilterBar({
+  filters,
+  onChange,
+  sortOptions,
+  statusOptions,
+  searchPlaceholder,
+}: ListFilterBarProps) {
+  const [typed, setTyped] = useState<TypedFields>({
+    search: filters.search,
+    amountMin: filters.amountMin,
+    amountMax: filters.amountMax,
+  });
+
+  useEffect(() => {
+    if (
+      typed.search === filters.search &&
+      typed.amountMin === filters.amountMin &&
+      typed.amountMax === filters.amountMax
+    ) {
+      return;
+    }
+    const timer = setTimeout(() => onChange({ ...filters, ...typed }), TYPING_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [filters, onChange, typed]);
+
+  const token = filters.tokenMint !== ANY ? getTokenByMint(filters.tokenMint) : undefined;
+  // Clearing keeps the chosen sort
+  const cleared = createListFilters(filters.sort);
+  const hasFilters = !isUnfiltered({ ...filters, ...typed }, filters.sort);
+
+  const clear = () => {
+    setTyped({ search: "", amountMin: "", amountMax: "" });
+    onChange(cleared);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-col gap-2 sm:flex-row">
+        <Input
+          value={typed.search}
+          onChange={(event) => setTyped((prev) => ({ ...prev, search: event.target.value }))}
+          placeholder={searchPlaceholder}
+          aria-label="Search"
+          className="h-9 flex-1"
+        />
+        <Select value={filters.sort} onValueChange={(sort) => onChange({ ...filters, sort })}>
+          <SelectTrigger className="h-9 w-full sm:w-44" aria-label="Sort">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sortOptions.map((option) => (
+              <SelectItem key={option.value} value={option.value}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        {statusOptions && (
+          <Select
+            value={filters.status}
+            onValueChange={(status) => onChange({ ...filters, status })}
+          >
+            <SelectTrigger className="h-9 w-36" aria-label="Status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any status</SelectItem>
+              {statusOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+        <Select
+          value={filters.tokenMint}
+          onValueChange={(tokenMint) => onChange({ ...filters, tokenMint })}
+        >
+          <SelectTrigger className="h-9 w-32" aria-label="Token">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ANY}>Any token</SelectItem>
+            {tokenRegistry.map((entry) => (
+              <SelectItem key={entry.mint} value={entry.mint}>
+                {entry.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          type="date"
+          value={filters.from}
+          max={filters.to || undefined}
+          onChange={(event) => onChange({ ...filters, from: event.target.value })}
+          aria-label="From date"
+          className="h-9 w-36"
+        />
+        <Input
+          type="date"
+          value={filters.to}
+          min={filters.from || undefined}
+          onChange={(event) => onChange({ ...filters, to: event.target.value })}
+          aria-label="To date"
+          className="h-9 w-36"
+        />
+        <Input
+          type="number"
+          min={0}
+          value={typed.amountMin}
+          onChange={(event) => setTyped((prev) => ({ ...prev, amountMin: event.target.value }))}
+          placeholder={token ? `Min ${token.label}` : "Min amount"}
+          disabled={!token}
+          title={token ? undefined : "Pick a token to filter by amount"}
+          aria-label="Minimum amount"
+          className="h-9 w-28"
+        />
+        <Input
+          type="number"
+          min={0}
+          value={typed.amountMax}
+          onChange={(event) => setTyped((prev) => ({ ...prev, amountMax: event.target.value }))}
+          placeholder={token ? `Max ${token.label}` : "Max amount"}
+          disabled={!token}
+          title={token ? undefined : "Pick a token to filter by amount"}
+          aria-label="Maximum amount"
+          className="h-9 w-28"
+        />
+        {hasFilters && (
+          <Button type="button" size="sm" variant="ghost" className="h-9 px-3" onClick={clear}>
+            Clear
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,48 @@
+"use client";
+
+import { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+
+interface LoadMoreSentinelProps {
+  hasMore: boolean;
+  loading: boolean;
+  onLoadMore: () => void;
+}
+
+/**
+ * Placed after the last item of a paged list: asks for the next page as it scrolls
+ * into view. The button covers browsers without IntersectionObserver.
+ */
+export function LoadMoreSentinel({ hasMore, loading, onLoadMore }: LoadMoreSentinelProps) {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element || !hasMore || loading || typeof IntersectionObserver === "undefined") return;
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) onLoadMore();
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, [hasMore, loading, onLoadMore]);
+
+  if (!hasMore) return null;
+
+  return (
+    <div ref={ref} className="flex justify-center py-2">
+      <Button
+        type="button"
+        size="sm"
+        variant="ghost"
+        className="h-9 px-4 text-muted-foreground"
+        disabled={loading}
+        onClick={onLoadMore}
+      >
+        {loading ? "Loading more..." : "Load more"}
+      </Button>
+    </div>
+  );
+}
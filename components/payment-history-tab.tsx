@@ -2,18 +2,46 @@
 
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import type { PaymentRecord } from "@/lib/payment-links-types";
+import { ListFilterBar } from "@/components/list-filter-bar";
+import { LoadMoreSentinel } from "@/components/load-more-sentinel";
+import { isUnfiltered, type FilterOption, type ListFilters } from "@/lib/list-filters";
+import type { HistoryExportFormat, PaymentRecord } from "@/lib/payment-links-types";
 import { formatTokenAmount, getTokenByMint } from "@/lib/token-registry";
 
+/** The first option is the default */
+export const HISTORY_SORT_OPTIONS: FilterOption[] = [
+  { value: "completedAt:desc", label: "Newest first" },
+  { value: "completedAt:asc", label: "Oldest first" },
+  { value: "amount:desc", label: "Highest amount" },
+  { value: "amount:asc", label: "Lowest amount" },
+];
+
+const EXPORT_FORMATS: HistoryExportFormat[] = ["csv", "json"];
+
 interface PaymentHistoryTabProps {
   payments: PaymentRecord[];
   loading: boolean;
+  filters: ListFilters;
+  onFiltersChange: (filters: ListFilters) => void;
+  hasMore: boolean;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+  /** Format being downloaded, if any */
+  exporting: HistoryExportFormat | null;
+  onExport: (format: HistoryExportFormat) => void;
   isWalletConnected: boolean;
 }
 
 export function PaymentHistoryTab({
   payments,
   loading,
+  filters,
+  onFiltersChange,
+  hasMore,
+  loadingMore,
+  onLoadMore,
+  exporting,
+  onExport,
   isWalletConnected,
 }: PaymentHistoryTabProps) {
   if (!isWalletConnected) {
@@ -26,33 +54,69 @@ export function PaymentHistoryTab({
     );
   }
 
+  const filterBar = (
+    <div className="space-y-2">
+      <ListFilterBar
+        filters={filters}
+        onChange={onFiltersChange}
+        sortOptions={HISTORY_SORT_OPTIONS}
+        searchPlaceholder="Search by link title"
+      />
+      <div className="flex items-center justify-end gap-2">
+        <span className="text-xs text-muted-foreground">Export matching payments</span>
+        {EXPORT_FORMATS.map((format) => (
+          <Button
+            key={format}
+            type="button"
+            size="sm"
+            variant="outline"
+            className="h-8 px-3"
+            disabled={exporting !== null}
+            onClick={() => onExport(format)}
+          >
+            {exporting === format ? "Exporting..." : format.toUpperCase()}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+
   if (loading) {
     return (
-      <Card>
-        <CardContent className="py-8 text-center text-sm text-muted-foreground">
-          Loading payment history...
-        </CardContent>
-      </Card>
+      <div className="space-y-3">
+        {filterBar}
+        <Card>
+          <CardContent className="py-8 text-center text-sm text-muted-foreground">
+            Loading payment history...
+          </CardContent>
+        </Card>
+      </div>
     );
   }
 
   if (payments.length === 0) {
     return (
-      <Card>
-        <CardContent className="py-8 text-center text-sm text-muted-foreground">
-          No payments yet. Share a link to start receiving payments.
-        </CardContent>
-      </Card>
+      <div className="space-y-3">
+        {filterBar}
+        <Card>
+          <CardContent className="py-8 text-center text-sm text-muted-foreground">
+            {isUnfiltered(filters, filters.sort)
+              ? "No payments yet. Share a link to start receiving payments."
+              : "No payments match these filters."}
+          </CardContent>
+        </Card>
+      </div>
     );
   }
 
   return (
     <div className="space-y-3">
+      {filterBar}
       {payments.map((payment) => {
         const dateLabel = new Date(payment.completedAt).toLocaleString();
         const token = getTokenByMint(payment.tokenMint);
         const amountLabel = token
-          ? `${formatTokenAmount(payment.amount, token)} ${token.label}`
+          ? `${formatTokenAmount(BigInt(payment.amount), token)} ${token.label}`
           : "Unknown token";
         const explorerUrl = `https://explorer.solana.com/tx/${payment.txSignature}`;
 
@@ -63,6 +127,11 @@ export function PaymentHistoryTab({
                 <div className="text-sm font-semibold">{amountLabel}</div>
                 <div className="text-xs text-muted-foreground">{dateLabel}</div>
                 <div className="text-xs text-muted-foreground">Status: {payment.status}</div>
+                {payment.orderId && (
+                  <div className="text-xs text-muted-foreground">
+                    Order: <span className="font-mono">{payment.orderId}</span>
+                  </div>
+                )}
               </div>
               <Button asChild variant="outline">
                 <a href={explorerUrl} target="_blank" rel="noopener noreferrer">
@@ -73,9 +142,7 @@ export function PaymentHistoryTab({
           </Card>
         );
       })}
-      <p className="text-xs text-muted-foreground text-center">
-        Session data only. Payments reset on page reload.
-      </p>
+      <LoadMoreSentinel hasMore={hasMore} loading={loadingMore} onLoadMore={onLoadMore} />
     </div>
   );
 }
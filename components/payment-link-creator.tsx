@@ -8,21 +8,67 @@ import { WalletConnectButton } from "@/components/wallet-button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { cn } from "@/lib/utils";
 import { AmountTokenInput } from "@/components/ui/amount-token-input";
 import { PaymentLinksAPI } from "@/lib/api-service";
-import type { PaymentLinkPublicInfo, TokenMint } from "@/lib/payment-links-types";
+import { formatLinkAmount } from "@/lib/payment-link-display";
+import type {
+  CreatePaymentLinkRequest,
+  PaymentLinkPublicInfo,
+  TokenMint,
+} from "@/lib/payment-links-types";
 import {
   SOL_MINT,
-  formatTokenAmount,
   getTokenByMint,
-  parseTokenAmountToBaseUnits,
+  getTokenStep,
+  parseTokenAmount,
   tokenRegistry,
+  type TokenInfo,
 } from "@/lib/token-registry";
 import { Link2, CheckCircle2, Copy, Check } from "lucide-react";
 
 type CreatedLink = { metadata: PaymentLinkPublicInfo; url: string };
 
+const HOUR_MS = 60 * 60 * 1000;
+
+const EXPIRY_OPTIONS = [
+  { value: "never", label: "Never", durationMs: null },
+  { value: "1h", label: "In 1 hour", durationMs: HOUR_MS },
+  { value: "24h", label: "In 24 hours", durationMs: 24 * HOUR_MS },
+  { value: "7d", label: "In 7 days", durationMs: 7 * 24 * HOUR_MS },
+  { value: "30d", label: "In 30 days", durationMs: 30 * 24 * HOUR_MS },
+  { value: "custom", label: "Pick a date", durationMs: null },
+] as const;
+
+type ExpiryOption = (typeof EXPIRY_OPTIONS)[number]["value"];
+
+/**
+ * Resolve the expiry picker to an absolute timestamp. Custom values come from a
+ * datetime-local input and are read in the browser's time zone.
+ */
+function resolveExpiresAt(option: ExpiryOption, custom: string): number | undefined {
+  if (option === "custom") {
+    const timestamp = new Date(custom).getTime();
+    if (!custom || !Number.isFinite(timestamp)) {
+      throw new Error("Please pick an expiry date");
+    }
+    if (timestamp <= Date.now()) {
+      throw new Error("Expiry must be in the future");
+    }
+    return timestamp;
+  }
+  const durationMs = EXPIRY_OPTIONS.find((entry) => entry.value === option)?.durationMs;
+  return durationMs ? Date.now() + durationMs : undefined;
+}
+
 function CopyButtonWithIcon({ text, className }: { text: string; className?: string }) {
   const [copied, setCopied] = useState(false);
   const handleCopy = async () => {
@@ -60,6 +106,18 @@ function CopyButtonWithIcon({ text, className }: { text: string; className?: str
   );
 }
 
+/**
+ * Parse an optional amount field. Empty input means "not set"; anything else must be
+ * a positive amount.
+ */
+function parseOptionalAmount(value: string, token: TokenInfo, field: string) {
+  if (!value.trim()) return undefined;
+  const parsed = parseTokenAmount(value, token);
+  if ("error" in parsed) throw new Error(parsed.error);
+  if (parsed.baseUnits <= 0n) throw new Error(`Please enter a valid ${field}`);
+  return parsed.baseUnits;
+}
+
 interface PaymentLinkCreatorProps {
   onCreated?: (created: CreatedLink) => void;
 }
@@ -70,8 +128,16 @@ export function PaymentLinkCreator({ onCreated }: PaymentLinkCreatorProps) {
 
   const [tokenMint, setTokenMint] = useState<TokenMint>(SOL_MINT || tokenRegistry[0]?.mint || "");
   const [amount, setAmount] = useState("");
+  const [flexibleAmount, setFlexibleAmount] = useState(false);
+  const [minAmount, setMinAmount] = useState("");
+  const [maxAmount, setMaxAmount] = useState("");
+  const [reusable, setReusable] = useState(false);
+  const [maxUsageCount, setMaxUsageCount] = useState("");
+  const [label, setLabel] = useState("");
   const [message, setMessage] = useState("");
   const [recipientAddress, setRecipientAddress] = useState("");
+  const [expiry, setExpiry] = useState<ExpiryOption>("never");
+  const [customExpiry, setCustomExpiry] = useState("");
 
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -107,18 +173,44 @@ export function PaymentLinkCreator({ onCreated }: PaymentLinkCreatorProps) {
         throw new Error("Unsupported token");
       }
 
-      const baseUnits = parseTokenAmountToBaseUnits(amount, token);
-      if (!Number.isFinite(baseUnits) || baseUnits <= 0) {
-        throw new Error("Please enter a valid amount");
+      let amountTerms: Pick<
+        CreatePaymentLinkRequest,
+        "amountType" | "fixedAmount" | "minAmount" | "maxAmount"
+      >;
+      if (flexibleAmount) {
+        const min = parseOptionalAmount(minAmount, token, "minimum amount");
+        const max = parseOptionalAmount(maxAmount, token, "maximum amount");
+        if (min && max && max < min) {
+          throw new Error("Maximum must be at least the minimum");
+        }
+        amountTerms = {
+          amountType: "flexible",
+          minAmount: min?.toString(),
+          maxAmount: max?.toString(),
+        };
+      } else {
+        const baseUnits = parseOptionalAmount(amount, token, "amount");
+        if (!baseUnits) throw new Error("Please enter a valid amount");
+        amountTerms = { amountType: "fixed", fixedAmount: baseUnits.toString() };
       }
 
-      const body = {
+      let usageCap: number | undefined;
+      if (reusable && maxUsageCount.trim()) {
+        usageCap = Number(maxUsageCount);
+        if (!Number.isInteger(usageCap) || usageCap < 1) {
+          throw new Error("Payment limit must be a whole number of at least 1");
+        }
+      }
+
+      const body: CreatePaymentLinkRequest = {
         recipientAddress: resolvedRecipient,
         tokenMint,
-        amountType: "fixed" as const,
-        fixedAmount: baseUnits,
-        reusable: false,
+        ...amountTerms,
+        reusable,
+        maxUsageCount: usageCap,
+        label: label.trim() || undefined,
         message: message.trim() || undefined,
+        expiresAt: resolveExpiresAt(expiry, customExpiry),
       };
 
       const result = await PaymentLinksAPI.createPaymentLink(body);
@@ -140,7 +232,13 @@ export function PaymentLinkCreator({ onCreated }: PaymentLinkCreatorProps) {
       onCreated?.(created);
 
       setAmount("");
+      setMinAmount("");
+      setMaxAmount("");
+      setMaxUsageCount("");
+      setLabel("");
       setMessage("");
+      setExpiry("never");
+      setCustomExpiry("");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to create payment link");
     } finally {
@@ -148,12 +246,7 @@ export function PaymentLinkCreator({ onCreated }: PaymentLinkCreatorProps) {
     }
   };
 
-  const formatAmount = (baseUnits?: number, mint?: string) => {
-    if (!baseUnits || !mint) return "N/A";
-    const token = getTokenByMint(mint);
-    if (!token) return "N/A";
-    return `${formatTokenAmount(baseUnits, token)} ${token.label}`;
-  };
+  const selectedToken = getTokenByMint(tokenMint);
 
   return (
     <div className="space-y-4">
@@ -196,10 +289,7 @@ export function PaymentLinkCreator({ onCreated }: PaymentLinkCreatorProps) {
               const token = getTokenByMint(createdLink.metadata.tokenMint);
               const label = token?.label ?? "Token";
               const icon = token?.icon;
-              const amountStr = formatAmount(
-                createdLink.metadata.fixedAmount,
-                createdLink.metadata.tokenMint
-              );
+              const amountStr = formatLinkAmount(createdLink.metadata);
               return (
                 <div className="flex flex-col gap-1 rounded-lg border border-border/50 bg-muted/10 px-5 py-5 sm:flex-row sm:items-center sm:justify-between sm:gap-6">
                   <div className="flex items-center gap-3">
@@ -231,6 +321,23 @@ export function PaymentLinkCreator({ onCreated }: PaymentLinkCreatorProps) {
                 </div>
               );
             })()}
+            {(createdLink.metadata.label || createdLink.metadata.reusable) && (
+              <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <span className="font-medium text-foreground">{createdLink.metadata.label}</span>
+                {createdLink.metadata.reusable && (
+                  <span className="text-muted-foreground">
+                    {createdLink.metadata.maxUsageCount
+                      ? `Accepts up to ${createdLink.metadata.maxUsageCount} payments`
+                      : "Accepts any number of payments"}
+                  </span>
+                )}
+              </div>
+            )}
+            {createdLink.metadata.expiresAt && (
+              <p className="text-sm text-muted-foreground">
+                Expires {new Date(createdLink.metadata.expiresAt).toLocaleString()}
+              </p>
+            )}
             {createdLink.metadata.message && (
               <div className="rounded-lg border border-border/50 bg-muted/20 px-4 py-3">
                 <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider">
@@ -291,13 +398,80 @@ export function PaymentLinkCreator({ onCreated }: PaymentLinkCreatorProps) {
             </div>
 
             <div className="space-y-2">
-              <Label>Amount</Label>
+              <Label>Title (optional)</Label>
+              <Input
+                value={label}
+                onChange={(event) => setLabel(event.target.value)}
+                placeholder="Coffee fund"
+                maxLength={80}
+                autoComplete="off"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between gap-3">
+                <Label>{flexibleAmount ? "Minimum amount (optional)" : "Amount"}</Label>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="flexible-amount"
+                    size="sm"
+                    checked={flexibleAmount}
+                    onCheckedChange={setFlexibleAmount}
+                  />
+                  <Label htmlFor="flexible-amount" className="text-xs font-normal">
+                    Payer chooses amount
+                  </Label>
+                </div>
+              </div>
               <AmountTokenInput
-                amount={amount}
-                onAmountChange={setAmount}
+                amount={flexibleAmount ? minAmount : amount}
+                onAmountChange={flexibleAmount ? setMinAmount : setAmount}
                 token={tokenMint}
                 onTokenChange={setTokenMint}
               />
+              {flexibleAmount && (
+                <>
+                  <Label>Maximum amount (optional)</Label>
+                  <Input
+                    type="number"
+                    inputMode="decimal"
+                    step={selectedToken ? getTokenStep(selectedToken) : "0.001"}
+                    value={maxAmount}
+                    onChange={(event) => setMaxAmount(event.target.value)}
+                    placeholder="No limit"
+                    autoComplete="off"
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Leave both empty for a tip jar that accepts any amount.
+                  </p>
+                </>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="reusable-link"
+                  size="sm"
+                  checked={reusable}
+                  onCheckedChange={setReusable}
+                />
+                <Label htmlFor="reusable-link" className="font-normal">
+                  Accept multiple payments
+                </Label>
+              </div>
+              {reusable && (
+                <Input
+                  type="number"
+                  inputMode="numeric"
+                  min={1}
+                  step={1}
+                  value={maxUsageCount}
+                  onChange={(event) => setMaxUsageCount(event.target.value)}
+                  placeholder="Stop after this many payments (optional)"
+                  autoComplete="off"
+                />
+              )}
             </div>
 
             <div className="space-y-2">
@@ -311,6 +485,35 @@ export function PaymentLinkCreator({ onCreated }: PaymentLinkCreatorProps) {
               />
             </div>
 
+            <div className="space-y-2">
+              <Label>Expires</Label>
+              <div className="flex flex-col gap-2 sm:flex-row">
+                <Select value={expiry} onValueChange={(value) => setExpiry(value as ExpiryOption)}>
+                  <SelectTrigger className="h-9 w-full sm:w-44" aria-label="Expiry">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value}>
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {expiry === "custom" && (
+                  <Input
+                    type="datetime-local"
+                    value={customExpiry}
+                    onChange={(event) => setCustomExpiry(event.target.value)}
+                    className="h-9"
+                  />
+                )}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                After this the link stops accepting payments.
+              </p>
+            </div>
+
             {error && (
               <div className="p-3 bg-red-500/10 border border-red-500/20 rounded text-red-500 text-sm">
                 {error}
@@ -1,86 +1,241 @@
 "use client";
 
-import { useCallback, useEffect, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useWallet } from "@jup-ag/wallet-adapter";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { PaymentLinkCreator } from "@/components/payment-link-creator";
-import { CreatedLinksTab } from "@/components/created-links-tab";
-import { PaymentHistoryTab } from "@/components/payment-history-tab";
+import {
+  CreatedLinksTab,
+  LINK_SORT_OPTIONS,
+  type CreatedLinksFilter,
+} from "@/components/created-links-tab";
+import { HISTORY_SORT_OPTIONS, PaymentHistoryTab } from "@/components/payment-history-tab";
 import { PrivateTransfer } from "@/components/private-transfer";
 import { cn } from "@/lib/utils";
 import { PaymentLinksAPI } from "@/lib/api-service";
-import type { PaymentLinkPublicInfo, PaymentRecord } from "@/lib/payment-links-types";
+import { ANY, createListFilters, isUnfiltered, toListQuery } from "@/lib/list-filters";
+import type {
+  HistoryExportFormat,
+  PaymentLinkListQuery,
+  PaymentLinkPublicInfo,
+  PaymentLinkStatus,
+  PaymentRecord,
+  PaymentRecordListQuery,
+  UpdatePaymentLinkRequest,
+} from "@/lib/payment-links-types";
+import { getCachedWalletSession, type WalletSigner } from "@/lib/wallet-auth";
 
 type TabKey = "transfer" | "request" | "links" | "history";
 
+const DEFAULT_LINK_SORT = LINK_SORT_OPTIONS[0].value;
+const DEFAULT_HISTORY_SORT = HISTORY_SORT_OPTIONS[0].value;
+
 export function PaymentLinksManager() {
-  const { publicKey } = useWallet();
+  const { publicKey, signMessage } = useWallet();
   const [activeTab, setActiveTab] = useState<TabKey>("transfer");
   const [createdLinks, setCreatedLinks] = useState<PaymentLinkPublicInfo[]>([]);
+  const [linksCursor, setLinksCursor] = useState<string | null>(null);
+  const [linksFilter, setLinksFilter] = useState<CreatedLinksFilter>("live");
+  const [linkFilters, setLinkFilters] = useState(() => createListFilters(DEFAULT_LINK_SORT));
   const [paymentHistory, setPaymentHistory] = useState<PaymentRecord[]>([]);
+  const [historyCursor, setHistoryCursor] = useState<string | null>(null);
+  const [historyFilters, setHistoryFilters] = useState(() =>
+    createListFilters(DEFAULT_HISTORY_SORT)
+  );
   const [error, setError] = useState<string | null>(null);
   const [loadingLinks, setLoadingLinks] = useState(false);
+  const [loadingMoreLinks, setLoadingMoreLinks] = useState(false);
   const [loadingHistory, setLoadingHistory] = useState(false);
+  const [loadingMoreHistory, setLoadingMoreHistory] = useState(false);
+  const [exportingHistory, setExportingHistory] = useState<HistoryExportFormat | null>(null);
   const [lastCheckedKey, setLastCheckedKey] = useState<string | null>(null);
+  // Wallet that has been seen to own links or payments; filters can empty the lists
+  const [dataOwner, setDataOwner] = useState<string | null>(null);
+  // Bumped on every first-page load so pages of an older query are dropped
+  const linksQueryId = useRef(0);
+  const historyQueryId = useRef(0);
+
+  // Owner-scoped routes need a wallet session; PaymentLinksAPI signs in on first use
+  const walletSigner = useMemo<WalletSigner | null>(
+    () => (publicKey && signMessage ? { publicKey, signMessage } : null),
+    [publicKey, signMessage]
+  );
+
+  const linksQuery = useMemo<PaymentLinkListQuery>(
+    () => ({
+      ...toListQuery<NonNullable<PaymentLinkListQuery["sort"]>>(linkFilters),
+      archived: linksFilter === "archived",
+      status: linkFilters.status !== ANY ? [linkFilters.status as PaymentLinkStatus] : undefined,
+    }),
+    [linkFilters, linksFilter]
+  );
+
+  const historyQuery = useMemo<PaymentRecordListQuery>(
+    () => toListQuery<NonNullable<PaymentRecordListQuery["sort"]>>(historyFilters),
+    [historyFilters]
+  );
 
   const refreshLinks = useCallback(
     async (options?: { silent?: boolean }) => {
-      if (!publicKey) return;
+      if (!walletSigner) return;
+      const queryId = ++linksQueryId.current;
       if (!options?.silent) {
         setLoadingLinks(true);
         setError(null);
       }
       try {
-        const result = await PaymentLinksAPI.listPaymentLinks(publicKey.toBase58());
+        const result = await PaymentLinksAPI.listPaymentLinks(walletSigner, linksQuery);
         if (!result.success || !result.data) {
           throw new Error(result.error || "Failed to load payment links");
         }
-        const links = [...result.data.paymentLinks].sort((a, b) => b.createdAt - a.createdAt);
-        setCreatedLinks(links);
+        if (queryId !== linksQueryId.current) return;
+        const walletKey = walletSigner.publicKey.toBase58();
+        setCreatedLinks(result.data.paymentLinks);
+        setLinksCursor(result.data.nextCursor);
+        if (result.data.paymentLinks.length > 0) setDataOwner(walletKey);
+        setLastCheckedKey(walletKey);
       } catch (err) {
-        if (!options?.silent) {
+        if (!options?.silent && queryId === linksQueryId.current) {
           setError(err instanceof Error ? err.message : "Failed to load links");
         }
       } finally {
-        if (!options?.silent) {
+        if (queryId === linksQueryId.current) {
           setLoadingLinks(false);
         }
       }
     },
-    [publicKey]
+    [linksQuery, walletSigner]
   );
 
+  const loadMoreLinks = useCallback(async () => {
+    if (!walletSigner || !linksCursor || loadingMoreLinks) return;
+    const queryId = linksQueryId.current;
+    setLoadingMoreLinks(true);
+    try {
+      const result = await PaymentLinksAPI.listPaymentLinks(walletSigner, {
+        ...linksQuery,
+        cursor: linksCursor,
+      });
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to load more payment links");
+      }
+      if (queryId !== linksQueryId.current) return;
+      const page = result.data.paymentLinks;
+      setCreatedLinks((prev) => {
+        const seen = new Set(prev.map((link) => link.paymentId));
+        return [...prev, ...page.filter((link) => !seen.has(link.paymentId))];
+      });
+      setLinksCursor(result.data.nextCursor);
+    } catch (err) {
+      // Stop paging so the sentinel does not retry in a loop; changing a filter resets it
+      setLinksCursor(null);
+      setError(err instanceof Error ? err.message : "Failed to load more links");
+    } finally {
+      setLoadingMoreLinks(false);
+    }
+  }, [linksCursor, linksQuery, loadingMoreLinks, walletSigner]);
+
   const refreshHistory = useCallback(async () => {
-    if (!publicKey) return;
+    if (!walletSigner) return;
+    const queryId = ++historyQueryId.current;
     setLoadingHistory(true);
     setError(null);
     try {
-      const result = await PaymentLinksAPI.listPaymentHistory(publicKey.toBase58());
+      const result = await PaymentLinksAPI.listPaymentHistory(walletSigner, historyQuery);
       if (!result.success || !result.data) {
         throw new Error(result.error || "Failed to load payment history");
       }
-      const payments = [...result.data.payments].sort((a, b) => b.completedAt - a.completedAt);
-      setPaymentHistory(payments);
+      if (queryId !== historyQueryId.current) return;
+      const walletKey = walletSigner.publicKey.toBase58();
+      setPaymentHistory(result.data.payments);
+      setHistoryCursor(result.data.nextCursor);
+      if (result.data.payments.length > 0) setDataOwner(walletKey);
+      setLastCheckedKey(walletKey);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load history");
+      if (queryId === historyQueryId.current) {
+        setError(err instanceof Error ? err.message : "Failed to load history");
+      }
     } finally {
-      setLoadingHistory(false);
+      if (queryId === historyQueryId.current) {
+        setLoadingHistory(false);
+      }
     }
-  }, [publicKey]);
+  }, [historyQuery, walletSigner]);
 
-  useEffect(() => {
-    if (!publicKey) return;
-    if (activeTab === "links") {
-      refreshLinks();
-    }
-    if (activeTab === "history") {
-      refreshHistory();
+  const loadMoreHistory = useCallback(async () => {
+    if (!walletSigner || !historyCursor || loadingMoreHistory) return;
+    const queryId = historyQueryId.current;
+    setLoadingMoreHistory(true);
+    try {
+      const result = await PaymentLinksAPI.listPaymentHistory(walletSigner, {
+        ...historyQuery,
+        cursor: historyCursor,
+      });
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Failed to load more payment history");
+      }
+      if (queryId !== historyQueryId.current) return;
+      const page = result.data.payments;
+      setPaymentHistory((prev) => {
+        const seen = new Set(prev.map((record) => record.id));
+        return [...prev, ...page.filter((record) => !seen.has(record.id))];
+      });
+      setHistoryCursor(result.data.nextCursor);
+    } catch (err) {
+      setHistoryCursor(null);
+      setError(err instanceof Error ? err.message : "Failed to load more history");
+    } finally {
+      setLoadingMoreHistory(false);
     }
-  }, [activeTab, publicKey, refreshLinks, refreshHistory]);
+  }, [historyCursor, historyQuery, loadingMoreHistory, walletSigner]);
+
+  // Exports every payment matching the history filters, not just the loaded pages
+  const exportHistory = useCallback(
+    async (format: HistoryExportFormat) => {
+      if (!walletSigner || exportingHistory) return;
+      setExportingHistory(format);
+      setError(null);
+      try {
+        const result = await PaymentLinksAPI.exportPaymentHistory(
+          walletSigner,
+          format,
+          historyQuery
+        );
+        if (!result.success || !result.data) {
+          throw new Error(result.error || "Failed to export payment history");
+        }
+        const url = URL.createObjectURL(result.data.blob);
+        const anchor = document.createElement("a");
+        anchor.href = url;
+        anchor.download = result.data.filename;
+        anchor.click();
+        // Released after the click has started the download
+        setTimeout(() => URL.revokeObjectURL(url), 0);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to export payment history");
+      } finally {
+        setExportingHistory(null);
+      }
+    },
+    [exportingHistory, historyQuery, walletSigner]
+  );
+
+  // Each list reloads from its first page when its tab opens or its filters change
+  useEffect(() => {
+    if (!publicKey || activeTab !== "links") return;
+    refreshLinks();
+  }, [activeTab, publicKey, refreshLinks]);
+
+  useEffect(() => {
+    if (!publicKey || activeTab !== "history") return;
+    refreshHistory();
+  }, [activeTab, publicKey, refreshHistory]);
 
   useEffect(() => {
     const walletKey = publicKey?.toBase58();
     if (!walletKey || walletKey === lastCheckedKey) return;
+    // Only probe silently when signed in already; never prompt the wallet on connect
+    if (!getCachedWalletSession(walletKey)) return;
     let isMounted = true;
     const probeLinks = async () => {
       await refreshLinks({ silent: true });
@@ -94,7 +249,11 @@ export function PaymentLinksManager() {
     };
   }, [lastCheckedKey, publicKey, refreshLinks]);
 
-  const showDataTabs = createdLinks.length > 0 || paymentHistory.length > 0;
+  // Until the wallet has signed in we can't tell whether it owns links, so keep the
+  // tabs reachable; opening one triggers the sign-in.
+  const walletKey = publicKey?.toBase58();
+  const needsSignIn = Boolean(walletKey) && lastCheckedKey !== walletKey;
+  const showDataTabs = (Boolean(walletKey) && dataOwner === walletKey) || needsSignIn;
 
   useEffect(() => {
     if (!showDataTabs && (activeTab === "links" || activeTab === "history")) {
@@ -102,16 +261,58 @@ export function PaymentLinksManager() {
     }
   }, [activeTab, showDataTabs]);
 
-  const handleCreated = useCallback((created: { metadata: PaymentLinkPublicInfo }) => {
-    setCreatedLinks((prev) => [created.metadata, ...prev]);
-  }, []);
+  const handleCreated = useCallback(
+    (created: { metadata: PaymentLinkPublicInfo }) => {
+      if (walletKey) setDataOwner(walletKey);
+      // Anywhere but the top of the unfiltered list it shows up on the next load
+      if (linksFilter === "live" && isUnfiltered(linkFilters, DEFAULT_LINK_SORT)) {
+        setCreatedLinks((prev) => [created.metadata, ...prev]);
+      }
+    },
+    [linkFilters, linksFilter, walletKey]
+  );
+
+  // Archiving keeps the link's payment history; only purging removes it
+  const handleArchive = useCallback(
+    async (paymentId: string) => {
+      if (!walletSigner) return;
+      setError(null);
+      try {
+        const result = await PaymentLinksAPI.archivePaymentLink(paymentId, walletSigner);
+        if (!result.success || !result.data) {
+          throw new Error(result.error || "Failed to archive payment link");
+        }
+        setCreatedLinks((prev) => prev.filter((link) => link.paymentId !== paymentId));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to archive payment link");
+      }
+    },
+    [walletSigner]
+  );
+
+  const handleRestore = useCallback(
+    async (paymentId: string) => {
+      if (!walletSigner) return;
+      setError(null);
+      try {
+        const result = await PaymentLinksAPI.restorePaymentLink(paymentId, walletSigner);
+        if (!result.success || !result.data) {
+          throw new Error(result.error || "Failed to restore payment link");
+        }
+        setCreatedLinks((prev) => prev.filter((link) => link.paymentId !== paymentId));
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to restore payment link");
+      }
+    },
+    [walletSigner]
+  );
 
-  const handleDelete = useCallback(
+  const handlePurge = useCallback(
     async (paymentId: string) => {
-      if (!publicKey) return;
+      if (!walletSigner) return;
       setError(null);
       try {
-        const result = await PaymentLinksAPI.deletePaymentLink(paymentId, publicKey.toBase58());
+        const result = await PaymentLinksAPI.purgePaymentLink(paymentId, walletSigner);
         if (!result.success) {
           throw new Error(result.error || "Failed to delete payment link");
         }
@@ -121,7 +322,28 @@ export function PaymentLinksManager() {
         setError(err instanceof Error ? err.message : "Failed to delete payment link");
       }
     },
-    [publicKey]
+    [walletSigner]
+  );
+
+  // Resolves to an error message so the tab can keep its edit form open
+  const handleUpdate = useCallback(
+    async (paymentId: string, update: UpdatePaymentLinkRequest): Promise<string | null> => {
+      if (!walletSigner) return "Connect your wallet to edit links";
+      try {
+        const result = await PaymentLinksAPI.updatePaymentLink(paymentId, update, walletSigner);
+        if (!result.success || !result.data) {
+          throw new Error(result.error || "Failed to update payment link");
+        }
+        const updated = result.data.paymentLink;
+        setCreatedLinks((prev) =>
+          prev.map((link) => (link.paymentId === paymentId ? updated : link))
+        );
+        return null;
+      } catch (err) {
+        return err instanceof Error ? err.message : "Failed to update payment link";
+      }
+    },
+    [walletSigner]
   );
 
   return (
@@ -197,7 +419,17 @@ export function PaymentLinksManager() {
           <CreatedLinksTab
             links={createdLinks}
             loading={loadingLinks}
-            onDelete={handleDelete}
+            filter={linksFilter}
+            onFilterChange={setLinksFilter}
+            filters={linkFilters}
+            onFiltersChange={setLinkFilters}
+            hasMore={Boolean(linksCursor)}
+            loadingMore={loadingMoreLinks}
+            onLoadMore={loadMoreLinks}
+            onArchive={handleArchive}
+            onRestore={handleRestore}
+            onPurge={handlePurge}
+            onUpdate={handleUpdate}
             isWalletConnected={Boolean(publicKey)}
           />
         </TabsContent>
@@ -213,6 +445,13 @@ export function PaymentLinksManager() {
           <PaymentHistoryTab
             payments={paymentHistory}
             loading={loadingHistory}
+            filters={historyFilters}
+            onFiltersChange={setHistoryFilters}
+            hasMore={Boolean(historyCursor)}
+            loadingMore={loadingMoreHistory}
+            onLoadMore={loadMoreHistory}
+            exporting={exportingHistory}
+            onExport={exportHistory}
             isWalletConnected={Boolean(publicKey)}
           />
         </TabsContent>
@@ -20,7 +20,13 @@ import {
   signSessionMessage,
   WalletAdapter,
 } from "@/lib/privacy-cash";
-import { PaymentLinksAPI, PrivacyCashAPI } from "@/lib/api-service";
+import {
+  PaymentLinksAPI,
+  PrivacyCashAPI,
+  type WithdrawJobInfo,
+  type WithdrawJobStage,
+} from "@/lib/api-service";
+import { formatLinkAmount, formatLinkUsage } from "@/lib/payment-link-display";
 import type { PaymentLinkPublicInfo } from "@/lib/payment-links-types";
 import {
   formatTokenAmount,
@@ -28,15 +34,13 @@ import {
   getTokenByMint,
   getTokenStep,
   isSolMint,
-  parseTokenAmountToBaseUnits,
+  parseTokenAmount,
 } from "@/lib/token-registry";
-import {
-  getRelayerConfig,
-  computeTotalLamportsForRecipient,
-  computeTotalBaseUnitsForRecipientSPL,
-} from "@/lib/fee-config";
+import { useFeeQuote } from "@/hooks/use-fee-quote";
+import { relayerLabel } from "@/lib/relayers";
 import { Typewriter } from "@/components/ui/typewriter";
 import { cn } from "@/lib/utils";
+import { errorCode, isRetryableError, resultError } from "@/lib/api-errors";
 import {
   Wallet,
   FileSignature,
@@ -50,12 +54,79 @@ import {
 
 const RPC_URL = process.env.NEXT_PUBLIC_SOLANA_RPC_URL || "https://api.mainnet-beta.solana.com";
 
+const WITHDRAW_JOB_POLL_MS = 2000;
+const WITHDRAW_JOB_STORAGE_PREFIX = "ghostsend:withdraw-job:";
+const WITHDRAW_KEY_STORAGE_PREFIX = "ghostsend:withdraw-key:";
+
+const WITHDRAW_STAGE_LOGS: Partial<Record<WithdrawJobStage, string>> = {
+  queued: "Info: Queued for proving…",
+  syncing_utxos: "Info: Syncing private balance…",
+  proving: "Info: Generating zero-knowledge proof…",
+  submitting: "Info: Submitting to relayer…",
+};
+
+// Unconfirmed jobs may have paid; they end like failed ones but must not be retried
+const FINAL_WITHDRAW_STAGES = new Set<WithdrawJobStage>(["confirmed", "failed", "unconfirmed"]);
+
+// The pending job ID is kept in localStorage so a reload resumes polling instead of paying twice
+function getStoredWithdrawJob(paymentId: string): string | null {
+  try {
+    return localStorage.getItem(`${WITHDRAW_JOB_STORAGE_PREFIX}${paymentId}`);
+  } catch {
+    return null;
+  }
+}
+
+function storeWithdrawJob(paymentId: string, jobId: string) {
+  try {
+    localStorage.setItem(`${WITHDRAW_JOB_STORAGE_PREFIX}${paymentId}`, jobId);
+  } catch {
+    // no-op
+  }
+}
+
+function clearStoredWithdrawJob(paymentId: string) {
+  try {
+    localStorage.removeItem(`${WITHDRAW_JOB_STORAGE_PREFIX}${paymentId}`);
+  } catch {
+    // no-op
+  }
+}
+
+function clearWithdrawIdempotencyKey(paymentId: string) {
+  try {
+    localStorage.removeItem(`${WITHDRAW_KEY_STORAGE_PREFIX}${paymentId}`);
+  } catch {
+    // no-op
+  }
+}
+
+// One Idempotency-Key per payment attempt, reused by every retry until the attempt ends
+function getWithdrawIdempotencyKey(paymentId: string): string {
+  try {
+    const stored = localStorage.getItem(`${WITHDRAW_KEY_STORAGE_PREFIX}${paymentId}`);
+    if (stored) return stored;
+    const key = crypto.randomUUID();
+    localStorage.setItem(`${WITHDRAW_KEY_STORAGE_PREFIX}${paymentId}`, key);
+    return key;
+  } catch {
+    return crypto.randomUUID();
+  }
+}
+
 interface PaymentReceiverProps {
   paymentId: string;
   /** When true, parent can hide page-level intro to avoid two log areas during sign step */
   onSigningChange?: (isSigning: boolean) => void;
 }
 
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+// Checkout sessions send the payer back to the merchant after a short pause on the receipt
+const CHECKOUT_REDIRECT_DELAY_MS = 3000;
+// The payment is recorded as the withdrawal finishes; ask again if the result is not ready
+const CHECKOUT_RESULT_ATTEMPTS = 3;
+
 type PaymentStatus = "idle" | "checking" | "depositing" | "paying" | "success" | "error";
 
 export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverProps) {
@@ -65,22 +136,35 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
   const [paymentLink, setPaymentLink] = useState<PaymentLinkPublicInfo | null>(null);
   const [loadingLink, setLoadingLink] = useState(true);
   const [linkError, setLinkError] = useState<string | null>(null);
+  // Re-rendered when the link opens or expires so the page flips without a reload
+  const [now, setNow] = useState(() => Date.now());
 
   const [amount, setAmount] = useState("");
   const [status, setStatus] = useState<PaymentStatus>("idle");
   const [error, setError] = useState<string | null>(null);
-  const [publicBalanceBaseUnits, setPublicBalanceBaseUnits] = useState<number | null>(null);
-  const [privateBalanceBaseUnits, setPrivateBalanceBaseUnits] = useState<number | null>(null);
+  const [publicBalanceBaseUnits, setPublicBalanceBaseUnits] = useState<bigint | null>(null);
+  const [privateBalanceBaseUnits, setPrivateBalanceBaseUnits] = useState<bigint | null>(null);
   const [balancesChecked, setBalancesChecked] = useState(false);
   const [logQueue, setLogQueue] = useState<string[]>([]);
   const [displayLogs, setDisplayLogs] = useState<string[]>([]);
   const [activityLogs, setActivityLogs] = useState<string[]>([]);
   const [activityExiting, setActivityExiting] = useState(false);
-  const [relayerConfig, setRelayerConfig] =
-    useState<Awaited<ReturnType<typeof getRelayerConfig>>>(null);
+  const [checkoutRedirect, setCheckoutRedirect] = useState<string | null>(null);
+  const [checkoutRedirectFailed, setCheckoutRedirectFailed] = useState(false);
   const lastLogRef = useRef<string | null>(null);
   const activityLogsRef = useRef<HTMLDivElement>(null);
   const activityExitTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const unmountedRef = useRef(false);
+  const resumeCheckedRef = useRef<string | null>(null);
+  const closeJobStreamRef = useRef<(() => void) | null>(null);
+
+  useEffect(() => {
+    unmountedRef.current = false;
+    return () => {
+      unmountedRef.current = true;
+      closeJobStreamRef.current?.();
+    };
+  }, []);
 
   const token = useMemo(
     () => (paymentLink ? getTokenByMint(paymentLink.tokenMint) : undefined),
@@ -89,34 +173,76 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
 
   const isSolToken = token ? isSolMint(token.mint) : false;
 
-  useEffect(() => {
-    const fetchPaymentLink = async () => {
-      try {
-        const result = await PaymentLinksAPI.getPaymentLink(paymentId);
-        if (!result.success || !result.data) {
-          throw new Error(result.error || "Payment link not found");
-        }
+  const fetchPaymentLink = useCallback(async () => {
+    try {
+      const result = await PaymentLinksAPI.getPaymentLink(paymentId);
+      if (!result.success || !result.data) {
+        throw new Error(result.error || "Payment link not found");
+      }
+
+      const link = result.data.paymentLink;
+      setPaymentLink(link);
+
+      if (link.amountType === "fixed") {
+        setAmount("");
+      }
+    } catch (err) {
+      setLinkError(err instanceof Error ? err.message : "Failed to load payment link");
+    } finally {
+      setLoadingLink(false);
+    }
+  }, [paymentId]);
 
-        const link = result.data.paymentLink;
-        setPaymentLink(link);
+  useEffect(() => {
+    fetchPaymentLink();
+  }, [fetchPaymentLink]);
 
-        if (link.amountType === "fixed") {
-          setAmount("");
+  // Once a checkout session is paid, fetch the signed result and return to the merchant
+  useEffect(() => {
+    if (status !== "success" || !paymentLink?.checkout) return;
+    let cancelled = false;
+    let redirectTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const fetchResult = async () => {
+      for (let attempt = 1; attempt <= CHECKOUT_RESULT_ATTEMPTS; attempt++) {
+        const result = await PaymentLinksAPI.getCheckoutResult(paymentId);
+        if (cancelled) return;
+        if (result.success && result.data) {
+          const { redirectUrl } = result.data;
+          setCheckoutRedirect(redirectUrl);
+          redirectTimer = setTimeout(
+            () => window.location.assign(redirectUrl),
+            CHECKOUT_REDIRECT_DELAY_MS
+          );
+          return;
         }
-      } catch (err) {
-        setLinkError(err instanceof Error ? err.message : "Failed to load payment link");
-      } finally {
-        setLoadingLink(false);
+        await new Promise((resolve) => setTimeout(resolve, WITHDRAW_JOB_POLL_MS));
       }
+      if (!cancelled) setCheckoutRedirectFailed(true);
     };
 
-    fetchPaymentLink();
-  }, [paymentId]);
+    fetchResult();
+    return () => {
+      cancelled = true;
+      if (redirectTimer) clearTimeout(redirectTimer);
+    };
+  }, [paymentId, paymentLink?.checkout, status]);
+
+  useEffect(() => {
+    if (!paymentLink) return;
+    const next = [paymentLink.activeFrom, paymentLink.expiresAt].find(
+      (boundary): boundary is number => boundary !== undefined && boundary > now
+    );
+    if (next === undefined) return;
+    // setTimeout overflows past ~24.8 days; wake up early and re-schedule
+    const timer = setTimeout(() => setNow(Date.now()), Math.min(next - now, MAX_TIMER_MS));
+    return () => clearTimeout(timer);
+  }, [paymentLink, now]);
 
   useEffect(() => {
     if (!paymentLink || !token) return;
     if (paymentLink.amountType !== "fixed" || !paymentLink.fixedAmount) return;
-    setAmount(formatTokenAmountInput(paymentLink.fixedAmount, token));
+    setAmount(formatTokenAmountInput(BigInt(paymentLink.fixedAmount), token));
   }, [paymentLink, token]);
 
   useEffect(() => {
@@ -152,11 +278,11 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
       const ata = await getAssociatedTokenAddress(new PublicKey(mint), owner);
       try {
         const balance = await targetConnection.getTokenAccountBalance(ata);
-        return Number(balance.value.amount);
+        return BigInt(balance.value.amount);
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         if (message.toLowerCase().includes("could not find account")) {
-          return 0;
+          return 0n;
         }
         throw err;
       }
@@ -175,7 +301,7 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
       const walletAdapter = getWalletAdapter();
 
       const publicBalance = isSolToken
-        ? await connection.getBalance(publicKey)
+        ? BigInt(await connection.getBalance(publicKey))
         : await getPublicTokenBalance(connection, publicKey, token.mint);
 
       const privateBaseUnits = isSolToken
@@ -189,7 +315,7 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
           ).base_units;
 
       setPublicBalanceBaseUnits(publicBalance);
-      setPrivateBalanceBaseUnits(privateBaseUnits);
+      setPrivateBalanceBaseUnits(BigInt(privateBaseUnits));
       setBalancesChecked(true);
       setStatus("idle");
       setLogQueue([]);
@@ -201,16 +327,13 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
   }, [connection, getPublicTokenBalance, getWalletAdapter, isSolToken, publicKey, token]);
 
   useEffect(() => {
-    if (!publicKey || !token || balancesChecked || status === "checking") return;
+    if (!publicKey || !token || balancesChecked || status === "checking" || status === "paying")
+      return;
     fetchBalances();
   }, [balancesChecked, fetchBalances, publicKey, status, token]);
 
-  useEffect(() => {
-    getRelayerConfig().then(setRelayerConfig);
-  }, []);
-
   const formatAmount = useCallback(
-    (baseUnits: number) => {
+    (baseUnits: bigint) => {
       if (!token) return "---";
       return formatTokenAmount(baseUnits, token);
     },
@@ -219,51 +342,49 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
 
   const tokenLabel = token?.label ?? "Token";
 
-  const amountBaseUnits = useMemo(() => {
-    if (!token) return 0;
-    const parsed = parseTokenAmountToBaseUnits(amount, token);
-    return Number.isFinite(parsed) ? parsed : 0;
-  }, [amount, token]);
-
-  const isValidAmount = amountBaseUnits > 0;
-
-  const payFeeBreakdown = useMemo(() => {
-    if (!isValidAmount || !token) return null;
-    if (isSolToken) {
-      const { totalLamports, feeLamports } = computeTotalLamportsForRecipient(
-        amountBaseUnits,
-        relayerConfig
-      );
-      return {
-        toRecipientBaseUnits: amountBaseUnits,
-        feeBaseUnits: feeLamports,
-        totalFromPrivateBaseUnits: totalLamports,
-      };
+  const parsedAmount = useMemo(
+    () => (token && amount.trim() ? parseTokenAmount(amount, token) : null),
+    [amount, token]
+  );
+  const amountBaseUnits = parsedAmount && "baseUnits" in parsedAmount ? parsedAmount.baseUnits : 0n;
+
+  // Flexible links may bound the amount; the backend rejects anything outside the range
+  const amountError = useMemo(() => {
+    if (!paymentLink || paymentLink.amountType !== "flexible" || !token) return null;
+    if (parsedAmount && "error" in parsedAmount) return parsedAmount.error;
+    if (amountBaseUnits <= 0n) return null;
+    if (paymentLink.minAmount && amountBaseUnits < BigInt(paymentLink.minAmount)) {
+      return `Minimum is ${formatTokenAmount(BigInt(paymentLink.minAmount), token)} ${token.label}`;
     }
-    const { totalBaseUnits, feeBaseUnits } = computeTotalBaseUnitsForRecipientSPL(
-      amountBaseUnits,
-      token.unitsPerToken,
-      token.name,
-      relayerConfig
-    );
-    return {
-      toRecipientBaseUnits: amountBaseUnits,
-      feeBaseUnits,
-      totalFromPrivateBaseUnits: totalBaseUnits,
-    };
-  }, [amountBaseUnits, isSolToken, isValidAmount, relayerConfig, token]);
+    if (paymentLink.maxAmount && amountBaseUnits > BigInt(paymentLink.maxAmount)) {
+      return `Maximum is ${formatTokenAmount(BigInt(paymentLink.maxAmount), token)} ${token.label}`;
+    }
+    return null;
+  }, [amountBaseUnits, parsedAmount, paymentLink, token]);
 
-  const requiredPrivateBaseUnits = payFeeBreakdown?.totalFromPrivateBaseUnits ?? 0;
+  const isValidAmount = amountBaseUnits > 0n && !amountError;
+
+  // Fees come from the backend, the same numbers POST /quotes locks when paying
+  const quotedAmounts = useMemo(
+    () => (isValidAmount ? [amountBaseUnits] : []),
+    [amountBaseUnits, isValidAmount]
+  );
+  const fees = useFeeQuote(token, quotedAmounts);
+  const payFeeBreakdown = isValidAmount ? fees.totals : null;
+
+  const requiredPrivateBaseUnits = payFeeBreakdown?.totalBaseUnits ?? 0n;
 
   const shortfallBaseUnits =
     privateBalanceBaseUnits !== null
-      ? Math.max(0, requiredPrivateBaseUnits - privateBalanceBaseUnits)
+      ? requiredPrivateBaseUnits > privateBalanceBaseUnits
+        ? requiredPrivateBaseUnits - privateBalanceBaseUnits
+        : 0n
       : null;
 
   const isBusy = status === "checking" || status === "depositing" || status === "paying";
   const hasSufficientBalance =
     privateBalanceBaseUnits !== null && privateBalanceBaseUnits >= requiredPrivateBaseUnits;
-  const needsDeposit = shortfallBaseUnits !== null && shortfallBaseUnits > 0;
+  const needsDeposit = shortfallBaseUnits !== null && shortfallBaseUnits > 0n;
 
   useEffect(() => {
     if (!isBusy) return;
@@ -321,7 +442,7 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
   }, [isSigning, onSigningChange]);
 
   const handleDeposit = useCallback(
-    async (amountToDeposit: number) => {
+    async (amountToDeposit: bigint) => {
       if (!publicKey || !token) return;
       setStatus("depositing");
       setError(null);
@@ -335,15 +456,19 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
           ? await depositSOL({
               connection,
               wallet: walletAdapter,
-              amount_in_lamports: amountToDeposit,
+              amount_in_lamports: Number(amountToDeposit),
             })
           : await depositSPLToken({
               connection,
               wallet: walletAdapter,
               mintAddress: token.mint,
-              base_units: amountToDeposit,
+              base_units: Number(amountToDeposit),
             });
 
+        if (depositResult.relayer) {
+          const relayerLog = `Info: Deposit served by relayer ${relayerLabel(depositResult.relayer)}`;
+          setActivityLogs((prev) => [...prev.slice(-11), relayerLog]);
+        }
         await connection.confirmTransaction(depositResult.tx, "confirmed");
         await fetchBalances();
         setStatus("idle");
@@ -377,6 +502,155 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
               }`
             : `Pay ${token ? `${formatAmount(amountBaseUnits)} ${token.label}` : "---"}`;
 
+  const pushActivityLog = useCallback((message: string) => {
+    setLogQueue((prev) => [...prev, message]);
+    setActivityLogs((prev) => [...prev.slice(-11), message]);
+  }, []);
+
+  /**
+   * Follow a queued withdrawal until it ends, relaying the server's prover logs over SSE
+   * and falling back to polling if the stream drops. Resolves null on unmount.
+   */
+  const waitForWithdrawJob = useCallback(
+    async (jobId: string): Promise<WithdrawJobInfo | null> => {
+      let lastStage: WithdrawJobStage | null = null;
+      const reportStage = (stage: WithdrawJobStage) => {
+        if (stage === lastStage) return;
+        lastStage = stage;
+        const stageLog = WITHDRAW_STAGE_LOGS[stage];
+        if (stageLog) pushActivityLog(stageLog);
+      };
+
+      const streamed = await new Promise<WithdrawJobInfo | null>((resolve) => {
+        let settled = false;
+        const close = PrivacyCashAPI.subscribeWithdrawJob(
+          jobId,
+          (event) => {
+            if (settled) return;
+            if (event.type === "log") {
+              const prefix =
+                event.level === "error" ? "Error" : event.level === "warn" ? "Warn" : "Info";
+              pushActivityLog(`${prefix}: [prover] ${event.message}`);
+              return;
+            }
+            reportStage(event.stage);
+            if (FINAL_WITHDRAW_STAGES.has(event.stage)) {
+              settled = true;
+              close();
+              closeJobStreamRef.current = null;
+              resolve(event.job);
+            }
+          },
+          () => {
+            if (settled) return;
+            settled = true;
+            closeJobStreamRef.current = null;
+            resolve(null);
+          }
+        );
+        closeJobStreamRef.current = close;
+      });
+      if (streamed) return streamed;
+
+      while (!unmountedRef.current) {
+        const jobResult = await PrivacyCashAPI.getWithdrawJob(jobId);
+        if (!jobResult.success || !jobResult.data) {
+          throw resultError(jobResult, "Failed to check payment status");
+        }
+
+        const job = jobResult.data.job;
+        reportStage(job.stage);
+        if (FINAL_WITHDRAW_STAGES.has(job.stage)) {
+          return job;
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, WITHDRAW_JOB_POLL_MS));
+      }
+      return null;
+    },
+    [pushActivityLog]
+  );
+
+  /**
+   * Show why a withdrawal failed and refresh what its error code says is stale. Errors
+   * that clear up on their own leave the form ready to pay again.
+   */
+  const failWithdrawal = useCallback(
+    (err: unknown) => {
+      const code = errorCode(err);
+      // Keep the key: paying again replays it, and the backend answers for the lost job
+      if (code === "JOB_NOT_FOUND") {
+        clearStoredWithdrawJob(paymentId);
+      }
+      // The stored key was sent with another body, e.g. a new quote; start a fresh attempt
+      if (code === "IDEMPOTENCY_KEY_REUSED") {
+        clearWithdrawIdempotencyKey(paymentId);
+      }
+      const refetchFees =
+        code === "FEE_CONFIG_CHANGED" ||
+        code === "QUOTE_INVALID" ||
+        code === "IDEMPOTENCY_KEY_REUSED";
+      if (refetchFees) {
+        fees.refresh();
+      }
+      if (code === "LINK_NOT_FOUND" || code === "LINK_INACTIVE" || code === "AMOUNT_MISMATCH") {
+        fetchPaymentLink();
+      }
+      setError(err instanceof Error ? err.message : "Payment failed");
+      setStatus(isRetryableError(code) || refetchFees ? "idle" : "error");
+    },
+    [fees, fetchPaymentLink, paymentId]
+  );
+
+  /**
+   * Follow a withdraw job through to success or error, clearing the stored job ID once
+   * the outcome is known.
+   */
+  const completeWithdrawJob = useCallback(
+    async (jobId: string) => {
+      try {
+        const job = await waitForWithdrawJob(jobId);
+        if (!job) return;
+
+        clearStoredWithdrawJob(paymentId);
+        clearWithdrawIdempotencyKey(paymentId);
+        if (job.relayer) {
+          pushActivityLog(`Info: Withdrawal served by relayer ${relayerLabel(job.relayer)}`);
+        }
+        if (job.stage === "failed" || job.stage === "unconfirmed") {
+          throw resultError({ error: job.error, code: job.errorCode }, "Backend withdraw failed");
+        }
+
+        const recipientBaseUnits =
+          job.result && "base_units" in job.result
+            ? job.result.base_units
+            : job.result?.amount_in_lamports;
+        if (token && recipientBaseUnits) {
+          setAmount(formatTokenAmountInput(BigInt(recipientBaseUnits), token));
+        }
+
+        setStatus("success");
+        setLogQueue([]);
+        setDisplayLogs([]);
+      } catch (err) {
+        failWithdrawal(err);
+      }
+    },
+    [failWithdrawal, paymentId, pushActivityLog, token, waitForWithdrawJob]
+  );
+
+  // Resume a withdrawal that was still running when the page was reloaded
+  useEffect(() => {
+    if (!token || resumeCheckedRef.current === paymentId) return;
+    resumeCheckedRef.current = paymentId;
+    const storedJobId = getStoredWithdrawJob(paymentId);
+    if (!storedJobId) return;
+    setStatus("paying");
+    setError(null);
+    pushActivityLog("Info: Resuming private withdrawal...");
+    completeWithdrawJob(storedJobId);
+  }, [completeWithdrawJob, paymentId, pushActivityLog, token]);
+
   const handlePay = useCallback(async () => {
     if (!paymentLink) return;
     if (!publicKey || !token) return;
@@ -386,56 +660,87 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
     }
     setStatus("paying");
     setError(null);
-    const payLog = "Info: Preparing private withdrawal...";
-    setLogQueue((prev) => [...prev, payLog]);
-    setActivityLogs((prev) => [...prev.slice(-11), payLog]);
 
+    // A previous attempt may still be running; never queue a second withdrawal for it
+    const pendingJobId = getStoredWithdrawJob(paymentId);
+    if (pendingJobId) {
+      pushActivityLog("Info: Checking previous withdrawal...");
+      await completeWithdrawJob(pendingJobId);
+      return;
+    }
+
+    pushActivityLog("Info: Preparing private withdrawal...");
+
+    let jobId: string;
     try {
       const walletAdapter = getWalletAdapter();
-      const totalToDeduct = payFeeBreakdown?.totalFromPrivateBaseUnits ?? amountBaseUnits;
 
-      await (async () => {
-        const existingSignature = getSessionSignature(walletAdapter.publicKey);
-        const signature = existingSignature ?? (await signSessionMessage(walletAdapter));
-        const signatureBase64 = toBase64(signature);
+      // The backend locks the fees for the quote, so the total sent is the total checked
+      const quoteResult = await PrivacyCashAPI.createFeeQuote({
+        paymentId,
+        recipientBaseUnits: amountBaseUnits.toString(),
+      });
+      if (!quoteResult.success || !quoteResult.data) {
+        throw resultError(quoteResult, "Could not get a fee quote");
+      }
+      const { quote } = quoteResult.data;
+      if (fees.configVersion && quote.configVersion !== fees.configVersion) {
+        fees.refresh();
+      }
+
+      const existingSignature = getSessionSignature(walletAdapter.publicKey);
+      const signature = existingSignature ?? (await signSessionMessage(walletAdapter));
+      const signatureBase64 = toBase64(signature);
+
+      const idempotencyKey = getWithdrawIdempotencyKey(paymentId);
 
-        const withdrawApiResult = isSolToken
-          ? await PrivacyCashAPI.withdraw({
+      const withdrawApiResult = isSolToken
+        ? await PrivacyCashAPI.withdraw(
+            {
               paymentId,
-              amountLamports: totalToDeduct,
-              recipientAmountLamports: amountBaseUnits,
+              amountLamports: quote.totalBaseUnits,
+              recipientAmountLamports: quote.recipientBaseUnits,
+              quoteId: quote.id,
               publicKey: walletAdapter.publicKey.toBase58(),
               signature: signatureBase64,
-            })
-          : await PrivacyCashAPI.withdrawSpl({
+            },
+            idempotencyKey
+          )
+        : await PrivacyCashAPI.withdrawSpl(
+            {
               paymentId,
-              amountBaseUnits: totalToDeduct,
-              recipientAmountBaseUnits: amountBaseUnits,
+              amountBaseUnits: quote.totalBaseUnits,
+              recipientAmountBaseUnits: quote.recipientBaseUnits,
+              quoteId: quote.id,
               publicKey: walletAdapter.publicKey.toBase58(),
               signature: signatureBase64,
-            });
-
-        if (!withdrawApiResult.success) {
-          throw new Error(withdrawApiResult.error || "Backend withdraw failed");
-        }
-      })();
+            },
+            idempotencyKey
+          );
 
-      setStatus("success");
-      setLogQueue([]);
-      setDisplayLogs([]);
+      if (!withdrawApiResult.success || !withdrawApiResult.data) {
+        throw resultError(withdrawApiResult, "Backend withdraw failed");
+      }
+      jobId = withdrawApiResult.data.jobId;
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Payment failed");
-      setStatus("error");
+      failWithdrawal(err);
+      return;
     }
+
+    storeWithdrawJob(paymentId, jobId);
+    await completeWithdrawJob(jobId);
   }, [
     amountBaseUnits,
+    completeWithdrawJob,
+    failWithdrawal,
+    fees,
     getWalletAdapter,
     isSolToken,
     isValidAmount,
-    payFeeBreakdown,
     paymentId,
     paymentLink,
     publicKey,
+    pushActivityLog,
     token,
   ]);
 
@@ -493,7 +798,68 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
     );
   }
 
-  if (paymentLink.status !== "active") {
+  const checkout = paymentLink.checkout;
+  const cancelLink = checkout?.cancelUrl ? (
+    <a
+      href={checkout.cancelUrl}
+      className="text-xs text-muted-foreground underline-offset-4 hover:text-foreground hover:underline"
+    >
+      Cancel and return to merchant
+    </a>
+  ) : null;
+
+  const isExpired =
+    paymentLink.status === "expired" ||
+    (paymentLink.status === "active" &&
+      paymentLink.expiresAt !== undefined &&
+      paymentLink.expiresAt <= now);
+
+  if (isExpired && status !== "paying" && status !== "success") {
+    return (
+      <Card className={cardClass}>
+        <CardHeader className="px-6 pt-6 pb-4">
+          <CardTitle className="text-lg font-semibold tracking-tight">
+            This payment request expired
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="px-6 pb-8">
+          <div className="rounded-lg p-4 bg-yellow-500/10 border border-yellow-500/20 text-yellow-600 text-sm">
+            {paymentLink.expiresAt
+              ? `It stopped accepting payments on ${new Date(paymentLink.expiresAt).toLocaleString()}.`
+              : "It no longer accepts payments."}{" "}
+            {checkout
+              ? "Return to the merchant to start again."
+              : "Ask the recipient for a new link."}
+          </div>
+          {cancelLink && <div className="mt-4 text-center">{cancelLink}</div>}
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (paymentLink.activeFrom !== undefined && paymentLink.activeFrom > now) {
+    return (
+      <Card className={cardClass}>
+        <CardHeader className="px-6 pt-6 pb-4">
+          <CardTitle className="text-lg font-semibold tracking-tight">
+            This payment request is not open yet
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="px-6 pb-8">
+          <div className="rounded-lg p-4 bg-muted/30 border border-border/50 text-muted-foreground text-sm">
+            It starts accepting payments on {new Date(paymentLink.activeFrom).toLocaleString()}.
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  // A one-time link flips to completed once our own payment lands; keep showing its progress
+  if (
+    (paymentLink.status !== "active" || paymentLink.archivedAt) &&
+    status !== "paying" &&
+    status !== "success"
+  ) {
     return (
       <Card className={cardClass}>
         <CardHeader className="px-6 pt-6 pb-4">
@@ -503,8 +869,11 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
         </CardHeader>
         <CardContent className="px-6 pb-8">
           <div className="rounded-lg p-4 bg-yellow-500/10 border border-yellow-500/20 text-yellow-600 text-sm">
-            This payment link is no longer active.
+            {paymentLink.status === "disabled"
+              ? "This payment link is paused by its creator. Try again later."
+              : "This payment link is no longer active."}
           </div>
+          {cancelLink && <div className="mt-4 text-center">{cancelLink}</div>}
         </CardContent>
       </Card>
     );
@@ -524,7 +893,9 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
             Payment sent
           </CardTitle>
           <CardDescription className="text-sm text-muted-foreground">
-            Your payment has been sent privately.
+            {checkout && !checkoutRedirectFailed
+              ? "Your payment has been sent privately. Returning you to the merchant…"
+              : "Your payment has been sent privately."}
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6 px-6 pb-8 pt-4">
@@ -540,17 +911,40 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
               On-chain; your identity stays private.
             </p>
           </div>
-          <Button
-            asChild
-            className="btn-neon h-14 w-full rounded-lg bg-primary text-primary-foreground text-lg font-semibold"
-          >
-            <Link href="/">Done</Link>
-          </Button>
+          {checkout && checkoutRedirect ? (
+            <Button
+              asChild
+              className="btn-neon h-14 w-full rounded-lg bg-primary text-primary-foreground text-lg font-semibold"
+            >
+              <a href={checkoutRedirect}>Return to merchant</a>
+            </Button>
+          ) : checkout && !checkoutRedirectFailed ? (
+            <Button
+              disabled
+              className="btn-neon h-14 w-full rounded-lg bg-primary text-primary-foreground text-lg font-semibold"
+            >
+              Confirming with merchant…
+            </Button>
+          ) : (
+            <Button
+              asChild
+              className="btn-neon h-14 w-full rounded-lg bg-primary text-primary-foreground text-lg font-semibold"
+            >
+              <Link href="/">Done</Link>
+            </Button>
+          )}
+          {checkoutRedirectFailed && (
+            <p className="text-center text-xs text-muted-foreground">
+              Your payment went through, but we could not send you back to the merchant. Quote order{" "}
+              {checkout?.orderId} if you contact them.
+            </p>
+          )}
         </CardContent>
       </Card>
     );
   }
 
+  const usageLabel = formatLinkUsage(paymentLink);
   const stepConnect = !publicKey;
   const stepSign = publicKey && !balancesChecked;
   const stepPay = publicKey && balancesChecked;
@@ -565,6 +959,12 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
             </CardTitle>
             <CardDescription className="text-sm text-muted-foreground">
               Pay privately with ghostsend
+              {usageLabel && (
+                <>
+                  <span className="mx-1 text-muted-foreground/50">•</span>
+                  {usageLabel}
+                </>
+              )}
             </CardDescription>
             {paymentLink.message && (
               <p className="pt-1 text-xs text-muted-foreground/90 line-clamp-1">
@@ -575,6 +975,16 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
                 <span className="text-foreground/90">{paymentLink.message}</span>
               </p>
             )}
+            {checkout && (
+              <p className="pt-1 text-xs text-muted-foreground/90 line-clamp-1">
+                <span className="text-[10px] font-medium uppercase tracking-wider text-muted-foreground">
+                  Order
+                </span>
+                <span className="mx-1 text-muted-foreground/50">•</span>
+                <span className="font-mono text-foreground/90">{checkout.orderId}</span>
+              </p>
+            )}
+            {cancelLink && status !== "paying" && <div className="pt-1">{cancelLink}</div>}
           </div>
           {token && (
             <div className="flex items-center gap-1.5 shrink-0 rounded-full border border-border/50 bg-muted/50 px-2.5 py-0.5">
@@ -659,6 +1069,11 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
               <span className="text-xs font-semibold tabular-nums">{tokenLabel}</span>
             </div>
           </div>
+          {paymentLink.amountType === "flexible" && (
+            <p className={cn("text-xs", amountError ? "text-red-500" : "text-muted-foreground")}>
+              {amountError ?? formatLinkAmount(paymentLink)}
+            </p>
+          )}
         </div>
 
         <div className="space-y-2.5">
@@ -831,7 +1246,7 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
                     {token ? `${formatAmount(amountBaseUnits)} ${token.label}` : "---"}
                   </span>
                 </div>
-                {payFeeBreakdown && payFeeBreakdown.feeBaseUnits > 0 && (
+                {payFeeBreakdown && payFeeBreakdown.feeBaseUnits > 0n && (
                   <div className="flex items-center justify-between">
                     <span className="text-muted-foreground">Relayer fee</span>
                     <span className="tabular-nums">
@@ -864,6 +1279,7 @@ export function PaymentReceiver({ paymentId, onSigningChange }: PaymentReceiverP
                 disabled={
                   (isBusy && !isError) ||
                   !isValidAmount ||
+                  !payFeeBreakdown ||
                   (needsDeposit ? shortfallBaseUnits === null : !hasSufficientBalance)
                 }
                 variant={isError ? "destructive" : "default"}
@@ -3,7 +3,7 @@
 import Image from "next/image";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { useWallet } from "@jup-ag/wallet-adapter";
-import { Connection, LAMPORTS_PER_SOL, PublicKey, VersionedTransaction } from "@solana/web3.js";
+import { Connection, PublicKey, VersionedTransaction } from "@solana/web3.js";
 import { getAssociatedTokenAddress } from "@solana/spl-token";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -33,15 +33,12 @@ import {
   getTokenDenominations,
   getTokenStep,
   isSolMint,
-  parseTokenAmountToBaseUnits,
+  parseTokenAmount,
   SOL_MINT,
   tokenRegistry,
 } from "@/lib/token-registry";
-import {
-  getRelayerConfig,
-  computeTotalLamportsForRecipient,
-  computeTotalBaseUnitsForRecipientSPL,
-} from "@/lib/fee-config";
+import { useFeeQuote } from "@/hooks/use-fee-quote";
+import { relayerLabel } from "@/lib/relayers";
 import { Typewriter } from "@/components/ui/typewriter";
 import { cn } from "@/lib/utils";
 import type { TokenMint } from "@/lib/payment-links-types";
@@ -80,8 +77,8 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
   const [tokenMint, setTokenMint] = useState<TokenMint>(SOL_MINT);
   const [status, setStatus] = useState<TransferStatus>("idle");
   const [error, setError] = useState<string | null>(null);
-  const [publicBalanceBaseUnits, setPublicBalanceBaseUnits] = useState<number | null>(null);
-  const [privateBalanceBaseUnits, setPrivateBalanceBaseUnits] = useState<number | null>(null);
+  const [publicBalanceBaseUnits, setPublicBalanceBaseUnits] = useState<bigint | null>(null);
+  const [privateBalanceBaseUnits, setPrivateBalanceBaseUnits] = useState<bigint | null>(null);
   const [balancesChecked, setBalancesChecked] = useState(false);
   const [txSignatures, setTxSignatures] = useState<string[]>([]);
   const [logQueue, setLogQueue] = useState<string[]>([]);
@@ -89,8 +86,6 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
   const [activityLogs, setActivityLogs] = useState<string[]>([]);
   const [activityExiting, setActivityExiting] = useState(false);
   const [activityExpanded, setActivityExpanded] = useState(false);
-  const [relayerConfig, setRelayerConfig] =
-    useState<Awaited<ReturnType<typeof getRelayerConfig>>>(null);
   const lastLogRef = useRef<string | null>(null);
   const activityLogsRef = useRef<HTMLDivElement>(null);
   const activityExitTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
@@ -117,10 +112,6 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
     });
   }, []);
 
-  useEffect(() => {
-    getRelayerConfig().then(setRelayerConfig);
-  }, []);
-
   const updateRecipient = useCallback((id: string, updates: Partial<RecipientEntry>) => {
     setRecipients((prev) =>
       prev.map((entry) => (entry.id === id ? { ...entry, ...updates } : entry))
@@ -161,11 +152,11 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
       const ata = await getAssociatedTokenAddress(new PublicKey(mint), owner);
       try {
         const balance = await targetConnection.getTokenAccountBalance(ata);
-        return Number(balance.value.amount);
+        return BigInt(balance.value.amount);
       } catch (err) {
         const message = err instanceof Error ? err.message : String(err);
         if (message.toLowerCase().includes("could not find account")) {
-          return 0;
+          return 0n;
         }
         throw err;
       }
@@ -184,7 +175,7 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
       const walletAdapter = getWalletAdapter();
 
       const publicBalance = isSolToken
-        ? await connection.getBalance(publicKey)
+        ? BigInt(await connection.getBalance(publicKey))
         : await getPublicTokenBalance(connection, publicKey, token.mint);
 
       const privateBaseUnits = isSolToken
@@ -198,7 +189,7 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
           ).base_units;
 
       setPublicBalanceBaseUnits(publicBalance);
-      setPrivateBalanceBaseUnits(privateBaseUnits);
+      setPrivateBalanceBaseUnits(BigInt(privateBaseUnits));
       setBalancesChecked(true);
       setStatus("idle");
       setLogQueue([]);
@@ -215,7 +206,7 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
   }, [balancesChecked, fetchBalances, isActive, publicKey, status, token]);
 
   const formatAmount = useCallback(
-    (baseUnits: number) => {
+    (baseUnits: bigint) => {
       if (!token) return "---";
       return formatTokenAmount(baseUnits, token);
     },
@@ -225,15 +216,7 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
   const tokenStep = useMemo(() => (token ? getTokenStep(token) : "0.001"), [token]);
   const denominations = useMemo(() => (token ? getTokenDenominations(token) : []), [token]);
 
-  const minimumBaseUnits = useMemo(() => {
-    if (!token || !relayerConfig) return 0;
-    const minHuman = relayerConfig.minimum_withdrawal[token.name];
-    if (minHuman == null || minHuman <= 0) return 0;
-    if (isSolToken) return Math.floor(minHuman * LAMPORTS_PER_SOL);
-    return Math.floor(minHuman * token.unitsPerToken);
-  }, [isSolToken, relayerConfig, token]);
-
-  const recipientRows = useMemo(() => {
+  const parsedRecipients = useMemo(() => {
     return recipients.map((entry) => {
       const address = entry.address.trim();
       const hasAddress = address.length > 0;
@@ -247,65 +230,41 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
         }
       }
       const hasAmount = entry.amount.trim().length > 0;
-      const parsed = token ? parseTokenAmountToBaseUnits(entry.amount, token) : NaN;
-      const amountBaseUnits = Number.isFinite(parsed) ? parsed : 0;
-      const meetsMinimum = minimumBaseUnits === 0 || amountBaseUnits >= minimumBaseUnits;
-      const isValidAmount = hasAmount && amountBaseUnits > 0 && meetsMinimum;
-      const belowMinimum = hasAmount && amountBaseUnits > 0 && !meetsMinimum;
-      const isEmpty = !hasAddress && !hasAmount;
-      const breakdown =
-        isValidAddress && isValidAmount && token
-          ? isSolToken
-            ? (() => {
-                const { totalLamports, feeLamports } = computeTotalLamportsForRecipient(
-                  amountBaseUnits,
-                  relayerConfig
-                );
-                const c = relayerConfig ?? { withdraw_rent_fee: 0.006 };
-                const rentLamports = Math.floor(LAMPORTS_PER_SOL * c.withdraw_rent_fee);
-                const rateLamports = feeLamports - rentLamports;
-                return {
-                  toRecipientBaseUnits: amountBaseUnits,
-                  feeBaseUnits: feeLamports,
-                  rentBaseUnits: rentLamports,
-                  rateFeeBaseUnits: Math.max(0, rateLamports),
-                  totalFromPrivateBaseUnits: totalLamports,
-                };
-              })()
-            : (() => {
-                const { totalBaseUnits, feeBaseUnits } = computeTotalBaseUnitsForRecipientSPL(
-                  amountBaseUnits,
-                  token.unitsPerToken,
-                  token.name,
-                  relayerConfig
-                );
-                const c = relayerConfig ?? { rent_fees: {} as Record<string, number> };
-                const tokenRentFee = (c.rent_fees as Record<string, number>)[token.name] ?? 0.001;
-                const rentBaseUnits = Math.floor(token.unitsPerToken * tokenRentFee);
-                const rateFeeBaseUnits = Math.max(0, feeBaseUnits - rentBaseUnits);
-                return {
-                  toRecipientBaseUnits: amountBaseUnits,
-                  feeBaseUnits,
-                  rentBaseUnits,
-                  rateFeeBaseUnits,
-                  totalFromPrivateBaseUnits: totalBaseUnits,
-                };
-              })()
-          : null;
+      const parsed = token && hasAmount ? parseTokenAmount(entry.amount, token) : null;
+      const amountError = parsed && "error" in parsed ? parsed.error : null;
+      const amountBaseUnits = parsed && "baseUnits" in parsed ? parsed.baseUnits : 0n;
       return {
         ...entry,
         address,
         hasAddress,
         hasAmount,
         amountBaseUnits,
+        amountError,
         isValidAddress,
-        isValidAmount,
-        belowMinimum,
-        isEmpty,
-        breakdown,
+        isEmpty: !hasAddress && !hasAmount,
       };
     });
-  }, [isSolToken, minimumBaseUnits, recipients, relayerConfig, token]);
+  }, [recipients, token]);
+
+  // One withdrawal per recipient; fees come from the backend so they match the prover's
+  const quotedAmounts = useMemo(
+    () =>
+      parsedRecipients
+        .filter((row) => row.isValidAddress && row.amountBaseUnits > 0n)
+        .map((row) => row.amountBaseUnits),
+    [parsedRecipients]
+  );
+  const fees = useFeeQuote(token, quotedAmounts);
+  const minimumBaseUnits = fees.minimumWithdrawalBaseUnits;
+
+  const recipientRows = useMemo(() => {
+    return parsedRecipients.map((row) => {
+      const meetsMinimum = minimumBaseUnits === 0n || row.amountBaseUnits >= minimumBaseUnits;
+      const isValidAmount = row.hasAmount && row.amountBaseUnits > 0n && meetsMinimum;
+      const belowMinimum = row.hasAmount && row.amountBaseUnits > 0n && !meetsMinimum;
+      return { ...row, isValidAmount, belowMinimum };
+    });
+  }, [minimumBaseUnits, parsedRecipients]);
 
   const activeRecipients = useMemo(
     () => recipientRows.filter((row) => !row.isEmpty),
@@ -320,44 +279,27 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
     [activeRecipients]
   );
 
-  const totalBreakdown = useMemo(() => {
-    if (!token || !hasRecipients || hasInvalidRecipients) return null;
-    return validRecipients.reduce(
-      (acc, row) => {
-        if (!row.breakdown) return acc;
-        acc.toRecipients += row.breakdown.toRecipientBaseUnits;
-        acc.fee += row.breakdown.feeBaseUnits;
-        acc.rent += row.breakdown.rentBaseUnits ?? 0;
-        acc.rateFee += row.breakdown.rateFeeBaseUnits ?? 0;
-        acc.totalFromPrivate += row.breakdown.totalFromPrivateBaseUnits;
-        return acc;
-      },
-      { toRecipients: 0, fee: 0, rent: 0, rateFee: 0, totalFromPrivate: 0 }
-    );
-  }, [hasInvalidRecipients, hasRecipients, token, validRecipients]);
+  const totalBreakdown = !token || !hasRecipients || hasInvalidRecipients ? null : fees.totals;
 
-  const requiredPrivateBaseUnits = totalBreakdown?.totalFromPrivate ?? 0;
+  const requiredPrivateBaseUnits = totalBreakdown?.totalBaseUnits ?? 0n;
   const shortfallBaseUnits =
     privateBalanceBaseUnits !== null
-      ? Math.max(0, requiredPrivateBaseUnits - privateBalanceBaseUnits)
+      ? requiredPrivateBaseUnits > privateBalanceBaseUnits
+        ? requiredPrivateBaseUnits - privateBalanceBaseUnits
+        : 0n
       : null;
 
   const isBusy = status === "checking" || status === "depositing" || status === "transferring";
   const hasSufficientBalance =
     privateBalanceBaseUnits !== null && privateBalanceBaseUnits >= requiredPrivateBaseUnits;
-  const needsDeposit = shortfallBaseUnits !== null && shortfallBaseUnits > 0;
+  const needsDeposit = shortfallBaseUnits !== null && shortfallBaseUnits > 0n;
 
-  const rentPerRecipientDisplay = useMemo(() => {
-    if (!token || !relayerConfig) return null;
-    if (isSolToken) {
-      const rent = relayerConfig.withdraw_rent_fee;
-      return rent != null ? `${rent < 0.01 ? rent.toFixed(4) : rent.toFixed(2)} SOL` : null;
-    }
-    const rent = (relayerConfig.rent_fees as Record<string, number>)[token.name];
-    if (rent == null) return null;
-    const str = rent < 0.01 ? rent.toFixed(4) : rent.toFixed(2);
-    return `${str} ${token.label}`;
-  }, [isSolToken, relayerConfig, token]);
+  const rentPerRecipientDisplay =
+    token && fees.rentPerRecipientBaseUnits !== null
+      ? `${formatTokenAmount(fees.rentPerRecipientBaseUnits, token)} ${token.label}`
+      : null;
+  const feeRateDisplay =
+    fees.feeRate !== null ? `${parseFloat((fees.feeRate * 100).toFixed(4))}%` : "—";
 
   // Log queue drainer
   useEffect(() => {
@@ -409,7 +351,7 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
   }, [isBusy, activityLogs.length, activityExiting]);
 
   const handleDeposit = useCallback(
-    async (amountToDeposit: number) => {
+    async (amountToDeposit: bigint) => {
       if (!publicKey || !token) return;
       setStatus("depositing");
       setError(null);
@@ -423,15 +365,19 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
           ? await depositSOL({
               connection,
               wallet: walletAdapter,
-              amount_in_lamports: amountToDeposit,
+              amount_in_lamports: Number(amountToDeposit),
             })
           : await depositSPLToken({
               connection,
               wallet: walletAdapter,
               mintAddress: token.mint,
-              base_units: amountToDeposit,
+              base_units: Number(amountToDeposit),
             });
 
+        if (depositResult.relayer) {
+          const relayerLog = `Info: Deposit served by relayer ${relayerLabel(depositResult.relayer)}`;
+          setActivityLogs((prev) => [...prev.slice(-11), relayerLog]);
+        }
         await connection.confirmTransaction(depositResult.tx, "confirmed");
         await fetchBalances();
         setStatus("idle");
@@ -471,23 +417,30 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
         setLogQueue((prev) => [...prev, perRecipientLog]);
         setActivityLogs((prev) => [...prev.slice(-11), perRecipientLog]);
 
-        const totalToDeduct = row.breakdown?.totalFromPrivateBaseUnits ?? row.amountBaseUnits;
+        const totalToDeduct = fees.totalFor(row.amountBaseUnits);
+        if (totalToDeduct === null) throw new Error("Fees are still loading; try again");
         const result = isSolToken
           ? await withdrawSOL({
               connection,
               wallet: walletAdapter,
-              amount_in_lamports: totalToDeduct,
+              amount_in_lamports: Number(totalToDeduct),
               recipient: row.address,
             })
           : await withdrawSPLToken({
               connection,
               wallet: walletAdapter,
               mintAddress: token.mint,
-              base_units: totalToDeduct,
+              base_units: Number(totalToDeduct),
               recipient: row.address,
             });
 
         signatures.push(result.tx);
+        if (result.relayer) {
+          const relayerLog = `Info: Recipient ${index + 1} served by relayer ${relayerLabel(
+            result.relayer
+          )}`;
+          setActivityLogs((prev) => [...prev.slice(-11), relayerLog]);
+        }
       }
 
       setTxSignatures(signatures);
@@ -500,6 +453,7 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
     }
   }, [
     connection,
+    fees,
     getWalletAdapter,
     hasInvalidRecipients,
     hasRecipients,
@@ -554,7 +508,7 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
                   : "---"
               }`
             : token && totalBreakdown && recipientCount > 0
-              ? `Transfer ${formatAmount(totalBreakdown.toRecipients)} ${token.label} to ${recipientCount} ${recipientCount === 1 ? "recipient" : "recipients"}`
+              ? `Transfer ${formatAmount(totalBreakdown.toRecipientsBaseUnits)} ${token.label} to ${recipientCount} ${recipientCount === 1 ? "recipient" : "recipients"}`
               : "Transfer";
 
   const cardClass =
@@ -586,7 +540,7 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
               </p>
               <p className="mt-1 text-2xl font-bold tabular-nums tracking-tight text-foreground sm:text-3xl">
                 {token && totalBreakdown
-                  ? `${formatAmount(totalBreakdown.toRecipients)} ${token.label}`
+                  ? `${formatAmount(totalBreakdown.toRecipientsBaseUnits)} ${token.label}`
                   : "---"}
               </p>
               <p className="mt-2 text-xs text-muted-foreground font-mono truncate">
@@ -796,7 +750,9 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
                       </p>
                     )}
                     {row.hasAmount && !row.isValidAmount && !row.belowMinimum && (
-                      <p className="text-xs text-red-500">Enter a valid amount</p>
+                      <p className="text-xs text-red-500">
+                        {row.amountError ?? "Enter a valid amount"}
+                      </p>
                     )}
                   </div>
                 ))}
@@ -919,28 +875,28 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
                         <span className="text-muted-foreground">To recipients</span>
                         <span className="font-semibold tabular-nums">
                           {token
-                            ? `${formatAmount(totalBreakdown.toRecipients)} ${token.label}`
+                            ? `${formatAmount(totalBreakdown.toRecipientsBaseUnits)} ${token.label}`
                             : "---"}
                         </span>
                       </div>
-                      {totalBreakdown.fee > 0 && (
+                      {totalBreakdown.feeBaseUnits > 0n && (
                         <>
-                          {totalBreakdown.rent > 0 && (
+                          {totalBreakdown.rentBaseUnits > 0n && (
                             <div className="flex items-center justify-between">
                               <span className="text-muted-foreground">Rent fee</span>
                               <span className="tabular-nums">
                                 {token
-                                  ? `${formatAmount(totalBreakdown.rent)} ${token.label}`
+                                  ? `${formatAmount(totalBreakdown.rentBaseUnits)} ${token.label}`
                                   : "---"}
                               </span>
                             </div>
                           )}
-                          {totalBreakdown.rateFee > 0 && (
+                          {totalBreakdown.rateFeeBaseUnits > 0n && (
                             <div className="flex items-center justify-between">
-                              <span className="text-muted-foreground">0.35% fee</span>
+                              <span className="text-muted-foreground">{feeRateDisplay} fee</span>
                               <span className="tabular-nums">
                                 {token
-                                  ? `${formatAmount(totalBreakdown.rateFee)} ${token.label}`
+                                  ? `${formatAmount(totalBreakdown.rateFeeBaseUnits)} ${token.label}`
                                   : "---"}
                               </span>
                             </div>
@@ -948,13 +904,15 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
                           <div className="flex items-center justify-between">
                             <span className="text-muted-foreground font-medium">Total fee</span>
                             <span className="tabular-nums font-medium">
-                              {token ? `${formatAmount(totalBreakdown.fee)} ${token.label}` : "---"}
+                              {token
+                                ? `${formatAmount(totalBreakdown.feeBaseUnits)} ${token.label}`
+                                : "---"}
                             </span>
                           </div>
                         </>
                       )}
                       <p className="text-[10px] text-muted-foreground/80 pt-0.5">
-                        Withdrawal fees: 0.35% of amount
+                        Withdrawal fees: {feeRateDisplay} of amount
                         {rentPerRecipientDisplay != null
                           ? ` + ${rentPerRecipientDisplay} per recipient`
                           : " + rent per recipient"}
@@ -985,7 +943,7 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
                         Add recipient addresses and amounts to calculate totals.
                       </p>
                       <p className="text-[10px] text-muted-foreground/80 pt-0.5">
-                        Withdrawal fees: 0.35% of amount
+                        Withdrawal fees: {feeRateDisplay} of amount
                         {rentPerRecipientDisplay != null
                           ? ` + ${rentPerRecipientDisplay} per recipient`
                           : " + rent per recipient"}
@@ -1080,6 +1038,7 @@ export function PrivateTransfer({ isActive = true }: PrivateTransferProps) {
                 (isBusy && !isError) ||
                 !hasRecipients ||
                 hasInvalidRecipients ||
+                !totalBreakdown ||
                 (needsDeposit ? shortfallBaseUnits === null : !hasSufficientBalance)
               }
               variant={isError ? "destructive" : "default"}
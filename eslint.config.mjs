@@ -6,7 +6,15 @@ const eslintConfig = defineConfig([
   ...nextVitals,
   ...nextTs,
   // Override default ignores of eslint-config-next.
-  globalIgnores([".next/**", "out/**", "build/**", "dist/**", "backend/dist/**", "next-env.d.ts"]),
+  globalIgnores([
+    ".next/**",
+    "out/**",
+    "build/**",
+    "dist/**",
+    "backend/dist/**",
+    "packages/*/dist/**",
+    "next-env.d.ts",
+  ]),
 ]);
 
 export default eslintConfig;
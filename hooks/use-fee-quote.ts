@@ -0,0 +1,149 @@
+/**
+ * Withdrawal fees for the UI, from the backend's GET /fees/quote: the numbers
+ * withdrawals are checked against, so screens never compute fees themselves.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { PrivacyCashAPI, type FeeBreakdown } from "@/lib/api-service";
+import type { TokenInfo } from "@/lib/token-registry";
+
+/** Fees summed over every amount, in base units */
+export interface FeeTotals {
+  toRecipientsBaseUnits: bigint;
+  rateFeeBaseUnits: bigint;
+  rentBaseUnits: bigint;
+  feeBaseUnits: bigint;
+  totalBaseUnits: bigint; // Taken from the private balance
+}
+
+export interface FeeQuoteState {
+  /** Totals for the current amounts; null while they are being quoted or with no amounts */
+  totals: FeeTotals | null;
+  /** Taken from the private balance by a withdrawal leaving the recipient amount */
+  totalFor: (amount: bigint) => bigint | null;
+  feeRate: number | null; // e.g. 0.0035
+  rentPerRecipientBaseUnits: bigint | null;
+  minimumWithdrawalBaseUnits: bigint; // 0n while unknown or when the relayer sets none
+  configVersion: string | null;
+  loading: boolean;
+  error: string | null;
+  /** Quote again, e.g. after the backend reported that fees changed */
+  refresh: () => void;
+}
+
+/** Wait for typing to settle before asking the backend */
+const QUOTE_DEBOUNCE_MS = 250;
+
+/**
+ * Fees of one withdrawal per amount. Equal amounts share a request. With no amounts,
+ * one whole token is quoted so the rate, rent and minimum show before anything is typed.
+ */
+export function useFeeQuote(
+  token: Pick<TokenInfo, "mint" | "unitsPerToken"> | null | undefined,
+  amounts: bigint[]
+): FeeQuoteState {
+  // "amount:count" pairs; a string so the effect only reruns when the amounts change
+  const amountsKey = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const amount of amounts) {
+      if (amount > 0n) counts.set(amount.toString(), (counts.get(amount.toString()) ?? 0) + 1);
+    }
+    return Array.from(counts, ([amount, count]) => `${amount}:${count}`)
+      .sort()
+      .join(",");
+  }, [amounts]);
+  const requestKey = token ? `${token.mint}|${amountsKey}` : null;
+
+  const [quoted, setQuoted] = useState<{
+    key: string;
+    byAmount: Map<string, FeeBreakdown>;
+  } | null>(null);
+  const [latest, setLatest] = useState<FeeBreakdown | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [revision, setRevision] = useState(0);
+
+  const mint = token?.mint;
+  const unitsPerToken = token?.unitsPerToken;
+  useEffect(() => {
+    if (!mint || !unitsPerToken || !requestKey) return;
+    let cancelled = false;
+    const requests = amountsKey
+      ? amountsKey.split(",").map((pair) => pair.split(":"))
+      : [[String(unitsPerToken), "1"]];
+
+    const timer = setTimeout(async () => {
+      const results = await Promise.all(
+        requests.map(([recipientAmount, recipients]) =>
+          PrivacyCashAPI.getFeeBreakdown({
+            mint,
+            recipientAmount,
+            recipients: Number(recipients),
+          })
+        )
+      );
+      if (cancelled) return;
+      const failed = results.find((result) => !result.success || !result.data);
+      if (failed) {
+        setError(failed.error || "Could not load fees");
+        return;
+      }
+      const breakdowns = results.map((result) => result.data!.breakdown);
+      setQuoted({
+        key: requestKey,
+        byAmount: new Map(breakdowns.map((breakdown) => [breakdown.recipientBaseUnits, breakdown])),
+      });
+      setLatest(breakdowns[0]);
+      setError(null);
+    }, QUOTE_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [amountsKey, mint, requestKey, revision, unitsPerToken]);
+
+  const current = quoted && quoted.key === requestKey ? quoted : null;
+
+  const totals = useMemo(() => {
+    if (!current || !amountsKey) return null;
+    const sum: FeeTotals = {
+      toRecipientsBaseUnits: 0n,
+      rateFeeBaseUnits: 0n,
+      rentBaseUnits: 0n,
+      feeBaseUnits: 0n,
+      totalBaseUnits: 0n,
+    };
+    for (const breakdown of current.byAmount.values()) {
+      sum.toRecipientsBaseUnits += BigInt(breakdown.toRecipientsBaseUnits);
+      sum.rateFeeBaseUnits += BigInt(breakdown.rateFeeBaseUnits);
+      sum.rentBaseUnits += BigInt(breakdown.rentBaseUnits);
+      sum.feeBaseUnits += BigInt(breakdown.feeBaseUnits);
+      sum.totalBaseUnits += BigInt(breakdown.totalBaseUnits);
+    }
+    return sum;
+  }, [amountsKey, current]);
+
+  const totalFor = useCallback(
+    (amount: bigint) => {
+      const breakdown = current?.byAmount.get(amount.toString());
+      return breakdown ? BigInt(breakdown.totalPerRecipientBaseUnits) : null;
+    },
+    [current]
+  );
+
+  const refresh = useCallback(() => setRevision((value) => value + 1), []);
+
+  // Rate, rent and minimum don't depend on the amount; keep showing them while requoting
+  const sameToken = latest?.tokenMint === token?.mint ? latest : null;
+  return {
+    totals,
+    totalFor,
+    feeRate: sameToken?.feeRate ?? null,
+    rentPerRecipientBaseUnits: sameToken ? BigInt(sameToken.rentPerRecipientBaseUnits) : null,
+    minimumWithdrawalBaseUnits: sameToken ? BigInt(sameToken.minimumWithdrawalBaseUnits) : 0n,
+    configVersion: sameToken?.configVersion ?? null,
+    loading: Boolean(requestKey) && !current && !error,
+    error,
+    refresh,
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * API Error Types
+ *
+ * Error responses are `{ success: false, code, error }`; branch on `code`, show `error`.
+ * The codes come from the backend's OpenAPI document (see backend/src/types/errors.ts).
+ */
+
+import type { components } from "./api-schema";
+
+export type ApiErrorCode = components["schemas"]["ErrorResponse"]["code"];
+
+/**
+ * Outcome of an API call. `code` is set when the backend answered with an error;
+ * network failures and unreadable responses have no code.
+ */
+export interface ApiResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  code?: ApiErrorCode;
+}
+
+/** Errors that go away on their own; the same request can be sent again shortly */
+export function isRetryableError(code: ApiErrorCode | undefined): boolean {
+  return (
+    code === "RATE_LIMITED" ||
+    code === "PROVER_BUSY" ||
+    code === "LINK_BUSY" ||
+    code === "IDEMPOTENCY_KEY_IN_PROGRESS"
+  );
+}
+
+/** Error for a failed result that keeps its code, for callers that throw on failure */
+export function resultError(
+  result: { error?: string; code?: ApiErrorCode },
+  fallback: string
+): Error & { code?: ApiErrorCode } {
+  return Object.assign(new Error(result.error || fallback), { code: result.code });
+}
+
+/** Code of an error made by resultError; undefined for any other error */
+export function errorCode(error: unknown): ApiErrorCode | undefined {
+  return error instanceof Error ? (error as { code?: ApiErrorCode }).code : undefined;
+}
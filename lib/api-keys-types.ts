@@ -0,0 +1,38 @@
+/**
+ * API Key Types
+ *
+ * Merchant API keys let a wallet's own servers call the backend without a browser
+ * wallet session.
+ */
+
+export type ApiKeyScope = "links:create" | "history:read" | "webhooks:manage";
+
+/**
+ * API key as listed to its owner. The key itself is only returned when it is issued.
+ */
+export interface ApiKeyInfo {
+  id: string;
+  ownerAddress: string;
+  name: string;
+  prefix: string; // First characters of the key, to tell keys apart
+  scopes: ApiKeyScope[];
+  createdAt: number;
+  lastUsedAt?: number;
+  revokedAt?: number;
+}
+
+export interface CreateApiKeyRequest {
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+export interface ApiKeysListResponse {
+  success: boolean;
+  apiKeys: ApiKeyInfo[];
+}
+
+export interface CreateApiKeyResponse {
+  success: boolean;
+  apiKey: ApiKeyInfo;
+  key: string; // Shown once; only a hash is stored
+}
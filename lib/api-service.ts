@@ -9,11 +9,27 @@
 import type {
   PaymentLinkPublicInfo,
   CreatePaymentLinkRequest,
+  CheckoutResultResponse,
   CreatePaymentLinkResponse,
   PaymentLinksListResponse,
   PaymentHistoryResponse,
   DeletePaymentLinkResponse,
+  HistoryExportFormat,
+  PaymentLinkAuditResponse,
+  PaymentLinkListQuery,
+  PaymentRecordListQuery,
+  PaymentHistoryExport,
+  UpdatePaymentLinkRequest,
+  UpdatePaymentLinkResponse,
 } from "./payment-links-types";
+import type {
+  ApiKeysListResponse,
+  CreateApiKeyRequest,
+  CreateApiKeyResponse,
+} from "./api-keys-types";
+import type { ApiErrorCode, ApiResult } from "./api-errors";
+import type { components, paths } from "./api-schema";
+import { clearWalletSession, getWalletSessionToken, type WalletSigner } from "./wallet-auth";
 
 // Get the backend URL from environment variable or default to localhost
 const BACKEND_URL =
@@ -21,41 +37,65 @@ const BACKEND_URL =
     ? process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:4000"
     : process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:4000";
 
-type WithdrawRequest = {
-  paymentId: string;
-  amountLamports: number;
-  recipientAmountLamports?: number;
-  publicKey: string;
-  signature: string;
-};
+type Schemas = components["schemas"];
 
-type WithdrawResult = {
-  isPartial: boolean;
-  amount_in_lamports: number;
-  fee_in_lamports: number;
-};
+type WithdrawRequest = Schemas["WithdrawRequest"];
+type WithdrawSplRequest = Schemas["WithdrawSplRequest"];
+type WithdrawJobAccepted = Schemas["WithdrawJobAccepted"];
+type CreateFeeQuoteRequest = paths["/quotes"]["post"]["requestBody"]["content"]["application/json"];
+type FeeBreakdownQuery = paths["/fees/quote"]["get"]["parameters"]["query"];
 
-type WithdrawSplRequest = {
-  paymentId: string;
-  amountBaseUnits: number;
-  recipientAmountBaseUnits?: number;
-  publicKey: string;
-  signature: string;
-};
+export type FeeQuote = Schemas["FeeQuote"];
+export type FeeBreakdown = Schemas["FeeBreakdown"];
 
-type WithdrawSplResult = {
-  isPartial: boolean;
-  base_units: number;
-  fee_base_units: number;
-};
+export type WithdrawJobInfo = Schemas["WithdrawJob"];
+export type WithdrawJobStage = WithdrawJobInfo["stage"];
+
+export type WithdrawJobEvent =
+  | { type: "log"; level: "debug" | "info" | "warn" | "error"; message: string; at: number }
+  | { type: "stage"; stage: WithdrawJobStage; job: WithdrawJobInfo; at: number };
+
+/**
+ * Serialize list query options; lists become comma-separated and unset or false
+ * values are left out.
+ */
+function toQueryString(
+  query: PaymentLinkListQuery | (PaymentRecordListQuery & { format?: HistoryExportFormat })
+): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === false || value === "") continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) params.set(key, value.join(","));
+    } else {
+      params.set(key, String(value));
+    }
+  }
+  const search = params.toString();
+  return search ? `?${search}` : "";
+}
+
+/**
+ * Result of a failed response with the backend's error code; rate-limited responses
+ * say when to retry
+ */
+function errorResult(
+  response: Response,
+  data: { error?: string; code?: ApiErrorCode }
+): ApiResult<never> {
+  const message = data.error || `HTTP ${response.status}`;
+  const retryAfter = response.headers.get("Retry-After");
+  return {
+    success: false,
+    error: response.status === 429 && retryAfter ? `${message}; retry in ${retryAfter}s` : message,
+    code: data.code,
+  };
+}
 
 /**
  * Fetch helper with error handling
  */
-async function fetchAPI<T>(
-  endpoint: string,
-  options: RequestInit = {}
-): Promise<{ success: boolean; data?: T; error?: string }> {
+async function fetchAPI<T>(endpoint: string, options: RequestInit = {}): Promise<ApiResult<T>> {
   try {
     const url = `${BACKEND_URL}${endpoint}`;
     const response = await fetch(url, {
@@ -69,10 +109,66 @@ async function fetchAPI<T>(
     const data = await response.json();
 
     if (!response.ok) {
-      return {
-        success: false,
-        error: data.error || `HTTP ${response.status}`,
-      };
+      return errorResult(response, data);
+    }
+
+    return {
+      success: true,
+      data: data as T,
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return {
+      success: false,
+      error: message || "Network error",
+    };
+  }
+}
+
+/**
+ * Send a request to an owner-scoped route. Attaches the wallet session token, signing
+ * in first if needed, and signs in again once if the backend rejects an expired token.
+ */
+async function sendAuthenticated(
+  wallet: WalletSigner,
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<Response> {
+  const address = wallet.publicKey.toBase58();
+  const request = async () => {
+    const token = await getWalletSessionToken(wallet);
+    const url = `${BACKEND_URL}${endpoint}`;
+    return fetch(url, {
+      ...options,
+      headers: {
+        // Fastify rejects an empty body declared as JSON (e.g. on DELETE)
+        ...(options.body ? { "Content-Type": "application/json" } : {}),
+        Authorization: `Bearer ${token}`,
+        ...options.headers,
+      },
+    });
+  };
+
+  const response = await request();
+  if (response.status !== 401) return response;
+  clearWalletSession(address);
+  return request();
+}
+
+/**
+ * Fetch helper for owner-scoped routes (see sendAuthenticated)
+ */
+async function fetchAuthenticatedAPI<T>(
+  wallet: WalletSigner,
+  endpoint: string,
+  options: RequestInit = {}
+): Promise<ApiResult<T>> {
+  try {
+    const response = await sendAuthenticated(wallet, endpoint, options);
+    const data = await response.json();
+
+    if (!response.ok) {
+      return errorResult(response, data);
     }
 
     return {
@@ -97,7 +193,7 @@ export const PaymentLinksAPI = {
    */
   async createPaymentLink(
     request: CreatePaymentLinkRequest
-  ): Promise<{ success: boolean; data?: CreatePaymentLinkResponse; error?: string }> {
+  ): Promise<ApiResult<CreatePaymentLinkResponse>> {
     return fetchAPI<CreatePaymentLinkResponse>("/payment-links", {
       method: "POST",
       body: JSON.stringify(request),
@@ -107,50 +203,180 @@ export const PaymentLinksAPI = {
   /**
    * Get payment link public info (no recipient address)
    */
-  async getPaymentLink(paymentId: string): Promise<{
-    success: boolean;
-    data?: { success: boolean; paymentLink: PaymentLinkPublicInfo };
-    error?: string;
-  }> {
+  async getPaymentLink(
+    paymentId: string
+  ): Promise<ApiResult<{ success: boolean; paymentLink: PaymentLinkPublicInfo }>> {
     return fetchAPI(`/payment-links/${paymentId}`, {
       method: "GET",
     });
   },
 
   /**
-   * List payment links created by recipient
+   * Signed result of a paid checkout session, with the merchant's success URL to send
+   * the payer to
+   */
+  async getCheckoutResult(sessionId: string): Promise<ApiResult<CheckoutResultResponse>> {
+    return fetchAPI(`/checkout/sessions/${sessionId}/result`, {
+      method: "GET",
+    });
+  },
+
+  /**
+   * One page of payment links owned by the wallet (signs in if needed). Archived links
+   * are listed instead of live ones when `archived` is set; pass the response's
+   * nextCursor back as `cursor` for the following page.
    */
   async listPaymentLinks(
-    recipientAddress: string
-  ): Promise<{ success: boolean; data?: PaymentLinksListResponse; error?: string }> {
-    const query = encodeURIComponent(recipientAddress);
-    return fetchAPI(`/payment-links?recipientAddress=${query}`, {
+    wallet: WalletSigner,
+    query: PaymentLinkListQuery = {}
+  ): Promise<ApiResult<PaymentLinksListResponse>> {
+    return fetchAuthenticatedAPI(wallet, `/payment-links${toQueryString(query)}`, {
       method: "GET",
     });
   },
 
   /**
-   * List payment history for recipient
+   * One page of payment history for the wallet (signs in if needed)
    */
   async listPaymentHistory(
-    recipientAddress: string
-  ): Promise<{ success: boolean; data?: PaymentHistoryResponse; error?: string }> {
-    const query = encodeURIComponent(recipientAddress);
-    return fetchAPI(`/payment-links/history?recipientAddress=${query}`, {
+    wallet: WalletSigner,
+    query: PaymentRecordListQuery = {}
+  ): Promise<ApiResult<PaymentHistoryResponse>> {
+    return fetchAuthenticatedAPI(wallet, `/payment-links/history${toQueryString(query)}`, {
       method: "GET",
     });
   },
 
   /**
-   * Delete payment link
+   * Download the wallet's whole payment history as CSV or JSON (signs in if needed).
+   * Filters apply as in listPaymentHistory; cursor and limit are ignored.
+   */
+  async exportPaymentHistory(
+    wallet: WalletSigner,
+    format: HistoryExportFormat,
+    query: PaymentRecordListQuery = {}
+  ): Promise<ApiResult<PaymentHistoryExport>> {
+    try {
+      const response = await sendAuthenticated(
+        wallet,
+        `/payment-links/history/export${toQueryString({ ...query, format })}`,
+        { method: "GET" }
+      );
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        return errorResult(response, data);
+      }
+
+      const disposition = response.headers.get("Content-Disposition") ?? "";
+      const filename = /filename="([^"]+)"/.exec(disposition)?.[1] ?? `payments.${format}`;
+      return { success: true, data: { blob: await response.blob(), filename } };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { success: false, error: message || "Network error" };
+    }
+  },
+
+  /**
+   * Edit, pause or resume a payment link owned by the wallet (signs in if needed)
    */
-  async deletePaymentLink(
+  async updatePaymentLink(
     paymentId: string,
-    recipientAddress: string
-  ): Promise<{ success: boolean; data?: DeletePaymentLinkResponse; error?: string }> {
-    return fetchAPI(`/payment-links/${paymentId}`, {
+    update: UpdatePaymentLinkRequest,
+    wallet: WalletSigner
+  ): Promise<ApiResult<UpdatePaymentLinkResponse>> {
+    return fetchAuthenticatedAPI(wallet, `/payment-links/${paymentId}`, {
+      method: "PATCH",
+      body: JSON.stringify(update),
+    });
+  },
+
+  /**
+   * Audit trail of edits to a payment link owned by the wallet (signs in if needed)
+   */
+  async getPaymentLinkAudit(
+    paymentId: string,
+    wallet: WalletSigner
+  ): Promise<ApiResult<PaymentLinkAuditResponse>> {
+    return fetchAuthenticatedAPI(wallet, `/payment-links/${paymentId}/audit`, {
+      method: "GET",
+    });
+  },
+
+  /**
+   * Archive a payment link owned by the wallet (signs in if needed). Its payment
+   * history is kept.
+   */
+  async archivePaymentLink(
+    paymentId: string,
+    wallet: WalletSigner
+  ): Promise<ApiResult<UpdatePaymentLinkResponse>> {
+    return fetchAuthenticatedAPI(wallet, `/payment-links/${paymentId}`, {
+      method: "DELETE",
+    });
+  },
+
+  /**
+   * Restore an archived payment link owned by the wallet (signs in if needed)
+   */
+  async restorePaymentLink(
+    paymentId: string,
+    wallet: WalletSigner
+  ): Promise<ApiResult<UpdatePaymentLinkResponse>> {
+    return fetchAuthenticatedAPI(wallet, `/payment-links/${paymentId}/restore`, {
+      method: "POST",
+    });
+  },
+
+  /**
+   * Permanently delete an archived payment link and its payment history (signs in if
+   * needed)
+   */
+  async purgePaymentLink(
+    paymentId: string,
+    wallet: WalletSigner
+  ): Promise<ApiResult<DeletePaymentLinkResponse>> {
+    return fetchAuthenticatedAPI(wallet, `/payment-links/${paymentId}/purge`, {
+      method: "DELETE",
+    });
+  },
+};
+
+/**
+ * Merchant API keys of the signed-in wallet (all calls sign in if needed)
+ */
+export const ApiKeysAPI = {
+  /**
+   * The wallet's keys, revoked ones included, newest first
+   */
+  async listApiKeys(wallet: WalletSigner): Promise<ApiResult<ApiKeysListResponse>> {
+    return fetchAuthenticatedAPI(wallet, "/api-keys", {
+      method: "GET",
+    });
+  },
+
+  /**
+   * Issue a key; the response carries the full key, which cannot be shown again
+   */
+  async createApiKey(
+    wallet: WalletSigner,
+    request: CreateApiKeyRequest
+  ): Promise<ApiResult<CreateApiKeyResponse>> {
+    return fetchAuthenticatedAPI(wallet, "/api-keys", {
+      method: "POST",
+      body: JSON.stringify(request),
+    });
+  },
+
+  /**
+   * Revoke a key; requests made with it fail from then on
+   */
+  async revokeApiKey(
+    wallet: WalletSigner,
+    keyId: string
+  ): Promise<ApiResult<{ success: boolean }>> {
+    return fetchAuthenticatedAPI(wallet, `/api-keys/${keyId}`, {
       method: "DELETE",
-      body: JSON.stringify({ recipientAddress }),
     });
   },
 };
@@ -160,30 +386,99 @@ export const PaymentLinksAPI = {
  */
 export const PrivacyCashAPI = {
   /**
-   * Execute a private withdrawal
+   * Fees of `recipients` withdrawals that each leave the recipient recipientAmount, as the
+   * backend checks them. Read it through useFeeQuote in components.
    */
-  async withdraw(request: WithdrawRequest): Promise<{
-    success: boolean;
-    data?: { success: boolean; result: WithdrawResult };
-    error?: string;
-  }> {
+  async getFeeBreakdown(
+    query: FeeBreakdownQuery
+  ): Promise<ApiResult<{ success: boolean; breakdown: FeeBreakdown }>> {
+    const params = new URLSearchParams({
+      mint: query.mint,
+      recipientAmount: query.recipientAmount,
+      recipients: String(query.recipients ?? 1),
+    });
+    return fetchAPI(`/fees/quote?${params}`, {
+      method: "GET",
+    });
+  },
+
+  /**
+   * Lock the fees of a withdrawal paying a link; send the quote's ID and total with
+   * withdraw or withdrawSpl before it expires
+   */
+  async createFeeQuote(
+    request: CreateFeeQuoteRequest
+  ): Promise<ApiResult<{ success: boolean; quote: FeeQuote }>> {
+    return fetchAPI(`/quotes`, {
+      method: "POST",
+      body: JSON.stringify(request),
+    });
+  },
+
+  /**
+   * Queue a private withdrawal; poll getWithdrawJob with the returned job ID. Retrying
+   * with the same idempotency key returns the original job instead of paying twice.
+   */
+  async withdraw(
+    request: WithdrawRequest,
+    idempotencyKey: string
+  ): Promise<ApiResult<WithdrawJobAccepted>> {
     return fetchAPI(`/withdraw`, {
       method: "POST",
+      headers: { "Idempotency-Key": idempotencyKey },
       body: JSON.stringify(request),
     });
   },
 
   /**
-   * Execute a private SPL withdrawal
+   * Queue a private SPL withdrawal; poll getWithdrawJob with the returned job ID.
+   * Retrying with the same idempotency key returns the original job.
    */
-  async withdrawSpl(request: WithdrawSplRequest): Promise<{
-    success: boolean;
-    data?: { success: boolean; result: WithdrawSplResult };
-    error?: string;
-  }> {
+  async withdrawSpl(
+    request: WithdrawSplRequest,
+    idempotencyKey: string
+  ): Promise<ApiResult<WithdrawJobAccepted>> {
     return fetchAPI(`/withdraw-spl`, {
       method: "POST",
+      headers: { "Idempotency-Key": idempotencyKey },
       body: JSON.stringify(request),
     });
   },
+
+  /**
+   * Get the current stage of a queued withdrawal
+   */
+  async getWithdrawJob(
+    jobId: string
+  ): Promise<ApiResult<{ success: boolean; job: WithdrawJobInfo }>> {
+    return fetchAPI(`/withdraw-jobs/${jobId}`, {
+      method: "GET",
+    });
+  },
+
+  /**
+   * Stream server-side prover logs and stage changes for a queued withdrawal.
+   * Returns a function that closes the stream.
+   */
+  subscribeWithdrawJob(
+    jobId: string,
+    onEvent: (event: WithdrawJobEvent) => void,
+    onError: () => void
+  ): () => void {
+    const source = new EventSource(`${BACKEND_URL}/withdraw-jobs/${jobId}/events`);
+    const handle = (message: MessageEvent<string>) => {
+      try {
+        onEvent(JSON.parse(message.data) as WithdrawJobEvent);
+      } catch {
+        // ignore malformed events
+      }
+    };
+    source.addEventListener("log", handle);
+    source.addEventListener("stage", handle);
+    source.onerror = () => {
+      source.close();
+      onError();
+    };
+    return () => source.close();
+  },
 };
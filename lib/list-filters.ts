@@ -0,0 +1,82 @@
+/**
+ * List Filters
+ *
+ * Filter bar state for the created links and payment history tabs, and its conversion
+ * to the query the list routes take. Amounts are entered in token units and only apply
+ * once a token is picked, since base units differ per token.
+ */
+
+import type { ListSortOrder } from "./payment-links-types";
+import { getTokenByMint, parseTokenAmount } from "./token-registry";
+
+/** Select value that means "no filter" (Radix selects cannot hold an empty value) */
+export const ANY = "all";
+
+export interface ListFilters {
+  search: string;
+  status: string;
+  tokenMint: string;
+  from: string; // yyyy-mm-dd, local time
+  to: string; // yyyy-mm-dd, local time, inclusive
+  amountMin: string;
+  amountMax: string;
+  sort: string; // "<field>:<order>", e.g. "createdAt:desc"
+}
+
+export interface FilterOption {
+  value: string;
+  label: string;
+}
+
+export function createListFilters(sort: string): ListFilters {
+  return {
+    search: "",
+    status: ANY,
+    tokenMint: ANY,
+    from: "",
+    to: "",
+    amountMin: "",
+    amountMax: "",
+    sort,
+  };
+}
+
+/** True when nothing narrows the list, so a new item belongs at the top of it */
+export function isUnfiltered(filters: ListFilters, defaultSort: string): boolean {
+  const defaults = createListFilters(defaultSort);
+  return (Object.keys(defaults) as Array<keyof ListFilters>).every(
+    (key) => filters[key] === defaults[key]
+  );
+}
+
+function startOfLocalDay(date: string, addDays = 0): number | undefined {
+  if (!date) return undefined;
+  const [year, month, day] = date.split("-").map(Number);
+  const timestamp = new Date(year, month - 1, day + addDays).getTime();
+  return Number.isFinite(timestamp) ? timestamp : undefined;
+}
+
+/**
+ * Query fields shared by both list routes. Unparseable amounts are left out rather
+ * than rejected, as they are typed one keystroke at a time.
+ */
+export function toListQuery<Sort extends string>(filters: ListFilters) {
+  const [sort, order] = filters.sort.split(":") as [Sort, ListSortOrder];
+  const token = filters.tokenMint !== ANY ? getTokenByMint(filters.tokenMint) : undefined;
+  const toBaseUnits = (value: string) => {
+    if (!token || !value.trim()) return undefined;
+    const parsed = parseTokenAmount(value, token);
+    return "error" in parsed ? undefined : parsed.baseUnits.toString();
+  };
+
+  return {
+    search: filters.search.trim() || undefined,
+    tokenMint: token?.mint,
+    from: startOfLocalDay(filters.from),
+    to: startOfLocalDay(filters.to, 1),
+    amountMin: toBaseUnits(filters.amountMin),
+    amountMax: toBaseUnits(filters.amountMax),
+    sort,
+    order,
+  };
+}
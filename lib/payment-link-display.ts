@@ -0,0 +1,46 @@
+/**
+ * Payment Link Display
+ *
+ * Labels for a link's amount terms and usage, shared by the creator, the created
+ * links list and the pay page.
+ */
+
+import type { PaymentLinkPublicInfo } from "./payment-links-types";
+import { formatTokenAmount, getTokenByMint } from "./token-registry";
+
+type LinkAmountTerms = Pick<
+  PaymentLinkPublicInfo,
+  "tokenMint" | "amountType" | "fixedAmount" | "minAmount" | "maxAmount"
+>;
+
+type LinkUsage = Pick<PaymentLinkPublicInfo, "reusable" | "usageCount" | "maxUsageCount">;
+
+/**
+ * "0.5 SOL" for fixed links; "Any amount", "1 – 5 SOL", "1 SOL or more" or
+ * "Up to 5 SOL" for flexible ones.
+ */
+export function formatLinkAmount(link: LinkAmountTerms): string {
+  const token = getTokenByMint(link.tokenMint);
+  if (!token) return "Unknown token";
+  const format = (baseUnits: string) => formatTokenAmount(BigInt(baseUnits), token);
+
+  if (link.amountType === "fixed") {
+    return `${format(link.fixedAmount ?? "0")} ${token.label}`;
+  }
+  if (link.minAmount && link.maxAmount) {
+    return `${format(link.minAmount)} – ${format(link.maxAmount)} ${token.label}`;
+  }
+  if (link.minAmount) return `${format(link.minAmount)} ${token.label} or more`;
+  if (link.maxAmount) return `Up to ${format(link.maxAmount)} ${token.label}`;
+  return `Any amount of ${token.label}`;
+}
+
+/**
+ * "3 / 10 paid" for capped multi-use links, "3 paid" for uncapped ones, and null for
+ * one-time links.
+ */
+export function formatLinkUsage(link: LinkUsage): string | null {
+  if (!link.reusable) return null;
+  if (link.maxUsageCount) return `${link.usageCount} / ${link.maxUsageCount} paid`;
+  return `${link.usageCount} paid`;
+}
@@ -51,15 +51,19 @@ export const PaymentLinksStore = {
       throw new Error("Fixed amount is required for fixed amount type");
     }
 
-    if (request.amountType === "fixed" && request.fixedAmount! <= 0) {
+    if (request.amountType === "fixed" && BigInt(request.fixedAmount!) <= 0n) {
       throw new Error("Fixed amount must be positive");
     }
 
-    if (request.minAmount && request.minAmount < 0) {
+    if (request.minAmount && BigInt(request.minAmount) < 0n) {
       throw new Error("Min amount cannot be negative");
     }
 
-    if (request.maxAmount && request.minAmount && request.maxAmount < request.minAmount) {
+    if (
+      request.maxAmount &&
+      request.minAmount &&
+      BigInt(request.maxAmount) < BigInt(request.minAmount)
+    ) {
       throw new Error("Max amount must be greater than min amount");
     }
 
@@ -116,33 +120,33 @@ export const PaymentLinksStore = {
   /**
    * Validate payment amount against link requirements
    */
-  validateAmount(paymentId: string, amount: number): { valid: boolean; error?: string } {
+  validateAmount(paymentId: string, amount: bigint): { valid: boolean; error?: string } {
     const link = paymentLinks.get(paymentId);
     if (!link) return { valid: false, error: "Payment link not found" };
 
-    if (amount <= 0) {
+    if (amount <= 0n) {
       return { valid: false, error: "Amount must be positive" };
     }
 
     const token = getTokenByMint(link.tokenMint);
-    const formatAmount = (value: number) => {
+    const formatAmount = (value: string) => {
       if (!token) return `${value} base units`;
-      return `${formatTokenAmount(value, token)} ${token.label}`;
+      return `${formatTokenAmount(BigInt(value), token)} ${token.label}`;
     };
 
     if (link.amountType === "fixed") {
-      if (amount !== link.fixedAmount) {
+      if (amount !== BigInt(link.fixedAmount ?? 0)) {
         return {
           valid: false,
-          error: `Amount must be exactly ${formatAmount(link.fixedAmount ?? 0)}`,
+          error: `Amount must be exactly ${formatAmount(link.fixedAmount ?? "0")}`,
         };
       }
     } else {
       // Flexible amount
-      if (link.minAmount && amount < link.minAmount) {
+      if (link.minAmount && amount < BigInt(link.minAmount)) {
         return { valid: false, error: `Amount must be at least ${formatAmount(link.minAmount)}` };
       }
-      if (link.maxAmount && amount > link.maxAmount) {
+      if (link.maxAmount && amount > BigInt(link.maxAmount)) {
         return { valid: false, error: `Amount cannot exceed ${formatAmount(link.maxAmount)}` };
       }
     }
@@ -1,6 +1,7 @@
 import { Connection, PublicKey, VersionedTransaction } from "@solana/web3.js";
 import { tokens } from "privacycash/utils";
 import type { SplList, TokenList } from "privacycash/utils";
+import { getLastServedRelayer, installRelayerFailover } from "./relayers";
 
 // Re-export token types (from SDK constants)
 export type { SplList, TokenList };
@@ -21,6 +22,7 @@ let _wasmFactory: typeof import("@lightprotocol/hasher.rs") | null = null;
 
 async function getSDKUtils() {
   if (!_sdkUtils) {
+    installRelayerFailover();
     _sdkUtils = await import("privacycash/utils");
   }
   return _sdkUtils;
@@ -180,6 +182,15 @@ interface OperationParams {
   wallet: WalletAdapter;
 }
 
+/**
+ * Tag an operation's result with the relayer that answered its last relayer request
+ * (the submit, for deposits and withdrawals)
+ */
+async function withRelayer<T>(operation: Promise<T>): Promise<T & { relayer: string | null }> {
+  const result = await operation;
+  return { ...result, relayer: getLastServedRelayer() };
+}
+
 /**
  * Deposit SOL into Privacy Cash
  */
@@ -188,25 +199,27 @@ export async function depositSOL(
     amount_in_lamports: number;
     referrer?: string;
   }
-): Promise<{ tx: string }> {
+): Promise<{ tx: string; relayer: string | null }> {
   const { connection, wallet, amount_in_lamports, referrer } = params;
 
   const sdk = await getSDKUtils();
   const session = await initializeSession(wallet);
 
-  return sdk.deposit({
-    lightWasm: session.lightWasm,
-    connection,
-    amount_in_lamports,
-    keyBasePath: getKeyBasePath(),
-    publicKey: session.publicKey,
-    transactionSigner: async (tx: VersionedTransaction) => {
-      return wallet.signTransaction(tx);
-    },
-    storage: localStorage,
-    encryptionService: session.encryptionService,
-    referrer,
-  });
+  return withRelayer(
+    sdk.deposit({
+      lightWasm: session.lightWasm,
+      connection,
+      amount_in_lamports,
+      keyBasePath: getKeyBasePath(),
+      publicKey: session.publicKey,
+      transactionSigner: async (tx: VersionedTransaction) => {
+        return wallet.signTransaction(tx);
+      },
+      storage: localStorage,
+      encryptionService: session.encryptionService,
+      referrer,
+    })
+  );
 }
 
 /**
@@ -224,6 +237,7 @@ export async function withdrawSOL(
   recipient: string;
   amount_in_lamports: number;
   fee_in_lamports: number;
+  relayer: string | null;
 }> {
   const { connection, wallet, amount_in_lamports, recipient, referrer } = params;
 
@@ -232,17 +246,19 @@ export async function withdrawSOL(
 
   const recipientPubkey = recipient ? new PublicKey(recipient) : session.publicKey;
 
-  return sdk.withdraw({
-    lightWasm: session.lightWasm,
-    connection,
-    amount_in_lamports,
-    keyBasePath: getKeyBasePath(),
-    publicKey: session.publicKey,
-    recipient: recipientPubkey,
-    storage: localStorage,
-    encryptionService: session.encryptionService,
-    referrer,
-  });
+  return withRelayer(
+    sdk.withdraw({
+      lightWasm: session.lightWasm,
+      connection,
+      amount_in_lamports,
+      keyBasePath: getKeyBasePath(),
+      publicKey: session.publicKey,
+      recipient: recipientPubkey,
+      storage: localStorage,
+      encryptionService: session.encryptionService,
+      referrer,
+    })
+  );
 }
 
 /**
@@ -255,27 +271,29 @@ export async function depositSPLToken(
     amount?: number;
     referrer?: string;
   }
-): Promise<{ tx: string }> {
+): Promise<{ tx: string; relayer: string | null }> {
   const { connection, wallet, mintAddress, base_units, amount, referrer } = params;
 
   const sdk = await getSDKUtils();
   const session = await initializeSession(wallet);
 
-  return sdk.depositSPL({
-    lightWasm: session.lightWasm,
-    connection,
-    base_units,
-    amount,
-    mintAddress,
-    keyBasePath: getKeyBasePath(),
-    publicKey: session.publicKey,
-    transactionSigner: async (tx: VersionedTransaction) => {
-      return wallet.signTransaction(tx);
-    },
-    storage: localStorage,
-    encryptionService: session.encryptionService,
-    referrer,
-  });
+  return withRelayer(
+    sdk.depositSPL({
+      lightWasm: session.lightWasm,
+      connection,
+      base_units,
+      amount,
+      mintAddress,
+      keyBasePath: getKeyBasePath(),
+      publicKey: session.publicKey,
+      transactionSigner: async (tx: VersionedTransaction) => {
+        return wallet.signTransaction(tx);
+      },
+      storage: localStorage,
+      encryptionService: session.encryptionService,
+      referrer,
+    })
+  );
 }
 
 /**
@@ -295,6 +313,7 @@ export async function withdrawSPLToken(
   recipient: string;
   base_units: number;
   fee_base_units: number;
+  relayer: string | null;
 }> {
   const { connection, wallet, mintAddress, base_units, amount, recipient, referrer } = params;
 
@@ -303,19 +322,21 @@ export async function withdrawSPLToken(
 
   const recipientPubkey = recipient ? new PublicKey(recipient) : session.publicKey;
 
-  return sdk.withdrawSPL({
-    lightWasm: session.lightWasm,
-    connection,
-    base_units,
-    amount,
-    mintAddress,
-    keyBasePath: getKeyBasePath(),
-    publicKey: session.publicKey,
-    recipient: recipientPubkey,
-    storage: localStorage,
-    encryptionService: session.encryptionService,
-    referrer,
-  });
+  return withRelayer(
+    sdk.withdrawSPL({
+      lightWasm: session.lightWasm,
+      connection,
+      base_units,
+      amount,
+      mintAddress,
+      keyBasePath: getKeyBasePath(),
+      publicKey: session.publicKey,
+      recipient: recipientPubkey,
+      storage: localStorage,
+      encryptionService: session.encryptionService,
+      referrer,
+    })
+  );
 }
 
 /**
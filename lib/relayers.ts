@@ -0,0 +1,55 @@
+/**
+ * Relayer failover for the browser. The SDK sends relayer requests to
+ * NEXT_PUBLIC_RELAYER_API_URL with the global fetch; once installed, those requests go
+ * to the best-ranked of NEXT_PUBLIC_RELAYER_API_URLS instead (see @ghostsend/shared).
+ */
+
+import { createFailoverFetch, createRelayerPool, parseRelayerUrls } from "@ghostsend/shared";
+
+const RELAYER_API_URL =
+  typeof process !== "undefined" && process.env.NEXT_PUBLIC_RELAYER_API_URL
+    ? process.env.NEXT_PUBLIC_RELAYER_API_URL
+    : "https://api3.privacycash.org";
+
+const RELAYER_API_URLS =
+  typeof process !== "undefined" ? process.env.NEXT_PUBLIC_RELAYER_API_URLS : undefined;
+
+const pool = createRelayerPool(parseRelayerUrls(RELAYER_API_URLS, RELAYER_API_URL));
+
+let lastServed: string | null = null;
+let installed = false;
+
+/** fetch for relayer URLs, failing over between the configured relayers */
+const relayerFetch = createFailoverFetch({
+  primaryUrl: RELAYER_API_URL,
+  candidates: pool.ranked,
+  onAttempt: (url, outcome) => {
+    pool.record(url, outcome);
+    if (outcome.ok) lastServed = url;
+  },
+});
+
+/**
+ * Route the SDK's relayer requests through relayerFetch and start probing the relayers.
+ * Call before the first SDK operation; later calls do nothing.
+ */
+export function installRelayerFailover(): void {
+  if (installed || typeof window === "undefined") return;
+  installed = true;
+  window.fetch = relayerFetch;
+  pool.start();
+}
+
+/** Relayer that answered the latest relayer request, or null before the first one */
+export function getLastServedRelayer(): string | null {
+  return lastServed;
+}
+
+/** Short name of a relayer for the UI: its host */
+export function relayerLabel(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+}
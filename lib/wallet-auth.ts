@@ -0,0 +1,133 @@
+/**
+ * Wallet Session Auth
+ *
+ * Sign-In-With-Solana flow against the backend: request a challenge, have the wallet
+ * sign it, and exchange the signature for a short-lived session token. Tokens are
+ * cached per wallet (memory + sessionStorage) so the user signs once per session.
+ */
+
+import type { PublicKey } from "@solana/web3.js";
+
+const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL || "http://localhost:4000";
+const STORAGE_KEY_PREFIX = "ghostsend:wallet-session:";
+// Refresh a little before the backend expires the token
+const EXPIRY_SKEW_MS = 30_000;
+
+export interface WalletSigner {
+  publicKey: PublicKey;
+  signMessage: (message: Uint8Array) => Promise<Uint8Array>;
+}
+
+type WalletSession = { token: string; expiresAt: number };
+
+const sessions = new Map<string, WalletSession>();
+const pendingSignIns = new Map<string, Promise<string>>();
+
+function toBase64(bytes: Uint8Array) {
+  let binary = "";
+  bytes.forEach((b) => {
+    binary += String.fromCharCode(b);
+  });
+  return btoa(binary);
+}
+
+function readStoredSession(address: string): WalletSession | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const raw = window.sessionStorage.getItem(STORAGE_KEY_PREFIX + address);
+    return raw ? (JSON.parse(raw) as WalletSession) : null;
+  } catch {
+    return null;
+  }
+}
+
+function storeSession(address: string, session: WalletSession) {
+  sessions.set(address, session);
+  if (typeof window === "undefined") return;
+  try {
+    window.sessionStorage.setItem(STORAGE_KEY_PREFIX + address, JSON.stringify(session));
+  } catch {
+    // sessionStorage unavailable (private mode); memory cache still works
+  }
+}
+
+/**
+ * Get a cached, unexpired session token without prompting the wallet
+ */
+export function getCachedWalletSession(address: string): string | null {
+  const session = sessions.get(address) ?? readStoredSession(address);
+  if (!session || session.expiresAt - EXPIRY_SKEW_MS <= Date.now()) {
+    return null;
+  }
+  sessions.set(address, session);
+  return session.token;
+}
+
+/**
+ * Forget the session for a wallet (e.g. after the backend rejected it)
+ */
+export function clearWalletSession(address: string) {
+  sessions.delete(address);
+  if (typeof window === "undefined") return;
+  try {
+    window.sessionStorage.removeItem(STORAGE_KEY_PREFIX + address);
+  } catch {
+    // no-op
+  }
+}
+
+async function postJSON<T>(endpoint: string, body: unknown): Promise<T> {
+  const response = await fetch(`${BACKEND_URL}${endpoint}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP ${response.status}`);
+  }
+  return data as T;
+}
+
+async function signIn(wallet: WalletSigner): Promise<string> {
+  const address = wallet.publicKey.toBase58();
+  const challenge = await postJSON<{ nonce: string; message: string }>("/auth/challenge", {
+    address,
+  });
+
+  let signature: Uint8Array;
+  try {
+    const result = await wallet.signMessage(new TextEncoder().encode(challenge.message));
+    signature = (result as { signature?: Uint8Array }).signature ?? result;
+  } catch (err) {
+    if (err instanceof Error && err.message?.toLowerCase().includes("user rejected")) {
+      throw new Error("Sign-in was rejected in your wallet");
+    }
+    throw new Error(`Failed to sign in: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const session = await postJSON<WalletSession>("/auth/verify", {
+    address,
+    nonce: challenge.nonce,
+    signature: toBase64(signature),
+  });
+  storeSession(address, { token: session.token, expiresAt: session.expiresAt });
+  return session.token;
+}
+
+/**
+ * Get a session token for the wallet, prompting for a signature if none is cached.
+ * Concurrent callers for the same wallet share a single prompt.
+ */
+export async function getWalletSessionToken(wallet: WalletSigner): Promise<string> {
+  const address = wallet.publicKey.toBase58();
+  const cached = getCachedWalletSession(address);
+  if (cached) return cached;
+
+  let pending = pendingSignIns.get(address);
+  if (!pending) {
+    pending = signIn(wallet).finally(() => pendingSignIns.delete(address));
+    pendingSignIns.set(address, pending);
+  }
+  return pending;
+}
@@ -0,0 +1,63 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  formatTokenAmount,
+  formatTokenAmountInput,
+  isBaseUnits,
+  parseTokenAmount,
+  toBaseUnits,
+} from "./amounts";
+import { getTokenByName } from "./tokens";
+
+const sol = getTokenByName("sol")!;
+const usdc = getTokenByName("usdc")!;
+const ore = getTokenByName("ore")!;
+
+test("parseTokenAmount is exact", () => {
+  assert.deepEqual(parseTokenAmount("0.1", sol), { baseUnits: 100_000_000n });
+  assert.deepEqual(parseTokenAmount("0.3", sol), { baseUnits: 300_000_000n });
+  assert.deepEqual(parseTokenAmount("1.005", usdc), { baseUnits: 1_005_000n });
+  assert.deepEqual(parseTokenAmount(" 12. ", usdc), { baseUnits: 12_000_000n });
+  assert.deepEqual(parseTokenAmount(".5", usdc), { baseUnits: 500_000n });
+  assert.deepEqual(parseTokenAmount("98765432109.87654321012", ore), {
+    baseUnits: 9_876_543_210_987_654_321_012n,
+  });
+});
+
+test("parseTokenAmount rejects excess decimals and non-numbers", () => {
+  assert.deepEqual(parseTokenAmount("1.0000001", usdc), {
+    error: "USDC has at most 6 decimals",
+  });
+  for (const input of ["", ".", "-1", "1e3", "1,5", "abc", "0x10", "1.2.3"]) {
+    assert.ok("error" in parseTokenAmount(input, sol), input);
+  }
+});
+
+test("formatTokenAmountInput round-trips", () => {
+  for (const input of ["0", "0.1", "1.000000001", "123456789.5"]) {
+    const parsed = parseTokenAmount(input, sol);
+    assert.ok("baseUnits" in parsed);
+    assert.equal(formatTokenAmountInput(parsed.baseUnits, sol), input);
+  }
+});
+
+test("formatTokenAmount groups and rounds half up", () => {
+  assert.equal(formatTokenAmount(1_234_500_000n, usdc), "1,234.5");
+  assert.equal(formatTokenAmount(1n, sol), "0");
+  assert.equal(formatTokenAmount(500n, sol), "0.000001");
+  assert.equal(formatTokenAmount(1_999_999_999n, sol, 2), "2");
+  assert.equal(formatTokenAmount(9_876_543_210_987_654_321_012n, ore), "98,765,432,109.876543");
+});
+
+test("wire form", () => {
+  assert.equal(toBaseUnits(1_500_000_000), "1500000000");
+  assert.equal(toBaseUnits(2n ** 70n), "1180591620717411303424");
+  assert.throws(() => toBaseUnits(0.5));
+  assert.ok(isBaseUnits("0"));
+  assert.ok(!isBaseUnits("-1"));
+  assert.ok(!isBaseUnits("1.5"));
+  assert.ok(!isBaseUnits("007"));
+  assert.ok(!isBaseUnits(15));
+  assert.ok(isBaseUnits("9223372036854775807"));
+  assert.ok(!isBaseUnits("9223372036854775808"));
+});
@@ -0,0 +1,101 @@
+/**
+ * Token amounts
+ *
+ * Amounts are whole base units (lamports for SOL). In code they are bigint; on the wire
+ * and in storage they are decimal integer strings, since SPL amounts can exceed
+ * Number.MAX_SAFE_INTEGER. Human input is parsed as a decimal string, never through
+ * floating point.
+ */
+
+import type { TokenInfo } from "./tokens";
+
+/** Amount in a token's base units as a decimal integer string, e.g. "1500000000" */
+export type BaseUnits = string;
+
+/** Largest amount accepted: a signed 64-bit integer, what the SQL adapters store */
+export const MAX_BASE_UNITS = 2n ** 63n - 1n;
+
+/** JSON schema pattern for BaseUnits; isBaseUnits also checks MAX_BASE_UNITS */
+export const BASE_UNITS_PATTERN = "^(0|[1-9][0-9]{0,18})$";
+
+const baseUnitsPattern = new RegExp(BASE_UNITS_PATTERN);
+const tokenAmountPattern = /^(\d*)(?:\.(\d*))?$/;
+
+/** Whether value is a BaseUnits string */
+export function isBaseUnits(value: unknown): value is BaseUnits {
+  return (
+    typeof value === "string" && baseUnitsPattern.test(value) && BigInt(value) <= MAX_BASE_UNITS
+  );
+}
+
+/** Read a BaseUnits string; null when it is not one */
+export function parseBaseUnits(value: string): bigint | null {
+  return isBaseUnits(value) ? BigInt(value) : null;
+}
+
+/** Wire form of an amount. Numbers must be safe integers */
+export function toBaseUnits(value: bigint | number): BaseUnits {
+  if (typeof value === "number" && !Number.isSafeInteger(value)) {
+    throw new RangeError(`${value} is not a whole number of base units`);
+  }
+  return BigInt(value).toString();
+}
+
+export type TokenAmountParse = { baseUnits: bigint } | { error: string };
+
+/**
+ * Parse an amount typed in whole tokens, e.g. "0.1" SOL, to base units. Exact: digits are
+ * shifted, not multiplied, and more decimals than the token has are refused.
+ */
+export function parseTokenAmount(
+  amount: string,
+  token: Pick<TokenInfo, "decimals" | "label">
+): TokenAmountParse {
+  const match = tokenAmountPattern.exec(amount.trim());
+  if (!match || (match[1] === "" && !match[2])) {
+    return { error: "Enter an amount like 1.5" };
+  }
+  const [, whole, fraction = ""] = match;
+  if (fraction.length > token.decimals) {
+    return {
+      error:
+        token.decimals === 0
+          ? `${token.label} has no decimals`
+          : `${token.label} has at most ${token.decimals} decimals`,
+    };
+  }
+  return { baseUnits: BigInt((whole || "0") + fraction.padEnd(token.decimals, "0")) };
+}
+
+function splitDecimal(baseUnits: bigint, decimals: number): [string, string] {
+  const negative = baseUnits < 0n;
+  const digits = (negative ? -baseUnits : baseUnits).toString().padStart(decimals + 1, "0");
+  const whole = digits.slice(0, digits.length - decimals);
+  return [(negative ? "-" : "") + whole, digits.slice(digits.length - decimals)];
+}
+
+/** Exact amount in whole tokens for an input field, e.g. "0.1"; no grouping or rounding */
+export function formatTokenAmountInput(baseUnits: bigint, token: Pick<TokenInfo, "decimals">) {
+  const [whole, fraction] = splitDecimal(baseUnits, token.decimals);
+  const trimmed = fraction.replace(/0+$/, "");
+  return trimmed ? `${whole}.${trimmed}` : whole;
+}
+
+/**
+ * Human-readable amount, e.g. "1,234.5", rounded half up to at most maximumFractionDigits
+ * decimals
+ */
+export function formatTokenAmount(
+  baseUnits: bigint,
+  token: Pick<TokenInfo, "decimals">,
+  maximumFractionDigits = 6
+) {
+  const digits = Math.min(maximumFractionDigits, token.decimals);
+  const step = 10n ** BigInt(token.decimals - digits);
+  const magnitude = baseUnits < 0n ? -baseUnits : baseUnits;
+  const rounded = ((magnitude + step / 2n) / step) * step;
+  const [whole, fraction] = splitDecimal(rounded, token.decimals);
+  const grouped = whole.replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  const shown = fraction.slice(0, digits).replace(/0+$/, "");
+  return (baseUnits < 0n && rounded > 0n ? "-" : "") + (shown ? `${grouped}.${shown}` : grouped);
+}
@@ -0,0 +1,120 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  FALLBACK_RELAYER_CONFIG,
+  computeRecipientFromTotal,
+  computeTotalForRecipient,
+  computeWithdrawFee,
+  getMinimumWithdrawal,
+  parseRelayerConfig,
+  type RelayerConfig,
+} from "./fees";
+import { tokenRegistry, type TokenInfo } from "./tokens";
+
+const config: RelayerConfig = {
+  withdraw_fee_rate: 0.0035,
+  withdraw_rent_fee: 0.006,
+  rent_fees: { usdc: 0.85, usdt: 0.85, zec: 0.0003, ore: 0.006, store: 0.006 },
+  minimum_withdrawal: {},
+};
+
+/** The SDK's withdraw.ts / withdrawSPL.ts fee lines, copied as written */
+function sdkFee(total: number, token: TokenInfo, c: RelayerConfig): number {
+  if (token.name === "sol") {
+    return Math.floor(total * c.withdraw_fee_rate + 1e9 * c.withdraw_rent_fee);
+  }
+  return Math.floor(total * c.withdraw_fee_rate + token.unitsPerToken * c.rent_fees[token.name]);
+}
+
+const sol = tokenRegistry.find((token) => token.name === "sol")!;
+const usdc = tokenRegistry.find((token) => token.name === "usdc")!;
+
+test("fee matches the SDK for every token", () => {
+  for (const token of tokenRegistry) {
+    for (const total of [0, 1, 999, 123_456_789, 10 * token.unitsPerToken, 2 ** 40]) {
+      assert.equal(
+        computeWithdrawFee(BigInt(total), token, config),
+        BigInt(sdkFee(total, token, config))
+      );
+    }
+  }
+});
+
+test("total for recipient is the smallest total that pays the recipient exactly", () => {
+  for (const token of tokenRegistry) {
+    for (let i = 0; i < 500; i++) {
+      const recipient = Math.floor(((i * 7919) % 100_000) * token.unitsPerToken * 0.001) + i;
+      const breakdown = computeTotalForRecipient(BigInt(recipient), token, config);
+      const total = Number(breakdown.totalBaseUnits);
+
+      assert.equal(total - sdkFee(total, token, config), recipient);
+      assert.ok(total - 1 - sdkFee(total - 1, token, config) < recipient);
+      assert.equal(breakdown.feeBaseUnits, BigInt(sdkFee(total, token, config)));
+    }
+  }
+});
+
+test("known breakdowns", () => {
+  assert.deepEqual(computeTotalForRecipient(1_000_000_000n, sol, config), {
+    totalBaseUnits: 1_009_533_366n,
+    recipientBaseUnits: 1_000_000_000n,
+    feeBaseUnits: 9_533_366n,
+    rateFeeBaseUnits: 3_533_366n,
+    rentBaseUnits: 6_000_000n,
+  });
+  assert.deepEqual(computeTotalForRecipient(100_000_000n, usdc, config), {
+    totalBaseUnits: 101_204_214n,
+    recipientBaseUnits: 100_000_000n,
+    feeBaseUnits: 1_204_214n,
+    rateFeeBaseUnits: 354_214n,
+    rentBaseUnits: 850_000n,
+  });
+  assert.equal(computeRecipientFromTotal(1_009_533_366n, sol, config), 1_000_000_000n);
+});
+
+test("amounts beyond Number.MAX_SAFE_INTEGER stay exact", () => {
+  const ore = tokenRegistry.find((token) => token.name === "ore")!;
+  const recipient = 123_456_789_012_345_678_901n;
+  const breakdown = computeTotalForRecipient(recipient, ore, config);
+
+  assert.equal(computeRecipientFromTotal(breakdown.totalBaseUnits, ore, config), recipient);
+  assert.ok(computeRecipientFromTotal(breakdown.totalBaseUnits - 1n, ore, config) < recipient);
+  assert.equal(breakdown.feeBaseUnits, breakdown.rateFeeBaseUnits + breakdown.rentBaseUnits);
+});
+
+test("missing config uses the fallback", () => {
+  assert.deepEqual(
+    computeTotalForRecipient(1_000_000_000n, sol, null),
+    computeTotalForRecipient(1_000_000_000n, sol, FALLBACK_RELAYER_CONFIG)
+  );
+  // SPL tokens without a rent_fees entry pay 0.001 tokens of rent
+  assert.equal(computeWithdrawFee(0n, usdc, null), 1_000n);
+});
+
+test("parseRelayerConfig falls back field by field", () => {
+  assert.deepEqual(parseRelayerConfig({}), FALLBACK_RELAYER_CONFIG);
+  assert.deepEqual(
+    parseRelayerConfig({
+      withdraw_fee_rate: "0.002",
+      withdraw_rent_fee: null,
+      rent_fees: { usdc: 0.5, bogus: "x" },
+      minimum_withdrawal: "nope",
+    }),
+    {
+      withdraw_fee_rate: 0.002,
+      withdraw_rent_fee: FALLBACK_RELAYER_CONFIG.withdraw_rent_fee,
+      rent_fees: { usdc: 0.5 },
+      minimum_withdrawal: {},
+    }
+  );
+  // A zero rate is a real value, not a missing one
+  assert.equal(parseRelayerConfig({ withdraw_fee_rate: 0 }).withdraw_fee_rate, 0);
+});
+
+test("minimum withdrawal is exact in base units", () => {
+  const minimums = { ...config, minimum_withdrawal: { sol: 0.01, usdc: 2.01 } };
+  assert.equal(getMinimumWithdrawal(sol, minimums), 10_000_000n);
+  // 2.01 * 1e6 is 2009999.9999999998 in floating point
+  assert.equal(getMinimumWithdrawal(usdc, minimums), 2_010_000n);
+  assert.equal(getMinimumWithdrawal(usdc, config), 0n);
+});
@@ -0,0 +1,179 @@
+/**
+ * Fee engine matching the privacycash SDK (withdraw.ts / withdrawSPL.ts).
+ *
+ * SDK: fee = floor(total * withdraw_fee_rate + units_per_token * rent_fee), recipient = total - fee.
+ * Deposit has no relayer fee (deposit.ts / depositSPL.ts use fee = 0).
+ *
+ * Amounts are bigint base units. Up to Number.MAX_SAFE_INTEGER the fee is the SDK's own
+ * floating point expression, so both agree to the base unit; above it (amounts the SDK
+ * cannot take anyway) the rate is applied as an exact fraction.
+ */
+
+import type { TokenInfo } from "./tokens";
+
+/** Deposit has no relayer fee in the SDK (deposit.ts / depositSPL use fee = 0). */
+export const DEPOSIT_FEE_BASE_UNITS = 0n;
+
+/** Relayer fee config, as served by the relayer's /config (SDK getConfig) */
+export interface RelayerConfig {
+  withdraw_fee_rate: number;
+  withdraw_rent_fee: number; // In SOL, per withdrawal
+  rent_fees: Record<string, number>; // In whole tokens, by SDK token name
+  minimum_withdrawal: Record<string, number>;
+}
+
+/** Fallback config when the relayer is unavailable (match docs: 0.35% + 0.006 SOL/recipient). */
+export const FALLBACK_RELAYER_CONFIG: RelayerConfig = {
+  withdraw_fee_rate: 0.0035,
+  withdraw_rent_fee: 0.006,
+  rent_fees: {},
+  minimum_withdrawal: {},
+};
+
+/** Rent fee for SPL tokens the config has no entry for, in whole tokens */
+export const FALLBACK_TOKEN_RENT_FEE = 0.001;
+
+/** The token fields the fee math needs; a full TokenInfo works too */
+export type FeeToken = Pick<TokenInfo, "name" | "unitsPerToken">;
+
+/** Split of a withdrawal, all in the token's base units (lamports for SOL) */
+export interface WithdrawBreakdown {
+  totalBaseUnits: bigint; // Taken from the private balance
+  recipientBaseUnits: bigint; // Received by the recipient
+  feeBaseUnits: bigint; // Kept by the relayer: rate fee plus rent
+  rateFeeBaseUnits: bigint;
+  rentBaseUnits: bigint;
+}
+
+function numberOr(value: unknown, fallback: number): number {
+  const parsed = typeof value === "string" ? Number(value) : value;
+  return typeof parsed === "number" && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
+function recordOf(value: unknown): Record<string, number> {
+  if (typeof value !== "object" || value === null) return {};
+  const record: Record<string, number> = {};
+  for (const [key, entry] of Object.entries(value)) {
+    const parsed = numberOr(entry, NaN);
+    if (!Number.isNaN(parsed)) record[key] = parsed;
+  }
+  return record;
+}
+
+/**
+ * Read a relayer config response. Fields that are missing or not numbers fall back to
+ * FALLBACK_RELAYER_CONFIG one by one, so a partial answer still gives usable fees.
+ */
+export function parseRelayerConfig(raw: Record<string, unknown>): RelayerConfig {
+  return {
+    withdraw_fee_rate: numberOr(raw.withdraw_fee_rate, FALLBACK_RELAYER_CONFIG.withdraw_fee_rate),
+    withdraw_rent_fee: numberOr(raw.withdraw_rent_fee, FALLBACK_RELAYER_CONFIG.withdraw_rent_fee),
+    rent_fees: recordOf(raw.rent_fees),
+    minimum_withdrawal: recordOf(raw.minimum_withdrawal),
+  };
+}
+
+/** Rent part of the fee in whole tokens: withdraw_rent_fee for SOL, rent_fees[name] for SPL */
+export function getRentFee(token: FeeToken, config: RelayerConfig | null): number {
+  const c = config ?? FALLBACK_RELAYER_CONFIG;
+  if (token.name === "sol") return c.withdraw_rent_fee;
+  return c.rent_fees[token.name] ?? FALLBACK_TOKEN_RENT_FEE;
+}
+
+/** A config number as an exact fraction of its decimal form: 0.0035 is 35 / 10000 */
+function toFraction(value: number): [bigint, bigint] {
+  const [mantissa, exponent = "0"] = String(value).split("e");
+  const [whole, fraction = ""] = mantissa.split(".");
+  const scale = fraction.length - Number(exponent);
+  const numerator = BigInt(whole + fraction);
+  return scale < 0 ? [numerator * 10n ** BigInt(-scale), 1n] : [numerator, 10n ** BigInt(scale)];
+}
+
+/**
+ * Smallest amount a recipient may be sent in one withdrawal, from the relayer's
+ * minimum_withdrawal (whole tokens); 0n when it sets none for the token
+ */
+export function getMinimumWithdrawal(token: FeeToken, config: RelayerConfig | null): bigint {
+  const minimum = (config ?? FALLBACK_RELAYER_CONFIG).minimum_withdrawal[token.name];
+  if (!minimum || minimum <= 0) return 0n;
+  const [numerator, denominator] = toFraction(minimum);
+  return (numerator * BigInt(token.unitsPerToken)) / denominator;
+}
+
+/** The fee formula with its terms as fractions: fee = floor((total * rate + rent) / scale) */
+function feeTerms(token: FeeToken, config: RelayerConfig | null) {
+  const c = config ?? FALLBACK_RELAYER_CONFIG;
+  // The SDK multiplies in floating point; 1e8 * 0.0003 is 29999.999999999996, not 30000
+  const rentTerm = token.unitsPerToken * getRentFee(token, c);
+  const [rateNumerator, rateDenominator] = toFraction(c.withdraw_fee_rate);
+  const [rentNumerator, rentDenominator] = toFraction(rentTerm);
+  return {
+    rateTerm: c.withdraw_fee_rate,
+    rentTerm,
+    rate: rateNumerator * rentDenominator,
+    rent: rentNumerator * rateDenominator,
+    scale: rateDenominator * rentDenominator,
+  };
+}
+
+const MAX_SAFE_BASE_UNITS = BigInt(Number.MAX_SAFE_INTEGER);
+
+function feeFor(totalBaseUnits: bigint, terms: ReturnType<typeof feeTerms>): bigint {
+  if (totalBaseUnits <= MAX_SAFE_BASE_UNITS) {
+    return BigInt(Math.floor(Number(totalBaseUnits) * terms.rateTerm + terms.rentTerm));
+  }
+  return (totalBaseUnits * terms.rate + terms.rent) / terms.scale;
+}
+
+/** Relayer fee the SDK takes from a withdrawal of totalBaseUnits */
+export function computeWithdrawFee(
+  totalBaseUnits: bigint,
+  token: FeeToken,
+  config: RelayerConfig | null
+): bigint {
+  return feeFor(totalBaseUnits, feeTerms(token, config));
+}
+
+/** What the recipient receives when totalBaseUnits is withdrawn */
+export function computeRecipientFromTotal(
+  totalBaseUnits: bigint,
+  token: FeeToken,
+  config: RelayerConfig | null
+): bigint {
+  return totalBaseUnits - computeWithdrawFee(totalBaseUnits, token, config);
+}
+
+/**
+ * Smallest withdrawal that leaves the recipient at least recipientBaseUnits. Starts from
+ * total = (recipient + rent) / (1 - rate) and steps over the fee's rounding to the exact
+ * minimum, so the result round-trips through computeRecipientFromTotal.
+ */
+export function computeTotalForRecipient(
+  recipientBaseUnits: bigint,
+  token: FeeToken,
+  config: RelayerConfig | null
+): WithdrawBreakdown {
+  const terms = feeTerms(token, config);
+  const { rate, rent, scale } = terms;
+  const rentFee = BigInt(Math.floor(terms.rentTerm));
+  const recipientFrom = (total: bigint) => total - feeFor(total, terms);
+
+  let total: bigint;
+  if (rate >= scale) {
+    total = recipientBaseUnits + rentFee;
+  } else {
+    total = (recipientBaseUnits * scale + rent) / (scale - rate);
+    while (recipientFrom(total) < recipientBaseUnits) total += 1n;
+    while (total > 0n && recipientFrom(total - 1n) >= recipientBaseUnits) total -= 1n;
+  }
+
+  const feeBaseUnits = total > recipientBaseUnits ? total - recipientBaseUnits : 0n;
+  const rentBaseUnits = rentFee < feeBaseUnits ? rentFee : feeBaseUnits;
+  return {
+    totalBaseUnits: total,
+    recipientBaseUnits,
+    feeBaseUnits,
+    rateFeeBaseUnits: feeBaseUnits - rentBaseUnits,
+    rentBaseUnits,
+  };
+}
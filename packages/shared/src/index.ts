@@ -0,0 +1,6 @@
+export * from "./amounts";
+export * from "./fees";
+export * from "./payment-links";
+export * from "./relayer-config";
+export * from "./relayers";
+export * from "./tokens";
@@ -0,0 +1,262 @@
+/**
+ * Payment Links Types
+ *
+ * Payment link contract shared by the backend and the frontend.
+ */
+
+import type { BaseUnits } from "./amounts";
+
+export type TokenMint = string;
+
+export type AmountType = "fixed" | "flexible";
+
+export type PaymentLinkStatus = "active" | "completed" | "disabled" | "expired";
+
+export type PaymentRecordStatus = "completed";
+
+/**
+ * Merchant order details carried by a link created as a checkout session
+ */
+export interface CheckoutDetails {
+  orderId: string; // The merchant's own order reference
+  metadata?: Record<string, string>; // Free-form merchant data; never shown to the payer
+  successUrl: string; // Payer is sent here with a signed result token once paid
+  cancelUrl?: string; // Payer is sent here when they give up
+}
+
+/**
+ * Payment link metadata stored on backend
+ */
+export interface PaymentLinkMetadata {
+  paymentId: string;
+  recipientAddress: string; // Public key of recipient (private, not exposed to sender)
+  tokenMint: TokenMint;
+  amountType: AmountType;
+  fixedAmount?: BaseUnits; // In lamports for SOL, base_units for SPL tokens
+  minAmount?: BaseUnits; // For flexible amounts
+  maxAmount?: BaseUnits; // For flexible amounts
+  reusable: boolean;
+  label?: string; // Optional label/title
+  message?: string; // Optional message from recipient
+  createdAt: number; // Unix timestamp
+  activeFrom?: number; // Unix timestamp (ms); payments are refused before this
+  expiresAt?: number; // Unix timestamp (ms); payments are refused from this on
+  archivedAt?: number; // Set while archived; archived links refuse payments
+  status: PaymentLinkStatus;
+  usageCount: number;
+  maxUsageCount?: number; // For reusable links with usage limit
+  checkout?: CheckoutDetails; // Set on checkout sessions
+  apiKeyId?: string; // API key that created the link, if any
+}
+
+/**
+ * Payment record for received payments (creator history)
+ */
+export interface PaymentRecord {
+  id: string;
+  paymentId: string;
+  tokenMint: TokenMint;
+  amount: BaseUnits;
+  txSignature: string;
+  completedAt: number;
+  status: PaymentRecordStatus;
+  orderId?: string; // Copied from the checkout session that was paid
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Public payment link info (exposed to sender, no recipient address)
+ */
+export interface PaymentLinkPublicInfo {
+  paymentId: string;
+  tokenMint: TokenMint;
+  amountType: AmountType;
+  fixedAmount?: BaseUnits;
+  minAmount?: BaseUnits;
+  maxAmount?: BaseUnits;
+  label?: string;
+  message?: string;
+  reusable: boolean;
+  maxUsageCount?: number;
+  createdAt: number;
+  activeFrom?: number;
+  expiresAt?: number;
+  archivedAt?: number;
+  status: PaymentLinkStatus;
+  usageCount: number;
+  checkout?: Omit<CheckoutDetails, "metadata">;
+}
+
+/**
+ * Request to create a payment link
+ */
+export interface CreatePaymentLinkRequest {
+  recipientAddress: string;
+  tokenMint: TokenMint;
+  amountType: AmountType;
+  fixedAmount?: BaseUnits;
+  minAmount?: BaseUnits;
+  maxAmount?: BaseUnits;
+  reusable: boolean;
+  maxUsageCount?: number;
+  label?: string;
+  message?: string;
+  activeFrom?: number; // Unix timestamp (ms)
+  expiresAt?: number; // Unix timestamp (ms), must be in the future
+}
+
+/**
+ * Request to open a checkout session: a one-time, fixed-amount link for the signed-in
+ * wallet that sends the payer back to the merchant afterwards
+ */
+export interface CreateCheckoutSessionRequest {
+  tokenMint: TokenMint;
+  amount: BaseUnits; // Base units the recipient receives
+  orderId: string;
+  metadata?: Record<string, string>;
+  successUrl: string;
+  cancelUrl?: string;
+  label?: string;
+  message?: string;
+  expiresAt?: number; // Unix timestamp (ms); defaults to 24 hours from creation
+}
+
+/**
+ * Checkout session as seen by the merchant. The session ID is the payment link ID.
+ */
+export interface CheckoutSession extends CheckoutDetails {
+  id: string;
+  url: string; // Page to send the payer to
+  status: PaymentLinkStatus;
+  tokenMint: TokenMint;
+  amount: BaseUnits;
+  createdAt: number;
+  expiresAt?: number;
+  payment?: PaymentRecord; // Set once paid
+}
+
+/**
+ * Owner edits to a payment link. Omitted fields are left alone; null clears an optional
+ * field. Amount bounds apply to flexible links and the usage cap to reusable ones.
+ */
+export interface UpdatePaymentLinkRequest {
+  label?: string | null;
+  message?: string | null;
+  minAmount?: BaseUnits | null;
+  maxAmount?: BaseUnits | null;
+  maxUsageCount?: number | null;
+  /** "disabled" pauses the link; "active" resumes a paused link */
+  status?: "active" | "disabled";
+}
+
+/** Fields tracked in the audit trail; archivedAt changes through archive/restore only */
+export type PaymentLinkEditableField =
+  | "label"
+  | "message"
+  | "minAmount"
+  | "maxAmount"
+  | "maxUsageCount"
+  | "status"
+  | "archivedAt";
+
+/**
+ * One owner edit to a payment link, kept as an audit trail
+ */
+export interface PaymentLinkAuditEntry {
+  id: string;
+  paymentId: string;
+  actor: string; // Wallet address that made the change
+  changes: Array<{
+    field: PaymentLinkEditableField;
+    from: string | number | null;
+    to: string | number | null;
+  }>;
+  createdAt: number;
+}
+
+export type ListSortOrder = "asc" | "desc";
+
+/**
+ * Filters, sort and page for the owner's link list. Dates are Unix timestamps (ms) on
+ * createdAt with `to` exclusive; amounts are base units. A flexible link matches an
+ * amount range that its own bounds overlap.
+ */
+export interface PaymentLinkListQuery {
+  archived?: boolean;
+  status?: PaymentLinkStatus[];
+  tokenMint?: TokenMint;
+  from?: number;
+  to?: number;
+  amountMin?: BaseUnits;
+  amountMax?: BaseUnits;
+  search?: string; // Case-insensitive match within the label
+  sort?: "createdAt" | "amount" | "usageCount"; // Default createdAt
+  order?: ListSortOrder; // Default desc
+  cursor?: string; // nextCursor of the previous page
+  limit?: number;
+}
+
+/**
+ * Filters, sort and page for the owner's payment history. Dates apply to completedAt.
+ */
+export interface PaymentRecordListQuery {
+  paymentId?: string;
+  status?: PaymentRecordStatus[];
+  tokenMint?: TokenMint;
+  from?: number;
+  to?: number;
+  amountMin?: BaseUnits;
+  amountMax?: BaseUnits;
+  search?: string; // Case-insensitive match within the paid link's label
+  sort?: "completedAt" | "amount"; // Default completedAt
+  order?: ListSortOrder; // Default desc
+  cursor?: string;
+  limit?: number;
+}
+
+/**
+ * Response after creating a payment link
+ */
+export interface CreatePaymentLinkResponse {
+  success: boolean;
+  paymentLink: PaymentLinkPublicInfo;
+  url: string;
+}
+
+/** File formats offered by the payment history export */
+export type HistoryExportFormat = "csv" | "json";
+
+export interface PaymentLinksListResponse {
+  success: boolean;
+  paymentLinks: PaymentLinkPublicInfo[];
+  nextCursor: string | null;
+}
+
+export interface PaymentHistoryResponse {
+  success: boolean;
+  payments: PaymentRecord[];
+  nextCursor: string | null;
+}
+
+export interface DeletePaymentLinkResponse {
+  success: boolean;
+}
+
+export interface UpdatePaymentLinkResponse {
+  success: boolean;
+  paymentLink: PaymentLinkPublicInfo;
+}
+
+export interface PaymentLinkAuditResponse {
+  success: boolean;
+  entries: PaymentLinkAuditEntry[];
+}
+
+/**
+ * Signed result of a paid checkout session and the merchant page to send the payer to
+ */
+export interface CheckoutResultResponse {
+  success: boolean;
+  token: string;
+  redirectUrl: string;
+}
@@ -0,0 +1,68 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { FALLBACK_RELAYER_CONFIG, type RelayerConfig } from "./fees";
+import { createRelayerConfigCache, getRelayerConfigVersion } from "./relayer-config";
+
+const config: RelayerConfig = {
+  withdraw_fee_rate: 0.0035,
+  withdraw_rent_fee: 0.006,
+  rent_fees: { usdc: 0.85, zec: 0.0003 },
+  minimum_withdrawal: {},
+};
+
+test("version depends on the fees, not on key order", () => {
+  const reordered: RelayerConfig = {
+    minimum_withdrawal: {},
+    rent_fees: { zec: 0.0003, usdc: 0.85 },
+    withdraw_rent_fee: 0.006,
+    withdraw_fee_rate: 0.0035,
+  };
+  assert.equal(getRelayerConfigVersion(reordered), getRelayerConfigVersion(config));
+  assert.notEqual(
+    getRelayerConfigVersion({ ...config, withdraw_fee_rate: 0.004 }),
+    getRelayerConfigVersion(config)
+  );
+});
+
+test("cache serves a stale config while it refreshes in the background", async () => {
+  let clock = 0;
+  const answers = [config, { ...config, withdraw_fee_rate: 0.004 }];
+  let loads = 0;
+  const cache = createRelayerConfigCache(async () => answers[loads++], {
+    ttlMs: 1000,
+    now: () => clock,
+  });
+
+  assert.equal((await cache.get()).config, config);
+  clock = 999;
+  assert.equal((await cache.get()).config, config);
+  assert.equal(loads, 1);
+
+  clock = 1000;
+  assert.equal((await cache.get()).config, config); // stale, refresh started
+  await new Promise((resolve) => setImmediate(resolve));
+  assert.equal(loads, 2);
+  assert.equal((await cache.get()).config.withdraw_fee_rate, 0.004);
+});
+
+test("cache keeps the last config when the relayer fails", async () => {
+  let fail = true;
+  const cache = createRelayerConfigCache(
+    async () => {
+      if (fail) throw new Error("down");
+      return config;
+    },
+    { ttlMs: 0, onError: () => {} }
+  );
+
+  const first = await cache.get();
+  assert.equal(first.fallback, true);
+  assert.equal(first.config, FALLBACK_RELAYER_CONFIG);
+
+  fail = false;
+  assert.equal((await cache.refresh()).config, config);
+  fail = true;
+  const kept = await cache.refresh();
+  assert.equal(kept.config, config);
+  assert.equal(kept.fallback, false);
+});
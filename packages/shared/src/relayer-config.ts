@@ -0,0 +1,99 @@
+/**
+ * Relayer config cache
+ *
+ * Time-bounded cache of the relayer's fee config. Past its TTL the cached config is
+ * still returned, while a single background fetch replaces it, so callers never wait
+ * on the relayer once a config has been loaded. Every config carries a version: a
+ * hash of its contents, equal on the frontend and the backend for the same fees.
+ */
+
+import { FALLBACK_RELAYER_CONFIG, type RelayerConfig } from "./fees";
+
+export interface RelayerConfigSnapshot {
+  config: RelayerConfig;
+  version: string;
+  fetchedAt: number; // Unix timestamp (ms) of the fetch that returned this config
+  fallback: boolean; // True until the relayer has answered once
+}
+
+export interface RelayerConfigCache {
+  /** Cached config; a stale one is returned as is while it refreshes in the background */
+  get(): Promise<RelayerConfigSnapshot>;
+  /** Fetch now, e.g. after the backend reported that fees changed */
+  refresh(): Promise<RelayerConfigSnapshot>;
+  /** Last config loaded, without fetching */
+  peek(): RelayerConfigSnapshot | null;
+}
+
+export interface RelayerConfigCacheOptions {
+  ttlMs: number;
+  now?: () => number;
+  onError?: (error: unknown) => void;
+}
+
+/** Keys sorted at every level, so equal configs serialize the same */
+function canonicalJson(value: unknown): string {
+  if (typeof value !== "object" || value === null) return JSON.stringify(value);
+  const entries = Object.entries(value).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(",")}}`;
+}
+
+/** Short hash of a config's contents (FNV-1a, hex); changes whenever any fee changes */
+export function getRelayerConfigVersion(config: RelayerConfig): string {
+  let hash = 0x811c9dc5;
+  for (const char of canonicalJson(config)) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, "0");
+}
+
+export function createRelayerConfigCache(
+  load: () => Promise<RelayerConfig>,
+  { ttlMs, now = Date.now, onError }: RelayerConfigCacheOptions
+): RelayerConfigCache {
+  let snapshot: RelayerConfigSnapshot | null = null;
+  let checkedAt = 0;
+  let inflight: Promise<RelayerConfigSnapshot> | null = null;
+
+  const fetchConfig = () => {
+    inflight ??= load()
+      .then((config) => {
+        snapshot = {
+          config,
+          version: getRelayerConfigVersion(config),
+          fetchedAt: now(),
+          fallback: false,
+        };
+        return snapshot;
+      })
+      .catch((error: unknown) => {
+        onError?.(error);
+        // Keep the last good config; without one, use the fallback until the next try
+        snapshot ??= {
+          config: FALLBACK_RELAYER_CONFIG,
+          version: getRelayerConfigVersion(FALLBACK_RELAYER_CONFIG),
+          fetchedAt: now(),
+          fallback: true,
+        };
+        return snapshot;
+      })
+      .finally(() => {
+        checkedAt = now();
+        inflight = null;
+      });
+    return inflight;
+  };
+
+  return {
+    async get() {
+      if (!snapshot) return fetchConfig();
+      if (now() - checkedAt >= ttlMs) void fetchConfig();
+      return snapshot;
+    },
+
+    refresh: fetchConfig,
+
+    peek: () => snapshot,
+  };
+}
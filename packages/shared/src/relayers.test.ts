@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { after, test } from "node:test";
+import { createFailoverFetch, createRelayerPool, parseRelayerUrls } from "./relayers";
+
+/** Local fake relayer answering every path with its current status code */
+async function fakeRelayer(name: string) {
+  const relayer = { status: 200, hits: [] as string[], url: "", server: null as Server | null };
+  relayer.server = createServer((req, res) => {
+    relayer.hits.push(req.url ?? "");
+    res.writeHead(relayer.status, { "content-type": "application/json" });
+    res.end(JSON.stringify({ relayer: name, path: req.url }));
+  });
+  await new Promise<void>((resolve) => relayer.server!.listen(0, "127.0.0.1", resolve));
+  relayer.url = `http://127.0.0.1:${(relayer.server.address() as AddressInfo).port}`;
+  after(() => relayer.server!.close());
+  return relayer;
+}
+
+test("relayer list puts the primary first and drops duplicates", () => {
+  assert.deepEqual(
+    parseRelayerUrls(" https://b.example/, https://a.example,", "https://a.example/"),
+    ["https://a.example", "https://b.example"]
+  );
+});
+
+test("failover fetch moves to the next relayer when one answers 5xx", async () => {
+  const [primary, backup] = await Promise.all([fakeRelayer("primary"), fakeRelayer("backup")]);
+  primary.status = 503;
+  const pool = createRelayerPool([primary.url, backup.url]);
+  const served: string[] = [];
+  const relayerFetch = createFailoverFetch({
+    primaryUrl: primary.url,
+    candidates: pool.ranked,
+    onAttempt: (url, outcome) => {
+      pool.record(url, outcome);
+      if (outcome.ok) served.push(url);
+    },
+  });
+
+  const res = await relayerFetch(`${primary.url}/merkle/root?token=sol`);
+  assert.deepEqual(await res.json(), { relayer: "backup", path: "/merkle/root?token=sol" });
+  assert.deepEqual(served, [backup.url]);
+  assert.equal(pool.status()[0].lastError, "HTTP 503");
+  assert.deepEqual(pool.ranked(), [backup.url, primary.url]);
+
+  // Ranked first now, the backup serves the next request without trying the primary
+  await relayerFetch(`${primary.url}/config`);
+  assert.equal(primary.hits.length, 1);
+});
+
+test("probes mark a failing relayer unhealthy until it answers again", async () => {
+  const [primary, backup] = await Promise.all([fakeRelayer("primary"), fakeRelayer("backup")]);
+  const pool = createRelayerPool([primary.url, backup.url], { maxFailures: 2 });
+  await pool.probe();
+  assert.ok(pool.status().every((status) => status.healthy && status.latencyMs !== null));
+
+  primary.status = 500;
+  await pool.probe();
+  await pool.probe();
+  const [down] = pool.status();
+  assert.equal(down.healthy, false);
+  assert.equal(down.consecutiveFailures, 2);
+  assert.deepEqual(pool.ranked(), [backup.url, primary.url]);
+
+  primary.status = 200;
+  await pool.probe();
+  assert.equal(pool.status()[0].healthy, true);
+  assert.ok(pool.status()[0].errorRate > 0);
+});
@@ -0,0 +1,224 @@
+/**
+ * Relayer failover
+ *
+ * The privacycash SDK sends every relayer request to one URL, fixed when it loads
+ * (NEXT_PUBLIC_RELAYER_API_URL). A relayer pool tracks several relayers: periodic
+ * probes and the outcome of real requests feed a latency and error score per relayer.
+ * A failover fetch, installed as the SDK's fetch, sends each request meant for that
+ * URL to the best-ranked relayer instead, moving to the next one when a relayer does
+ * not answer or answers 5xx.
+ */
+
+export interface RelayerOutcome {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+}
+
+export interface RelayerStatus {
+  url: string;
+  healthy: boolean; // False after maxFailures failures in a row; still tried last
+  latencyMs: number | null; // Moving average of successful requests, null until one succeeds
+  errorRate: number; // Moving average of failures, 0 to 1
+  consecutiveFailures: number;
+  lastCheckedAt: number | null; // Unix timestamp (ms) of the last request or probe
+  lastError: string | null;
+  score: number; // Lower is better
+}
+
+export interface RelayerPool {
+  /** Relayer URLs, best first: healthy ones by score, then unhealthy ones */
+  ranked(): string[];
+  /** Feed the outcome of a request to a relayer into its score */
+  record(url: string, outcome: RelayerOutcome): void;
+  status(): RelayerStatus[];
+  /** Probe every relayer's /config once */
+  probe(): Promise<void>;
+  /** Probe now and then every probeIntervalMs */
+  start(): void;
+  stop(): void;
+}
+
+export interface RelayerPoolOptions {
+  fetch?: typeof fetch;
+  probeIntervalMs?: number;
+  probeTimeoutMs?: number;
+  maxFailures?: number;
+  now?: () => number;
+}
+
+export interface FailoverFetchOptions {
+  /** URL the SDK was built with; requests under it are sent to the candidates */
+  primaryUrl: string;
+  /** Relayer URLs to try, in order */
+  candidates: () => string[];
+  fetch?: typeof fetch;
+  /** Called after every attempt, e.g. to record it in a pool */
+  onAttempt?: (url: string, outcome: RelayerOutcome) => void;
+}
+
+/** Weight of the newest sample in the moving averages */
+const SMOOTHING = 0.3;
+/** Score added by an error rate of 1, in milliseconds of latency */
+const ERROR_PENALTY_MS = 5000;
+
+function normalizeUrl(url: string): string {
+  return url.trim().replace(/\/+$/, "");
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Relayer URLs from a comma-separated list, with primary first and duplicates and
+ * trailing slashes removed
+ */
+export function parseRelayerUrls(list: string | undefined, primary: string): string[] {
+  const urls = [primary, ...(list ?? "").split(",")].map(normalizeUrl).filter(Boolean);
+  return Array.from(new Set(urls));
+}
+
+export function createRelayerPool(
+  urls: string[],
+  {
+    fetch: fetchImpl = globalThis.fetch.bind(globalThis),
+    probeIntervalMs = 30_000,
+    probeTimeoutMs = 5_000,
+    maxFailures = 3,
+    now = Date.now,
+  }: RelayerPoolOptions = {}
+): RelayerPool {
+  const entries = new Map<string, Omit<RelayerStatus, "healthy" | "score">>(
+    urls.map(normalizeUrl).map((url) => [
+      url,
+      {
+        url,
+        latencyMs: null,
+        errorRate: 0,
+        consecutiveFailures: 0,
+        lastCheckedAt: null,
+        lastError: null,
+      },
+    ])
+  );
+  let timer: ReturnType<typeof setInterval> | null = null;
+
+  // Unmeasured relayers count as slow as a probe timeout, so measured ones go first
+  const toStatus = (entry: Omit<RelayerStatus, "healthy" | "score">): RelayerStatus => ({
+    ...entry,
+    healthy: entry.consecutiveFailures < maxFailures,
+    score: Math.round((entry.latencyMs ?? probeTimeoutMs) + entry.errorRate * ERROR_PENALTY_MS),
+  });
+
+  const pool: RelayerPool = {
+    ranked() {
+      // Stable sort: ties keep the configured order
+      return pool
+        .status()
+        .sort((a, b) => Number(b.healthy) - Number(a.healthy) || a.score - b.score)
+        .map((status) => status.url);
+    },
+
+    record(url, { ok, latencyMs, error }) {
+      const entry = entries.get(normalizeUrl(url));
+      if (!entry) return;
+      if (ok) {
+        entry.latencyMs =
+          entry.latencyMs === null
+            ? latencyMs
+            : entry.latencyMs + SMOOTHING * (latencyMs - entry.latencyMs);
+      }
+      entry.errorRate += SMOOTHING * ((ok ? 0 : 1) - entry.errorRate);
+      entry.consecutiveFailures = ok ? 0 : entry.consecutiveFailures + 1;
+      entry.lastCheckedAt = now();
+      if (!ok) entry.lastError = error ?? "Request failed";
+    },
+
+    status: () => Array.from(entries.values(), toStatus),
+
+    async probe() {
+      await Promise.all(
+        Array.from(entries.keys(), async (url) => {
+          const started = now();
+          try {
+            const res = await fetchImpl(`${url}/config`, {
+              signal: AbortSignal.timeout(probeTimeoutMs),
+            });
+            void res.body?.cancel();
+            pool.record(url, {
+              ok: res.ok,
+              latencyMs: now() - started,
+              error: res.ok ? undefined : `HTTP ${res.status}`,
+            });
+          } catch (error) {
+            pool.record(url, { ok: false, latencyMs: now() - started, error: errorMessage(error) });
+          }
+        })
+      );
+    },
+
+    start() {
+      if (timer) return;
+      void pool.probe();
+      timer = setInterval(() => void pool.probe(), probeIntervalMs);
+      // Don't keep a Node process alive just to probe
+      (timer as { unref?: () => void }).unref?.();
+    },
+
+    stop() {
+      if (timer) clearInterval(timer);
+      timer = null;
+    },
+  };
+  return pool;
+}
+
+/**
+ * fetch that sends requests under primaryUrl to the candidate relayers in turn, until
+ * one answers below 500. Other requests pass through. Retrying a relayer POST on
+ * another relayer is safe: the transaction it carries is already signed, and the
+ * program refuses spent nullifiers.
+ */
+export function createFailoverFetch({
+  primaryUrl,
+  candidates,
+  fetch: fetchImpl = globalThis.fetch.bind(globalThis),
+  onAttempt,
+}: FailoverFetchOptions): typeof fetch {
+  const primary = normalizeUrl(primaryUrl);
+
+  return async (input, init) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : null;
+    const rest = url?.startsWith(primary) ? url.slice(primary.length) : null;
+    if (rest === null || !/^([/?#]|$)/.test(rest)) return fetchImpl(input, init);
+
+    let lastResponse: Response | null = null;
+    let lastError: unknown = new Error("No relayer configured");
+    for (const relayer of candidates()) {
+      const started = Date.now();
+      try {
+        const res = await fetchImpl(`${relayer}${rest}`, init);
+        const latencyMs = Date.now() - started;
+        if (res.status < 500) {
+          onAttempt?.(relayer, { ok: true, latencyMs });
+          return res;
+        }
+        onAttempt?.(relayer, { ok: false, latencyMs, error: `HTTP ${res.status}` });
+        void lastResponse?.body?.cancel();
+        lastResponse = res;
+      } catch (error) {
+        // The caller gave up; don't move on to the next relayer
+        if (init?.signal?.aborted) throw error;
+        onAttempt?.(relayer, {
+          ok: false,
+          latencyMs: Date.now() - started,
+          error: errorMessage(error),
+        });
+        lastError = error;
+      }
+    }
+    if (lastResponse) return lastResponse;
+    throw lastError;
+  };
+}
@@ -0,0 +1,27 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { SOL_MINT, getTokenByMint, getTokenByName, tokenRegistry } from "./tokens";
+
+test("registry matches the SDK token list", async () => {
+  const { tokens } = await import("privacycash/utils");
+  assert.deepEqual(
+    tokenRegistry.map(({ name, mint, unitsPerToken }) => ({ name, mint, unitsPerToken })),
+    tokens.map((token) => ({
+      name: token.name,
+      mint: typeof token.pubkey === "string" ? token.pubkey : token.pubkey.toBase58(),
+      unitsPerToken: token.units_per_token,
+    }))
+  );
+});
+
+test("decimals follow units per token", () => {
+  for (const token of tokenRegistry) {
+    assert.equal(10 ** token.decimals, token.unitsPerToken);
+  }
+});
+
+test("lookups", () => {
+  assert.equal(getTokenByMint(SOL_MINT)?.name, "sol");
+  assert.equal(getTokenByName("usdc")?.label, "USDC");
+  assert.equal(getTokenByMint("unknown"), undefined);
+});
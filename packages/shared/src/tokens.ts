@@ -0,0 +1,100 @@
+/**
+ * Token registry
+ *
+ * The tokens Privacy Cash supports, in the SDK's order (privacycash/utils `tokens`).
+ * Mints honour the same NEXT_PUBLIC_<TOKEN>_MINT overrides as the SDK, so devnet setups
+ * resolve the same addresses on both sides.
+ */
+
+export interface TokenInfo {
+  name: string; // SDK token name, e.g. "usdc"
+  mint: string;
+  unitsPerToken: number;
+  decimals: number;
+  label: string; // Ticker shown to people, e.g. "USDC"
+  icon: string;
+  note?: string;
+}
+
+function icon(url: string) {
+  return `https://wsrv.nl/?w=32&h=32&url=${encodeURIComponent(url)}&dpr=2&quality=80`;
+}
+
+const TOKEN_LIST_ASSETS =
+  "https://raw.githubusercontent.com/solana-labs/token-list/main/assets/mainnet";
+
+export function getDecimals(unitsPerToken: number) {
+  let decimals = 0;
+  let value = unitsPerToken;
+  while (value > 1 && value % 10 === 0) {
+    decimals += 1;
+    value = value / 10;
+  }
+  return decimals;
+}
+
+function token(entry: Omit<TokenInfo, "decimals">): TokenInfo {
+  return { ...entry, decimals: getDecimals(entry.unitsPerToken) };
+}
+
+export const tokenRegistry: TokenInfo[] = [
+  token({
+    name: "sol",
+    mint: "So11111111111111111111111111111111111111112",
+    unitsPerToken: 1e9,
+    label: "SOL",
+    icon: icon(`${TOKEN_LIST_ASSETS}/So11111111111111111111111111111111111111112/logo.png`),
+  }),
+  token({
+    name: "usdc",
+    mint: process.env.NEXT_PUBLIC_USDC_MINT || "EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v",
+    unitsPerToken: 1e6,
+    label: "USDC",
+    icon: icon(`${TOKEN_LIST_ASSETS}/EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v/logo.png`),
+  }),
+  token({
+    name: "usdt",
+    mint: process.env.NEXT_PUBLIC_USDT_MINT || "Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB",
+    unitsPerToken: 1e6,
+    label: "USDT",
+    icon: icon(`${TOKEN_LIST_ASSETS}/Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB/logo.svg`),
+  }),
+  token({
+    name: "zec",
+    mint: process.env.NEXT_PUBLIC_ZEC_MINT || "A7bdiYdS5GjqGFtxf17ppRHtDKPkkRqbKtR27dxvQXaS",
+    unitsPerToken: 1e8,
+    label: "ZEC",
+    icon: icon("https://arweave.net/QSYqnmB7NYlB7n1R6rz935Y07dlRK0tIuKe2mof5Sho"),
+  }),
+  token({
+    name: "ore",
+    mint: process.env.NEXT_PUBLIC_ORE_MINT || "oreoU2P8bN6jkk3jbaiVxYnG1dCXcYxwhwyK9jSybcp",
+    unitsPerToken: 1e11,
+    label: "ORE",
+    icon: icon("https://ore.supply/assets/icon.png"),
+  }),
+  token({
+    name: "store",
+    mint: process.env.NEXT_PUBLIC_STORE_MINT || "sTorERYB6xAZ1SSbwpK3zoK2EEwbBrc7TZAzg1uCGiH",
+    unitsPerToken: 1e11,
+    label: "STORE",
+    icon: icon("https://ore.supply/assets/icon-lst.png"),
+  }),
+];
+
+const tokenByMint = new Map(tokenRegistry.map((entry) => [entry.mint, entry]));
+const tokenByName = new Map(tokenRegistry.map((entry) => [entry.name, entry]));
+
+export const SOL_MINT = tokenByName.get("sol")!.mint;
+
+export function getTokenByMint(mint: string): TokenInfo | undefined {
+  return tokenByMint.get(mint);
+}
+
+export function getTokenByName(name: string): TokenInfo | undefined {
+  return tokenByName.get(name);
+}
+
+export function isSolMint(mint: string) {
+  return mint === SOL_MINT;
+}